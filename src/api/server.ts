@@ -41,9 +41,10 @@ import { mcpContext } from "../utils/mcp-context.js";
 import { getWorkspaces } from "../utils/workspace-registry.js";
 import { getProjectConfig, isValidProject } from "../tools/projects.js";
 import { searchLibraries, listInstalledLibraries, installLibrary, uninstallLibrary } from "../tools/libraries.js";
-import { buildProject, cleanProject, checkProject, runTests } from "../tools/build.js";
+import { buildMatrix, buildProject, cleanProject, checkProject, runTests, firmwareSizeReport, listFirmwareArtifacts } from "../tools/build.js";
 import { uploadFirmware, uploadFilesystem } from "../tools/upload.js";
 import { GLOBAL_LOCKS_DIR } from "../utils/paths.js";
+import { PlatformIOError } from "../utils/errors.js";
 import { addWorkspace } from "../utils/workspace-registry.js";
 import { killAllTrackedProcesses, sweepGhostTasks } from "../utils/process-manager.js";
 import { execSync } from "node:child_process";
@@ -54,9 +55,11 @@ import {
   listApprovalRequests,
 } from "../core/policy/approvals.js";
 import { readRecentAuditEvents } from "../core/policy/audit-log.js";
+import { cancelTaskCore } from "../core/tasks.js";
 import { diagnoseBuildLog } from "../core/diagnostics/build-diagnostics.js";
 import { diagnoseUploadLog } from "../core/diagnostics/upload-diagnostics.js";
 import { diagnoseSerialLog } from "../core/diagnostics/serial-diagnostics.js";
+import { diagnoseTestLog } from "../core/diagnostics/test-diagnostics.js";
 import type { DiagnosticResult } from "../core/diagnostics/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -124,14 +127,18 @@ function diagnoseByTaskType(
   logText: string,
   rawLogPath?: string,
   success?: boolean,
+  projectDir?: string,
 ): DiagnosticResult {
   if (type === "upload") {
-    return diagnoseUploadLog(logText, { rawLogPath, success });
+    return diagnoseUploadLog(logText, { rawLogPath, success, projectDir });
   }
   if (type === "monitor") {
-    return diagnoseSerialLog(logText, { rawLogPath, success });
+    return diagnoseSerialLog(logText, { rawLogPath, success, projectDir });
   }
-  return diagnoseBuildLog(logText, { rawLogPath, success });
+  if (type === "test") {
+    return diagnoseTestLog(logText, { rawLogPath, success, projectDir });
+  }
+  return diagnoseBuildLog(logText, { rawLogPath, success, projectDir });
 }
 
 /**
@@ -381,6 +388,7 @@ export function startPortalServer(defaultPort = 8080) {
               logText,
               firstLogPath,
               success,
+              projectDir,
             );
             recentDiagnostics.push({
               commandId: cmd.id,
@@ -574,6 +582,23 @@ export function startPortalServer(defaultPort = 8080) {
     }, res);
   });
 
+  /**
+   * Builds several environments with bounded parallelism and aggregates the results.
+   * 
+   * Route: POST /api/commands/build_matrix
+   * 
+   * @param {string} req.body.projectDir - Path to the PlatformIO project directory
+   * @param {string[]} [req.body.environments] - Environments to build (defaults to all in platformio.ini)
+   * @param {number} [req.body.maxParallel] - Maximum number of concurrent builds
+   * @returns JSON object containing one result row per environment
+   */
+  app.post("/api/commands/build_matrix", async (req, res) => {
+    executeDashboardCommand("build_matrix", req.body.projectDir, req.body, async () => {
+      const { projectDir, environments, maxParallel } = req.body;
+      return await buildMatrix(projectDir, environments, maxParallel);
+    }, res);
+  });
+
   /**
    * Forcefully cleans all server locks and terminates tracked compilation PIDs.
    * 
@@ -608,6 +633,29 @@ export function startPortalServer(defaultPort = 8080) {
     }, res);
   });
 
+  /**
+   * Cancels one running background task by killing its process tree. Other tasks keep running.
+   * 
+   * Route: POST /api/tasks/:id/cancel
+   * 
+   * @param {string} req.params.id - Task ID returned by the background command
+   * @param {string} [req.body.projectDir] - Optional project directory whose registry holds the task
+   * @returns JSON object listing the cancelled processes and their kept logs
+   */
+  app.post("/api/tasks/:id/cancel", async (req, res) => {
+    try {
+      const result = await cancelTaskCore({
+        taskId: req.params.id,
+        projectDir: req.body?.projectDir,
+      });
+      res.json(result);
+    } catch (error: unknown) {
+      const code = error instanceof PlatformIOError ? error.code : undefined;
+      const status = code === "TASK_NOT_FOUND" ? 404 : code === "TASK_NOT_RUNNING" ? 409 : 500;
+      res.status(status).json({ error: (error as Error).message });
+    }
+  });
+
   /**
    * Opens a native OS dialog to select and register a new PlatformIO workspace.
    * 
@@ -711,12 +759,30 @@ export function startPortalServer(defaultPort = 8080) {
    * @param {string} [req.body.port] - Optional upload port (auto-detected if not specified)
    * @param {boolean} [req.body.start_monitor] - If true, starts serial monitor after upload
    * @param {boolean} [req.body.verbose] - If true, returns verbose upload log
+   * @param {string} [req.body.artifactId] - Recorded firmware build to flash instead of the current build output
    * @returns JSON object containing the command execution result
    */
   app.post("/api/commands/upload_firmware", async (req, res) => {
     executeDashboardCommand("upload_firmware", req.body.projectDir, req.body, async () => {
-      const { projectDir, environment, port, start_monitor, verbose } = req.body;
-      return await uploadFirmware(projectDir, port, environment, verbose, true, start_monitor);
+      const { projectDir, environment, port, start_monitor, verbose, artifactId } = req.body;
+      return await uploadFirmware(projectDir, port, environment, verbose, true, start_monitor, artifactId);
+    }, res);
+  });
+
+  /**
+   * Lists recorded firmware builds and the last known-good build per environment.
+   * 
+   * Route: POST /api/commands/list_firmware_artifacts
+   * 
+   * @param {string} req.body.projectDir - Path to the PlatformIO project directory
+   * @param {string} [req.body.environment] - Only list this environment
+   * @param {number} [req.body.limit] - Number of most recent artifacts to list
+   * @returns JSON object containing the recorded artifacts
+   */
+  app.post("/api/commands/list_firmware_artifacts", async (req, res) => {
+    executeDashboardCommand("list_firmware_artifacts", req.body.projectDir, req.body, async () => {
+      const { projectDir, environment, limit } = req.body;
+      return await listFirmwareArtifacts(projectDir, environment, limit);
     }, res);
   });
 
@@ -851,6 +917,40 @@ export function startPortalServer(defaultPort = 8080) {
     }
   });
 
+  /**
+   * Reports firmware size by section, symbol, object file and library.
+   * 
+   * Route: GET /api/projects/size
+   * 
+   * @param {string} req.query.projectDir - Path to the PlatformIO project directory
+   * @param {string} [req.query.environment] - Environment to analyze (defaults to the most recent build)
+   * @param {number} [req.query.top] - Number of symbols and object files to list
+   * @returns JSON firmware size report
+   */
+  app.get("/api/projects/size", async (req, res) => {
+    try {
+      const { projectDir, environment, top } = req.query;
+      if (!projectDir) {
+        res.status(400).json({ error: "Missing projectDir parameter" });
+        return;
+      }
+      const limit = top === undefined ? undefined : Number(top);
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 200)) {
+        res.status(400).json({ error: "top must be an integer between 1 and 200" });
+        return;
+      }
+      const report = await firmwareSizeReport(
+        projectDir as string,
+        (environment as string | undefined) || undefined,
+        limit,
+      );
+      res.json(report);
+    } catch (error: unknown) {
+      const notBuilt = error instanceof PlatformIOError && error.code === "FIRMWARE_NOT_FOUND";
+      res.status(notBuilt ? 404 : 500).json({ error: (error as Error).message });
+    }
+  });
+
   /**
    * Searches the PlatformIO library registry for available libraries.
    * 
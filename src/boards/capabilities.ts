@@ -0,0 +1,100 @@
+/**
+ * Board Peripheral Capabilities
+ *
+ * Provides:
+ * - getAdcCapablePins: All analog-input pins across ADC units.
+ * - getBootPins: Strapping/boot-mode pins sampled at reset.
+ * - comparePins: Orders pins numerically, GPIO numbers before named pins.
+ * - buildCapabilityTable: Flattens a capability map into per-pin rows.
+ */
+
+import type {
+  BoardCapabilityRow,
+  BoardPin,
+  BoardPinCapabilities,
+  BoardPinProfile,
+} from "./types.js";
+
+/**
+ * Collects every analog-input pin across ADC units.
+ *
+ * @param capabilities - Peripheral capability map.
+ * @returns ADC-capable pins, or undefined when the map declares no ADC data.
+ */
+export function getAdcCapablePins(
+  capabilities: BoardPinCapabilities | undefined,
+): BoardPin[] | undefined {
+  if (!capabilities) return undefined;
+  const { adc, adc1, adc2 } = capabilities;
+  if (!adc && !adc1 && !adc2) return undefined;
+  return [...(adc ?? []), ...(adc1 ?? []), ...(adc2 ?? [])];
+}
+
+/**
+ * Lists the pins a board samples at reset to pick its boot mode. Without
+ * an explicit list, dangerous pins count as boot pins unless the profile
+ * gives them another reason.
+ *
+ * @param pinProfile - Pin safety profile.
+ * @returns Strapping/boot-mode pins.
+ */
+export function getBootPins(pinProfile: BoardPinProfile): BoardPin[] {
+  return pinProfile.bootPins ?? (pinProfile.dangerousPinReason ? [] : pinProfile.dangerousPins);
+}
+
+/**
+ * Orders pins numerically, with GPIO numbers before named pins.
+ *
+ * @param a - First pin.
+ * @param b - Second pin.
+ * @returns Negative, zero or positive, as for `Array.prototype.sort`.
+ */
+export function comparePins(a: BoardPin, b: BoardPin): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "number") return -1;
+  if (typeof b === "number") return 1;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Flattens a capability map into a pin-sorted capability table.
+ *
+ * @param capabilities - Peripheral capability map.
+ * @returns One row per pin listing its capability tags.
+ */
+export function buildCapabilityTable(
+  capabilities: BoardPinCapabilities | undefined,
+): BoardCapabilityRow[] {
+  if (!capabilities) return [];
+  const rows = new Map<BoardPin, string[]>();
+  const tag = (pin: BoardPin, label: string) => {
+    const existing = rows.get(pin) ?? [];
+    existing.push(label);
+    rows.set(pin, existing);
+  };
+
+  capabilities.adc?.forEach((pin, channel) => tag(pin, `ADC_CH${channel}`));
+  capabilities.adc1?.forEach((pin, channel) => tag(pin, `ADC1_CH${channel}`));
+  capabilities.adc2?.forEach((pin, channel) => tag(pin, `ADC2_CH${channel}`));
+  capabilities.dac?.forEach((pin, channel) => tag(pin, `DAC${channel + 1}`));
+  capabilities.touch?.forEach((pin) => tag(pin, "TOUCH"));
+  capabilities.rtc?.forEach((pin) => tag(pin, "RTC"));
+  if (capabilities.i2c) {
+    tag(capabilities.i2c.sda, "I2C_SDA");
+    tag(capabilities.i2c.scl, "I2C_SCL");
+  }
+  if (capabilities.spi) {
+    tag(capabilities.spi.mosi, "SPI_MOSI");
+    tag(capabilities.spi.miso, "SPI_MISO");
+    tag(capabilities.spi.sck, "SPI_SCK");
+    tag(capabilities.spi.cs, "SPI_CS");
+  }
+  if (capabilities.uart) {
+    tag(capabilities.uart.tx, "UART_TX");
+    tag(capabilities.uart.rx, "UART_RX");
+  }
+
+  return Array.from(rows.entries())
+    .sort(([a], [b]) => comparePins(a, b))
+    .map(([pin, tags]) => ({ pin, capabilities: tags }));
+}
@@ -3,12 +3,15 @@
  *
  * Provides:
  * - esp32BoardProfile: Baseline board intelligence for ESP32-family targets.
+ * - esp32s2BoardProfile / esp32s3BoardProfile: Xtensa variant refinements.
+ * - esp32c3BoardProfile / esp32c6BoardProfile: RISC-V variant refinements.
  */
 
 import type { BoardProfile } from "./types.js";
 
 /**
  * Baseline ESP32 profile used for pin-risk and runtime defaults.
+ * Matches classic ESP32 MCUs directly and any espressif32 target by fallback.
  */
 export const esp32BoardProfile: BoardProfile = {
   key: "esp32",
@@ -18,9 +21,142 @@ export const esp32BoardProfile: BoardProfile = {
     dangerousPins: [0, 2, 4, 5, 12, 15],
     inputOnlyPins: [34, 35, 36, 37, 38, 39],
     flashSpiPins: [6, 7, 8, 9, 10, 11],
+    capabilities: {
+      adc1: [36, 37, 38, 39, 32, 33, 34, 35],
+      adc2: [4, 0, 2, 15, 13, 12, 14, 27, 25, 26],
+      dac: [25, 26],
+      touch: [4, 0, 2, 15, 13, 12, 14, 27, 33, 32],
+      rtc: [0, 2, 4, 12, 13, 14, 15, 25, 26, 27, 32, 33, 34, 35, 36, 37, 38, 39],
+      i2c: { sda: 21, scl: 22 },
+      spi: { mosi: 23, miso: 19, sck: 18, cs: 5 },
+      uart: { tx: 1, rx: 3 },
+    },
     saferAlternatives: [25, 26, 27],
   },
   boardIdPattern: /^esp32/i,
   platformPattern: /espressif32/i,
-  mcuPattern: /esp32/i,
+  mcuPattern: /^esp32$/i,
+};
+
+/**
+ * ESP32-S2 profile: strapping on GPIO0/45/46, native USB on GPIO19/20,
+ * in-package flash on GPIO26–32 and input-only GPIO46.
+ */
+export const esp32s2BoardProfile: BoardProfile = {
+  key: "esp32s2",
+  parentKey: "esp32",
+  title: "ESP32-S2",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    dangerousPins: [0, 45, 46],
+    inputOnlyPins: [46],
+    flashSpiPins: [26, 27, 28, 29, 30, 31, 32],
+    usbPins: [19, 20],
+    capabilities: {
+      adc1: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+      adc2: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20],
+      dac: [17, 18],
+      touch: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+      rtc: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21],
+      i2c: { sda: 8, scl: 9 },
+      spi: { mosi: 35, miso: 37, sck: 36, cs: 34 },
+      uart: { tx: 43, rx: 44 },
+    },
+    saferAlternatives: [4, 5, 6, 7, 8, 9],
+  },
+  boardIdPattern: /esp32-?s2|(^|_)s2(_|$)/i,
+  platformPattern: /espressif32/i,
+  mcuPattern: /^esp32-?s2/i,
+};
+
+/**
+ * ESP32-S3 profile: strapping on GPIO0/3/45/46, native USB on GPIO19/20,
+ * flash on GPIO26–32 and octal PSRAM on GPIO35–37.
+ */
+export const esp32s3BoardProfile: BoardProfile = {
+  key: "esp32s3",
+  parentKey: "esp32",
+  title: "ESP32-S3",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    dangerousPins: [0, 3, 45, 46],
+    inputOnlyPins: [],
+    flashSpiPins: [26, 27, 28, 29, 30, 31, 32, 35, 36, 37],
+    usbPins: [19, 20],
+    capabilities: {
+      adc1: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+      adc2: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20],
+      dac: [],
+      touch: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+      rtc: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21],
+      i2c: { sda: 8, scl: 9 },
+      spi: { mosi: 11, miso: 13, sck: 12, cs: 10 },
+      uart: { tx: 43, rx: 44 },
+    },
+    saferAlternatives: [4, 5, 6, 7, 15, 16, 17, 18],
+  },
+  boardIdPattern: /esp32-?s3|(^|_)s3(_|$)/i,
+  platformPattern: /espressif32/i,
+  mcuPattern: /^esp32-?s3/i,
+};
+
+/**
+ * ESP32-C3 profile: strapping on GPIO2/8/9, native USB on GPIO18/19 and
+ * flash on GPIO12–17. GPIO0–21 only, with no input-only pins.
+ */
+export const esp32c3BoardProfile: BoardProfile = {
+  key: "esp32c3",
+  parentKey: "esp32",
+  title: "ESP32-C3",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    dangerousPins: [2, 8, 9],
+    inputOnlyPins: [],
+    flashSpiPins: [12, 13, 14, 15, 16, 17],
+    usbPins: [18, 19],
+    capabilities: {
+      adc1: [0, 1, 2, 3, 4],
+      adc2: [5],
+      dac: [],
+      touch: [],
+      rtc: [0, 1, 2, 3, 4, 5],
+      i2c: { sda: 8, scl: 9 },
+      spi: { mosi: 6, miso: 5, sck: 4, cs: 7 },
+      uart: { tx: 21, rx: 20 },
+    },
+    saferAlternatives: [4, 5, 6, 7, 10],
+  },
+  boardIdPattern: /esp32-?c3|(^|_)c3(_|$)/i,
+  platformPattern: /espressif32/i,
+  mcuPattern: /^esp32-?c3/i,
+};
+
+/**
+ * ESP32-C6 profile: strapping on GPIO4/5/8/9/15, native USB on GPIO12/13 and
+ * flash on GPIO24–30.
+ */
+export const esp32c6BoardProfile: BoardProfile = {
+  key: "esp32c6",
+  parentKey: "esp32",
+  title: "ESP32-C6",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    dangerousPins: [4, 5, 8, 9, 15],
+    inputOnlyPins: [],
+    flashSpiPins: [24, 25, 26, 27, 28, 29, 30],
+    usbPins: [12, 13],
+    capabilities: {
+      adc1: [0, 1, 2, 3, 4, 5, 6],
+      dac: [],
+      touch: [],
+      rtc: [0, 1, 2, 3, 4, 5, 6, 7],
+      i2c: { sda: 23, scl: 22 },
+      spi: { mosi: 19, miso: 20, sck: 21, cs: 18 },
+      uart: { tx: 16, rx: 17 },
+    },
+    saferAlternatives: [2, 3, 6, 7, 10, 11, 18, 19],
+  },
+  boardIdPattern: /esp32-?c6|(^|_)c6(_|$)/i,
+  platformPattern: /espressif32/i,
+  mcuPattern: /^esp32-?c6/i,
 };
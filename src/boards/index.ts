@@ -3,17 +3,39 @@
  *
  * Provides:
  * - getBoardProfile: Resolves board intelligence profile from board metadata.
+ * - resolveBoardProfile: Resolves a profile and reports user profile load errors.
  * - boardProfiles: Registry of known board family profiles.
+ * - normalizePinToken: Canonicalizes numeric and port-style pin tokens.
+ * - formatPinLabel: Human-readable label for a board pin.
  */
 
-import { esp32BoardProfile } from "./esp32-profile.js";
-import type { BoardProfile } from "./types.js";
+import {
+  esp32BoardProfile,
+  esp32c3BoardProfile,
+  esp32c6BoardProfile,
+  esp32s2BoardProfile,
+  esp32s3BoardProfile,
+} from "./esp32-profile.js";
+import { rp2040BoardProfile } from "./rp2040-profile.js";
+import { stm32BoardProfile, stm32f1BoardProfile, stm32f4BoardProfile } from "./stm32-profile.js";
+import type { BoardPin, BoardProfile } from "./types.js";
+import { loadUserBoardProfiles } from "./user-profiles.js";
 
 /**
  * Registry of known board-family profiles.
  * Additive-only to preserve predictable matcher behavior.
  */
-export const boardProfiles: BoardProfile[] = [esp32BoardProfile];
+export const boardProfiles: BoardProfile[] = [
+  esp32BoardProfile,
+  rp2040BoardProfile,
+  stm32BoardProfile,
+  esp32s2BoardProfile,
+  esp32s3BoardProfile,
+  esp32c3BoardProfile,
+  esp32c6BoardProfile,
+  stm32f1BoardProfile,
+  stm32f4BoardProfile,
+];
 
 /**
  * Minimal board metadata shape used for profile resolution.
@@ -22,6 +44,83 @@ export interface BoardProfileLookupInput {
   boardId: string;
   platform?: string;
   mcu?: string;
+  projectDir?: string; // Workspace whose user-defined profiles take priority
+}
+
+/**
+ * Board profile resolution outcome including user profile load errors.
+ */
+export interface BoardProfileResolution {
+  profile?: BoardProfile;
+  profileErrors: string[];
+}
+
+/**
+ * Scores how strongly a profile matches the lookup input.
+ * MCU evidence outweighs board-ID evidence, which outweighs platform evidence.
+ * Variant profiles earn the platform point only on top of MCU or board-ID
+ * evidence, so a platform-only match falls back to the family baseline
+ * instead of an arbitrary variant, while a matched variant ties its parent
+ * and wins the tie.
+ */
+function scoreBoardProfile(
+  profile: BoardProfile,
+  boardId: string,
+  platform: string,
+  mcu: string,
+): number {
+  let score = 0;
+  if (mcu && profile.mcuPattern.test(mcu)) score += 4;
+  if (profile.boardIdPattern.test(boardId)) score += 2;
+  if (platform && (!profile.parentKey || score > 0) && profile.platformPattern.test(platform)) {
+    score += 1;
+  }
+  return score;
+}
+
+function findBestProfile(
+  profiles: BoardProfile[],
+  boardId: string,
+  platform: string,
+  mcu: string,
+): BoardProfile | undefined {
+  let best: BoardProfile | undefined;
+  let bestScore = 0;
+  for (const profile of profiles) {
+    const score = scoreBoardProfile(profile, boardId, platform, mcu);
+    if (score === 0) continue;
+    const refinesBest = best !== undefined && profile.parentKey === best.key;
+    if (score > bestScore || (score === bestScore && refinesBest)) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Resolves a board profile and reports user profile load errors.
+ *
+ * User-defined profiles are consulted in tiers: the workspace file first, then
+ * the server data dir file, then the built-in registry. Within a tier the most
+ * specific match wins; on a tie a variant beats its parent family.
+ *
+ * @param input - Board metadata used to select a known profile.
+ * @returns Matching profile, if any, plus line-annotated profile file errors.
+ */
+export function resolveBoardProfile(
+  input: BoardProfileLookupInput,
+): BoardProfileResolution {
+  const boardId = input.boardId.trim();
+  const platform = input.platform?.trim() ?? "";
+  const mcu = input.mcu?.trim() ?? "";
+  const user = loadUserBoardProfiles(input.projectDir);
+
+  for (const tier of [user.workspaceProfiles, user.serverProfiles, boardProfiles]) {
+    const profile = findBestProfile(tier, boardId, platform, mcu);
+    if (profile) return { profile, profileErrors: user.errors };
+  }
+  return { profileErrors: user.errors };
 }
 
 /**
@@ -33,14 +132,42 @@ export interface BoardProfileLookupInput {
 export function getBoardProfile(
   input: BoardProfileLookupInput,
 ): BoardProfile | undefined {
-  const boardId = input.boardId.trim();
-  const platform = input.platform?.trim() ?? "";
-  const mcu = input.mcu?.trim() ?? "";
+  return resolveBoardProfile(input).profile;
+}
 
-  return boardProfiles.find((profile) => {
-    if (profile.boardIdPattern.test(boardId)) return true;
-    if (platform && profile.platformPattern.test(platform)) return true;
-    if (mcu && profile.mcuPattern.test(mcu)) return true;
-    return false;
-  });
+/**
+ * Canonicalizes a source-level pin token into a board pin identifier.
+ * Accepts plain GPIO numbers, ESP-IDF `GPIO_NUM_x` constants, and port-style
+ * names in Arduino (`PA5`) or mbed (`PA_5`) spelling.
+ *
+ * @param token - Raw token from source code.
+ * @returns Normalized board pin, or undefined when the token is not a pin literal.
+ */
+export function normalizePinToken(token: string): BoardPin | undefined {
+  const trimmed = token.trim();
+  if (/^\d{1,3}$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10);
+  }
+
+  const gpioNumMatch = /^GPIO_NUM_(\d{1,2})$/.exec(trimmed);
+  if (gpioNumMatch) {
+    return Number.parseInt(gpioNumMatch[1], 10);
+  }
+
+  const portMatch = /^P([A-K])_?(\d{1,2})$/i.exec(trimmed);
+  if (portMatch) {
+    return `P${portMatch[1].toUpperCase()}${Number.parseInt(portMatch[2], 10)}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Formats a board pin for human-readable findings.
+ *
+ * @param pin - Numeric GPIO index or port-style pin name.
+ * @returns `GPIOn` for numeric pins, or the port-style name as-is.
+ */
+export function formatPinLabel(pin: BoardPin): string {
+  return typeof pin === "number" ? `GPIO${pin}` : pin;
 }
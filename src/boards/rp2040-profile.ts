@@ -0,0 +1,48 @@
+/**
+ * RP2040 Board Profile
+ *
+ * Provides:
+ * - rp2040BoardProfile: Baseline board intelligence for RP2040-family targets.
+ */
+
+import type { BoardProfile } from "./types.js";
+
+/**
+ * Baseline RP2040 profile used for pin-risk and runtime defaults.
+ *
+ * QSPI flash and SWD live on dedicated pads outside the GPIO0–29 bank, so they
+ * are tracked by name. GPIO23/24/29 drive the SMPS mode, VBUS sense and VSYS
+ * sense circuits on Pico-class boards.
+ */
+export const rp2040BoardProfile: BoardProfile = {
+  key: "rp2040",
+  title: "RP2040 Family",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    dangerousPins: [23, 24, 29],
+    dangerousPinReason: "board-reserved power-management pin (SMPS mode/VBUS/VSYS sense)",
+    dangerousPinImpact: "may disturb the regulator mode or the VBUS/VSYS readings",
+    inputOnlyPins: [],
+    flashSpiPins: [],
+    dedicatedPins: [
+      "QSPI_SCLK",
+      "QSPI_SS",
+      "QSPI_SD0",
+      "QSPI_SD1",
+      "QSPI_SD2",
+      "QSPI_SD3",
+      "SWCLK",
+      "SWDIO",
+    ],
+    capabilities: {
+      adc: [26, 27, 28, 29],
+      i2c: { sda: 4, scl: 5 },
+      spi: { mosi: 19, miso: 16, sck: 18, cs: 17 },
+      uart: { tx: 0, rx: 1 },
+    },
+    saferAlternatives: [2, 3, 6, 7, 8, 9],
+  },
+  boardIdPattern: /^(pico|rpipico)$|rp2040/i,
+  platformPattern: /raspberrypi/i,
+  mcuPattern: /rp2040/i,
+};
@@ -0,0 +1,77 @@
+/**
+ * STM32 Board Profile
+ *
+ * Provides:
+ * - stm32BoardProfile: Baseline board intelligence for STM32-family targets.
+ * - stm32f1BoardProfile / stm32f4BoardProfile: Series refinements for the
+ *   parts that sample BOOT1 on PB2.
+ */
+
+import type { BoardProfile } from "./types.js";
+
+/**
+ * Baseline STM32 profile used for pin-risk and runtime defaults.
+ *
+ * Pins use port-style names. PA13/PA14 carry SWDIO/SWCLK after reset, and
+ * PH0/PH1 and PC14/PC15 host the HSE and LSE crystals. Series-specific boot
+ * and oscillator pins live in the series profiles below.
+ */
+export const stm32BoardProfile: BoardProfile = {
+  key: "stm32",
+  title: "STM32 Family",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    dangerousPins: [],
+    inputOnlyPins: [],
+    flashSpiPins: [],
+    debugPins: ["PA13", "PA14"],
+    oscillatorPins: ["PH0", "PH1", "PC14", "PC15"],
+    dedicatedPins: ["BOOT0", "NRST"],
+    saferAlternatives: ["PA0", "PA1", "PA4", "PA6", "PA7", "PB0", "PB1"],
+  },
+  boardIdPattern: /^(nucleo_|disco_|bluepill|blackpill|genericstm32)/i,
+  platformPattern: /ststm32/i,
+  mcuPattern: /^stm32/i,
+};
+
+/**
+ * STM32F1 profile: PB2 doubles as BOOT1, and the low-pin-count packages
+ * (Blue Pill's LQFP48 among them) remap OSC_IN/OSC_OUT onto PD0/PD1.
+ */
+export const stm32f1BoardProfile: BoardProfile = {
+  key: "stm32f1",
+  parentKey: "stm32",
+  title: "STM32F1",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    ...stm32BoardProfile.pinProfile,
+    dangerousPins: ["PB2"],
+    dangerousPinReason: "BOOT1 boot-mode pin",
+    dangerousPinImpact: "may select the wrong boot mode when held at reset",
+    bootPins: ["PB2"],
+    oscillatorPins: ["PD0", "PD1", "PC14", "PC15"],
+  },
+  boardIdPattern: /^(bluepill|(?:nucleo_|disco_|blackpill_|genericstm32)f1)/i,
+  platformPattern: /ststm32/i,
+  mcuPattern: /^stm32f1/i,
+};
+
+/**
+ * STM32F2/F4 profile: PB2 doubles as BOOT1.
+ */
+export const stm32f4BoardProfile: BoardProfile = {
+  key: "stm32f4",
+  parentKey: "stm32",
+  title: "STM32F2/F4",
+  defaultMonitorBaudRate: 115200,
+  pinProfile: {
+    ...stm32BoardProfile.pinProfile,
+    dangerousPins: ["PB2"],
+    dangerousPinReason: "BOOT1 boot-mode pin",
+    dangerousPinImpact: "may select the wrong boot mode when held at reset",
+    bootPins: ["PB2"],
+  },
+  boardIdPattern: /^(?:nucleo_|disco_|blackpill_|genericstm32)f[24]/i,
+  platformPattern: /ststm32/i,
+  mcuPattern: /^stm32f[24]/i,
+};
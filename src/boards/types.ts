@@ -2,18 +2,85 @@
  * Board Intelligence Type Contracts
  *
  * Provides:
+ * - BoardPin: Numeric GPIO index or port-style pin name (e.g. `PA5`).
  * - BoardPinProfile: Risk-classified GPIO metadata for a board family.
+ * - BoardUartPins / BoardI2cPins / BoardSpiPins: Default bus pin assignments.
+ * - BoardPinCapabilities: Peripheral capability map for a board family.
+ * - BoardCapabilityRow: Per-pin capability table entry.
  * - BoardProfile: Unified board profile metadata for agent workflows.
  */
 
+/**
+ * Board pin identifier. Numeric for GPIO-indexed families (ESP32, RP2040),
+ * upper-case port-style names for port-indexed families (STM32 `PA5`, `PB12`).
+ */
+export type BoardPin = number | string;
+
+/**
+ * Default UART pin assignment for a board family.
+ */
+export interface BoardUartPins {
+  tx: BoardPin; // Default UART transmit pin
+  rx: BoardPin; // Default UART receive pin
+}
+
+/**
+ * Default I2C pin assignment for a board family.
+ */
+export interface BoardI2cPins {
+  sda: BoardPin; // Default I2C data pin
+  scl: BoardPin; // Default I2C clock pin
+}
+
+/**
+ * Default SPI pin assignment for a board family.
+ */
+export interface BoardSpiPins {
+  mosi: BoardPin; // Default SPI controller-out pin
+  miso: BoardPin; // Default SPI controller-in pin
+  sck: BoardPin; // Default SPI clock pin
+  cs: BoardPin; // Default SPI chip-select pin
+}
+
+/**
+ * Peripheral capability map. Channel lists are ordered by channel number.
+ */
+export interface BoardPinCapabilities {
+  adc?: BoardPin[]; // Single-unit ADC pins (e.g. RP2040 ADC0–3)
+  adc1?: BoardPin[]; // ADC unit 1 pins
+  adc2?: BoardPin[]; // ADC unit 2 pins (shared with the WiFi radio on ESP32 parts)
+  dac?: BoardPin[]; // DAC output pins; an empty list means the chip has no DAC
+  touch?: BoardPin[]; // Capacitive touch pins
+  rtc?: BoardPin[]; // Pins usable from the RTC/low-power domain (deep-sleep wake)
+  i2c?: BoardI2cPins; // Default I2C pins used by the framework
+  spi?: BoardSpiPins; // Default SPI pins used by the framework
+  uart?: BoardUartPins; // Default UART pins used by the framework
+}
+
+/**
+ * Per-pin capability table entry for board reports.
+ */
+export interface BoardCapabilityRow {
+  pin: BoardPin; // Pin identifier
+  capabilities: string[]; // Capability tags, e.g. "ADC1_CH4", "DAC1", "TOUCH", "I2C_SDA"
+}
+
 /**
  * Pin safety profile for a board family.
  */
 export interface BoardPinProfile {
-  dangerousPins: number[]; // Pins with elevated boot/runtime risk
-  inputOnlyPins: number[]; // Pins that cannot source output
-  flashSpiPins: number[]; // Pins reserved by onboard flash/SPI
-  saferAlternatives: number[]; // Suggested safer general-purpose pins
+  dangerousPins: BoardPin[]; // Pins with elevated boot/runtime risk
+  dangerousPinReason?: string; // Why dangerous pins are risky (defaults to strapping/boot)
+  dangerousPinImpact?: string; // What reusing a dangerous pin breaks (defaults to boot/flash stability without dangerousPinReason)
+  bootPins?: BoardPin[]; // Strapping/boot-mode pins sampled at reset (defaults to dangerousPins without dangerousPinReason)
+  inputOnlyPins: BoardPin[]; // Pins that cannot source output
+  flashSpiPins: BoardPin[]; // Pins reserved by onboard flash/SPI
+  debugPins?: BoardPin[]; // Pins muxed to the debug port (SWD/JTAG) after reset
+  oscillatorPins?: BoardPin[]; // Pins wired to external HSE/LSE crystals
+  usbPins?: BoardPin[]; // Pins wired to native USB D-/D+
+  dedicatedPins?: string[]; // Non-GPIO pads (e.g. QSPI/SWD/BOOT0) unavailable to application code
+  capabilities?: BoardPinCapabilities; // Peripheral capability map
+  saferAlternatives: BoardPin[]; // Suggested safer general-purpose pins
 }
 
 /**
@@ -21,7 +88,9 @@ export interface BoardPinProfile {
  */
 export interface BoardProfile {
   key: string; // Stable key for profile matching
+  parentKey?: string; // Broader family profile this variant refines
   title: string; // Human-readable profile name
+  source?: string; // File the profile was loaded from (built-ins leave this unset)
   defaultMonitorBaudRate: number; // Preferred serial monitor baud rate
   pinProfile: BoardPinProfile; // Pin safety and capability metadata
   boardIdPattern: RegExp; // Pattern used for board-id family matching
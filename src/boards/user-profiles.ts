@@ -0,0 +1,190 @@
+/**
+ * User-Defined Board Profiles
+ *
+ * Provides:
+ * - BOARD_PROFILE_FILE_NAMES: Accepted `board-profiles` file names.
+ * - UserBoardProfileListSchema / UserBoardProfileFileSchema: Zod schemas for board profile files.
+ * - UserBoardProfiles: Loaded workspace/server profiles plus load errors.
+ * - loadUserBoardProfiles: Loads profiles from a workspace's `.pio-mcp/` and the server data dir.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { SERVER_DATA_DIR } from "../utils/paths.js";
+import {
+  StructuredConfigError,
+  describeZodIssues,
+  formatConfigIssue,
+  loadStructuredConfigFile,
+} from "../utils/structured-config.js";
+import type { BoardPin, BoardProfile } from "./types.js";
+
+/**
+ * File names probed, in order, in each profile directory.
+ */
+export const BOARD_PROFILE_FILE_NAMES = [
+  "board-profiles.json",
+  "board-profiles.yaml",
+  "board-profiles.yml",
+];
+
+// Matches nothing; used when a user profile omits a pattern.
+const NEVER_MATCHES = /$^/;
+
+function isValidPattern(source: string): boolean {
+  try {
+    new RegExp(source, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const PatternSchema = z
+  .string()
+  .min(1)
+  .refine(isValidPattern, { message: "Invalid regular expression" });
+
+const PinSchema = z.union([
+  z.number().int().nonnegative(),
+  z
+    .string()
+    .trim()
+    .min(1)
+    .transform((value): BoardPin => {
+      if (/^\d+$/.test(value)) return Number.parseInt(value, 10);
+      return value.toUpperCase().replace(/^(P[A-K])_/, "$1");
+    }),
+]);
+
+const PinListSchema = z.array(PinSchema).default([]);
+
+const UserBoardProfileSchema = z.object({
+  key: z.string().min(1),
+  parentKey: z.string().min(1).optional(),
+  title: z.string().min(1),
+  defaultMonitorBaudRate: z.number().int().positive().default(115200),
+  boardIdPattern: PatternSchema,
+  platformPattern: PatternSchema.optional(),
+  mcuPattern: PatternSchema.optional(),
+  pinProfile: z
+    .object({
+      dangerousPins: PinListSchema,
+      dangerousPinReason: z.string().min(1).optional(),
+      dangerousPinImpact: z.string().min(1).optional(),
+      bootPins: z.array(PinSchema).optional(),
+      inputOnlyPins: PinListSchema,
+      flashSpiPins: PinListSchema,
+      debugPins: z.array(PinSchema).optional(),
+      oscillatorPins: z.array(PinSchema).optional(),
+      usbPins: z.array(PinSchema).optional(),
+      dedicatedPins: z.array(z.string().min(1)).optional(),
+      capabilities: z
+        .object({
+          adc: z.array(PinSchema).optional(),
+          adc1: z.array(PinSchema).optional(),
+          adc2: z.array(PinSchema).optional(),
+          dac: z.array(PinSchema).optional(),
+          touch: z.array(PinSchema).optional(),
+          rtc: z.array(PinSchema).optional(),
+          i2c: z.object({ sda: PinSchema, scl: PinSchema }).optional(),
+          spi: z
+            .object({ mosi: PinSchema, miso: PinSchema, sck: PinSchema, cs: PinSchema })
+            .optional(),
+          uart: z.object({ tx: PinSchema, rx: PinSchema }).optional(),
+        })
+        .strict()
+        .optional(),
+      saferAlternatives: PinListSchema,
+    })
+    .strict(),
+});
+
+/**
+ * Board profile file written as a bare list of profiles.
+ */
+export const UserBoardProfileListSchema = z.array(UserBoardProfileSchema);
+
+/**
+ * Board profile file written as `{ profiles: [...] }`.
+ */
+export const UserBoardProfileFileSchema = z.object({
+  profiles: UserBoardProfileListSchema,
+});
+
+/**
+ * User profiles grouped by priority tier.
+ */
+export interface UserBoardProfiles {
+  workspaceProfiles: BoardProfile[]; // Profiles from `<projectDir>/.pio-mcp`
+  serverProfiles: BoardProfile[]; // Profiles from the server data directory
+  errors: string[]; // Line-annotated parse and validation errors
+}
+
+function toBoardProfile(
+  entry: z.infer<typeof UserBoardProfileSchema>,
+  source: string,
+): BoardProfile {
+  return {
+    key: entry.key,
+    parentKey: entry.parentKey,
+    title: entry.title,
+    source,
+    defaultMonitorBaudRate: entry.defaultMonitorBaudRate,
+    pinProfile: entry.pinProfile,
+    boardIdPattern: new RegExp(entry.boardIdPattern, "i"),
+    platformPattern: entry.platformPattern
+      ? new RegExp(entry.platformPattern, "i")
+      : NEVER_MATCHES,
+    mcuPattern: entry.mcuPattern ? new RegExp(entry.mcuPattern, "i") : NEVER_MATCHES,
+  };
+}
+
+function loadProfilesFromDir(dir: string, errors: string[]): BoardProfile[] {
+  const filePath = BOARD_PROFILE_FILE_NAMES.map((name) => path.join(dir, name)).find(
+    (candidate) => fs.existsSync(candidate),
+  );
+  if (!filePath) return [];
+
+  let loaded: ReturnType<typeof loadStructuredConfigFile>;
+  try {
+    loaded = loadStructuredConfigFile(filePath);
+  } catch (error: unknown) {
+    if (error instanceof StructuredConfigError) {
+      const text = fs.readFileSync(filePath, "utf8");
+      errors.push(formatConfigIssue(filePath, text, error.line, error.message));
+    } else {
+      errors.push(`${filePath}: ${(error as Error).message}`);
+    }
+    return [];
+  }
+
+  // Validate against the shape actually used so issue paths map back to lines.
+  const data = loaded.document.data;
+  const parsed = Array.isArray(data)
+    ? UserBoardProfileListSchema.safeParse(data)
+    : UserBoardProfileFileSchema.transform((file) => file.profiles).safeParse(data);
+  if (!parsed.success) {
+    errors.push(...describeZodIssues(parsed.error, loaded.document, filePath, loaded.text));
+    return [];
+  }
+
+  return parsed.data.map((entry) => toBoardProfile(entry, filePath));
+}
+
+/**
+ * Loads user-defined board profiles. A file that fails to parse or validate
+ * contributes no profiles; its errors are returned instead of thrown.
+ *
+ * @param projectDir - Optional workspace whose `.pio-mcp` directory is searched.
+ * @returns Workspace and server profiles plus any load errors.
+ */
+export function loadUserBoardProfiles(projectDir?: string): UserBoardProfiles {
+  const errors: string[] = [];
+  const workspaceProfiles = projectDir
+    ? loadProfilesFromDir(path.join(projectDir, ".pio-mcp"), errors)
+    : [];
+  const serverProfiles = loadProfilesFromDir(SERVER_DATA_DIR, errors);
+  return { workspaceProfiles, serverProfiles, errors };
+}
@@ -10,32 +10,42 @@ import {
   AgentBuildDiagnoseParamsSchema,
   AgentFlashMonitorVerifyParamsSchema,
   AgentGenerateBoardReportParamsSchema,
+  AgentGeneratePinoutParamsSchema,
   AgentGetLastReportParamsSchema,
   AgentSafePinAuditParamsSchema,
   AgentValidateProjectParamsSchema,
+  BuildMatrixParamsSchema,
   BuildProjectParamsSchema,
+  CancelTaskParamsSchema,
+  CheckProjectParamsSchema,
   CheckTaskStatusParamsSchema,
+  FirmwareSizeReportParamsSchema,
   GetPolicyStatusParamsSchema,
+  GetDiagnosticsStatusParamsSchema,
   GetDashboardUrlParamsSchema,
   InitProjectParamsSchema,
   ListBoardsParamsSchema,
+  ListFirmwareArtifactsParamsSchema,
   StartMonitorParamsSchema,
   UploadFirmwareParamsSchema,
 } from "./types.js";
 import { listDevicesCore } from "./core/devices.js";
 import { listBoardsCore } from "./core/boards.js";
 import { initProjectCore } from "./core/project.js";
-import { buildProjectCore } from "./core/build.js";
+import { buildMatrixCore, buildProjectCore } from "./core/build.js";
 import { uploadFirmwareCore } from "./core/flash.js";
 import {
   startMonitorCore,
   waitForExpectedSerialOutput,
 } from "./core/monitor.js";
-import { checkTaskStatusSummaryCore } from "./core/tasks.js";
+import { cancelTaskCore, checkTaskStatusSummaryCore } from "./core/tasks.js";
 import { getDashboardStatusCore } from "./core/dashboard.js";
 import { toCliStructuredError } from "./core/cli-diagnostics.js";
 import { evaluatePolicy } from "./core/policy/evaluate-policy.js";
 import { getPolicyStatus } from "./core/policy/status.js";
+import { getDiagnosticsStatus } from "./core/diagnostics/status.js";
+import { checkDefectsToSarif } from "./core/static-analysis.js";
+import { checkProject, firmwareSizeReport, listFirmwareArtifacts } from "./tools/build.js";
 import {
   approveRequest,
   denyRequest,
@@ -46,9 +56,12 @@ import {
   agentBuildDiagnose,
   agentFlashMonitorVerify,
   agentGenerateBoardReport,
+  agentGeneratePinout,
   agentGetLastReport,
   agentSafePinAudit,
   agentValidateProject,
+  pinAuditToSarif,
+  renderPinoutMarkdown,
 } from "./tools/agent.js";
 
 type OptionValue = string | boolean;
@@ -69,16 +82,23 @@ COMMANDS:
   boards --filter <value>
   init --board <id> --project-dir <dir> [--framework <name>]
   build --project-dir <dir> [--environment <env>] [--background] [--verbose]
-  flash --project-dir <dir> [--port <port|auto>] [--environment <env>] [--background] [--start-monitor]
+  build-matrix --project-dir <dir> [--environments <csv>] [--max-parallel <n>]
+  check --project-dir <dir> [--environment <env>] [--min-severity <low|medium|high>] [--baseline <file>] [--update-baseline] [--format <json|sarif>]
+  size --project-dir <dir> [--environment <env>] [--top <n>]
+  artifacts --project-dir <dir> [--environment <env>] [--limit <n>]
+  flash --project-dir <dir> [--port <port|auto>] [--environment <env>] [--artifact <id>] [--background] [--start-monitor]
   monitor [--project-dir <dir>] [--port <port|auto>] [--environment <env>] [--timeout <seconds>] [--expect <text>] [--background]
   task-status <task-id>
+  cancel <task-id> [--project-dir <dir>]
   agent-validate --project-dir <dir>
-  agent-build-diagnose --project-dir <dir> [--environment <env>] [--verbose]
-  agent-safe-pin-audit --project-dir <dir> --board <id>
-  agent-flash-monitor-verify --project-dir <dir> [--environment <env>] [--port <port|auto>] [--expect-all <csv>] [--reject-patterns <csv>] [--timeout <seconds>] [--stability-window <seconds>] [--auto-build <true|false>]
+  agent-build-diagnose --project-dir <dir> [--environment <env>] [--verbose] [--update-warning-budget]
+  agent-safe-pin-audit --project-dir <dir> --board <id> [--environment <env>] [--format <findings|sarif>]
+  agent-flash-monitor-verify --project-dir <dir> [--environment <env>] [--port <port|auto>] [--expect-all <csv>] [--reject-patterns <csv>] [--timeout <seconds>] [--stability-window <seconds>] [--auto-build <true|false>] [--artifact <id>]
   agent-last-report --project-dir <dir>
   agent-board-report --project-dir <dir> --board <id>
+  agent-pinout --project-dir <dir> [--board <id>] [--environment <env>] [--format <json|markdown>]
   policy-status [--project-dir <dir>]
+  diagnostics-status [--project-dir <dir>]
   approvals [--status <pending|approved|denied|expired>] [--limit <n>]
   approve <approval-id>
   deny <approval-id>
@@ -202,12 +222,22 @@ function actionForCommand(command: string): string {
       return "init_project";
     case "build":
       return "build_project";
+    case "build-matrix":
+      return "build_matrix";
+    case "check":
+      return "check_project";
+    case "size":
+      return "firmware_size_report";
+    case "artifacts":
+      return "list_firmware_artifacts";
     case "flash":
       return "upload_firmware";
     case "monitor":
       return "start_monitor";
     case "task-status":
       return "check_task_status";
+    case "cancel":
+      return "cancel_task";
     case "agent-validate":
       return "agent_validate_project";
     case "agent-build-diagnose":
@@ -220,8 +250,12 @@ function actionForCommand(command: string): string {
       return "agent_get_last_report";
     case "agent-board-report":
       return "agent_generate_board_report";
+    case "agent-pinout":
+      return "agent_generate_pinout";
     case "policy-status":
       return "get_policy_status";
+    case "diagnostics-status":
+      return "get_diagnostics_status";
     case "dashboard":
       return "get_dashboard_url";
     case "install":
@@ -391,6 +425,69 @@ async function runCliCommand(command: string, rawArgs: string[]) {
         return;
       }
 
+      case "build-matrix": {
+        const params = BuildMatrixParamsSchema.parse({
+          projectDir: asString(options["project-dir"]),
+          environments: asCsv(options.environments),
+          maxParallel: asNumber(options["max-parallel"]),
+        });
+        const result = await buildMatrixCore(params);
+        printOutput(result, jsonMode);
+        // Any failed environment fails the command so CI sees the broken target.
+        if (!result.success) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      case "check": {
+        const params = CheckProjectParamsSchema.parse({
+          projectDir: asString(options["project-dir"]),
+          environment: asString(options.environment),
+          minSeverity: asString(options["min-severity"]),
+          baselinePath: asString(options.baseline),
+          updateBaseline: asBoolean(options["update-baseline"]),
+          format: asString(options.format),
+        });
+        const result = await checkProject(params.projectDir, params.environment, false, {
+          minSeverity: params.minSeverity,
+          baselinePath: params.baselinePath,
+          updateBaseline: params.updateBaseline,
+        });
+        if (params.format === "sarif" && result.checkResults) {
+          printOutput(checkDefectsToSarif(result.checkResults.defects, params.projectDir), true);
+        } else {
+          printOutput(result, jsonMode);
+        }
+        // New defects fail the command so CI can gate merges on them.
+        if (result.checkResults && !result.checkResults.passed) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+
+      case "size": {
+        const params = FirmwareSizeReportParamsSchema.parse({
+          projectDir: asString(options["project-dir"]),
+          environment: asString(options.environment),
+          top: asNumber(options.top),
+        });
+        const result = await firmwareSizeReport(params.projectDir, params.environment, params.top);
+        printOutput(result, jsonMode);
+        return;
+      }
+
+      case "artifacts": {
+        const params = ListFirmwareArtifactsParamsSchema.parse({
+          projectDir: asString(options["project-dir"]),
+          environment: asString(options.environment),
+          limit: asNumber(options.limit),
+        });
+        const result = await listFirmwareArtifacts(params.projectDir, params.environment, params.limit);
+        printOutput(result, jsonMode);
+        return;
+      }
+
       case "flash": {
         const params = UploadFirmwareParamsSchema.parse({
           projectDir: asString(options["project-dir"]),
@@ -399,6 +496,7 @@ async function runCliCommand(command: string, rawArgs: string[]) {
           verbose: asBoolean(options.verbose),
           background: asBoolean(options.background),
           start_monitor: asBoolean(options["start-monitor"]),
+          artifactId: asString(options.artifact),
         });
         const result = await uploadFirmwareCore({
           projectDir: params.projectDir,
@@ -407,6 +505,7 @@ async function runCliCommand(command: string, rawArgs: string[]) {
           verbose: params.verbose,
           background: params.background,
           startMonitorAfter: asBoolean(options["start-monitor"]),
+          artifactId: params.artifactId,
         });
         printOutput(result, jsonMode);
         return;
@@ -486,6 +585,16 @@ async function runCliCommand(command: string, rawArgs: string[]) {
         return;
       }
 
+      case "cancel": {
+        const params = CancelTaskParamsSchema.parse({
+          taskId: positionals[0],
+          projectDir: asString(options["project-dir"]),
+        });
+        const result = await cancelTaskCore(params);
+        printOutput(result, jsonMode);
+        return;
+      }
+
       case "agent-validate": {
         const params = AgentValidateProjectParamsSchema.parse({
           projectDir: asString(options["project-dir"]),
@@ -501,14 +610,20 @@ async function runCliCommand(command: string, rawArgs: string[]) {
           environment: asString(options.environment),
           verbose: asBoolean(options.verbose),
           background: asBoolean(options.background),
+          updateWarningBudget: asBoolean(options["update-warning-budget"]),
         });
         const result = await agentBuildDiagnose(
           params.projectDir,
           params.environment,
           params.verbose,
           params.background,
+          params.updateWarningBudget,
         );
         printOutput(result, jsonMode);
+        // New warnings over the budget fail the command so CI can gate merges on them.
+        if (result.warningBudget?.exceeded) {
+          process.exitCode = 1;
+        }
         return;
       }
 
@@ -516,9 +631,20 @@ async function runCliCommand(command: string, rawArgs: string[]) {
         const params = AgentSafePinAuditParamsSchema.parse({
           projectDir: asString(options["project-dir"]),
           boardId: asString(options.board),
+          environment: asString(options.environment),
+          format: asString(options.format),
         });
-        const result = await agentSafePinAudit(params.projectDir, params.boardId);
-        printOutput(result, jsonMode);
+        const findings = await agentSafePinAudit(
+          params.projectDir,
+          params.boardId,
+          params.environment,
+        );
+        if (params.format === "sarif") {
+          // SARIF is always emitted as JSON so it can be redirected to a .sarif file.
+          printOutput(pinAuditToSarif(findings, params.projectDir), true);
+          return;
+        }
+        printOutput(findings, jsonMode);
         return;
       }
 
@@ -532,6 +658,7 @@ async function runCliCommand(command: string, rawArgs: string[]) {
           timeoutSeconds: asNumber(options.timeout),
           stabilityWindowSeconds: asNumber(options["stability-window"]),
           autoBuild: asBoolean(options["auto-build"]),
+          artifactId: asString(options.artifact),
         });
         const result = await agentFlashMonitorVerify({
           projectDir: params.projectDir,
@@ -542,6 +669,7 @@ async function runCliCommand(command: string, rawArgs: string[]) {
           timeoutSeconds: params.timeoutSeconds,
           stabilityWindowSeconds: params.stabilityWindowSeconds,
           autoBuild: params.autoBuild,
+          artifactId: params.artifactId,
         });
         printOutput(result, jsonMode);
         return;
@@ -569,6 +697,35 @@ async function runCliCommand(command: string, rawArgs: string[]) {
         return;
       }
 
+      case "agent-pinout": {
+        const params = AgentGeneratePinoutParamsSchema.parse({
+          projectDir: asString(options["project-dir"]),
+          boardId: asString(options.board),
+          environment: asString(options.environment),
+          format: asString(options.format),
+        });
+        const result = await agentGeneratePinout(
+          params.projectDir,
+          params.boardId,
+          params.environment,
+        );
+        if (params.format === "markdown") {
+          process.stdout.write(renderPinoutMarkdown(result));
+          return;
+        }
+        printOutput(result, jsonMode);
+        return;
+      }
+
+      case "diagnostics-status": {
+        const params = GetDiagnosticsStatusParamsSchema.parse({
+          projectDir: asString(options["project-dir"]),
+        });
+        const result = getDiagnosticsStatus(params.projectDir);
+        printOutput(result, jsonMode);
+        return;
+      }
+
       case "policy-status": {
         const params = GetPolicyStatusParamsSchema.parse({
           projectDir: asString(options["project-dir"]),
@@ -648,16 +805,23 @@ async function runCliCommand(command: string, rawArgs: string[]) {
       boards: "boards",
       init: "init",
       build: "build",
+      "build-matrix": "build",
+      check: "check",
+      size: "build",
+      artifacts: "build",
       flash: "upload",
       monitor: "monitor",
       "task-status": "tasks",
+      cancel: "tasks",
       "agent-validate": "agent",
       "agent-build-diagnose": "build",
       "agent-safe-pin-audit": "agent",
       "agent-flash-monitor-verify": "upload",
       "agent-last-report": "agent",
       "agent-board-report": "agent",
+      "agent-pinout": "agent",
       "policy-status": "policy",
+      "diagnostics-status": "diagnostics",
       approvals: "policy",
       approve: "policy",
       deny: "policy",
@@ -686,16 +850,23 @@ async function main() {
     "boards",
     "init",
     "build",
+    "build-matrix",
+    "check",
+    "size",
+    "artifacts",
     "flash",
     "monitor",
     "task-status",
+    "cancel",
     "agent-validate",
     "agent-build-diagnose",
     "agent-safe-pin-audit",
     "agent-flash-monitor-verify",
     "agent-last-report",
     "agent-board-report",
+    "agent-pinout",
     "policy-status",
+    "diagnostics-status",
     "approvals",
     "approve",
     "deny",
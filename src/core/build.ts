@@ -1,5 +1,5 @@
-import { buildProject } from "../tools/build.js";
-import type { BuildResult } from "../types.js";
+import { buildMatrix, buildProject } from "../tools/build.js";
+import type { BuildMatrixResult, BuildResult } from "../types.js";
 import { hardwareLockManager } from "../utils/lock-manager.js";
 
 export type BuildProjectCoreInput = {
@@ -28,3 +28,24 @@ export async function buildProjectCore(
 
   return hardwareLockManager.withImplicitLock(executeTask);
 }
+
+export type BuildMatrixCoreInput = {
+  projectDir: string;
+  environments?: string[];
+  maxParallel?: number;
+  sessionId?: string;
+};
+
+export async function buildMatrixCore(
+  input: BuildMatrixCoreInput,
+): Promise<BuildMatrixResult> {
+  const executeTask = () =>
+    buildMatrix(input.projectDir, input.environments, input.maxParallel);
+
+  if (input.sessionId) {
+    hardwareLockManager.requireLock(input.sessionId);
+    return executeTask();
+  }
+
+  return hardwareLockManager.withImplicitLock(executeTask);
+}
@@ -0,0 +1,152 @@
+import { execFile } from "node:child_process";
+import path from "node:path";
+import { promisify } from "node:util";
+import { findBuildOutput, listBuildOutputs } from "../../utils/build-cache.js";
+import { findToolchainTool } from "../../utils/toolchain.js";
+import type {
+  BacktraceFrame,
+  BacktraceSymbolication,
+  DiagnosticResult,
+} from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+const ADDR2LINE_TIMEOUT_MS = 15000;
+const MAX_FRAMES = 32;
+
+// Xtensa: `Backtrace: 0x400d1234:0x3ffb1f20 0x400d5678:0x3ffb1f40 |<-CORRUPTED`
+const BACKTRACE_LINE_REGEX = /Backtrace:\s*((?:0x[0-9a-f]{8}:0x[0-9a-f]{8}\s*)+)/gi;
+// RISC-V panics print registers instead: `MEPC    : 0x42000abc  RA      : 0x42000def`
+const RISCV_REGISTER_REGEX = /\b(MEPC|RA)\s*:\s*(0x[0-9a-f]{8})/gi;
+// `addr2line -pfiaC`: `0x400d1234: app_main at /work/src/main.cpp:12 (discriminator 1)`,
+// or `0x400d1234: ?? ??:0` when the address has no symbol.
+const ADDR2LINE_FRAME_REGEX =
+  /^(0x[0-9a-f]+):\s+(\?\? (?=\?\?)|.+? at )(.+?):(\d+|\?)(?:\s+\(discriminator \d+\))?$/i;
+const ADDR2LINE_INLINED_REGEX = /^\s*\(inlined by\)\s+(.+)$/;
+
+// Logs often hold several panics (one per boot loop). Only the most recent
+// backtrace is decoded; mixing frames from different crashes is meaningless.
+export function parseBacktraceAddresses(logText: string): string[] {
+  const addresses: string[] = [];
+  const lastBacktrace = [...logText.matchAll(BACKTRACE_LINE_REGEX)].pop();
+  if (lastBacktrace) {
+    for (const pair of lastBacktrace[1].trim().split(/\s+/)) {
+      addresses.push(pair.split(":")[0].toLowerCase());
+    }
+  } else {
+    const registers = [...logText.matchAll(RISCV_REGISTER_REGEX)];
+    const lastPc = registers.map((match) => match[1].toUpperCase()).lastIndexOf("MEPC");
+    const start = Math.max(lastPc, 0);
+    for (const match of registers.slice(start, start + 2)) {
+      addresses.push(match[2].toLowerCase());
+    }
+  }
+  // A zero PC terminates ESP-IDF backtraces.
+  return addresses.filter((address) => !/^0x0+$/.test(address)).slice(0, MAX_FRAMES);
+}
+
+function toProjectRelative(projectDir: string, file: string): string {
+  const relative = path.relative(projectDir, file);
+  return relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    ? relative.replace(/\\/g, "/")
+    : file;
+}
+
+export function parseAddr2lineOutput(output: string, projectDir: string): BacktraceFrame[] {
+  const frames: BacktraceFrame[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const inlined = ADDR2LINE_INLINED_REGEX.exec(line);
+    if (inlined && frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      frame.inlinedBy = [...(frame.inlinedBy ?? []), inlined[1].trim()];
+      continue;
+    }
+    const match = ADDR2LINE_FRAME_REGEX.exec(line.trim());
+    if (!match) continue;
+    const [, address, fnPrefix, file, lineNumber] = match;
+    const fn = fnPrefix.replace(/(?: at | )$/, "");
+    frames.push({
+      address,
+      ...(fn !== "??" ? { function: fn } : {}),
+      ...(file !== "??" ? { file: toProjectRelative(projectDir, file) } : {}),
+      ...(lineNumber !== "?" && Number(lineNumber) > 0 ? { line: Number(lineNumber) } : {}),
+    });
+  }
+  return frames;
+}
+
+export async function symbolicateBacktrace(
+  logText: string,
+  opts: { projectDir: string; environment?: string },
+): Promise<BacktraceSymbolication | undefined> {
+  const addresses = parseBacktraceAddresses(logText);
+  if (addresses.length === 0) return undefined;
+  const unresolved = (error: string, extra?: Partial<BacktraceSymbolication>) => ({
+    frames: addresses.map((address) => ({ address })),
+    error,
+    ...extra,
+  });
+
+  const environment = opts.environment !== "default" ? opts.environment : undefined;
+  let elfPath: string | undefined;
+  if (environment) {
+    elfPath = findBuildOutput(opts.projectDir, "firmware.elf", environment);
+    if (!elfPath) return unresolved(`No firmware.elf found under .pio/build/${environment}; build the project first.`);
+  } else {
+    // Decoding against another environment's image gives plausible but wrong frames.
+    const elfPaths = listBuildOutputs(opts.projectDir, "firmware.elf");
+    if (elfPaths.length > 1) {
+      const environments = elfPaths.map((candidate) => path.basename(path.dirname(candidate)));
+      return unresolved(
+        `Several environments have a firmware.elf (${environments.join(", ")}) and the one that produced this log is unknown; pass the environment to decode the backtrace.`,
+      );
+    }
+    elfPath = elfPaths[0];
+    if (!elfPath) return unresolved("No firmware.elf found under .pio/build; build the project first.");
+  }
+  const addr2linePath = findToolchainTool(opts.projectDir, elfPath, "addr2line");
+  if (!addr2linePath) {
+    return unresolved("No toolchain addr2line found in the PlatformIO packages directory.", { elfPath });
+  }
+
+  try {
+    const { stdout } = await execFileAsync(
+      addr2linePath,
+      ["-pfiaC", "-e", elfPath, ...addresses],
+      { timeout: ADDR2LINE_TIMEOUT_MS, maxBuffer: 1024 * 1024 },
+    );
+    const frames = parseAddr2lineOutput(stdout, opts.projectDir);
+    return frames.length > 0
+      ? { frames, elfPath, addr2linePath }
+      : unresolved("addr2line returned no frames.", { elfPath, addr2linePath });
+  } catch (error: unknown) {
+    return unresolved(`addr2line failed: ${(error as Error).message}`, { elfPath, addr2linePath });
+  }
+}
+
+export function formatBacktraceFrame(frame: BacktraceFrame, index: number): string {
+  const location = frame.file ? ` at ${frame.file}${frame.line ? `:${frame.line}` : ""}` : "";
+  const inlined = frame.inlinedBy?.length ? ` (inlined by ${frame.inlinedBy.join(", ")})` : "";
+  return `#${index} ${frame.address} ${frame.function ?? "??"}${location}${inlined}`;
+}
+
+// Attaches decoded frames when the log holds a panic backtrace; other
+// diagnostics are returned unchanged.
+export async function attachSymbolicatedBacktrace(
+  diagnostic: DiagnosticResult,
+  logText: string,
+  opts: { projectDir: string; environment?: string },
+): Promise<DiagnosticResult> {
+  const isPanic =
+    diagnostic.errorType === "PanicTrace" ||
+    Boolean(diagnostic.findings?.some((finding) => finding.errorType === "PanicTrace"));
+  if (!isPanic) return diagnostic;
+
+  const backtrace = await symbolicateBacktrace(logText, opts);
+  if (!backtrace) return diagnostic;
+
+  const decoded = backtrace.error
+    ? [`Backtrace not symbolicated: ${backtrace.error}`]
+    : backtrace.frames.map(formatBacktraceFrame);
+  return { ...diagnostic, evidence: [...diagnostic.evidence, ...decoded], backtrace };
+}
@@ -1,14 +1,28 @@
 import { buildMatchers } from "./matchers.js";
 import { diagnoseFromLog } from "./diagnose.js";
+import { attachMemoryOverflowAnalysis } from "./memory-overflow.js";
 
 export function diagnoseBuildLog(
   logText: string,
-  opts?: { taskId?: string; rawLogPath?: string; success?: boolean },
+  opts?: {
+    taskId?: string;
+    rawLogPath?: string;
+    success?: boolean;
+    projectDir?: string;
+    environment?: string;
+    allFindings?: boolean;
+  },
 ) {
-  return diagnoseFromLog("build", logText, buildMatchers, {
+  const result = diagnoseFromLog("build", logText, buildMatchers, {
     taskId: opts?.taskId,
     rawLogPath: opts?.rawLogPath,
     successOverride: opts?.success ?? false,
+    projectDir: opts?.projectDir,
+    allFindings: opts?.allFindings,
+  });
+  return attachMemoryOverflowAnalysis(result, logText, {
+    projectDir: opts?.projectDir,
+    environment: opts?.environment,
   });
 }
 
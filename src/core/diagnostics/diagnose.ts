@@ -1,19 +1,95 @@
 import type {
+  DiagnosticErrorType,
+  DiagnosticFinding,
   DiagnosticMatcher,
   DiagnosticResult,
   DiagnosticStage,
 } from "./types.js";
+import { workspaceMatchersForStage } from "./workspace-matchers.js";
+
+// Indexes of the non-empty lines a matcher matched. A pattern that spans
+// several lines matches none of them on its own, so it falls back to the
+// lines covered by its match against the whole log.
+function matchedLineIndexes(log: string, lines: string[], pattern: RegExp): number[] {
+  const indexes: number[] = [];
+  lines.forEach((line, index) => {
+    if (line.trim() && pattern.test(line)) indexes.push(index);
+  });
+  if (indexes.length > 0) return indexes;
+  const match = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "")).exec(log);
+  if (!match) return indexes;
+  const first = log.slice(0, match.index).split(/\r?\n/).length - 1;
+  const last = first + match[0].split(/\r?\n/).length - 1;
+  for (let index = first; index <= last && index < lines.length; index++) {
+    if (lines[index].trim()) indexes.push(index);
+  }
+  return indexes;
+}
 
 function trimEvidence(log: string, pattern: RegExp): string[] {
   const lines = log.split(/\r?\n/);
-  const matches: string[] = [];
-  for (const line of lines) {
-    if (pattern.test(line)) {
-      matches.push(line.trim());
-      if (matches.length >= 4) break;
+  return matchedLineIndexes(log, lines, pattern)
+    .slice(0, MAX_EVIDENCE_LINES)
+    .map((index) => lines[index].trim());
+}
+
+const MAX_EVIDENCE_LINES = 4;
+
+const SEVERITY_RANK: Record<DiagnosticResult["severity"], number> = {
+  critical: 3,
+  error: 2,
+  warning: 1,
+  info: 0,
+};
+
+// One finding per error type. Matchers sharing a type merge their matching
+// lines; the earliest matcher keeps the recommendation. Ranked by severity,
+// then matcher order.
+export function collectDiagnosticFindings(
+  stage: DiagnosticStage,
+  logText: string,
+  matchers: DiagnosticMatcher[],
+): DiagnosticFinding[] {
+  const lines = logText.split(/\r?\n/);
+  const grouped = new Map<
+    DiagnosticErrorType,
+    { matcher: DiagnosticMatcher; order: number; lineIndexes: Set<number> }
+  >();
+
+  matchers.forEach((matcher, order) => {
+    if (!matcher.pattern.test(logText)) return;
+    const group = grouped.get(matcher.errorType) ?? {
+      matcher,
+      order,
+      lineIndexes: new Set<number>(),
+    };
+    for (const index of matchedLineIndexes(logText, lines, matcher.pattern)) {
+      group.lineIndexes.add(index);
     }
-  }
-  return matches;
+    grouped.set(matcher.errorType, group);
+  });
+
+  return Array.from(grouped.values())
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[b.matcher.severity] - SEVERITY_RANK[a.matcher.severity] ||
+        a.order - b.order,
+    )
+    .map(({ matcher, lineIndexes }) => {
+      const indexes = Array.from(lineIndexes).sort((a, b) => a - b);
+      const evidence = Array.from(new Set(indexes.map((index) => lines[index].trim())));
+      const occurrences = Math.max(indexes.length, 1);
+      return {
+        errorType: matcher.errorType,
+        severity: matcher.severity,
+        summary: `${matcher.errorType} matched ${occurrences} ${stage} log line${occurrences === 1 ? "" : "s"}.`,
+        evidence: evidence.slice(0, MAX_EVIDENCE_LINES),
+        occurrences,
+        firstLine: indexes.length > 0 ? indexes[0] + 1 : undefined,
+        recommendedAction: matcher.recommendedAction,
+        safeToAutoRetry: matcher.safeToAutoRetry,
+      };
+    });
 }
 
 function inferDefaultRecommendation(stage: DiagnosticStage): string {
@@ -25,11 +101,20 @@ function inferDefaultRecommendation(stage: DiagnosticStage): string {
   return "Inspect raw logs and retry after applying a minimal fix.";
 }
 
+// Matchers from the project's `.pio-mcp/diagnostics.yaml` run ahead of `matchers`.
+// With `allFindings`, every matching error type is reported in `findings` and
+// the top-ranked one becomes the primary diagnostic.
 export function diagnoseFromLog(
   stage: DiagnosticStage,
   logText: string,
   matchers: DiagnosticMatcher[],
-  opts?: { taskId?: string; rawLogPath?: string; successOverride?: boolean },
+  opts?: {
+    taskId?: string;
+    rawLogPath?: string;
+    successOverride?: boolean;
+    projectDir?: string;
+    allFindings?: boolean;
+  },
 ): DiagnosticResult {
   const timestamp = new Date().toISOString();
   const normalized = logText || "";
@@ -47,10 +132,40 @@ export function diagnoseFromLog(
       rawLogPath: opts?.rawLogPath,
       taskId: opts?.taskId,
       timestamp,
+      ...(opts?.allFindings ? { findings: [] } : {}),
     };
   }
 
-  for (const matcher of matchers) {
+  const effectiveMatchers = opts?.projectDir
+    ? [...workspaceMatchersForStage(opts.projectDir, stage), ...matchers]
+    : matchers;
+
+  if (opts?.allFindings) {
+    const findings = collectDiagnosticFindings(stage, normalized, effectiveMatchers);
+    const [primary] = findings;
+    if (primary) {
+      const others = findings.length - 1;
+      return {
+        success: false,
+        stage,
+        errorType: primary.errorType,
+        severity: primary.severity,
+        summary:
+          others > 0
+            ? `${stage} failed with ${primary.errorType} and ${others} other finding${others === 1 ? "" : "s"}.`
+            : `${stage} failed with ${primary.errorType}.`,
+        evidence: primary.evidence,
+        recommendedAction: primary.recommendedAction,
+        safeToAutoRetry: findings.every((finding) => finding.safeToAutoRetry),
+        rawLogPath: opts?.rawLogPath,
+        taskId: opts?.taskId,
+        timestamp,
+        findings,
+      };
+    }
+  }
+
+  for (const matcher of effectiveMatchers) {
     if (!matcher.pattern.test(normalized)) continue;
     return {
       success: false,
@@ -83,5 +198,6 @@ export function diagnoseFromLog(
     rawLogPath: opts?.rawLogPath,
     taskId: opts?.taskId,
     timestamp,
+    ...(opts?.allFindings ? { findings: [] } : {}),
   };
 }
@@ -0,0 +1,202 @@
+import type { BootAnalysis, BootRecord, Esp32ResetCause } from "./types.js";
+
+// `rst:0xc (SW_CPU_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)`; the names are
+// optional because some captures only keep the codes.
+const BANNER_REGEX =
+  /\brst:(0x[0-9a-f]+|\d+)(?:\s*\(([A-Z0-9_]+)\))?(?:\s*,\s*boot:(0x[0-9a-f]+|\d+)(?:\s*\(([A-Z0-9_]+)\))?)?/i;
+// Host timestamps added by `pio device monitor --filter time` or log capture tools.
+const HOST_TIME_REGEX =
+  /^\[?(?:\d{4}-\d{2}-\d{2}[T ])?(\d{2}):(\d{2}):(\d{2})[.,](\d{3})\d*Z?\]?\s*(?:>\s*)?/;
+// ESP-IDF `I (1234) tag: ...` and Arduino-ESP32 `[  1234][E][file.cpp:10] ...`.
+const DEVICE_TIME_REGEX = /^(?:[IWEDV]\s*\((\d+)\)|\[\s*(\d+)\]\[[IWEDV]\])/;
+
+const PANIC_REGEX = /Guru Meditation|abort\(\) was called|panic'ed|Rebooting\.\.\./i;
+const WATCHDOG_REGEX = /task_wdt|Task watchdog|\bWDT reset\b|Interrupt wdt timeout/i;
+const BROWNOUT_REGEX = /brownout/i;
+// `ESP-ROM:esp32s3-20210327`, printed by the ROM of the newer chips right
+// before the reset banner. Classic ESP32 ROMs print no such line.
+const ROM_CHIP_REGEX = /\bESP-ROM:(esp32[a-z0-9]*)/i;
+
+// Classic ESP32 ROM reset codes, used when the banner omits the name.
+const ESP32_RESET_NAMES: Record<number, string> = {
+  1: "POWERON_RESET",
+  3: "SW_RESET",
+  4: "OWDT_RESET",
+  5: "DEEPSLEEP_RESET",
+  6: "SDIO_RESET",
+  7: "TG0WDT_SYS_RESET",
+  8: "TG1WDT_SYS_RESET",
+  9: "RTCWDT_SYS_RESET",
+  10: "INTRUSION_RESET",
+  11: "TGWDT_CPU_RESET",
+  12: "SW_CPU_RESET",
+  13: "RTCWDT_CPU_RESET",
+  14: "EXT_CPU_RESET",
+  15: "RTCWDT_BROWN_OUT_RESET",
+  16: "RTCWDT_RTC_RESET",
+};
+
+// ROM reset codes of the ESP32-S2/S3/C3/C6, named as their ROMs print them.
+const ESP32_VARIANT_RESET_NAMES: Record<number, string> = {
+  1: "POWERON",
+  3: "RTC_SW_SYS_RST",
+  5: "DSLEEP",
+  7: "TG0WDT_SYS_RST",
+  8: "TG1WDT_SYS_RST",
+  9: "RTCWDT_SYS_RST",
+  10: "INTRUSION_RST",
+  11: "TG0WDT_CPU_RST",
+  12: "RTC_SW_CPU_RST",
+  13: "RTCWDT_CPU_RST",
+  15: "RTCWDT_BROWN_OUT_RST",
+  16: "RTCWDT_RTC_RST",
+  17: "TG1WDT_CPU_RST",
+  18: "SUPER_WDT_RST",
+  19: "GLITCH_RTC_RST",
+  20: "EFUSE_RST",
+  21: "USB_UART_CHIP_RESET",
+  22: "USB_JTAG_CHIP_RESET",
+  23: "POWER_GLITCH_RESET",
+};
+
+const CAUSE_EXPLANATIONS: Record<Esp32ResetCause, string> = {
+  power_on: "The board was power-cycled or the USB-serial adapter toggled EN.",
+  software: "Firmware called esp_restart() (or a library did) without a preceding panic.",
+  panic: "Firmware crashed (Guru Meditation/abort) and the panic handler rebooted the chip. Decode the backtrace printed before the reset.",
+  watchdog: "A watchdog fired: a task or ISR blocked the CPU too long. Look for busy loops, long delays in ISRs, or tasks that never yield.",
+  brownout: "Supply voltage dipped below the brownout threshold, typically when Wi-Fi/BLE or motors start. Check the power supply, cable and decoupling.",
+  deep_sleep: "Normal wake-up from deep sleep.",
+  external: "The reset pin (EN) or the USB/JTAG bridge reset the chip.",
+  unknown: "The reset reason is not recognised for this chip.",
+};
+
+function parseNumber(token: string): number {
+  return token.toLowerCase().startsWith("0x") ? parseInt(token, 16) : parseInt(token, 10);
+}
+
+export function classifyResetReason(reason: string): Esp32ResetCause {
+  const name = reason.toUpperCase();
+  if (name.includes("BROWN")) return "brownout";
+  if (name.includes("WDT")) return "watchdog";
+  if (name.includes("POWERON")) return "power_on";
+  if (name.includes("DEEPSLEEP") || name.includes("DEEP_SLEEP") || name.includes("DSLEEP")) {
+    return "deep_sleep";
+  }
+  if (name.includes("SW")) return "software";
+  if (name.includes("EXT") || name.includes("USB") || name.includes("JTAG") || name.includes("CHIP")) {
+    return "external";
+  }
+  return "unknown";
+}
+
+function hostMillis(match: RegExpExecArray): number {
+  const [, hours, minutes, seconds, millis] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis);
+}
+
+// Evidence printed before a reset is a better cause than a generic
+// software or unknown reset reason.
+function refineCause(cause: Esp32ResetCause, segment: string[]): Esp32ResetCause {
+  if (cause !== "software" && cause !== "unknown") return cause;
+  if (segment.some((line) => BROWNOUT_REGEX.test(line))) return "brownout";
+  if (segment.some((line) => WATCHDOG_REGEX.test(line))) return "watchdog";
+  if (segment.some((line) => PANIC_REGEX.test(line))) return "panic";
+  return cause;
+}
+
+export function analyzeEsp32Boots(serialOutput: string): BootAnalysis {
+  const lines = (serialOutput ?? "").split(/\r?\n/);
+  const boots: BootRecord[] = [];
+  let segment: string[] = [];
+  let lastDeviceMs: number | undefined;
+  let previousBannerHostMs: number | undefined;
+  let romChip: string | undefined;
+
+  lines.forEach((rawLine, index) => {
+    const hostMatch = HOST_TIME_REGEX.exec(rawLine);
+    const line = hostMatch ? rawLine.slice(hostMatch[0].length) : rawLine;
+    const banner = BANNER_REGEX.exec(line);
+
+    if (!banner) {
+      const rom = ROM_CHIP_REGEX.exec(line);
+      if (rom) romChip = rom[1].toLowerCase();
+      const device = DEVICE_TIME_REGEX.exec(line.trim());
+      if (device) lastDeviceMs = Number(device[1] ?? device[2]);
+      segment.push(line);
+      return;
+    }
+
+    const resetCode = parseNumber(banner[1]);
+    const resetNames =
+      romChip && romChip !== "esp32" ? ESP32_VARIANT_RESET_NAMES : ESP32_RESET_NAMES;
+    const resetReason = banner[2]?.toUpperCase() ?? resetNames[resetCode] ?? `UNKNOWN_${banner[1]}`;
+    const record: BootRecord = {
+      index: boots.length,
+      line: index + 1,
+      resetCode,
+      resetReason,
+      resetCause: refineCause(classifyResetReason(resetReason), segment),
+      ...(banner[3] ? { bootCode: parseNumber(banner[3]) } : {}),
+      ...(banner[4] ? { bootMode: banner[4].toUpperCase() } : {}),
+    };
+
+    const bannerHostMs = hostMatch ? hostMillis(hostMatch) : undefined;
+    if (boots.length > 0) {
+      if (bannerHostMs !== undefined && previousBannerHostMs !== undefined) {
+        const dayMs = 24 * 60 * 60 * 1000;
+        record.msSincePreviousBoot = (bannerHostMs - previousBannerHostMs + dayMs) % dayMs;
+        record.timingSource = "host";
+      } else if (lastDeviceMs !== undefined) {
+        record.msSincePreviousBoot = lastDeviceMs;
+        record.timingSource = "device_log";
+      }
+    }
+
+    boots.push(record);
+    previousBannerHostMs = bannerHostMs;
+    lastDeviceMs = undefined;
+    segment = [];
+  });
+
+  const resetCauses: Partial<Record<Esp32ResetCause, number>> = {};
+  for (const boot of boots) {
+    resetCauses[boot.resetCause] = (resetCauses[boot.resetCause] ?? 0) + 1;
+  }
+
+  // The first banner usually reflects how the capture started (power-on or
+  // the adapter toggling EN), so causes are taken from the resets after it.
+  const unexpected = boots
+    .slice(1)
+    .filter((boot) => boot.resetCause !== "deep_sleep" && boot.resetCause !== "power_on");
+  const counts = new Map<Esp32ResetCause, number>();
+  for (const boot of unexpected) counts.set(boot.resetCause, (counts.get(boot.resetCause) ?? 0) + 1);
+  const likelyCause = Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const intervals = boots
+    .map((boot) => boot.msSincePreviousBoot)
+    .filter((value): value is number => value !== undefined);
+  const meanMsBetweenBoots =
+    intervals.length > 0
+      ? Math.round(intervals.reduce((sum, value) => sum + value, 0) / intervals.length)
+      : undefined;
+
+  return {
+    bootCount: boots.length,
+    boots,
+    resetCauses,
+    bootLoop: unexpected.length > 0,
+    ...(likelyCause ? { likelyCause, explanation: CAUSE_EXPLANATIONS[likelyCause] } : {}),
+    ...(meanMsBetweenBoots !== undefined ? { meanMsBetweenBoots } : {}),
+  };
+}
+
+export function describeBootAnalysis(analysis: BootAnalysis): string[] {
+  return analysis.boots.map((boot) => {
+    const mode = boot.bootMode ? `, boot ${boot.bootMode}` : "";
+    const since =
+      boot.msSincePreviousBoot !== undefined
+        ? `, ${boot.msSincePreviousBoot} ms after previous boot${boot.timingSource === "device_log" ? " (device clock)" : ""}`
+        : "";
+    return `Boot ${boot.index + 1} (line ${boot.line}): ${boot.resetReason} -> ${boot.resetCause}${mode}${since}`;
+  });
+}
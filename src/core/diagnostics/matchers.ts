@@ -27,7 +27,8 @@ export const buildMatchers: DiagnosticMatcher[] = [
   },
   {
     errorType: "MemoryOverflow",
-    pattern: /region .* overflowed|RAM.*overflow|Flash.*overflow/i,
+    pattern:
+      /region .* overflowed|RAM.*overflow|Flash.*overflow|(?:program|data) size .* greater than maximum allowed/i,
     recommendedAction:
       "Reduce firmware size, change board config, or optimize memory usage.",
     severity: "critical",
@@ -159,3 +160,38 @@ export const serialMatchers: DiagnosticMatcher[] = [
     safeToAutoRetry: true,
   },
 ];
+
+// Test runs compile and (for embedded targets) flash before executing, so
+// build matchers follow the test-specific ones.
+export const testMatchers: DiagnosticMatcher[] = [
+  {
+    errorType: "TestUploadFailed",
+    pattern:
+      /\[upload\] Error|Failed to connect|Timed out waiting for packet|could not open port|Please specify `upload_port`/i,
+    recommendedAction:
+      "The test firmware could not be flashed. Check the test port, cable and boot mode, then rerun `run_tests`.",
+    severity: "error",
+    safeToAutoRetry: true,
+  },
+  {
+    errorType: "TestTimeout",
+    // PlatformIO prints no timeout message of its own: a device that never
+    // reports leaves the reset hint of the serial reader directly followed by
+    // the ERRORED suite footer, with no Unity output in between.
+    pattern:
+      /If you don't see any output for the first 10 secs, please reset board \(press reset button\)\s*-+ \S+ \[ERRORED\]/,
+    recommendedAction:
+      "The device stopped reporting test results. Make sure the test calls UNITY_BEGIN()/UNITY_END(), does not block, and matches `test_speed`.",
+    severity: "error",
+    safeToAutoRetry: true,
+  },
+  {
+    errorType: "TestAssertionFailed",
+    pattern: /^\s*\S+:\d+:\s*\w+.*(?::FAIL\b|\[FAILED\])/im,
+    recommendedAction:
+      "Open the first failing test case at its file:line, fix the assertion or the code under test, and rerun `run_tests`.",
+    severity: "error",
+    safeToAutoRetry: false,
+  },
+  ...buildMatchers,
+];
@@ -0,0 +1,302 @@
+import fs from "node:fs";
+import { findBuildOutput } from "../../utils/build-cache.js";
+import type {
+  DiagnosticResult,
+  MemoryContributor,
+  MemoryOverflowAnalysis,
+  MemoryRegionOverflow,
+} from "./types.js";
+
+const MAX_CONTRIBUTORS = 10;
+const CONTRIBUTORS_PER_ACTION = 3;
+
+// GNU ld quotes names as `name' (older releases) or 'name' (newer ones).
+const QUOTED_NAME = "[`'\"]?([\\w.$-]+)['\"]?";
+const REGION_OVERFLOW_REGEX = new RegExp(`region ${QUOTED_NAME} overflowed by (\\d+) bytes?`, "gi");
+const SECTION_REGION_REGEX = new RegExp(
+  `section ${QUOTED_NAME} (?:will not fit in|is not within) region ${QUOTED_NAME}`,
+  "gi",
+);
+// PlatformIO's size check: `Error: The program size (40000 bytes) is greater than maximum allowed (32256 bytes)`
+const SIZE_CHECK_REGEX =
+  /The (program|data) size \((\d+) bytes\) is greater than maximum allowed \((\d+) bytes\)/gi;
+
+// Output sections counted against PlatformIO's generic flash/ram limits.
+const SIZE_CHECK_SECTIONS: Record<string, RegExp> = {
+  flash: /text|rodata|\.data|flash/i,
+  ram: /\.data|bss|noinit|dram/i,
+};
+
+// Debug and other non-allocated output sections; they take no target memory
+// even though ld places them at address 0, where AVR's flash starts too.
+const NON_ALLOCATED_SECTION_REGEX =
+  /^\.(?:z?debug|comment|stab|line\b|gnu\.attributes|ARM\.attributes|riscv\.attributes|xtensa\.info)/;
+
+const MAP_REGION_REGEX = /^(\S+)\s+(0x[0-9a-f]+)\s+(0x[0-9a-f]+)/i;
+// ` .bss.buffer    0x3ffc1a30     0x2000 .pio/build/esp32dev/src/main.cpp.o`;
+// top-level output sections start in column 0 and have no object.
+const MAP_SECTION_REGEX = /^( ?)([.\w*$]\S*)\s+(0x[0-9a-f]+)\s+(0x[0-9a-f]+)(?:\s+(\S.*))?$/i;
+// Long section names put the address and size on the following line.
+const MAP_NAME_ONLY_REGEX = /^( ?)([.\w$]\S*)$/;
+const MAP_CONTINUATION_REGEX = /^\s+(0x[0-9a-f]+)\s+(0x[0-9a-f]+)(?:\s+(\S.*))?$/i;
+
+export interface LinkerMapRegion {
+  name: string;
+  origin: number;
+  length: number;
+}
+
+export interface LinkerMapInput {
+  object: string;
+  section: string;
+  address: number;
+  bytes: number;
+}
+
+export interface LinkerMap {
+  regions: LinkerMapRegion[];
+  outputSections: Map<string, number>;
+  inputs: LinkerMapInput[];
+}
+
+function parseHex(value: string): number {
+  return parseInt(value, 16);
+}
+
+export function parseMemoryOverflows(logText: string): MemoryRegionOverflow[] {
+  const regions = new Map<string, MemoryRegionOverflow>();
+  const regionFor = (name: string, source: MemoryRegionOverflow["source"]) => {
+    let region = regions.get(name);
+    if (!region) {
+      region = { region: name, overflowBytes: 0, sections: [], source };
+      regions.set(name, region);
+    }
+    return region;
+  };
+
+  for (const match of logText.matchAll(REGION_OVERFLOW_REGEX)) {
+    const region = regionFor(match[1], "linker");
+    // ld repeats the message when several sections spill; keep the largest.
+    region.overflowBytes = Math.max(region.overflowBytes, Number(match[2]));
+  }
+  for (const match of logText.matchAll(SECTION_REGION_REGEX)) {
+    const region = regionFor(match[2], "linker");
+    if (!region.sections.includes(match[1])) region.sections.push(match[1]);
+  }
+  for (const match of logText.matchAll(SIZE_CHECK_REGEX)) {
+    const name = match[1].toLowerCase() === "program" ? "flash" : "ram";
+    if (regions.has(name)) continue;
+    regionFor(name, "size_check").overflowBytes = Number(match[2]) - Number(match[3]);
+  }
+
+  return Array.from(regions.values());
+}
+
+export function parseLinkerMap(mapText: string): LinkerMap {
+  const regions: LinkerMapRegion[] = [];
+  const outputSections = new Map<string, number>();
+  const inputs: LinkerMapInput[] = [];
+  let mode: "preamble" | "memory" | "layout" = "preamble";
+  let currentOutput: string | undefined;
+  let pending: { indented: boolean; name: string } | undefined;
+
+  const record = (indented: boolean, name: string, address: string, size: string, object?: string) => {
+    if (!indented) {
+      currentOutput = name;
+      outputSections.set(name, parseHex(address));
+      return;
+    }
+    const bytes = parseHex(size);
+    if (!currentOutput || !object || name === "*fill*" || bytes === 0) return;
+    inputs.push({ object: object.trim(), section: currentOutput, address: parseHex(address), bytes });
+  };
+
+  for (const line of mapText.split(/\r?\n/)) {
+    if (line.startsWith("Memory Configuration")) {
+      mode = "memory";
+      continue;
+    }
+    if (line.startsWith("Linker script and memory map")) {
+      mode = "layout";
+      continue;
+    }
+    if (line.startsWith("Cross Reference Table")) break;
+
+    if (mode === "memory") {
+      const region = MAP_REGION_REGEX.exec(line);
+      if (region && region[1] !== "*default*") {
+        regions.push({ name: region[1], origin: parseHex(region[2]), length: parseHex(region[3]) });
+      }
+      continue;
+    }
+    if (mode !== "layout") continue;
+
+    if (pending) {
+      const continuation = MAP_CONTINUATION_REGEX.exec(line);
+      const { indented, name } = pending;
+      pending = undefined;
+      if (continuation) {
+        record(indented, name, continuation[1], continuation[2], continuation[3]);
+        continue;
+      }
+    }
+
+    const section = MAP_SECTION_REGEX.exec(line);
+    if (section) {
+      record(section[1] === " ", section[2], section[3], section[4], section[5]);
+      continue;
+    }
+    const nameOnly = MAP_NAME_ONLY_REGEX.exec(line);
+    if (nameOnly) pending = { indented: nameOnly[1] === " ", name: nameOnly[2] };
+  }
+
+  return { regions, outputSections, inputs };
+}
+
+export function shortenObjectPath(object: string, projectDir?: string): string {
+  let file = object.replace(/\\/g, "/");
+  const root = projectDir?.replace(/\\/g, "/").replace(/\/$/, "");
+  if (root && file.startsWith(`${root}/`)) file = file.slice(root.length + 1);
+  file = file.replace(/^\.pio\/build\/[^/]+\//, "");
+  // Archive members read better as `libfoo.a(bar.o)` than as a package path.
+  return /([^/]+\.a\([^)]+\))$/.exec(file)?.[1] ?? file;
+}
+
+function rankContributors(
+  map: LinkerMap,
+  overflows: MemoryRegionOverflow[],
+  projectDir?: string,
+): MemoryContributor[] {
+  const sectionRegion = new Map<string, string>();
+  for (const overflow of overflows) {
+    for (const section of overflow.sections) sectionRegion.set(section, overflow.region);
+  }
+  const overflowed = new Set(overflows.map((overflow) => overflow.region));
+
+  const regionOf = (section: string): string | undefined => {
+    const named = sectionRegion.get(section);
+    if (named) return named;
+    const address = map.outputSections.get(section);
+    if (address === undefined || NON_ALLOCATED_SECTION_REGEX.test(section)) return undefined;
+    const placed = map.regions.find(
+      (region) => address >= region.origin && address < region.origin + region.length,
+    )?.name;
+    if (placed && overflowed.has(placed)) return placed;
+    return overflows.find(
+      (overflow) =>
+        overflow.source === "size_check" && SIZE_CHECK_SECTIONS[overflow.region]?.test(section),
+    )?.region;
+  };
+
+  const totals = new Map<string, MemoryContributor>();
+  for (const input of map.inputs) {
+    const region = regionOf(input.section);
+    if (!region) continue;
+    const object = shortenObjectPath(input.object, projectDir);
+    const key = `${region}|${input.section}|${object}`;
+    const entry = totals.get(key) ?? { object, section: input.section, region, bytes: 0 };
+    entry.bytes += input.bytes;
+    totals.set(key, entry);
+  }
+
+  return Array.from(totals.values())
+    .sort((a, b) => b.bytes - a.bytes)
+    .slice(0, MAX_CONTRIBUTORS);
+}
+
+// Combines the linker's overflow messages with the `.map` file, when the
+// build wrote one, into per-region overflow amounts and the largest objects.
+export function analyzeMemoryOverflow(
+  logText: string,
+  opts: { projectDir?: string; environment?: string; mapText?: string } = {},
+): MemoryOverflowAnalysis | undefined {
+  const regions = parseMemoryOverflows(logText);
+  if (regions.length === 0) return undefined;
+
+  let mapText = opts.mapText;
+  let mapPath: string | undefined;
+  let mapNote: string | undefined;
+  if (mapText === undefined && opts.projectDir) {
+    mapPath = findBuildOutput(opts.projectDir, "firmware.map", opts.environment);
+    try {
+      mapText = mapPath ? fs.readFileSync(mapPath, "utf8") : undefined;
+    } catch {
+      mapPath = undefined;
+    }
+    if (mapText === undefined) {
+      const buildDir =
+        opts.environment && opts.environment !== "default"
+          ? `.pio/build/${opts.environment}/`
+          : "any .pio/build environment";
+      mapNote = `No firmware.map found in ${buildDir}; contributors were not ranked.`;
+    }
+  }
+
+  return {
+    regions,
+    totalOverflowBytes: regions.reduce((sum, region) => sum + region.overflowBytes, 0),
+    ...(mapPath ? { mapPath } : {}),
+    ...(mapNote ? { mapNote } : {}),
+    topContributors: mapText ? rankContributors(parseLinkerMap(mapText), regions, opts.projectDir) : [],
+  };
+}
+
+export function describeMemoryOverflow(analysis: MemoryOverflowAnalysis): string[] {
+  return [
+    ...analysis.regions.map((region) => {
+      const sections = region.sections.length > 0 ? ` (sections ${region.sections.join(", ")})` : "";
+      return `${region.region} overflowed by ${region.overflowBytes} bytes${sections}`;
+    }),
+    ...analysis.topContributors.map(
+      (contributor) => `${contributor.bytes} bytes in ${contributor.region}: ${contributor.object} (${contributor.section})`,
+    ),
+    ...(analysis.mapNote ? [analysis.mapNote] : []),
+  ];
+}
+
+// One concrete step per region: how much to cut and which objects hold it.
+export function memoryOverflowActions(analysis: MemoryOverflowAnalysis): string[] {
+  const actions = analysis.regions.map((region) => {
+    const largest = analysis.topContributors
+      .filter((contributor) => contributor.region === region.region)
+      .slice(0, CONTRIBUTORS_PER_ACTION)
+      .map((contributor) => `${contributor.object} ${contributor.section} (${contributor.bytes} bytes)`);
+    const where = largest.length > 0 ? `; largest contributors: ${largest.join(", ")}` : "";
+    return `Cut at least ${region.overflowBytes} bytes from ${region.region}${where}.`;
+  });
+  if (analysis.topContributors.length === 0) {
+    actions.push(
+      "Add `-Wl,-Map,${BUILD_DIR}/firmware.map` to build_flags and rebuild to see which objects fill the region.",
+    );
+  }
+  return actions;
+}
+
+export function attachMemoryOverflowAnalysis(
+  diagnostic: DiagnosticResult,
+  logText: string,
+  opts: { projectDir?: string; environment?: string },
+): DiagnosticResult {
+  const isOverflow =
+    diagnostic.errorType === "MemoryOverflow" ||
+    Boolean(diagnostic.findings?.some((finding) => finding.errorType === "MemoryOverflow"));
+  if (!isOverflow) return diagnostic;
+
+  const analysis = analyzeMemoryOverflow(logText, opts);
+  if (!analysis) return diagnostic;
+
+  const action = memoryOverflowActions(analysis).join(" ");
+  return {
+    ...diagnostic,
+    ...(diagnostic.errorType === "MemoryOverflow" ? { recommendedAction: action } : {}),
+    evidence: [...diagnostic.evidence, ...describeMemoryOverflow(analysis)],
+    ...(diagnostic.findings
+      ? {
+          findings: diagnostic.findings.map((finding) =>
+            finding.errorType === "MemoryOverflow" ? { ...finding, recommendedAction: action } : finding,
+          ),
+        }
+      : {}),
+    memoryOverflow: analysis,
+  };
+}
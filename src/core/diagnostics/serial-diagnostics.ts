@@ -1,14 +1,46 @@
 import { serialMatchers } from "./matchers.js";
 import { diagnoseFromLog } from "./diagnose.js";
+import { analyzeEsp32Boots, describeBootAnalysis } from "./esp32-boot.js";
+import type { DiagnosticResult } from "./types.js";
 
 export function diagnoseSerialLog(
   logText: string,
-  opts?: { taskId?: string; rawLogPath?: string; success?: boolean },
-) {
-  return diagnoseFromLog("monitor", logText, serialMatchers, {
+  opts?: {
+    taskId?: string;
+    rawLogPath?: string;
+    success?: boolean;
+    projectDir?: string;
+    allFindings?: boolean;
+  },
+): DiagnosticResult {
+  const result = diagnoseFromLog("monitor", logText, serialMatchers, {
     taskId: opts?.taskId,
     rawLogPath: opts?.rawLogPath,
     successOverride: opts?.success ?? false,
+    projectDir: opts?.projectDir,
+    allFindings: opts?.allFindings,
   });
-}
 
+  const bootAnalysis = analyzeEsp32Boots(logText);
+  if (bootAnalysis.bootCount === 0) return result;
+
+  // A boot loop is only actionable with its cause, so lead with the decoded reset reasons.
+  if (result.errorType === "BootLoop" && bootAnalysis.likelyCause) {
+    const recommendedAction = bootAnalysis.explanation ?? result.recommendedAction;
+    return {
+      ...result,
+      summary: `monitor failed with BootLoop: ${bootAnalysis.bootCount} boots, most resets caused by ${bootAnalysis.likelyCause}.`,
+      evidence: describeBootAnalysis(bootAnalysis).slice(-4),
+      recommendedAction,
+      ...(result.findings
+        ? {
+            findings: result.findings.map((finding) =>
+              finding.errorType === "BootLoop" ? { ...finding, recommendedAction } : finding,
+            ),
+          }
+        : {}),
+      bootAnalysis,
+    };
+  }
+  return { ...result, bootAnalysis };
+}
@@ -0,0 +1,34 @@
+import type { DiagnosticsStatusResult } from "../../types.js";
+import {
+  buildMatchers,
+  serialMatchers,
+  testMatchers,
+  uploadMatchers,
+} from "./matchers.js";
+import { loadWorkspaceDiagnosticMatchers } from "./workspace-matchers.js";
+
+export function getDiagnosticsStatus(projectDir?: string): DiagnosticsStatusResult {
+  const workspace = projectDir
+    ? loadWorkspaceDiagnosticMatchers(projectDir)
+    : { source: undefined, matchers: [], errors: [] };
+
+  return {
+    source: workspace.source ?? "built-in",
+    valid: workspace.errors.length === 0,
+    builtInMatcherCounts: {
+      build: buildMatchers.length,
+      upload: uploadMatchers.length,
+      monitor: serialMatchers.length,
+      test: testMatchers.length,
+    },
+    workspaceMatchers: workspace.matchers.map((matcher) => ({
+      stage: matcher.stage,
+      errorType: matcher.errorType,
+      pattern: matcher.pattern.source,
+      flags: matcher.pattern.flags,
+      severity: matcher.severity,
+      safeToAutoRetry: matcher.safeToAutoRetry,
+    })),
+    errors: workspace.errors,
+  };
+}
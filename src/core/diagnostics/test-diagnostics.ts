@@ -0,0 +1,21 @@
+import { testMatchers } from "./matchers.js";
+import { diagnoseFromLog } from "./diagnose.js";
+
+export function diagnoseTestLog(
+  logText: string,
+  opts?: {
+    taskId?: string;
+    rawLogPath?: string;
+    success?: boolean;
+    projectDir?: string;
+    allFindings?: boolean;
+  },
+) {
+  return diagnoseFromLog("test", logText, testMatchers, {
+    taskId: opts?.taskId,
+    rawLogPath: opts?.rawLogPath,
+    successOverride: opts?.success ?? false,
+    projectDir: opts?.projectDir,
+    allFindings: opts?.allFindings,
+  });
+}
@@ -0,0 +1,141 @@
+import type {
+  TestCaseResult,
+  TestCaseStatus,
+  TestRunResults,
+  TestSuiteResult,
+} from "../../types.js";
+
+const DEFAULT_SUITE = "default";
+
+// `Processing test_common in native environment`
+const SUITE_START_REGEX = /^Processing\s+(\S+)\s+in\s+(\S+)\s+environment/i;
+// `----- native:test_common [FAILED] Took 1.23 seconds -----`
+const SUITE_END_REGEX =
+  /^-*\s*(\S+):(\S+)\s+\[(PASSED|FAILED|SKIPPED|ERRORED)\]\s+Took\s+([\d.]+)\s+seconds/i;
+// PlatformIO: `test/test_main.cpp:21: test_sub: Expected 12 Was 11	[FAILED]`
+const PIO_CASE_REGEX =
+  /^(.+?):(\d+):\s*(\w+)(?::\s*(.*?))?\s*\[(PASSED|FAILED|SKIPPED|IGNORED|ERRORED)\](?:\s*\((\d+(?:\.\d+)?)\s*ms\))?$/;
+// Raw Unity: `test/test_main.cpp:21:test_sub:FAIL: Expected 12 Was 11 (3 ms)`
+const UNITY_CASE_REGEX =
+  /^(.+?):(\d+):(\w+):(PASS|FAIL|IGNORE)(?::\s*(.*?))?(?:\s*\((\d+(?:\.\d+)?)\s*ms\))?$/;
+
+function toStatus(token: string): TestCaseStatus {
+  switch (token.toUpperCase()) {
+    case "PASS":
+    case "PASSED":
+      return "passed";
+    case "FAIL":
+    case "FAILED":
+      return "failed";
+    case "IGNORE":
+    case "IGNORED":
+    case "SKIPPED":
+      return "skipped";
+    default:
+      return "errored";
+  }
+}
+
+function toCase(
+  file: string,
+  lineNumber: string,
+  name: string,
+  status: string,
+  message?: string,
+  duration?: string,
+): Omit<TestCaseResult, "suite" | "environment"> {
+  return {
+    name,
+    file,
+    line: Number(lineNumber),
+    status: toStatus(status),
+    ...(message?.trim() ? { message: message.trim() } : {}),
+    ...(duration ? { durationMs: Number(duration) } : {}),
+  };
+}
+
+function parseCaseLine(line: string): Omit<TestCaseResult, "suite" | "environment"> | undefined {
+  const pio = PIO_CASE_REGEX.exec(line);
+  if (pio) return toCase(pio[1], pio[2], pio[3], pio[5], pio[4], pio[6]);
+  const unity = UNITY_CASE_REGEX.exec(line);
+  if (unity) return toCase(unity[1], unity[2], unity[3], unity[4], unity[5], unity[6]);
+  return undefined;
+}
+
+function deriveSuiteStatus(cases: TestCaseResult[]): TestCaseStatus {
+  if (cases.some((item) => item.status === "failed")) return "failed";
+  if (cases.some((item) => item.status === "errored")) return "errored";
+  if (cases.length > 0 && cases.every((item) => item.status === "skipped")) return "skipped";
+  return cases.length > 0 ? "passed" : "errored";
+}
+
+// Parses `pio test` output (PlatformIO's formatted lines or raw Unity lines).
+// Verbose runs print both forms for the same case; the first one wins.
+export function parseUnityTestOutput(logText: string): TestRunResults {
+  const suites: TestSuiteResult[] = [];
+  const explicitStatus = new Map<TestSuiteResult, TestCaseStatus>();
+  const seenCases = new Set<string>();
+  let current: TestSuiteResult | undefined;
+
+  const ensureSuite = (): TestSuiteResult => {
+    if (!current) {
+      current = { name: DEFAULT_SUITE, status: "errored", cases: [] };
+      suites.push(current);
+    }
+    return current;
+  };
+
+  for (const rawLine of (logText || "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const start = SUITE_START_REGEX.exec(line);
+    if (start) {
+      current = { name: start[1], environment: start[2], status: "errored", cases: [] };
+      suites.push(current);
+      continue;
+    }
+
+    const end = SUITE_END_REGEX.exec(line);
+    if (end) {
+      const suite =
+        suites.find((item) => item.environment === end[1] && item.name === end[2]) ??
+        ensureSuite();
+      explicitStatus.set(suite, toStatus(end[3]));
+      suite.durationMs = Math.round(Number(end[4]) * 1000);
+      continue;
+    }
+
+    const parsed = parseCaseLine(line);
+    if (!parsed) continue;
+    const suite = ensureSuite();
+    const key = `${suite.environment ?? ""}:${suite.name}:${parsed.file}:${parsed.line}:${parsed.name}`;
+    if (seenCases.has(key)) continue;
+    seenCases.add(key);
+    suite.cases.push({
+      ...parsed,
+      suite: suite.name,
+      ...(suite.environment ? { environment: suite.environment } : {}),
+    });
+  }
+
+  for (const suite of suites) {
+    suite.status = explicitStatus.get(suite) ?? deriveSuiteStatus(suite.cases);
+  }
+
+  const cases = suites.flatMap((suite) => suite.cases);
+  const count = (status: TestCaseStatus) => cases.filter((item) => item.status === status).length;
+  const firstFailure = cases.find((item) => item.status === "failed");
+
+  return {
+    suites,
+    totals: {
+      total: cases.length,
+      passed: count("passed"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      errored: count("errored"),
+    },
+    ...(firstFailure ? { firstFailure } : {}),
+  };
+}
@@ -6,27 +6,34 @@ export type DiagnosticStage =
   | "device_discovery"
   | "unknown";
 
-export type DiagnosticErrorType =
-  | "MissingHeader"
-  | "MissingLibrary"
-  | "SyntaxError"
-  | "LinkerError"
-  | "MemoryOverflow"
-  | "WrongBoard"
-  | "WrongFramework"
-  | "UnknownBoard"
-  | "UnknownFramework"
-  | "PortBusy"
-  | "PermissionDenied"
-  | "UploadSyncFailed"
-  | "DeviceDisconnected"
-  | "BootLoop"
-  | "Brownout"
-  | "WatchdogReset"
-  | "PanicTrace"
-  | "NoSerialOutput"
-  | "Esp32StrappingPinRisk"
-  | "Unknown";
+export const DIAGNOSTIC_ERROR_TYPES = [
+  "MissingHeader",
+  "MissingLibrary",
+  "SyntaxError",
+  "LinkerError",
+  "MemoryOverflow",
+  "WrongBoard",
+  "WrongFramework",
+  "UnknownBoard",
+  "UnknownFramework",
+  "PortBusy",
+  "PermissionDenied",
+  "UploadSyncFailed",
+  "DeviceDisconnected",
+  "BootLoop",
+  "Brownout",
+  "WatchdogReset",
+  "PanicTrace",
+  "NoSerialOutput",
+  "Esp32StrappingPinRisk",
+  "BootPinRisk",
+  "TestAssertionFailed",
+  "TestTimeout",
+  "TestUploadFailed",
+  "Unknown",
+] as const;
+
+export type DiagnosticErrorType = (typeof DIAGNOSTIC_ERROR_TYPES)[number];
 
 export interface DiagnosticResult {
   success: boolean;
@@ -40,6 +47,26 @@ export interface DiagnosticResult {
   rawLogPath?: string;
   taskId?: string;
   timestamp: string;
+  // Multi-finding mode only: ranked findings; the first one is the primary
+  // finding mirrored in the top-level fields.
+  findings?: DiagnosticFinding[];
+  // Monitor stage only: decoded ESP32 boot banners.
+  bootAnalysis?: BootAnalysis;
+  // Monitor stage only: panic backtrace resolved against the firmware ELF.
+  backtrace?: BacktraceSymbolication;
+  // Build stage only: overflowed memory regions and what fills them.
+  memoryOverflow?: MemoryOverflowAnalysis;
+}
+
+export interface DiagnosticFinding {
+  errorType: DiagnosticErrorType;
+  severity: DiagnosticResult["severity"];
+  summary: string;
+  evidence: string[];
+  occurrences: number;
+  firstLine?: number;
+  recommendedAction: string;
+  safeToAutoRetry: boolean;
 }
 
 export interface DiagnosticMatcher {
@@ -49,3 +76,79 @@ export interface DiagnosticMatcher {
   severity: DiagnosticResult["severity"];
   safeToAutoRetry: boolean;
 }
+
+export type Esp32ResetCause =
+  | "power_on"
+  | "software"
+  | "panic"
+  | "watchdog"
+  | "brownout"
+  | "deep_sleep"
+  | "external"
+  | "unknown";
+
+export interface BootRecord {
+  index: number;
+  line: number;
+  resetCode: number;
+  resetReason: string;
+  resetCause: Esp32ResetCause;
+  bootCode?: number;
+  bootMode?: string;
+  // Time since the previous boot: host timestamps when the capture has them,
+  // otherwise the last device log timestamp of the previous boot (a lower bound).
+  msSincePreviousBoot?: number;
+  timingSource?: "host" | "device_log";
+}
+
+export interface BootAnalysis {
+  bootCount: number;
+  boots: BootRecord[];
+  resetCauses: Partial<Record<Esp32ResetCause, number>>;
+  bootLoop: boolean;
+  likelyCause?: Esp32ResetCause;
+  meanMsBetweenBoots?: number;
+  explanation?: string;
+}
+
+export interface BacktraceFrame {
+  address: string;
+  function?: string;
+  file?: string;
+  line?: number;
+  inlinedBy?: string[];
+}
+
+export interface BacktraceSymbolication {
+  frames: BacktraceFrame[];
+  elfPath?: string;
+  addr2linePath?: string;
+  error?: string;
+}
+
+export interface MemoryRegionOverflow {
+  region: string;
+  overflowBytes: number;
+  // Output sections the linker could not place in the region.
+  sections: string[];
+  // `linker` for `region ... overflowed` errors, `size_check` for
+  // PlatformIO's program/data size check against the board limits.
+  source: "linker" | "size_check";
+}
+
+export interface MemoryContributor {
+  object: string;
+  section: string;
+  region?: string;
+  bytes: number;
+}
+
+export interface MemoryOverflowAnalysis {
+  regions: MemoryRegionOverflow[];
+  totalOverflowBytes: number;
+  mapPath?: string;
+  // Why no linker map was read, e.g. the environment's build wrote none.
+  mapNote?: string;
+  // Largest input objects in the overflowed regions, from the linker map.
+  topContributors: MemoryContributor[];
+}
@@ -3,12 +3,20 @@ import { diagnoseFromLog } from "./diagnose.js";
 
 export function diagnoseUploadLog(
   logText: string,
-  opts?: { taskId?: string; rawLogPath?: string; success?: boolean },
+  opts?: {
+    taskId?: string;
+    rawLogPath?: string;
+    success?: boolean;
+    projectDir?: string;
+    allFindings?: boolean;
+  },
 ) {
   return diagnoseFromLog("upload", logText, uploadMatchers, {
     taskId: opts?.taskId,
     rawLogPath: opts?.rawLogPath,
     successOverride: opts?.success ?? false,
+    projectDir: opts?.projectDir,
+    allFindings: opts?.allFindings,
   });
 }
 
@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z, ZodError } from "zod";
+import {
+  StructuredConfigError,
+  describeZodIssues,
+  formatConfigIssue,
+  loadStructuredConfigFile,
+} from "../../utils/structured-config.js";
+import {
+  DIAGNOSTIC_ERROR_TYPES,
+  type DiagnosticMatcher,
+  type DiagnosticStage,
+} from "./types.js";
+
+export const WORKSPACE_DIAGNOSTICS_FILES = [
+  ".pio-mcp/diagnostics.yaml",
+  ".pio-mcp/diagnostics.yml",
+  ".pio-mcp/diagnostics.json",
+];
+
+const MATCHER_STAGES = ["build", "upload", "monitor", "test", "any"] as const;
+
+function regexError(pattern: string, flags: string): string | undefined {
+  try {
+    new RegExp(pattern, flags);
+    return undefined;
+  } catch (error: unknown) {
+    return (error as Error).message;
+  }
+}
+
+const WorkspaceMatcherSchema = z
+  .object({
+    stage: z.enum(MATCHER_STAGES).default("any"),
+    pattern: z.string().min(1),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, "Only i, m, s and u flags are supported")
+      .default("i"),
+    errorType: z.enum(DIAGNOSTIC_ERROR_TYPES),
+    severity: z.enum(["info", "warning", "error", "critical"]).default("error"),
+    recommendedAction: z.string().min(1),
+    safeToAutoRetry: z.boolean().default(false),
+  })
+  .strict()
+  .superRefine((entry, ctx) => {
+    const message = regexError(entry.pattern, entry.flags);
+    if (message) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["pattern"],
+        message: `Invalid regular expression: ${message}`,
+      });
+    }
+  });
+
+const WorkspaceDiagnosticsFileSchema = z
+  .object({ matchers: z.array(z.unknown()) })
+  .strict();
+
+export type WorkspaceDiagnosticMatcher = DiagnosticMatcher & {
+  stage: (typeof MATCHER_STAGES)[number];
+};
+
+export type WorkspaceDiagnosticMatchers = {
+  source?: string;
+  matchers: WorkspaceDiagnosticMatcher[];
+  errors: string[];
+};
+
+export function findWorkspaceDiagnosticsFile(projectDir: string): string | undefined {
+  return WORKSPACE_DIAGNOSTICS_FILES.map((name) => path.join(projectDir, name)).find(
+    (candidate) => fs.existsSync(candidate),
+  );
+}
+
+// Invalid entries are skipped and reported; valid entries in the same file still load.
+export function loadWorkspaceDiagnosticMatchers(projectDir: string): WorkspaceDiagnosticMatchers {
+  const filePath = findWorkspaceDiagnosticsFile(projectDir);
+  if (!filePath) return { matchers: [], errors: [] };
+
+  let loaded: ReturnType<typeof loadStructuredConfigFile>;
+  try {
+    loaded = loadStructuredConfigFile(filePath);
+  } catch (error: unknown) {
+    const message =
+      error instanceof StructuredConfigError
+        ? formatConfigIssue(filePath, fs.readFileSync(filePath, "utf8"), error.line, error.message)
+        : `${filePath}: ${(error as Error).message}`;
+    return { source: filePath, matchers: [], errors: [message] };
+  }
+
+  const { document, text } = loaded;
+  const file = WorkspaceDiagnosticsFileSchema.safeParse(document.data);
+  if (!file.success) {
+    return {
+      source: filePath,
+      matchers: [],
+      errors: describeZodIssues(file.error, document, filePath, text),
+    };
+  }
+
+  const matchers: WorkspaceDiagnosticMatcher[] = [];
+  const errors: string[] = [];
+  file.data.matchers.forEach((raw, index) => {
+    const entry = WorkspaceMatcherSchema.safeParse(raw);
+    if (!entry.success) {
+      const scoped = new ZodError(
+        entry.error.issues.map((issue) => ({ ...issue, path: ["matchers", index, ...issue.path] })),
+      );
+      errors.push(...describeZodIssues(scoped, document, filePath, text));
+      return;
+    }
+    const { pattern, flags, ...rest } = entry.data;
+    matchers.push({ ...rest, pattern: new RegExp(pattern, flags) });
+  });
+
+  return { source: filePath, matchers, errors };
+}
+
+export function workspaceMatchersForStage(
+  projectDir: string,
+  stage: DiagnosticStage,
+): DiagnosticMatcher[] {
+  return loadWorkspaceDiagnosticMatchers(projectDir).matchers.filter(
+    (matcher) => matcher.stage === "any" || matcher.stage === stage,
+  );
+}
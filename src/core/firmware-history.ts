@@ -0,0 +1,220 @@
+/**
+ * Firmware Artifact Registry
+ *
+ * Provides:
+ * - FIRMWARE_HISTORY_LIMIT: Artifacts kept per environment.
+ * - artifactIdOf: Derives an artifact ID from a build's cache key.
+ * - recordFirmwareArtifact: Registers a build kept in the shared artifact store.
+ * - listFirmwareArtifacts: Lists recorded builds with their availability.
+ * - getFirmwareArtifact: Looks up a recorded build by ID.
+ * - stageFirmwareArtifact: Puts a recorded build into `.pio/build/<env>/` for upload.
+ * - markFirmwareArtifactVerified: Marks a build as known-good.
+ * - findLastKnownGoodArtifact: Finds the newest verified build to roll back to.
+ * - resolveCurrentArtifactId: Identifies the build currently in the workspace.
+ */
+
+import path from "node:path";
+import type { FirmwareArtifact, FirmwareArtifactListResult } from "../types.js";
+import { readFirmwareHistory, writeFirmwareHistory } from "../utils/artifacts.js";
+import {
+  ARTIFACT_STORE_DIR,
+  readStoredBuild,
+  restoreStoredBuild,
+  type StoredBuild,
+} from "../utils/artifact-store.js";
+import { invalidateBuildCache, readCache } from "../utils/build-cache.js";
+import { PlatformIOError } from "../utils/errors.js";
+
+export const FIRMWARE_HISTORY_LIMIT = 50;
+export const DEFAULT_ARTIFACT_LIST_LIMIT = 20;
+
+/**
+ * Derives the artifact ID of a build. Builds of identical inputs share an ID.
+ *
+ * @param inputsHash - Cache key of the build.
+ * @returns First 12 hex digits of the key.
+ */
+export function artifactIdOf(inputsHash: string): string {
+  return inputsHash.slice(0, 12);
+}
+
+/**
+ * Registers a build kept in the shared artifact store. Rebuilding identical
+ * inputs moves the existing record to the end and keeps its verification.
+ * Beyond {@link FIRMWARE_HISTORY_LIMIT} per environment the oldest records
+ * are dropped, except the environment's newest verified one.
+ *
+ * @param projectDir - Project root directory.
+ * @param stored - The stored build.
+ * @param gitCommit - Short git commit of the project at build time.
+ * @returns The recorded artifact.
+ */
+export function recordFirmwareArtifact(
+  projectDir: string,
+  stored: StoredBuild,
+  gitCommit?: string,
+): FirmwareArtifact {
+  const id = artifactIdOf(stored.inputsHash);
+  const history = readFirmwareHistory(projectDir);
+  const previous = history.find((item) => item.id === id);
+  const artifact: FirmwareArtifact = {
+    id,
+    environment: stored.buildEnvironment,
+    inputsHash: stored.inputsHash,
+    ...(gitCommit ? { gitCommit } : {}),
+    builtAt: new Date(stored.entry.builtAtMs).toISOString(),
+    ...(stored.entry.flashUsageBytes !== undefined ? { flashUsageBytes: stored.entry.flashUsageBytes } : {}),
+    ...(stored.entry.ramUsageBytes !== undefined ? { ramUsageBytes: stored.entry.ramUsageBytes } : {}),
+    files: stored.files.map((file) => path.join(ARTIFACT_STORE_DIR, stored.inputsHash, file)),
+    ...(previous?.verifiedAt ? { verifiedAt: previous.verifiedAt } : {}),
+  };
+
+  const entries = [...history.filter((item) => item.id !== id), artifact];
+  const sameEnvironment = entries.filter((item) => item.environment === artifact.environment);
+  const keep = sameEnvironment.filter((item) => item.verifiedAt).pop();
+  const dropped = new Set(
+    sameEnvironment
+      .filter((item) => item !== keep)
+      .slice(0, Math.max(0, sameEnvironment.length - FIRMWARE_HISTORY_LIMIT)),
+  );
+  writeFirmwareHistory(
+    projectDir,
+    entries.filter((item) => !dropped.has(item)),
+  );
+  return artifact;
+}
+
+function isAvailable(artifact: FirmwareArtifact): boolean {
+  return readStoredBuild(artifact.inputsHash) !== undefined;
+}
+
+/**
+ * Lists recorded builds, newest first, with whether the artifact store still
+ * holds their files.
+ *
+ * @param projectDir - Project root directory.
+ * @param environment - Only list this environment.
+ * @param limit - Number of artifacts to list.
+ * @returns Artifacts and the last known-good artifact per environment.
+ */
+export function listFirmwareArtifacts(
+  projectDir: string,
+  environment?: string,
+  limit: number = DEFAULT_ARTIFACT_LIST_LIMIT,
+): FirmwareArtifactListResult {
+  const history = readFirmwareHistory(projectDir)
+    .filter((item) => !environment || item.environment === environment)
+    .reverse();
+
+  const lastKnownGood: Record<string, string> = {};
+  for (const artifact of history) {
+    if (artifact.verifiedAt && !lastKnownGood[artifact.environment] && isAvailable(artifact)) {
+      lastKnownGood[artifact.environment] = artifact.id;
+    }
+  }
+
+  return {
+    projectDir,
+    artifacts: history.slice(0, limit).map((artifact) => ({ ...artifact, available: isAvailable(artifact) })),
+    lastKnownGood,
+  };
+}
+
+/**
+ * Looks up a recorded build.
+ *
+ * @param projectDir - Project root directory.
+ * @param artifactId - Artifact ID from {@link listFirmwareArtifacts}.
+ * @returns The artifact.
+ * @throws {PlatformIOError} When no build with this ID was recorded.
+ */
+export function getFirmwareArtifact(projectDir: string, artifactId: string): FirmwareArtifact {
+  const artifact = readFirmwareHistory(projectDir).find((item) => item.id === artifactId);
+  if (!artifact) {
+    throw new PlatformIOError(
+      `No firmware artifact '${artifactId}' is recorded for this project. Call list_firmware_artifacts for the available IDs.`,
+      "ARTIFACT_NOT_FOUND",
+      { projectDir, artifactId },
+    );
+  }
+  return artifact;
+}
+
+/**
+ * Copies a recorded build into `.pio/build/<env>/` so PlatformIO can upload
+ * it without building. The workspace build cache is dropped because the
+ * build directory no longer matches the current sources.
+ *
+ * @param projectDir - Project root directory.
+ * @param artifactId - Artifact ID from {@link listFirmwareArtifacts}.
+ * @returns The staged artifact.
+ * @throws {PlatformIOError} When the ID is unknown or its files were evicted.
+ */
+export function stageFirmwareArtifact(projectDir: string, artifactId: string): FirmwareArtifact {
+  const artifact = getFirmwareArtifact(projectDir, artifactId);
+  const restored = restoreStoredBuild(projectDir, artifact.inputsHash);
+  if (!restored) {
+    throw new PlatformIOError(
+      `Firmware artifact '${artifactId}' is no longer in the artifact store. Rebuild it from commit ${artifact.gitCommit ?? "(unknown)"} instead.`,
+      "ARTIFACT_UNAVAILABLE",
+      { projectDir, artifactId },
+    );
+  }
+  invalidateBuildCache(projectDir);
+  return artifact;
+}
+
+/**
+ * Marks a build as known-good after it passed runtime verification.
+ *
+ * @param projectDir - Project root directory.
+ * @param artifactId - Artifact ID of the flashed build.
+ * @returns The updated artifact, or `undefined` when the ID is not recorded.
+ */
+export function markFirmwareArtifactVerified(
+  projectDir: string,
+  artifactId: string,
+): FirmwareArtifact | undefined {
+  const history = readFirmwareHistory(projectDir);
+  const artifact = history.find((item) => item.id === artifactId);
+  if (!artifact) return undefined;
+  artifact.verifiedAt = new Date().toISOString();
+  writeFirmwareHistory(projectDir, history);
+  return artifact;
+}
+
+/**
+ * Finds the newest verified build of an environment whose files are still
+ * available.
+ *
+ * @param projectDir - Project root directory.
+ * @param environment - Environment to roll back.
+ * @param excludeId - Artifact to skip, usually the one that just failed.
+ * @returns The artifact, or `undefined` when none was verified.
+ */
+export function findLastKnownGoodArtifact(
+  projectDir: string,
+  environment: string,
+  excludeId?: string,
+): FirmwareArtifact | undefined {
+  return readFirmwareHistory(projectDir)
+    .reverse()
+    .find(
+      (item) =>
+        item.environment === environment && item.verifiedAt && item.id !== excludeId && isAvailable(item),
+    );
+}
+
+/**
+ * Identifies the recorded build matching the workspace's last successful
+ * build, which is what a plain upload flashes.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Artifact ID, or `undefined` when that build was not recorded.
+ */
+export function resolveCurrentArtifactId(projectDir: string): string | undefined {
+  const entry = readCache(projectDir);
+  if (!entry) return undefined;
+  const id = artifactIdOf(entry.inputsHash);
+  return readFirmwareHistory(projectDir).some((item) => item.id === id) ? id : undefined;
+}
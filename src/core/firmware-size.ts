@@ -0,0 +1,284 @@
+/**
+ * Firmware Size Analysis
+ *
+ * Provides:
+ * - readElfLayout: Reads section headers and the symbol table of an ELF32/ELF64 file.
+ * - summarizeFirmwareSize: Builds a size report from the ELF and, when available, the linker map.
+ * - libraryOfObject: Attributes a linked object file to its library.
+ */
+
+import type {
+  FirmwareLibrarySize,
+  FirmwareObjectSize,
+  FirmwareSectionKind,
+  FirmwareSectionSize,
+  FirmwareSizeReport,
+  FirmwareSymbolSize,
+} from "../types.js";
+import { PlatformIOError } from "../utils/errors.js";
+import { parseLinkerMap, shortenObjectPath } from "./diagnostics/memory-overflow.js";
+
+export const DEFAULT_SIZE_REPORT_TOP = 20;
+
+const SHT_SYMTAB = 2;
+const SHT_NOBITS = 8;
+const SHF_WRITE = 0x1;
+const SHF_ALLOC = 0x2;
+const SHF_EXECINSTR = 0x4;
+const STT_OBJECT = 1;
+const STT_FUNC = 2;
+const SHN_LORESERVE = 0xff00;
+
+/**
+ * Section header fields used by the size report.
+ */
+export interface ElfSection {
+  name: string; // Section name from the section header string table
+  type: number; // `sh_type`
+  flags: number; // `sh_flags`
+  address: number; // `sh_addr`
+  size: number; // `sh_size`
+}
+
+/**
+ * Symbol table fields used by the size report.
+ */
+export interface ElfSymbol {
+  name: string; // Symbol name from the linked string table
+  value: number; // `st_value` (address)
+  size: number; // `st_size`
+  type: number; // `STT_*` from `st_info`
+  sectionIndex: number; // `st_shndx`
+}
+
+type ElfReader = {
+  u16: (offset: number) => number;
+  u32: (offset: number) => number;
+  word: (offset: number) => number;
+};
+
+function createReader(buffer: Buffer, is64: boolean, littleEndian: boolean): ElfReader {
+  const u16 = (offset: number) => (littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset));
+  const u32 = (offset: number) => (littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+  const u64 = (offset: number) =>
+    Number(littleEndian ? buffer.readBigUInt64LE(offset) : buffer.readBigUInt64BE(offset));
+  return { u16, u32, word: is64 ? u64 : u32 };
+}
+
+function readCString(buffer: Buffer, offset: number): string {
+  const end = buffer.indexOf(0, offset);
+  return buffer.toString("latin1", offset, end === -1 ? buffer.length : end);
+}
+
+/**
+ * Reads section headers and symbols from an ELF image.
+ *
+ * @param buffer - Complete ELF file contents.
+ * @returns Sections in header order and all symbols of the `.symtab`.
+ * @throws {PlatformIOError} When the buffer is not a readable ELF file.
+ */
+export function readElfLayout(buffer: Buffer): { sections: ElfSection[]; symbols: ElfSymbol[] } {
+  if (buffer.length < 52 || buffer.readUInt32BE(0) !== 0x7f454c46) {
+    throw new PlatformIOError("Firmware file is not an ELF image.", "INVALID_ELF", {});
+  }
+  const is64 = buffer[4] === 2;
+  const read = createReader(buffer, is64, buffer[5] !== 2);
+
+  try {
+    const shoff = read.word(is64 ? 0x28 : 0x20);
+    const shentsize = read.u16(is64 ? 0x3a : 0x2e);
+    const shnum = read.u16(is64 ? 0x3c : 0x30);
+    const shstrndx = read.u16(is64 ? 0x3e : 0x32);
+
+    const headers = Array.from({ length: shnum }, (_, index) => {
+      const base = shoff + index * shentsize;
+      return {
+        nameOffset: read.u32(base),
+        type: read.u32(base + 4),
+        flags: read.word(base + 8),
+        address: read.word(base + (is64 ? 0x10 : 0x0c)),
+        offset: read.word(base + (is64 ? 0x18 : 0x10)),
+        size: read.word(base + (is64 ? 0x20 : 0x14)),
+        link: read.u32(base + (is64 ? 0x28 : 0x18)),
+        entsize: read.word(base + (is64 ? 0x38 : 0x24)),
+      };
+    });
+    const names = headers[shstrndx];
+    const sections: ElfSection[] = headers.map((header) => ({
+      name: names ? readCString(buffer, names.offset + header.nameOffset) : "",
+      type: header.type,
+      flags: header.flags,
+      address: header.address,
+      size: header.size,
+    }));
+
+    const symbols: ElfSymbol[] = [];
+    const symtab = headers.find((header) => header.type === SHT_SYMTAB);
+    const strtab = symtab ? headers[symtab.link] : undefined;
+    if (symtab && strtab && symtab.entsize > 0) {
+      for (let base = symtab.offset; base + symtab.entsize <= symtab.offset + symtab.size; base += symtab.entsize) {
+        const info = buffer[base + (is64 ? 4 : 12)];
+        symbols.push({
+          name: readCString(buffer, strtab.offset + read.u32(base)),
+          value: read.word(base + (is64 ? 8 : 4)),
+          size: read.word(base + (is64 ? 16 : 8)),
+          type: info & 0xf,
+          sectionIndex: read.u16(base + (is64 ? 6 : 14)),
+        });
+      }
+    }
+    return { sections, symbols };
+  } catch (error: unknown) {
+    if (error instanceof RangeError) {
+      throw new PlatformIOError("Firmware ELF is truncated or malformed.", "INVALID_ELF", {});
+    }
+    throw error;
+  }
+}
+
+function sectionKind(section: ElfSection): FirmwareSectionKind {
+  if (section.type === SHT_NOBITS) return "bss";
+  if (section.flags & SHF_EXECINSTR) return "text";
+  if (section.flags & SHF_WRITE) return "data";
+  return "rodata";
+}
+
+/**
+ * Attributes an object from the linker map to a library. Archive members
+ * belong to their archive; PlatformIO compiles library sources under
+ * `lib<hash>/<Library>/`, framework sources under their own folder, and
+ * project sources under `src/`.
+ *
+ * @param object - Object path as returned by `shortenObjectPath`.
+ * @returns Library name.
+ */
+export function libraryOfObject(object: string): string {
+  const archive = /([^/]+\.a)\([^)]+\)$/.exec(object);
+  if (archive) return archive[1];
+  const parts = object.split("/");
+  if (/^lib[0-9a-f]{3}$/.test(parts[0]) && parts.length > 2) return parts[1];
+  return parts.length > 1 ? parts[0] : "(other)";
+}
+
+function summarizeObjects(
+  mapText: string,
+  allocated: Set<string>,
+  projectDir?: string,
+): { objects: FirmwareObjectSize[]; libraries: FirmwareLibrarySize[] } {
+  const objects = new Map<string, FirmwareObjectSize>();
+  for (const input of parseLinkerMap(mapText).inputs) {
+    if (!allocated.has(input.section)) continue;
+    const object = shortenObjectPath(input.object, projectDir);
+    const entry = objects.get(object) ?? { object, library: libraryOfObject(object), bytes: 0, sections: {} };
+    entry.bytes += input.bytes;
+    entry.sections[input.section] = (entry.sections[input.section] ?? 0) + input.bytes;
+    objects.set(object, entry);
+  }
+
+  const libraries = new Map<string, FirmwareLibrarySize>();
+  for (const object of objects.values()) {
+    const entry = libraries.get(object.library) ?? { library: object.library, bytes: 0, objects: 0 };
+    entry.bytes += object.bytes;
+    entry.objects += 1;
+    libraries.set(object.library, entry);
+  }
+
+  return {
+    objects: Array.from(objects.values()).sort((a, b) => b.bytes - a.bytes),
+    libraries: Array.from(libraries.values()).sort((a, b) => b.bytes - a.bytes),
+  };
+}
+
+/**
+ * Builds a firmware size report. Section totals and symbols come from the
+ * ELF; object and library contributions need the linker map.
+ *
+ * @param elf - Firmware ELF contents.
+ * @param opts - Report context: paths, environment, map text and list length.
+ * @returns Size report with the `top` largest symbols and objects.
+ */
+export function summarizeFirmwareSize(
+  elf: Buffer,
+  opts: {
+    environment: string;
+    elfPath: string;
+    mapPath?: string;
+    mapText?: string;
+    projectDir?: string;
+    top?: number;
+  },
+): FirmwareSizeReport {
+  const top = opts.top ?? DEFAULT_SIZE_REPORT_TOP;
+  const layout = readElfLayout(elf);
+
+  const sections: FirmwareSectionSize[] = layout.sections
+    .filter((section) => section.flags & SHF_ALLOC && section.size > 0)
+    .map((section) => ({
+      name: section.name,
+      address: section.address,
+      size: section.size,
+      kind: sectionKind(section),
+    }))
+    .sort((a, b) => b.size - a.size);
+
+  const totals = { text: 0, rodata: 0, data: 0, bss: 0 };
+  for (const section of sections) totals[section.kind] += section.size;
+
+  const seen = new Set<string>();
+  const topSymbols: FirmwareSymbolSize[] = layout.symbols
+    .filter(
+      (symbol) =>
+        (symbol.type === STT_FUNC || symbol.type === STT_OBJECT) &&
+        symbol.size > 0 &&
+        symbol.sectionIndex > 0 &&
+        symbol.sectionIndex < SHN_LORESERVE &&
+        Boolean(layout.sections[symbol.sectionIndex]?.flags & SHF_ALLOC),
+    )
+    // Aliases share an address and size; count them once.
+    .filter((symbol) => {
+      const key = `${symbol.value}:${symbol.size}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => b.size - a.size)
+    .slice(0, top)
+    .map((symbol) => ({
+      name: symbol.name,
+      size: symbol.size,
+      type: symbol.type === STT_FUNC ? "function" : "object",
+      section: layout.sections[symbol.sectionIndex]?.name,
+    }));
+
+  const notes: string[] = [];
+  let objects: FirmwareObjectSize[] = [];
+  let libraries: FirmwareLibrarySize[] = [];
+  if (opts.mapText !== undefined) {
+    const allocated = new Set(sections.map((section) => section.name));
+    ({ objects, libraries } = summarizeObjects(opts.mapText, allocated, opts.projectDir));
+    objects = objects.slice(0, top);
+  } else {
+    notes.push(
+      "No linker map found: per-object and per-library sizes need `-Wl,-Map,${BUILD_DIR}/firmware.map` in build_flags.",
+    );
+  }
+  if (topSymbols.length === 0) {
+    notes.push("The ELF has no sized symbols (stripped firmware); only section sizes are reported.");
+  }
+
+  return {
+    environment: opts.environment,
+    elfPath: opts.elfPath,
+    ...(opts.mapPath ? { mapPath: opts.mapPath } : {}),
+    totals: {
+      flashBytes: totals.text + totals.rodata + totals.data,
+      ramBytes: totals.data + totals.bss,
+      ...totals,
+    },
+    sections,
+    topSymbols,
+    objects,
+    libraries,
+    notes,
+  };
+}
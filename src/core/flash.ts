@@ -9,6 +9,7 @@ export type UploadFirmwareCoreInput = {
   verbose?: boolean;
   background?: boolean;
   startMonitorAfter?: boolean;
+  artifactId?: string;
   sessionId?: string;
 };
 
@@ -23,6 +24,7 @@ export async function uploadFirmwareCore(
       input.verbose,
       input.background,
       input.startMonitorAfter,
+      input.artifactId,
     );
 
   if (input.sessionId) {
@@ -0,0 +1,130 @@
+import type { PinScanner, PinUsage } from "./types.js";
+import {
+  readCallArguments,
+  splitArguments,
+  stripComments,
+  toPinUsage,
+  usageLocation,
+} from "./symbols.js";
+
+// Operation name -> whether the call drives the pin as an output
+// (`pinMode` is decided by its mode argument).
+const PIN_CALLS: Record<string, boolean> = {
+  pinMode: false,
+  digitalWrite: true,
+  analogWrite: true,
+  analogRead: false,
+  dacWrite: true,
+  ledcAttachPin: true,
+  ledcAttach: true,
+};
+
+// `SPI.begin`, the ESP32 `hspi`/`vspi` convention and `SPIClass` variables
+// declared in the file; other `*spi*` objects such as `SPIFFS` are not buses.
+function spiBeginPattern(text: string): RegExp {
+  const instances = new Set(["SPI\\d?", "hspi", "vspi"]);
+  for (const match of text.matchAll(/\bSPIClass\s*\*?\s*([A-Za-z_]\w*)/g)) {
+    instances.add(match[1]);
+  }
+  return new RegExp(`\\b(?:${[...instances].join("|")})\\s*(?:\\.|->)\\s*begin\\s*\\(`, "g");
+}
+
+// Peripheral begin calls with explicit pins; roles map argument positions
+// (from `firstArg`) to pins claimed by the peripheral instance.
+const BUS_CALLS: Array<{
+  pattern: RegExp | ((text: string) => RegExp);
+  minArgs: number;
+  firstArg?: number;
+  accepts?: (args: string[]) => boolean;
+  roles: Array<{ name: string; drivesOutput: boolean }>;
+}> = [
+  {
+    pattern: /\bWire\d?\s*\.\s*(?:begin|setPins)\s*\(/g,
+    minArgs: 2,
+    roles: [
+      { name: "sda", drivesOutput: true },
+      { name: "scl", drivesOutput: true },
+    ],
+  },
+  {
+    pattern: spiBeginPattern,
+    minArgs: 3,
+    roles: [
+      { name: "sck", drivesOutput: true },
+      { name: "miso", drivesOutput: false },
+      { name: "mosi", drivesOutput: true },
+      { name: "ss", drivesOutput: true },
+    ],
+  },
+  {
+    // HardwareSerial: `Serial2.begin(baud, SERIAL_8N1, rx, tx)`.
+    pattern: /\b[A-Za-z_][A-Za-z0-9_]*\s*\.\s*begin\s*\(/g,
+    minArgs: 3,
+    firstArg: 2,
+    accepts: (args) => /^SERIAL_\d[NEO]\d$/.test(args[1] ?? ""),
+    roles: [
+      { name: "rx", drivesOutput: false },
+      { name: "tx", drivesOutput: true },
+    ],
+  },
+  {
+    pattern: /\bSerial\d\s*\.\s*setPins\s*\(/g,
+    minArgs: 2,
+    roles: [
+      { name: "rx", drivesOutput: false },
+      { name: "tx", drivesOutput: true },
+    ],
+  },
+  {
+    pattern: /\bSD\s*\.\s*begin\s*\(/g,
+    minArgs: 1,
+    roles: [{ name: "cs", drivesOutput: true }],
+  },
+];
+
+export const arduinoPinScanner: PinScanner = {
+  id: "arduino",
+  frameworks: ["arduino"],
+  scan: (source, symbols) => {
+    const usages: PinUsage[] = [];
+    const text = stripComments(source.text);
+
+    const callRegex = new RegExp(`\\b(${Object.keys(PIN_CALLS).join("|")})\\s*\\(`, "g");
+    for (const match of text.matchAll(callRegex)) {
+      const operation = match[1];
+      const openIdx = (match.index ?? 0) + match[0].length - 1;
+      const args = splitArguments(readCallArguments(text, openIdx) ?? "");
+      const usage = toPinUsage(args[0] ?? "", symbols, {
+        operation,
+        drivesOutput:
+          operation === "pinMode" ? /\bOUTPUT(?:_OPEN_DRAIN)?\b/.test(args[1] ?? "") : PIN_CALLS[operation],
+        ...usageLocation(source, match.index ?? 0),
+      });
+      if (usage) usages.push(usage);
+    }
+
+    for (const bus of BUS_CALLS) {
+      const pattern = typeof bus.pattern === "function" ? bus.pattern(text) : bus.pattern;
+      for (const match of text.matchAll(pattern)) {
+        const openIdx = (match.index ?? 0) + match[0].length - 1;
+        const args = splitArguments(readCallArguments(text, openIdx) ?? "");
+        if (args.length < bus.minArgs || (bus.accepts && !bus.accepts(args))) continue;
+        const callName = match[0].replace(/[\s(]/g, "");
+        const owner = callName.split(/\.|->/)[0];
+        const firstArg = bus.firstArg ?? 0;
+        bus.roles.forEach((role, idx) => {
+          const usage = toPinUsage(args[firstArg + idx] ?? "", symbols, {
+            operation: `${callName} (${role.name})`,
+            drivesOutput: role.drivesOutput,
+            owner,
+            role: role.name,
+            ...usageLocation(source, match.index ?? 0),
+          });
+          if (usage) usages.push(usage);
+        });
+      }
+    }
+
+    return usages;
+  },
+};
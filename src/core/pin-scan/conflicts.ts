@@ -0,0 +1,59 @@
+import type { BoardPin } from "../../boards/types.js";
+import type { PinUsage } from "./types.js";
+
+export type PinConflict = {
+  pin: BoardPin;
+  // Distinct owners: peripheral names, plus `GPIO` for plain pin calls.
+  owners: string[];
+  uses: PinUsage[];
+  // True when two peripherals claim the pin or a GPIO call drives it.
+  drivesConflict: boolean;
+};
+
+const CHIP_SELECT_ROLES = new Set(["cs", "ss"]);
+const GPIO_OWNER = "GPIO";
+
+function ownerKey(usage: PinUsage): string {
+  return usage.owner ? `${usage.owner} ${usage.role ?? ""}`.trim() : GPIO_OWNER;
+}
+
+// Chip selects are toggled by hand, and a bus SS doubles as a device CS,
+// so those pairings are not conflicts.
+function conflictingUses(uses: PinUsage[]): PinUsage[] {
+  const claims = uses.filter((usage) => usage.owner);
+  if (claims.length === 0) return [];
+
+  const hasDeviceCs = claims.some((usage) => usage.role === "cs");
+  const relevantClaims = claims.filter((usage) => !(hasDeviceCs && usage.role === "ss"));
+  const claimOwners = new Set(relevantClaims.map(ownerKey));
+  const chipSelectOnly = relevantClaims.every((usage) => CHIP_SELECT_ROLES.has(usage.role ?? ""));
+  const gpioUses = chipSelectOnly ? [] : uses.filter((usage) => !usage.owner);
+
+  if (claimOwners.size < 2 && gpioUses.length === 0) return [];
+  return [...relevantClaims, ...gpioUses];
+}
+
+export function findPinConflicts(usages: PinUsage[]): PinConflict[] {
+  const byPin = new Map<BoardPin, PinUsage[]>();
+  for (const usage of usages) {
+    if (!usage.resolved) continue;
+    byPin.set(usage.pin, [...(byPin.get(usage.pin) ?? []), usage]);
+  }
+
+  const conflicts: PinConflict[] = [];
+  for (const [pin, uses] of byPin) {
+    const conflicting = conflictingUses(uses);
+    if (conflicting.length === 0) continue;
+    const owners = Array.from(new Set(conflicting.map(ownerKey)));
+    const peripheralOwners = owners.filter((owner) => owner !== GPIO_OWNER);
+    conflicts.push({
+      pin,
+      owners,
+      uses: conflicting,
+      drivesConflict:
+        peripheralOwners.length > 1 ||
+        conflicting.some((usage) => !usage.owner && usage.drivesOutput),
+    });
+  }
+  return conflicts;
+}
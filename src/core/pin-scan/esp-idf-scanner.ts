@@ -0,0 +1,135 @@
+import type { PinScanner, PinSymbolTable, PinUsage } from "./types.js";
+import {
+  expandDefine,
+  readCallArguments,
+  splitArguments,
+  stripComments,
+  toPinUsage,
+  usageLocation,
+} from "./symbols.js";
+
+// Driver calls taking a gpio_num_t first argument.
+const GPIO_CALLS = [
+  "gpio_set_direction",
+  "gpio_set_level",
+  "gpio_get_level",
+  "gpio_set_pull_mode",
+  "gpio_reset_pin",
+  "gpio_pullup_en",
+  "gpio_pulldown_en",
+];
+
+const OUTPUT_MODE_REGEX = /GPIO_MODE_(?:INPUT_)?OUTPUT(?:_OD)?\b/;
+const MASK_BIT_REGEX =
+  /(?:\b1[uU]?[lL]{0,2}\s*<<\s*|\bBIT(?:64)?\s*\()\s*\(?\s*([A-Za-z_][A-Za-z0-9_]*|\d{1,2})/g;
+
+function bitMaskTokens(expression: string, symbols: PinSymbolTable): string[] {
+  const tokens: string[] = [];
+  const expanded = expression.replace(/[A-Za-z_][A-Za-z0-9_]*/g, (token) =>
+    symbols.defines.has(token) && !symbols.pins.has(token) ? `(${expandDefine(token, symbols)})` : token,
+  );
+  for (const match of expanded.matchAll(MASK_BIT_REGEX)) {
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+// Text between the previous and next occurrence of `marker` around `index`.
+function segmentAround(text: string, index: number, marker: string): string {
+  const start = text.lastIndexOf(marker, index);
+  const nextIdx = text.indexOf(marker, index);
+  const end = nextIdx === -1 ? text.length : text.indexOf(";", nextIdx) + 1 || text.length;
+  return text.slice(start === -1 ? 0 : start + marker.length, end);
+}
+
+const UART_PIN_ROLES = ["tx", "rx", "rts", "cts"];
+
+// Each device config is its own chip-select owner; name it after its variable.
+function spiDeviceName(text: string, index: number): string {
+  const assigned = /([A-Za-z_]\w*)\s*(?:\.|->)\s*$/.exec(text.slice(Math.max(0, index - 80), index));
+  if (assigned) return assigned[1];
+  const declarations = Array.from(
+    text.slice(Math.max(0, index - 600), index).matchAll(/spi_device_interface_config_t\s+([A-Za-z_]\w*)/g),
+  );
+  return declarations.at(-1)?.[1] ?? "spi_device";
+}
+
+export const espIdfPinScanner: PinScanner = {
+  id: "espidf",
+  // Arduino-ESP32 sketches call the IDF drivers directly as well.
+  frameworks: ["espidf", "arduino"],
+  scan: (source, symbols) => {
+    const usages: PinUsage[] = [];
+    const text = stripComments(source.text);
+
+    const callRegex = new RegExp(`\\b(${GPIO_CALLS.join("|")})\\s*\\(`, "g");
+    for (const match of text.matchAll(callRegex)) {
+      const operation = match[1];
+      const openIdx = (match.index ?? 0) + match[0].length - 1;
+      const args = splitArguments(readCallArguments(text, openIdx) ?? "");
+      const drivesOutput =
+        operation === "gpio_set_level" ||
+        (operation === "gpio_set_direction" && OUTPUT_MODE_REGEX.test(args[1] ?? ""));
+      const usage = toPinUsage(args[0] ?? "", symbols, {
+        operation,
+        drivesOutput,
+        ...usageLocation(source, match.index ?? 0),
+      });
+      if (usage) usages.push(usage);
+    }
+
+    for (const match of text.matchAll(/\bpin_bit_mask\s*=\s*([^;,}]+)/g)) {
+      const segment = segmentAround(text, match.index ?? 0, "gpio_config(");
+      const drivesOutput = /\bmode\s*=\s*GPIO_MODE_(?:INPUT_)?OUTPUT/.test(segment);
+      for (const token of bitMaskTokens(match[1], symbols)) {
+        const usage = toPinUsage(token, symbols, {
+          operation: "gpio_config",
+          drivesOutput,
+          ...usageLocation(source, match.index ?? 0),
+        });
+        if (usage) usages.push(usage);
+      }
+    }
+
+    for (const match of text.matchAll(/\bgpio_num\s*=\s*([A-Za-z_][A-Za-z0-9_]*|\d{1,2})/g)) {
+      const index = match.index ?? 0;
+      const context = text.slice(Math.max(0, index - 600), index);
+      const isLedc = /ledc_channel_config/.test(context);
+      const usage = toPinUsage(match[1], symbols, {
+        operation: isLedc ? "ledc_channel_config" : "gpio_num",
+        drivesOutput: isLedc,
+        ...usageLocation(source, index),
+      });
+      if (usage) usages.push(usage);
+    }
+
+    for (const match of text.matchAll(/\buart_set_pin\s*\(/g)) {
+      const openIdx = (match.index ?? 0) + match[0].length - 1;
+      const [port, ...pins] = splitArguments(readCallArguments(text, openIdx) ?? "");
+      UART_PIN_ROLES.forEach((role, idx) => {
+        const usage = toPinUsage(pins[idx] ?? "", symbols, {
+          operation: `uart_set_pin (${role})`,
+          drivesOutput: role === "tx" || role === "rts",
+          owner: port?.trim() || "uart",
+          role,
+          ...usageLocation(source, match.index ?? 0),
+        });
+        if (usage) usages.push(usage);
+      });
+    }
+
+    for (const match of text.matchAll(/\bspics_io_num\s*=\s*([A-Za-z_][A-Za-z0-9_]*|\d{1,2})/g)) {
+      const index = match.index ?? 0;
+      const usage = toPinUsage(match[1], symbols, {
+        operation: "spi_device_interface_config_t.spics_io_num",
+        drivesOutput: true,
+        owner: spiDeviceName(text, index),
+        role: "cs",
+        ...usageLocation(source, index),
+      });
+      if (usage) usages.push(usage);
+    }
+
+    return usages;
+  },
+};
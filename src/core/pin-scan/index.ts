@@ -0,0 +1,41 @@
+import { arduinoPinScanner } from "./arduino-scanner.js";
+import { espIdfPinScanner } from "./esp-idf-scanner.js";
+import { collectPinSymbols } from "./symbols.js";
+import type { PinScanner, PinScanSource, PinUsage } from "./types.js";
+
+export { findPinConflicts, type PinConflict } from "./conflicts.js";
+export type { PinScanner, PinScanSource, PinSymbolTable, PinUsage } from "./types.js";
+
+export const pinScanners: PinScanner[] = [arduinoPinScanner, espIdfPinScanner];
+
+export function registerPinScanner(scanner: PinScanner): void {
+  const existing = pinScanners.findIndex((item) => item.id === scanner.id);
+  if (existing === -1) pinScanners.push(scanner);
+  else pinScanners[existing] = scanner;
+}
+
+// Unknown or empty framework lists run every scanner.
+export function selectPinScanners(frameworks: string[]): PinScanner[] {
+  const wanted = frameworks.map((item) => item.trim().toLowerCase()).filter(Boolean);
+  if (wanted.length === 0) return [...pinScanners];
+  const selected = pinScanners.filter((scanner) =>
+    scanner.frameworks.some((framework) => wanted.includes(framework)),
+  );
+  return selected.length > 0 ? selected : [...pinScanners];
+}
+
+export function scanPinUsages(
+  sources: PinScanSource[],
+  frameworks: string[],
+  buildFlagDefines?: Map<string, string>,
+): PinUsage[] {
+  const symbols = collectPinSymbols(sources, buildFlagDefines);
+  const scanners = selectPinScanners(frameworks);
+  const usages: PinUsage[] = [];
+  for (const source of sources) {
+    for (const scanner of scanners) {
+      usages.push(...scanner.scan(source, symbols));
+    }
+  }
+  return usages;
+}
@@ -0,0 +1,218 @@
+import { normalizePinToken } from "../../boards/index.js";
+import type { BoardPin } from "../../boards/types.js";
+import type { PinScanSource, PinSymbolTable, PinUsage } from "./types.js";
+
+const DEFINE_REGEX = /^[ \t]*#[ \t]*define[ \t]+([A-Za-z_][A-Za-z0-9_]*)[ \t]+([^\r\n]+)$/;
+const CONDITIONAL_REGEX = /^[ \t]*#[ \t]*(ifndef|ifdef|if|elif|else|endif)\b[ \t]*(.*)$/;
+// `#if !defined(LED_PIN)` / `#if !defined LED_PIN`
+const NOT_DEFINED_REGEX = /^!\s*defined\s*(?:\(\s*([A-Za-z_]\w*)\s*\)|([A-Za-z_]\w*))$/;
+// `constexpr uint8_t LED = 2;`, `static const int BTN(4);`, `const gpio_num_t X{GPIO_NUM_5};`
+const CONST_REGEX =
+  /\b(?:static\s+)?(?:constexpr|const)\s+(?:(?:unsigned|signed|static|const|volatile|constexpr)\s+)*[A-Za-z_][\w:]*\s+(?:const\s+)?([A-Za-z_]\w*)\s*(?:=\s*([^;,{}]+?)|\{\s*([^;{}]+?)\s*\}|\(\s*([^;()]+?)\s*\))\s*[;,]/g;
+const ENUM_REGEX =
+  /\benum\s+(?:class\s+|struct\s+)?([A-Za-z_]\w*)?\s*(?::\s*[\w:\s]+?)?\s*\{([^{}]*)\}/g;
+const CAST_REGEX = /^(?:static_cast\s*<[^>]+>\s*\((.*)\)|\(\s*(?:const\s+)?[A-Za-z_][\w:]*\s*\)\s*(.+))$/;
+const MAX_EXPANSION_DEPTH = 5;
+
+// Blanks out comments while keeping offsets and line breaks, so match indices
+// still point into the original source. String literals are skipped so a URL
+// such as "http://host" does not start a comment.
+export function stripComments(text: string): string {
+  return text.replace(
+    /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g,
+    (match) => (match.startsWith("/") ? match.replace(/[^\n]/g, " ") : match),
+  );
+}
+
+function unwrap(value: string): string {
+  let out = value.trim();
+  for (let depth = 0; depth < MAX_EXPANSION_DEPTH; depth += 1) {
+    const parens = /^\((.*)\)$/.exec(out);
+    const cast = CAST_REGEX.exec(out);
+    if (parens) out = parens[1].trim();
+    else if (cast) out = (cast[1] ?? cast[2]).trim();
+    else break;
+  }
+  return out;
+}
+
+// Defaults guarded by `#ifndef NAME` or `#if !defined(NAME)` are skipped when
+// NAME is already set by a `-D` flag or an earlier define, as the preprocessor
+// would. Other conditions are not evaluated; both of their branches are read.
+function collectDefines(text: string, defines: Map<string, string>): void {
+  const skipped: Array<boolean | undefined> = [];
+  for (const line of text.split(/\r?\n/)) {
+    const conditional = CONDITIONAL_REGEX.exec(line);
+    if (conditional) {
+      const [, directive, condition] = conditional;
+      const top = skipped.length - 1;
+      if (directive === "endif") {
+        skipped.pop();
+      } else if (directive === "else") {
+        if (top >= 0 && skipped[top] !== undefined) skipped[top] = !skipped[top];
+      } else if (directive === "elif") {
+        if (top >= 0) skipped[top] = undefined;
+      } else {
+        const notDefined = NOT_DEFINED_REGEX.exec(condition.trim());
+        const name =
+          directive === "ifndef"
+            ? condition.trim().split(/\s+/)[0]
+            : directive === "if" && notDefined
+              ? (notDefined[1] ?? notDefined[2])
+              : undefined;
+        skipped.push(name ? defines.has(name) : undefined);
+      }
+      continue;
+    }
+    if (skipped.includes(true)) continue;
+    const define = DEFINE_REGEX.exec(line);
+    const body = define?.[2].trim();
+    if (define && body) defines.set(define[1], body);
+  }
+}
+
+function collectEnumMembers(text: string, symbols: PinSymbolTable): void {
+  for (const match of text.matchAll(ENUM_REGEX)) {
+    const enumName = match[1];
+    let previous: number | undefined = -1;
+    for (const rawMember of match[2].split(",")) {
+      const memberMatch = /^\s*([A-Za-z_]\w*)\s*(?:=\s*(.+?))?\s*$/.exec(rawMember);
+      if (!memberMatch) continue;
+      const [, name, explicit] = memberMatch;
+      let value: string | undefined;
+      if (explicit !== undefined) {
+        value = explicit;
+        const pin = resolvePinToken(explicit, symbols);
+        previous = typeof pin === "number" ? pin : undefined;
+      } else if (previous !== undefined) {
+        previous += 1;
+        value = String(previous);
+      }
+      if (value === undefined) continue;
+      symbols.defines.set(name, value);
+      if (enumName) symbols.defines.set(`${enumName}::${name}`, value);
+    }
+  }
+}
+
+// Source-level definitions override `-D` build flags of the same name, unless
+// they are `#ifndef` defaults.
+export function collectPinSymbols(
+  sources: PinScanSource[],
+  buildFlagDefines: Map<string, string> = new Map(),
+): PinSymbolTable {
+  const symbols: PinSymbolTable = { pins: new Map(), defines: new Map(buildFlagDefines) };
+  const texts = sources.map((source) => stripComments(source.text));
+
+  for (const text of texts) {
+    collectDefines(text, symbols.defines);
+    for (const match of text.matchAll(CONST_REGEX)) {
+      const value = match[2] ?? match[3] ?? match[4];
+      if (value) symbols.defines.set(match[1], value.trim());
+    }
+  }
+  for (const text of texts) {
+    collectEnumMembers(text, symbols);
+  }
+
+  for (const name of symbols.defines.keys()) {
+    const pin = resolvePinToken(name, symbols);
+    if (pin !== undefined) symbols.pins.set(name, pin);
+  }
+  return symbols;
+}
+
+export function expandDefine(token: string, symbols: PinSymbolTable): string {
+  let current = unwrap(token);
+  for (let depth = 0; depth < MAX_EXPANSION_DEPTH; depth += 1) {
+    const next = symbols.defines.get(current);
+    if (next === undefined) break;
+    current = unwrap(next);
+  }
+  return current;
+}
+
+export function resolvePinToken(
+  token: string,
+  symbols: PinSymbolTable,
+): BoardPin | undefined {
+  const trimmed = unwrap(token);
+  const direct = normalizePinToken(trimmed) ?? symbols.pins.get(trimmed);
+  if (direct !== undefined) return direct;
+
+  const expanded = expandDefine(trimmed, symbols);
+  if (expanded === trimmed) return undefined;
+  return normalizePinToken(expanded) ?? symbols.pins.get(expanded);
+}
+
+// `-1`, `UART_PIN_NO_CHANGE` and `GPIO_NUM_NC` leave a pin unassigned.
+function isUnassignedPin(token: string, symbols: PinSymbolTable): boolean {
+  const expanded = expandDefine(token, symbols);
+  return /^-\s*\d+$/.test(expanded) || /_NO_CHANGE$|^GPIO_NUM_NC$/.test(expanded);
+}
+
+// Builds a usage for a call argument, keeping unresolved symbols visible.
+export function toPinUsage(
+  token: string,
+  symbols: PinSymbolTable,
+  usage: Omit<PinUsage, "pin" | "resolved">,
+): PinUsage | undefined {
+  const trimmed = token.trim();
+  if (!trimmed || isUnassignedPin(trimmed, symbols)) return undefined;
+  const pin = resolvePinToken(trimmed, symbols);
+  const name = unwrap(trimmed);
+  if (pin === undefined) return { ...usage, pin: name, resolved: false };
+  const isLiteral = normalizePinToken(name) !== undefined;
+  return { ...usage, pin, resolved: true, ...(isLiteral ? {} : { symbol: name }) };
+}
+
+// Splits a call argument list at top-level commas.
+export function splitArguments(argText: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < argText.length; i += 1) {
+    const ch = argText[i];
+    if (ch === "(" || ch === "[" || ch === "{") depth += 1;
+    else if (ch === ")" || ch === "]" || ch === "}") depth -= 1;
+    else if (ch === "," && depth === 0) {
+      args.push(argText.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = argText.slice(start).trim();
+  if (last) args.push(last);
+  return args;
+}
+
+// Returns the text between the parentheses of a call starting at `openIdx`.
+export function readCallArguments(text: string, openIdx: number): string | undefined {
+  let depth = 0;
+  for (let i = openIdx; i < text.length; i += 1) {
+    if (text[i] === "(") depth += 1;
+    else if (text[i] === ")") {
+      depth -= 1;
+      if (depth === 0) return text.slice(openIdx + 1, i);
+    }
+  }
+  return undefined;
+}
+
+export function usageLocation(
+  source: PinScanSource,
+  index: number,
+): Pick<PinUsage, "file" | "lineNumber" | "column" | "line"> {
+  const lineStart = source.text.lastIndexOf("\n", index - 1) + 1;
+  return {
+    file: source.relPath,
+    lineNumber: source.text.slice(0, index).split("\n").length,
+    column: index - lineStart + 1,
+    line: lineAt(source.text, index),
+  };
+}
+
+function lineAt(text: string, index: number): string {
+  const start = text.lastIndexOf("\n", index - 1) + 1;
+  const end = text.indexOf("\n", index);
+  return text.slice(start, end === -1 ? text.length : end).trim();
+}
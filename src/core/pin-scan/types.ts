@@ -0,0 +1,39 @@
+import type { BoardPin } from "../../boards/types.js";
+
+export type PinUsage = {
+  // Resolved pin, or the raw argument text when `resolved` is false.
+  pin: BoardPin;
+  resolved: boolean;
+  // Source name that resolved to `pin` (macro, constant or enum member).
+  symbol?: string;
+  operation: string;
+  drivesOutput: boolean;
+  // Peripheral instance claiming the pin (`Serial2`, `Wire`, `SD`); absent for plain GPIO calls.
+  owner?: string;
+  // Signal role within the owning peripheral (`rx`, `sda`, `cs`, ...).
+  role?: string;
+  file: string;
+  // 1-based position of the call or initializer.
+  lineNumber: number;
+  column: number;
+  // Trimmed source line text.
+  line: string;
+};
+
+export type PinScanSource = {
+  relPath: string;
+  text: string;
+};
+
+export type PinSymbolTable = {
+  pins: Map<string, BoardPin>;
+  // Replacement text for macros, constants and enum members.
+  defines: Map<string, string>;
+};
+
+export interface PinScanner {
+  id: string;
+  // Lower-case PlatformIO framework names the scanner applies to.
+  frameworks: string[];
+  scan: (source: PinScanSource, symbols: PinSymbolTable) => PinUsage[];
+}
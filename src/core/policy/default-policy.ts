@@ -6,17 +6,24 @@ export const actionRiskLevels: Record<string, PolicyRiskLevel> = {
   get_board_info: "low",
   get_project_config: "low",
   get_policy_status: "low",
+  get_diagnostics_status: "low",
   build_project: "low",
+  build_matrix: "low",
   check_project: "low",
+  firmware_size_report: "low",
+  firmware_size_trend: "low",
+  list_firmware_artifacts: "low",
   query_logs: "low",
   agent_validate_project: "low",
   agent_build_diagnose: "low",
   agent_safe_pin_audit: "low",
   agent_get_last_report: "low",
   agent_generate_board_report: "low",
+  agent_generate_pinout: "low",
 
   start_monitor: "medium",
   stop_monitor: "medium",
+  cancel_task: "medium",
   install_library: "medium",
   update_library: "medium",
   clean_project: "medium",
@@ -56,16 +63,23 @@ export const defaultPolicy: PolicyConfig = {
     "get_board_info",
     "get_project_config",
     "get_policy_status",
+    "get_diagnostics_status",
     "build_project",
+    "build_matrix",
     "check_project",
+    "firmware_size_report",
+    "firmware_size_trend",
+    "list_firmware_artifacts",
     "query_logs",
     "start_monitor",
     "stop_monitor",
+    "cancel_task",
     "agent_validate_project",
     "agent_build_diagnose",
     "agent_safe_pin_audit",
     "agent_get_last_report",
     "agent_generate_board_report",
+    "agent_generate_pinout",
   ],
   deny: [
     "erase_disk",
@@ -26,15 +26,22 @@ const READ_ONLY_ALLOW = [
   "agent_safe_pin_audit",
   "agent_get_last_report",
   "agent_generate_board_report",
+  "agent_generate_pinout",
   "get_policy_status",
+  "get_diagnostics_status",
+  "firmware_size_report",
+  "firmware_size_trend",
+  "list_firmware_artifacts",
 ];
 
 const BUILD_ONLY_ALLOW = [
   ...READ_ONLY_ALLOW,
   "build_project",
+  "build_matrix",
   "check_project",
   "run_tests",
   "agent_build_diagnose",
+  "cancel_task",
 ];
 
 /**
@@ -49,12 +56,14 @@ export const policyProfiles: Record<PolicyProfileName, PolicyConfig> = {
       new Set([
         ...defaultPolicy.deny,
         "build_project",
+        "build_matrix",
         "check_project",
         "run_tests",
         "upload_firmware",
         "upload_filesystem",
         "clean_project",
         "reset_server_state",
+        "cancel_task",
         "agent_build_diagnose",
         "agent_flash_monitor_verify",
       ]),
@@ -87,6 +96,7 @@ export const policyProfiles: Record<PolicyProfileName, PolicyConfig> = {
         "agent_flash_monitor_verify",
         "agent_get_last_report",
         "agent_generate_board_report",
+        "agent_generate_pinout",
         "get_policy_status",
       ]),
     ),
@@ -113,6 +123,7 @@ export const policyProfiles: Record<PolicyProfileName, PolicyConfig> = {
         "agent_flash_monitor_verify",
         "agent_get_last_report",
         "agent_generate_board_report",
+        "agent_generate_pinout",
         "get_policy_status",
       ]),
     ),
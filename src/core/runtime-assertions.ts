@@ -5,6 +5,9 @@
  * - evaluateRuntimeAssertions: Evaluates serial output against expected and rejected patterns.
  */
 
+import { analyzeEsp32Boots } from "./diagnostics/esp32-boot.js";
+import type { BootAnalysis, Esp32ResetCause } from "./diagnostics/types.js";
+
 /**
  * Input parameters for runtime assertion evaluation.
  */
@@ -25,6 +28,7 @@ export interface RuntimeAssertionResult {
   rejectedPatterns: string[]; // Rejected patterns that were observed
   runtimeFailures: string[]; // Built-in runtime failure categories observed in output
   stabilityAchieved: boolean; // True when tail quiet-window requirement is met
+  bootAnalysis: BootAnalysis; // Decoded ESP32 ROM boot banners: reset reason, boot mode and timing per boot
 }
 
 type RuntimeFailureMatcher = {
@@ -42,10 +46,18 @@ function includesPattern(haystack: string, pattern: string): boolean {
   return haystack.toLowerCase().includes(pattern.toLowerCase());
 }
 
-function collectBootLoopFailure(serialOutput: string, failures: Set<string>): void {
-  const matches = serialOutput.match(/rst:/gi) ?? [];
-  if (matches.length >= 2) {
-    failures.add("BootLoop");
+const RESET_CAUSE_FAILURES: Partial<Record<Esp32ResetCause, string>> = {
+  brownout: "Brownout",
+  watchdog: "WatchdogReset",
+  panic: "PanicTrace",
+};
+
+function collectBootLoopFailure(bootAnalysis: BootAnalysis, failures: Set<string>): void {
+  if (!bootAnalysis.bootLoop) return;
+  failures.add("BootLoop");
+  const causeFailure = bootAnalysis.likelyCause && RESET_CAUSE_FAILURES[bootAnalysis.likelyCause];
+  if (causeFailure) {
+    failures.add(causeFailure);
   }
 }
 
@@ -84,7 +96,8 @@ export function evaluateRuntimeAssertions(
       runtimeFailures.add(matcher.name);
     }
   }
-  collectBootLoopFailure(output, runtimeFailures);
+  const bootAnalysis = analyzeEsp32Boots(output);
+  collectBootLoopFailure(bootAnalysis, runtimeFailures);
 
   const stabilityAchieved =
     output.trim().length > 0 && secondsSinceLastOutput >= stabilityWindowSeconds;
@@ -95,5 +108,6 @@ export function evaluateRuntimeAssertions(
     rejectedPatterns: rejected,
     runtimeFailures: Array.from(runtimeFailures),
     stabilityAchieved,
+    bootAnalysis,
   };
 }
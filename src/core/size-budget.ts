@@ -0,0 +1,435 @@
+/**
+ * Firmware Size History and Budgets
+ *
+ * Provides:
+ * - parseBuildMemoryUsage: Reads RAM/flash usage and capacity from the PlatformIO size summary.
+ * - parseEnvironmentMemoryUsage: Reads the size summary of each environment in a multi-environment build.
+ * - resolveSizeEnvironment: Resolves the environment a build's sizes belong to.
+ * - readGitCommit: Reads the project's short git commit.
+ * - recordBuildSize: Appends a successful build's sizes to the workspace size history.
+ * - loadSizeBudgets: Loads flash/RAM budgets from `.pio-mcp/size-budgets.yaml`.
+ * - checkSizeBudgets: Compares a build's usage against the configured budgets.
+ * - describeSizeBudgetViolation: Formats a budget violation as a warning.
+ * - getSizeTrend: Reports recorded sizes per environment and flags regressions.
+ */
+
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import type {
+  SizeBudgetViolation,
+  SizeHistoryEntry,
+  SizeMetric,
+  SizeRegression,
+  SizeTrendEnvironment,
+  SizeTrendResult,
+} from "../types.js";
+import {
+  appendSizeHistoryEntry,
+  readBoardReport,
+  readSizeHistory,
+} from "../utils/artifacts.js";
+import {
+  getEnvironmentOption,
+  listDefaultEnvironments,
+  listIniEnvironments,
+  parsePlatformioIni,
+  type PlatformioIni,
+} from "../utils/platformio-ini.js";
+import {
+  StructuredConfigError,
+  describeZodIssues,
+  formatConfigIssue,
+  loadStructuredConfigFile,
+} from "../utils/structured-config.js";
+import { getBoardInfo } from "../tools/boards.js";
+
+export const SIZE_BUDGET_FILES = [
+  ".pio-mcp/size-budgets.yaml",
+  ".pio-mcp/size-budgets.yml",
+  ".pio-mcp/size-budgets.json",
+];
+
+export const DEFAULT_REGRESSION_THRESHOLD_PERCENT = 5;
+export const DEFAULT_SIZE_TREND_LIMIT = 20;
+
+const SIZE_METRICS: SizeMetric[] = ["flash", "ram"];
+
+const BudgetValueSchema = z.union([
+  z.number().int().positive(),
+  z
+    .string()
+    .regex(/^\d+(?:\.\d+)?%$/, 'Use a byte count or a percentage such as "90%"'),
+]);
+
+const SizeBudgetSchema = z
+  .object({
+    environment: z.string().min(1).optional(),
+    flash: BudgetValueSchema.optional(),
+    ram: BudgetValueSchema.optional(),
+  })
+  .strict();
+
+const SizeBudgetsFileSchema = z
+  .object({
+    regressionThresholdPercent: z.number().positive().default(DEFAULT_REGRESSION_THRESHOLD_PERCENT),
+    budgets: z.array(SizeBudgetSchema).default([]),
+  })
+  .strict();
+
+export type SizeBudget = z.infer<typeof SizeBudgetSchema>;
+
+export type SizeBudgets = {
+  source?: string;
+  budgets: SizeBudget[];
+  regressionThresholdPercent: number;
+  errors: string[];
+};
+
+export type BuildMemoryUsage = Pick<
+  SizeHistoryEntry,
+  "flashUsageBytes" | "ramUsageBytes" | "flashMaxBytes" | "ramMaxBytes"
+>;
+
+/**
+ * Reads the `RAM:`/`Flash:` lines of the PlatformIO size summary, e.g.
+ * `Flash: [===       ]  25.3% (used 331457 bytes from 1310720 bytes)`.
+ *
+ * @param log - Build output.
+ * @returns Used bytes and, when printed, the available bytes.
+ */
+export function parseBuildMemoryUsage(log: string): BuildMemoryUsage {
+  const usage: BuildMemoryUsage = {};
+  const ram = /RAM:.*?used\s+(\d+)\s+bytes(?:\s+from\s+(\d+)\s+bytes)?/i.exec(log);
+  if (ram) {
+    usage.ramUsageBytes = parseInt(ram[1], 10);
+    if (ram[2]) usage.ramMaxBytes = parseInt(ram[2], 10);
+  }
+  const flash = /Flash:.*?used\s+(\d+)\s+bytes(?:\s+from\s+(\d+)\s+bytes)?/i.exec(log);
+  if (flash) {
+    usage.flashUsageBytes = parseInt(flash[1], 10);
+    if (flash[2]) usage.flashMaxBytes = parseInt(flash[2], 10);
+  }
+  return usage;
+}
+
+/**
+ * Splits a build log at PlatformIO's `Processing <env> (...)` headers and
+ * reads the size summary of each section.
+ *
+ * @param log - Full output of a build that may cover several environments.
+ * @returns Sizes per environment, for the environments that printed them.
+ */
+export function parseEnvironmentMemoryUsage(log: string): Map<string, BuildMemoryUsage> {
+  const headers = Array.from(log.matchAll(/^Processing (\S+) \(/gm));
+  const usageByEnvironment = new Map<string, BuildMemoryUsage>();
+  headers.forEach((header, index) => {
+    const section = log.slice(header.index, headers[index + 1]?.index ?? log.length);
+    const usage = parseBuildMemoryUsage(section);
+    if (usage.flashUsageBytes !== undefined || usage.ramUsageBytes !== undefined) {
+      usageByEnvironment.set(header[1], usage);
+    }
+  });
+  return usageByEnvironment;
+}
+
+function readProjectIni(projectDir: string): PlatformioIni | undefined {
+  try {
+    return parsePlatformioIni(fs.readFileSync(path.join(projectDir, "platformio.ini"), "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the single environment a build ran for. Without an explicit
+ * environment `pio run` builds every entry of `default_envs`, or every
+ * environment in `platformio.ini`, so there is one only when that list has
+ * a single entry.
+ *
+ * @param projectDir - Project root containing `platformio.ini`.
+ * @param environment - Requested environment; `default` counts as unset.
+ * @returns Environment name, `default` without a readable `platformio.ini`,
+ *   or `undefined` when the build covers several environments.
+ */
+export function resolveSizeEnvironment(projectDir: string, environment?: string): string | undefined {
+  if (environment && environment !== "default") return environment;
+  const ini = readProjectIni(projectDir);
+  if (!ini) return "default";
+  const defaultEnvs = listDefaultEnvironments(ini);
+  const built = defaultEnvs.length > 0 ? defaultEnvs : listIniEnvironments(ini);
+  return built.length === 1 ? built[0] : undefined;
+}
+
+/**
+ * Reads the short commit hash of the project's git checkout.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Short commit hash, or `undefined` outside a git repository.
+ */
+export function readGitCommit(projectDir: string): string | undefined {
+  try {
+    return (
+      execFileSync("git", ["rev-parse", "--short", "HEAD"], {
+        cwd: projectDir,
+        stdio: "pipe",
+        timeout: 5000,
+      })
+        .toString()
+        .trim() || undefined
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records the sizes of a successful build with its timestamp and commit.
+ * Builds without a size summary are not recorded.
+ *
+ * @param projectDir - Project root directory.
+ * @param environment - Environment the build ran for.
+ * @param usage - Sizes parsed from the build output.
+ * @returns The recorded entry, or `undefined` when there was nothing to record.
+ */
+export function recordBuildSize(
+  projectDir: string,
+  environment: string,
+  usage: BuildMemoryUsage,
+): SizeHistoryEntry | undefined {
+  if (usage.flashUsageBytes === undefined && usage.ramUsageBytes === undefined) return undefined;
+  const gitCommit = readGitCommit(projectDir);
+  const entry: SizeHistoryEntry = {
+    environment,
+    recordedAt: new Date().toISOString(),
+    ...(gitCommit ? { gitCommit } : {}),
+    ...usage,
+  };
+  appendSizeHistoryEntry(projectDir, entry);
+  return entry;
+}
+
+/**
+ * Loads size budgets. A budget is a byte count or a percentage of the
+ * board's flash/RAM; entries with an `environment` override the ones without.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Budgets and regression threshold; problems are reported in `errors`.
+ */
+export function loadSizeBudgets(projectDir: string): SizeBudgets {
+  const empty = { budgets: [], regressionThresholdPercent: DEFAULT_REGRESSION_THRESHOLD_PERCENT };
+  const filePath = SIZE_BUDGET_FILES.map((name) => path.join(projectDir, name)).find((candidate) =>
+    fs.existsSync(candidate),
+  );
+  if (!filePath) return { ...empty, errors: [] };
+
+  let loaded: ReturnType<typeof loadStructuredConfigFile>;
+  try {
+    loaded = loadStructuredConfigFile(filePath);
+  } catch (error: unknown) {
+    const message =
+      error instanceof StructuredConfigError
+        ? formatConfigIssue(filePath, fs.readFileSync(filePath, "utf8"), error.line, error.message)
+        : `${filePath}: ${(error as Error).message}`;
+    return { ...empty, source: filePath, errors: [message] };
+  }
+
+  const { document, text } = loaded;
+  const file = SizeBudgetsFileSchema.safeParse(document.data);
+  if (!file.success) {
+    return {
+      ...empty,
+      source: filePath,
+      errors: describeZodIssues(file.error, document, filePath, text),
+    };
+  }
+  return { source: filePath, ...file.data, errors: [] };
+}
+
+function budgetFor(
+  budgets: SizeBudget[],
+  environment: string,
+  metric: SizeMetric,
+): number | string | undefined {
+  return (
+    budgets.find((budget) => budget.environment === environment && budget[metric] !== undefined)?.[metric] ??
+    budgets.find((budget) => budget.environment === undefined && budget[metric] !== undefined)?.[metric]
+  );
+}
+
+// Board capacity: the build's own size summary, then the cached board report,
+// then `pio boards`.
+async function boardCapacity(
+  projectDir: string,
+  environment: string,
+  metric: SizeMetric,
+  usage: BuildMemoryUsage,
+): Promise<number | undefined> {
+  const reported = metric === "flash" ? usage.flashMaxBytes : usage.ramMaxBytes;
+  if (reported) return reported;
+
+  const ini = readProjectIni(projectDir);
+  const board = ini ? getEnvironmentOption(ini, environment, "board") : undefined;
+  if (!board) return undefined;
+  const cached = readBoardReport(projectDir);
+  if (cached?.boardId === board) {
+    const bytes = metric === "flash" ? cached.flashBytes : cached.ramBytes;
+    if (bytes) return bytes;
+  }
+  try {
+    const info = await getBoardInfo(board);
+    return metric === "flash" ? info.flash : info.ram;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compares a build's usage against the budgets of its environment. Missing
+ * capacity figures fall back to the most recent recorded build.
+ *
+ * @param projectDir - Project root directory.
+ * @param environment - Environment the build ran for.
+ * @param usage - Build sizes.
+ * @param budgets - Loaded budgets; read from the project when omitted.
+ * @returns Violations, plus errors for budgets that could not be resolved.
+ */
+export async function checkSizeBudgets(
+  projectDir: string,
+  environment: string,
+  usage: BuildMemoryUsage,
+  budgets: SizeBudgets = loadSizeBudgets(projectDir),
+): Promise<{ violations: SizeBudgetViolation[]; errors: string[] }> {
+  const violations: SizeBudgetViolation[] = [];
+  const errors = [...budgets.errors];
+  const recorded = readSizeHistory(projectDir).filter((entry) => entry.environment === environment).pop();
+  const capacities = {
+    flashMaxBytes: usage.flashMaxBytes ?? recorded?.flashMaxBytes,
+    ramMaxBytes: usage.ramMaxBytes ?? recorded?.ramMaxBytes,
+  };
+
+  for (const metric of SIZE_METRICS) {
+    const budget = budgetFor(budgets.budgets, environment, metric);
+    const usedBytes = metric === "flash" ? usage.flashUsageBytes : usage.ramUsageBytes;
+    if (budget === undefined || usedBytes === undefined) continue;
+
+    let budgetBytes = typeof budget === "number" ? budget : undefined;
+    if (typeof budget === "string") {
+      const capacity = await boardCapacity(projectDir, environment, metric, capacities);
+      if (capacity === undefined) {
+        errors.push(`Cannot resolve the ${budget} ${metric} budget of ${environment}: board ${metric} size is unknown.`);
+        continue;
+      }
+      budgetBytes = Math.floor((capacity * parseFloat(budget)) / 100);
+    }
+    if (budgetBytes !== undefined && usedBytes > budgetBytes) {
+      violations.push({
+        environment,
+        metric,
+        usedBytes,
+        budgetBytes,
+        budget: String(budget),
+        overByBytes: usedBytes - budgetBytes,
+      });
+    }
+  }
+  return { violations, errors };
+}
+
+/**
+ * Formats a budget violation as a one-line warning.
+ *
+ * @param violation - Budget violation.
+ * @returns Warning text.
+ */
+export function describeSizeBudgetViolation(violation: SizeBudgetViolation): string {
+  const label = violation.metric === "flash" ? "Flash" : "RAM";
+  const budget = violation.budget.endsWith("%")
+    ? `${violation.budget} budget (${violation.budgetBytes} bytes)`
+    : `budget of ${violation.budgetBytes} bytes`;
+  return `${label} usage of ${violation.environment} is ${violation.usedBytes} bytes, over its ${budget} by ${violation.overByBytes} bytes.`;
+}
+
+function findRegressions(entries: SizeHistoryEntry[], thresholdPercent: number): SizeRegression[] {
+  const regressions: SizeRegression[] = [];
+  for (let index = 1; index < entries.length; index += 1) {
+    const previous = entries[index - 1];
+    const current = entries[index];
+    for (const metric of SIZE_METRICS) {
+      const fromBytes = metric === "flash" ? previous.flashUsageBytes : previous.ramUsageBytes;
+      const toBytes = metric === "flash" ? current.flashUsageBytes : current.ramUsageBytes;
+      if (!fromBytes || toBytes === undefined) continue;
+      const deltaPercent = ((toBytes - fromBytes) / fromBytes) * 100;
+      if (deltaPercent <= thresholdPercent) continue;
+      regressions.push({
+        metric,
+        fromBytes,
+        toBytes,
+        deltaBytes: toBytes - fromBytes,
+        deltaPercent: Math.round(deltaPercent * 100) / 100,
+        ...(previous.gitCommit ? { fromCommit: previous.gitCommit } : {}),
+        ...(current.gitCommit ? { toCommit: current.gitCommit } : {}),
+        recordedAt: current.recordedAt,
+      });
+    }
+  }
+  return regressions;
+}
+
+function difference(first: number | undefined, last: number | undefined): number | undefined {
+  return first === undefined || last === undefined ? undefined : last - first;
+}
+
+/**
+ * Reports the recorded sizes per environment: the latest builds, growth over
+ * the window, budget violations of the latest build, and build-to-build
+ * growth above the regression threshold.
+ *
+ * @param projectDir - Project root directory.
+ * @param opts - Environment filter, window size and threshold override.
+ * @returns Trend report.
+ */
+export async function getSizeTrend(
+  projectDir: string,
+  opts: { environment?: string; limit?: number; thresholdPercent?: number } = {},
+): Promise<SizeTrendResult> {
+  const budgets = loadSizeBudgets(projectDir);
+  const thresholdPercent = opts.thresholdPercent ?? budgets.regressionThresholdPercent;
+  const limit = opts.limit ?? DEFAULT_SIZE_TREND_LIMIT;
+  const history = readSizeHistory(projectDir);
+  const environmentNames = Array.from(new Set(history.map((entry) => entry.environment))).filter(
+    (name) => !opts.environment || name === opts.environment,
+  );
+
+  const budgetErrors = [...budgets.errors];
+  const environments: SizeTrendEnvironment[] = [];
+  for (const environment of environmentNames) {
+    const all = history.filter((entry) => entry.environment === environment);
+    const entries = all.slice(-limit);
+    const first = entries[0];
+    const latest = entries[entries.length - 1];
+    const check = await checkSizeBudgets(projectDir, environment, latest, { ...budgets, errors: [] });
+    budgetErrors.push(...check.errors);
+    environments.push({
+      environment,
+      totalBuilds: all.length,
+      entries,
+      latest,
+      change: {
+        flashBytes: difference(first.flashUsageBytes, latest.flashUsageBytes),
+        ramBytes: difference(first.ramUsageBytes, latest.ramUsageBytes),
+      },
+      violations: check.violations,
+      regressions: findRegressions(entries, thresholdPercent),
+    });
+  }
+
+  return {
+    projectDir,
+    thresholdPercent,
+    ...(budgets.source ? { budgetSource: budgets.source } : {}),
+    budgetErrors,
+    environments,
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Static Analysis Results
+ *
+ * Provides:
+ * - parseCheckOutput: Parses `pio check` JSON or text output into structured defects.
+ * - hasCheckReport: Tells whether `pio check` output contains a report at all.
+ * - filterDefectsBySeverity: Drops defects below a minimum severity.
+ * - loadCheckBaseline / writeCheckBaseline: Reads and writes the known-defect baseline file.
+ * - applyCheckBaseline: Splits defects into new and baselined ones.
+ * - checkDefectsToSarif: Converts defects to a SARIF 2.1.0 log.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { CheckDefect, CheckDefectSeverity } from "../types.js";
+import { PlatformIOError } from "../utils/errors.js";
+import { buildSarifLog, toSarifLevel, type SarifLog } from "../utils/sarif.js";
+
+export const DEFAULT_CHECK_BASELINE = ".pio-mcp/check-baseline.json";
+
+const SEVERITY_RANK: Record<CheckDefectSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+// `Checking esp32dev > cppcheck (platform: espressif32; board: esp32dev; framework: arduino)`
+const CHECKING_REGEX = /^Checking\s+(\S+)\s+>\s+(\S+)/;
+// `src/main.cpp:12: [medium:warning] Variable 'x' is assigned a value that is never used. [unreadVariable]`
+const TEXT_DEFECT_REGEX =
+  /^(.+?):(\d+)(?::(\d+))?:\s*\[(high|medium|low):([\w-]+)\]\s*(.*?)(?:\s+\[([\w.-]+)\])?$/i;
+
+/**
+ * On-disk baseline of accepted defects.
+ */
+interface CheckBaselineFile {
+  version: 1; // Baseline format version
+  generatedAt: string; // ISO timestamp of the last update
+  defects: Array<Pick<CheckDefect, "fingerprint" | "tool" | "severity" | "file" | "message" | "id">>; // Accepted defects
+}
+
+type RawJsonDefect = {
+  severity?: string;
+  category?: string;
+  message?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  id?: string;
+  cwe?: number | string | null;
+};
+
+type RawJsonRun = {
+  env?: string;
+  tool?: string;
+  defects?: RawJsonDefect[];
+};
+
+function toSeverity(value: string | undefined): CheckDefectSeverity {
+  const normalized = (value ?? "").toLowerCase();
+  return normalized === "high" || normalized === "medium" ? normalized : "low";
+}
+
+// Files outside the project (framework and library sources) keep their
+// absolute path instead of a `../` chain.
+function toProjectPath(file: string, projectDir?: string): string {
+  if (projectDir && path.isAbsolute(file)) {
+    const relative = path.relative(projectDir, file);
+    if (!relative.startsWith("..") && !path.isAbsolute(relative)) return relative.replace(/\\/g, "/");
+  }
+  return file.replace(/\\/g, "/");
+}
+
+function parseCwe(message: string, cwe?: number | string | null): number | undefined {
+  const value = cwe ?? /\bCWE[-\s]?(\d+)\b/i.exec(message)?.[1];
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// Line numbers are left out so a baselined defect survives unrelated edits above it.
+function fingerprintDefect(defect: Omit<CheckDefect, "fingerprint">): string {
+  const message = defect.message.replace(/\s+/g, " ").trim();
+  return [defect.tool, defect.id ?? defect.category, defect.file, message].join("|");
+}
+
+function makeDefect(defect: Omit<CheckDefect, "fingerprint">): CheckDefect {
+  return { ...defect, fingerprint: fingerprintDefect(defect) };
+}
+
+function parseJsonRuns(logText: string): RawJsonRun[] | undefined {
+  const lines = logText.split(/\r?\n/).map((line) => line.trim());
+  for (let i = lines.length - 1; i >= 0; i -= 1) {
+    if (!lines[i].startsWith("[")) continue;
+    try {
+      const parsed: unknown = JSON.parse(lines[i]);
+      if (
+        Array.isArray(parsed) &&
+        parsed.every((item) => typeof item === "object" && item !== null && "tool" in item)
+      ) {
+        return parsed as RawJsonRun[];
+      }
+    } catch {
+      // Not the JSON report line; keep scanning.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses `pio check` output. The `--json-output` report is preferred; the
+ * human-readable defect lines are used as a fallback.
+ *
+ * @param logText - Combined `pio check` output.
+ * @param projectDir - Project root used to relativize absolute file paths.
+ * @returns Defects in report order.
+ */
+export function parseCheckOutput(logText: string, projectDir?: string): CheckDefect[] {
+  const runs = parseJsonRuns(logText || "");
+  if (runs) {
+    return runs.flatMap((run) =>
+      (run.defects ?? []).map((defect) => {
+        const message = defect.message ?? "";
+        const cwe = parseCwe(message, defect.cwe);
+        return makeDefect({
+          tool: run.tool ?? "unknown",
+          ...(run.env ? { environment: run.env } : {}),
+          severity: toSeverity(defect.severity),
+          category: defect.category ?? "unknown",
+          file: toProjectPath(defect.file ?? "", projectDir),
+          line: defect.line ?? 0,
+          ...(defect.column ? { column: defect.column } : {}),
+          message,
+          ...(defect.id ? { id: defect.id } : {}),
+          ...(cwe ? { cwe } : {}),
+        });
+      }),
+    );
+  }
+
+  const defects: CheckDefect[] = [];
+  let environment: string | undefined;
+  let tool = "unknown";
+  for (const rawLine of (logText || "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const checking = CHECKING_REGEX.exec(line);
+    if (checking) {
+      environment = checking[1];
+      tool = checking[2];
+      continue;
+    }
+    const match = TEXT_DEFECT_REGEX.exec(line);
+    if (!match) continue;
+    const cwe = parseCwe(match[6]);
+    defects.push(
+      makeDefect({
+        tool,
+        ...(environment ? { environment } : {}),
+        severity: toSeverity(match[4]),
+        category: match[5],
+        file: toProjectPath(match[1], projectDir),
+        line: Number(match[2]),
+        ...(match[3] ? { column: Number(match[3]) } : {}),
+        message: match[6],
+        ...(match[7] ? { id: match[7] } : {}),
+        ...(cwe ? { cwe } : {}),
+      }),
+    );
+  }
+  return defects;
+}
+
+/**
+ * Tells whether `pio check` output contains a report: the `--json-output`
+ * line or at least one `Checking <env> > <tool>` section.
+ *
+ * @param logText - Combined `pio check` output.
+ * @returns True when a report was found.
+ */
+export function hasCheckReport(logText: string): boolean {
+  if (parseJsonRuns(logText || "")) return true;
+  return (logText || "").split(/\r?\n/).some((line) => CHECKING_REGEX.test(line.trim()));
+}
+
+/**
+ * Keeps defects at or above a minimum severity.
+ *
+ * @param defects - Parsed defects.
+ * @param minSeverity - Lowest severity to keep.
+ * @returns Filtered defects.
+ */
+export function filterDefectsBySeverity(
+  defects: CheckDefect[],
+  minSeverity: CheckDefectSeverity = "low",
+): CheckDefect[] {
+  return defects.filter((defect) => SEVERITY_RANK[defect.severity] >= SEVERITY_RANK[minSeverity]);
+}
+
+/**
+ * Resolves a baseline path relative to the project directory.
+ *
+ * @param projectDir - Project root.
+ * @param baselinePath - Optional explicit path; defaults to `.pio-mcp/check-baseline.json`.
+ * @returns Absolute baseline path.
+ * @throws {PlatformIOError} When the path escapes the project directory.
+ */
+export function resolveCheckBaselinePath(projectDir: string, baselinePath?: string): string {
+  const root = path.resolve(projectDir);
+  const resolved = path.resolve(root, baselinePath ?? DEFAULT_CHECK_BASELINE);
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw new PlatformIOError(
+      `Check baseline must be inside the project directory: ${baselinePath}`,
+      "INVALID_BASELINE_PATH",
+      { projectDir: root, baselinePath },
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Loads baseline fingerprints. A missing file is an empty baseline.
+ *
+ * @param filePath - Absolute baseline path.
+ * @returns Fingerprints, one entry per accepted occurrence.
+ */
+export function loadCheckBaseline(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<CheckBaselineFile>;
+    if (!Array.isArray(parsed.defects)) throw new Error("missing `defects` array");
+    return parsed.defects
+      .map((defect) => defect?.fingerprint)
+      .filter((fingerprint): fingerprint is string => typeof fingerprint === "string");
+  } catch (error: unknown) {
+    throw new PlatformIOError(
+      `Invalid check baseline ${filePath}: ${(error as Error).message}`,
+      "CHECK_BASELINE_INVALID",
+      { filePath },
+    );
+  }
+}
+
+/**
+ * Writes the current defects as the accepted baseline.
+ *
+ * @param filePath - Absolute baseline path.
+ * @param defects - Defects to accept.
+ */
+export function writeCheckBaseline(filePath: string, defects: CheckDefect[]): void {
+  const baseline: CheckBaselineFile = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    defects: defects.map(({ fingerprint, tool, severity, file, message, id }) => ({
+      fingerprint,
+      tool,
+      severity,
+      file,
+      message,
+      ...(id ? { id } : {}),
+    })),
+  };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(baseline, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Splits defects into new ones and ones already accepted by the baseline.
+ * Fingerprints are counted, so a third copy of a twice-baselined defect is new.
+ *
+ * @param defects - Parsed defects.
+ * @param baseline - Baseline fingerprints.
+ * @returns New and suppressed defects.
+ */
+export function applyCheckBaseline(
+  defects: CheckDefect[],
+  baseline: string[],
+): { newDefects: CheckDefect[]; suppressed: CheckDefect[] } {
+  const remaining = new Map<string, number>();
+  for (const fingerprint of baseline) {
+    remaining.set(fingerprint, (remaining.get(fingerprint) ?? 0) + 1);
+  }
+
+  const newDefects: CheckDefect[] = [];
+  const suppressed: CheckDefect[] = [];
+  for (const defect of defects) {
+    const count = remaining.get(defect.fingerprint) ?? 0;
+    if (count > 0) {
+      remaining.set(defect.fingerprint, count - 1);
+      suppressed.push(defect);
+    } else {
+      newDefects.push(defect);
+    }
+  }
+  return { newDefects, suppressed };
+}
+
+/**
+ * Converts static-analysis defects to a SARIF 2.1.0 log.
+ *
+ * @param defects - Defects to export (typically the new ones).
+ * @param projectDir - Optional project root used to resolve `%SRCROOT%`.
+ * @returns SARIF log with one result per defect.
+ */
+export function checkDefectsToSarif(defects: CheckDefect[], projectDir?: string): SarifLog {
+  return buildSarifLog(
+    "platformio-mcp check",
+    defects.map((defect) => ({
+      ruleId: `${defect.tool}/${defect.id ?? defect.category}`,
+      ruleDescription: `${defect.tool} ${defect.id ?? defect.category} (${defect.category})`,
+      level: toSarifLevel(defect.severity),
+      message: defect.message,
+      file: defect.file || undefined,
+      line: defect.line || undefined,
+      column: defect.column,
+      properties: {
+        severity: defect.severity,
+        category: defect.category,
+        ...(defect.cwe ? { cwe: `CWE-${defect.cwe}` } : {}),
+        ...(defect.environment ? { environment: defect.environment } : {}),
+      },
+    })),
+    projectDir,
+  );
+}
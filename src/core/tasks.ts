@@ -1,5 +1,20 @@
+import fs from "node:fs";
 import { checkTaskStatus } from "../tools/build.js";
-import { getCommandHistory } from "../utils/command-registry.js";
+import type { CancelledTask, CancelTaskResult } from "../types.js";
+import {
+  findCommandAcrossWorkspaces,
+  getCommandHistory,
+  updateTaskStatus,
+  type CommandRecord,
+} from "../utils/command-registry.js";
+import { PlatformIOError } from "../utils/errors.js";
+import {
+  killProcessTree,
+  unregisterBuildPid,
+  unregisterPioMonitorPid,
+} from "../utils/process-manager.js";
+import { appendAuditEvent } from "./policy/audit-log.js";
+import { actionRiskLevels } from "./policy/default-policy.js";
 
 export type TaskStatusCoreInput = {
   taskId?: string;
@@ -7,6 +22,11 @@ export type TaskStatusCoreInput = {
   projectDir?: string;
 };
 
+export type CancelTaskCoreInput = {
+  taskId: string;
+  projectDir?: string;
+};
+
 export async function checkTaskStatusCore(input: TaskStatusCoreInput) {
   return checkTaskStatus(input.taskId, input.logPath, input.projectDir);
 }
@@ -28,3 +48,80 @@ export async function checkTaskStatusSummaryCore(input: TaskStatusCoreInput) {
     raw,
   };
 }
+
+/**
+ * Stops the running processes of a background task. Each task is marked
+ * cancelled before its process tree is killed, so the spooler's exit handler
+ * does not report it as failed. Logs are kept with a cancellation marker.
+ */
+export async function cancelTaskCore(input: CancelTaskCoreInput): Promise<CancelTaskResult> {
+  let found: { command: CommandRecord; projectDir?: string } | undefined;
+  if (input.projectDir) {
+    const command = getCommandHistory(input.projectDir).find((cmd) => cmd.id === input.taskId);
+    found = command ? { command, projectDir: input.projectDir } : undefined;
+  } else {
+    found = await findCommandAcrossWorkspaces(input.taskId);
+  }
+  if (!found) {
+    throw new PlatformIOError(`Task ID not found: ${input.taskId}`, "TASK_NOT_FOUND", {
+      taskId: input.taskId,
+      projectDir: input.projectDir,
+    });
+  }
+
+  const { command, projectDir } = found;
+  const running = (command.tasks ?? []).filter((task) => task.status === "running");
+  if (running.length === 0) {
+    throw new PlatformIOError(
+      `Task ${input.taskId} is not running (status: ${command.status}).`,
+      "TASK_NOT_RUNNING",
+      { taskId: input.taskId, status: command.status },
+    );
+  }
+
+  const cancelledAt = new Date().toISOString();
+  const cancelledTasks: CancelledTask[] = [];
+  for (const task of running) {
+    await updateTaskStatus(
+      command.id,
+      task.taskId,
+      { status: "cancelled", error: `Cancelled on request at ${cancelledAt}.` },
+      projectDir,
+    );
+    const killed = task.pid ? await killProcessTree(task.pid, projectDir) : false;
+    if (task.type === "monitor" && task.port) {
+      await unregisterPioMonitorPid(task.port, projectDir);
+    } else if (task.pid) {
+      await unregisterBuildPid(projectDir, task.pid);
+    }
+
+    const logPaths = task.logPaths ?? [];
+    const lastLog = logPaths[logPaths.length - 1];
+    if (lastLog) {
+      try {
+        fs.appendFileSync(lastLog, `\n[Cancelled] Task cancelled on request at ${cancelledAt}; output above is partial.\n`);
+      } catch {
+        /* log rotated away */
+      }
+    }
+    cancelledTasks.push({ taskId: task.taskId, type: task.type, pid: task.pid, killed, logPaths });
+  }
+
+  appendAuditEvent({
+    action: "cancel_task",
+    status: "completed",
+    reason: `Cancelled ${cancelledTasks.length} running task(s): ${running.map((task) => task.commandDesc ?? task.type).join("; ")}`,
+    riskLevel: actionRiskLevels.cancel_task,
+    workspaceDir: projectDir,
+    devicePort: running.find((task) => task.port)?.port,
+    taskId: command.id,
+  });
+
+  return {
+    success: true,
+    taskId: command.id,
+    projectDir,
+    cancelledTasks,
+    message: `Cancelled ${cancelledTasks.length} running task(s). Partial logs were kept.`,
+  };
+}
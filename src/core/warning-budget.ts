@@ -0,0 +1,191 @@
+/**
+ * Compiler Warning Budget
+ *
+ * Provides:
+ * - loadWarningBudget / writeWarningBudget: Reads and writes the accepted-warning budget file.
+ * - applyWarningBudget: Splits a build's warnings into accepted and new ones.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { StructuredBuildWarning, WarningBudgetResult } from "../types.js";
+import { PlatformIOError } from "../utils/errors.js";
+
+export const DEFAULT_WARNING_BUDGET = ".pio-mcp/warning-budget.json";
+
+/**
+ * On-disk budget of accepted warnings.
+ */
+interface WarningBudgetFile {
+  version: 1; // Budget format version
+  generatedAt: string; // ISO timestamp of the last update
+  scope: WarningBudgetResult["scope"]; // `project` ignores library warnings
+  maxNewWarnings: number; // New warnings tolerated before the budget fails
+  warnings: Array<Pick<StructuredBuildWarning, "flag" | "file" | "message"> & { fingerprint: string }>; // Accepted warnings
+}
+
+/**
+ * Loaded warning budget.
+ */
+export interface WarningBudget {
+  source: string; // Absolute budget path
+  scope: WarningBudgetResult["scope"]; // Warnings the budget covers
+  maxNewWarnings: number; // New warnings tolerated before the budget fails
+  fingerprints: string[]; // One entry per accepted occurrence
+}
+
+// Line numbers are left out so an accepted warning survives unrelated edits above it.
+function fingerprintWarning(warning: StructuredBuildWarning): string {
+  const message = warning.message.replace(/\s+/g, " ").trim();
+  return [warning.flag ?? "", warning.file, message].join("|");
+}
+
+function inScope(warnings: StructuredBuildWarning[], scope: WarningBudget["scope"]): StructuredBuildWarning[] {
+  return scope === "all" ? warnings : warnings.filter((warning) => warning.origin === "project");
+}
+
+function readWarningBudgetFile(filePath: string): WarningBudgetFile {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<WarningBudgetFile>;
+    if (!Array.isArray(parsed.warnings)) throw new Error("missing `warnings` array");
+    if (parsed.scope !== undefined && parsed.scope !== "project" && parsed.scope !== "all") {
+      throw new Error("`scope` must be \"project\" or \"all\"");
+    }
+    const maxNewWarnings = parsed.maxNewWarnings ?? 0;
+    if (!Number.isInteger(maxNewWarnings) || maxNewWarnings < 0) {
+      throw new Error("`maxNewWarnings` must be a non-negative integer");
+    }
+    return {
+      version: 1,
+      generatedAt: parsed.generatedAt ?? "",
+      scope: parsed.scope ?? "project",
+      maxNewWarnings,
+      warnings: parsed.warnings.filter((warning) => typeof warning?.fingerprint === "string"),
+    };
+  } catch (error: unknown) {
+    throw new PlatformIOError(
+      `Invalid warning budget ${filePath}: ${(error as Error).message}`,
+      "WARNING_BUDGET_INVALID",
+      { filePath },
+    );
+  }
+}
+
+/**
+ * Loads the workspace warning budget.
+ *
+ * @param projectDir - Project root.
+ * @returns The budget, or `undefined` when the project has none.
+ * @throws {PlatformIOError} When the budget file is malformed.
+ */
+export function loadWarningBudget(projectDir: string): WarningBudget | undefined {
+  const filePath = path.join(projectDir, DEFAULT_WARNING_BUDGET);
+  if (!fs.existsSync(filePath)) return undefined;
+  const file = readWarningBudgetFile(filePath);
+  return {
+    source: filePath,
+    scope: file.scope,
+    maxNewWarnings: file.maxNewWarnings,
+    fingerprints: file.warnings.map((warning) => warning.fingerprint),
+  };
+}
+
+/**
+ * Accepts the build's current warnings as the budget. `scope` and
+ * `maxNewWarnings` of an existing budget are kept. An incremental build only
+ * recompiles changed files, so its warnings are added to the accepted ones
+ * instead of replacing them.
+ *
+ * @param projectDir - Project root.
+ * @param warnings - Warnings of the build.
+ * @param options - `incremental` when the build reused objects of an earlier build.
+ * @returns The written budget.
+ */
+export function writeWarningBudget(
+  projectDir: string,
+  warnings: StructuredBuildWarning[],
+  options: { incremental?: boolean } = {},
+): WarningBudget {
+  const filePath = path.join(projectDir, DEFAULT_WARNING_BUDGET);
+  let previous: WarningBudgetFile | undefined;
+  try {
+    previous = fs.existsSync(filePath) ? readWarningBudgetFile(filePath) : undefined;
+  } catch {
+    // A malformed budget is replaced.
+  }
+  const scope = previous?.scope ?? "project";
+  const kept = options.incremental ? (previous?.warnings ?? []) : [];
+  const remaining = new Map<string, number>();
+  for (const warning of kept) {
+    remaining.set(warning.fingerprint, (remaining.get(warning.fingerprint) ?? 0) + 1);
+  }
+  const added: WarningBudgetFile["warnings"] = [];
+  for (const warning of inScope(warnings, scope)) {
+    const fingerprint = fingerprintWarning(warning);
+    const count = remaining.get(fingerprint) ?? 0;
+    if (count > 0) {
+      remaining.set(fingerprint, count - 1);
+      continue;
+    }
+    added.push({
+      fingerprint,
+      ...(warning.flag ? { flag: warning.flag } : {}),
+      file: warning.file,
+      message: warning.message,
+    });
+  }
+  const budget: WarningBudgetFile = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    scope,
+    maxNewWarnings: previous?.maxNewWarnings ?? 0,
+    warnings: [...kept, ...added],
+  };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(budget, null, 2)}\n`, "utf8");
+  return {
+    source: filePath,
+    scope,
+    maxNewWarnings: budget.maxNewWarnings,
+    fingerprints: budget.warnings.map((warning) => warning.fingerprint),
+  };
+}
+
+/**
+ * Compares a build's warnings with the budget. Fingerprints are counted, so
+ * a third copy of a twice-accepted warning is new.
+ *
+ * @param warnings - Warnings of the build.
+ * @param budget - Loaded budget.
+ * @returns Accepted count, new warnings, and whether the budget is exceeded.
+ */
+export function applyWarningBudget(
+  warnings: StructuredBuildWarning[],
+  budget: WarningBudget,
+): WarningBudgetResult {
+  const remaining = new Map<string, number>();
+  for (const fingerprint of budget.fingerprints) {
+    remaining.set(fingerprint, (remaining.get(fingerprint) ?? 0) + 1);
+  }
+
+  let accepted = 0;
+  const newWarnings: StructuredBuildWarning[] = [];
+  for (const warning of inScope(warnings, budget.scope)) {
+    const fingerprint = fingerprintWarning(warning);
+    const count = remaining.get(fingerprint) ?? 0;
+    if (count > 0) {
+      remaining.set(fingerprint, count - 1);
+      accepted += 1;
+    } else {
+      newWarnings.push(warning);
+    }
+  }
+  return {
+    source: budget.source,
+    scope: budget.scope,
+    maxNewWarnings: budget.maxNewWarnings,
+    accepted,
+    newWarnings,
+    exceeded: newWarnings.length > budget.maxNewWarnings,
+  };
+}
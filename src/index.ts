@@ -23,6 +23,7 @@ import {
   GetBoardInfoParamsSchema,
   InitProjectParamsSchema,
   BuildProjectParamsSchema,
+  BuildMatrixParamsSchema,
   CleanProjectParamsSchema,
   UploadFirmwareParamsSchema,
   UploadFilesystemParamsSchema,
@@ -35,10 +36,14 @@ import {
   StopMonitorParamsSchema,
   QueryLogsParamsSchema,
   CheckTaskStatusParamsSchema,
+  CancelTaskParamsSchema,
   GetDashboardUrlParamsSchema,
   GetProjectConfigParamsSchema,
   GetProjectContextParamsSchema,
   CheckProjectParamsSchema,
+  FirmwareSizeReportParamsSchema,
+  FirmwareSizeTrendParamsSchema,
+  ListFirmwareArtifactsParamsSchema,
   RunTestsParamsSchema,
   UninstallLibraryParamsSchema,
   UpdateLibraryParamsSchema,
@@ -48,7 +53,9 @@ import {
   AgentFlashMonitorVerifyParamsSchema,
   AgentGetLastReportParamsSchema,
   AgentGenerateBoardReportParamsSchema,
+  AgentGeneratePinoutParamsSchema,
   GetPolicyStatusParamsSchema,
+  GetDiagnosticsStatusParamsSchema,
 } from "./types.js";
 import { registerCommand, updateCommandStatus } from "./utils/command-registry.js";
 import { mcpContext } from "./utils/mcp-context.js";
@@ -57,17 +64,25 @@ import { addWorkspace } from "./utils/workspace-registry.js";
 // Import tool functions from feature modules
 import { getBoardInfo } from "./tools/boards.js";
 import { getProjectConfig, getSystemInfo, getProjectContext } from "./tools/projects.js";
-import { cleanProject, checkProject, runTests } from "./tools/build.js";
+import {
+  cleanProject,
+  checkProject,
+  runTests,
+  firmwareSizeReport,
+  firmwareSizeTrend,
+  listFirmwareArtifacts,
+} from "./tools/build.js";
+import { checkDefectsToSarif } from "./core/static-analysis.js";
 import { uploadFilesystem } from "./tools/upload.js";
 import { stopMonitor, queryLogs } from "./tools/monitor.js";
 import { spoolLargeDataset } from "./utils/spooler.js";
 import { listBoardsCore } from "./core/boards.js";
 import { listDevicesCore } from "./core/devices.js";
 import { initProjectCore } from "./core/project.js";
-import { buildProjectCore } from "./core/build.js";
+import { buildMatrixCore, buildProjectCore } from "./core/build.js";
 import { uploadFirmwareCore } from "./core/flash.js";
 import { startMonitorCore } from "./core/monitor.js";
-import { checkTaskStatusCore } from "./core/tasks.js";
+import { cancelTaskCore, checkTaskStatusCore } from "./core/tasks.js";
 import { getDashboardStatusCore } from "./core/dashboard.js";
 
 import {
@@ -81,9 +96,12 @@ import {
   agentBuildDiagnose,
   agentFlashMonitorVerify,
   agentGenerateBoardReport,
+  agentGeneratePinout,
   agentGetLastReport,
   agentSafePinAudit,
   agentValidateProject,
+  pinAuditToSarif,
+  renderPinoutMarkdown,
 } from "./tools/agent.js";
 import { checkPlatformIOInstalled } from "./platformio.js";
 import { formatPlatformIOError } from "./utils/errors.js";
@@ -98,6 +116,7 @@ import { portalEvents } from "./api/events.js";
 import crypto from "node:crypto";
 import { evaluatePolicy } from "./core/policy/evaluate-policy.js";
 import { getPolicyStatus } from "./core/policy/status.js";
+import { getDiagnosticsStatus } from "./core/diagnostics/status.js";
 
 function toolToPolicyAction(toolName: string): string {
   switch (toolName) {
@@ -233,6 +252,31 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["projectDir"],
         },
       },
+      {
+        name: "build_matrix",
+        description:
+          "Builds several environments of platformio.ini (all of them by default) with bounded parallelism and returns one aggregated table: per-environment success, cache hit, RAM/Flash usage, error and warning counts, and log paths. A failing environment does not stop the others. PREFERRED over looping `build_project` when checking that every target still compiles.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDir: { type: "string", description: "Path to the PlatformIO project directory. Agents SHOULD ALWAYS explicitly provide this to ensure operations execute in the correct workspace, unless explicitly instructed otherwise." },
+            environments: {
+              type: "array",
+              items: { type: "string" },
+              description: "Environments to build (defaults to every [env:*] section of platformio.ini)",
+            },
+            maxParallel: {
+              type: "number",
+              description: "Maximum number of environments compiled at the same time (default: 2, max: 8)",
+            },
+            sessionId: {
+              type: "string",
+              description: "Agent session ID for pipeline lock validation",
+            },
+          },
+          required: ["projectDir"],
+        },
+      },
       {
         name: "clean_project",
         description:
@@ -328,6 +372,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "boolean",
               description: "If true, automatically starts the background serial monitor after a successful upload, handling OS-level port re-enumeration."
             },
+            artifactId: {
+              type: "string",
+              description: "Flash a recorded build from `list_firmware_artifacts` instead of the current build output (for example to roll back). Nothing is rebuilt.",
+            },
           },
           required: ["projectDir"],
         },
@@ -482,6 +530,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
         },
       },
+      {
+        name: "cancel_task",
+        description: "Cancels one running background task (build, test, upload or monitor) by killing its process tree. Unlike `reset_server_state`, other tasks keep running. The task is marked `cancelled`, its partial log is kept for `check_task_status`, and the cancellation is written to the audit log.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            taskId: { type: "string", description: "Task ID returned by the background command." },
+            projectDir: { type: "string", description: "Path to the PlatformIO project directory whose registry holds the task. Searched across known workspaces if omitted." },
+          },
+          required: ["taskId"],
+        },
+      },
       {
         name: "get_dashboard_url",
         description: "Retrieves the address and auth token for the MCP Web Dashboard. Automatically starts the web server on demand if offline.",
@@ -539,7 +599,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "agent_build_diagnose",
         description:
-          "Runs build_project and returns rich structured diagnostics with error taxonomy, evidence, severity, retry-safety, and resource usage (RAM/Flash).",
+          "Runs build_project and returns rich structured diagnostics with error taxonomy, evidence, severity, retry-safety, resource usage (RAM/Flash), and compiler warning counts checked against the workspace warning budget.",
         inputSchema: {
           type: "object",
           properties: {
@@ -561,6 +621,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description:
                 "If true, dispatches build to background and returns a pending diagnostic status.",
             },
+            updateWarningBudget: {
+              type: "boolean",
+              description:
+                "If true, accepts the build's current compiler warnings as the workspace warning budget (.pio-mcp/warning-budget.json).",
+            },
           },
           required: ["projectDir"],
         },
@@ -568,7 +633,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "agent_safe_pin_audit",
         description:
-          "Heuristic static pin audit for board-specific GPIO risks (ESP32 strapping/input-only/flash pins).",
+          "Heuristic static pin audit for board-specific GPIO risks (strapping/input-only/flash pins). Resolves pin constants from #define, const/constexpr, enums and -D build_flags; unresolved pin symbols are reported as info findings.",
         inputSchema: {
           type: "object",
           properties: {
@@ -581,6 +646,17 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "Target PlatformIO board ID.",
             },
+            environment: {
+              type: "string",
+              description:
+                "Optional environment from platformio.ini whose framework and build_flags are used. Defaults to the environment matching boardId.",
+            },
+            format: {
+              type: "string",
+              enum: ["findings", "sarif"],
+              description:
+                "Output format: 'findings' (default) returns the findings array; 'sarif' returns a SARIF 2.1.0 log.",
+            },
           },
           required: ["projectDir", "boardId"],
         },
@@ -628,6 +704,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description:
                 "If true, builds before flashing when firmware artifact is missing.",
             },
+            artifactId: {
+              type: "string",
+              description:
+                "Flash and verify a recorded build from `list_firmware_artifacts` instead of the current one. A passing run marks the flashed build as known-good; a runtime failure returns rollbackArtifactId.",
+            },
           },
           required: ["projectDir"],
         },
@@ -666,6 +747,36 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["projectDir", "boardId"],
         },
       },
+      {
+        name: "agent_generate_pinout",
+        description:
+          "Generates a project pinout map: every pin the firmware touches with its source names, direction, peripheral roles, source locations, board capabilities and pin audit risks. Returns JSON or a Markdown table.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDir: {
+              type: "string",
+              description: "Path to the PlatformIO project directory.",
+            },
+            boardId: {
+              type: "string",
+              description:
+                "Optional PlatformIO board ID. Inferred from platformio.ini when omitted.",
+            },
+            environment: {
+              type: "string",
+              description:
+                "Optional environment from platformio.ini whose board, framework and build_flags are used.",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "markdown"],
+              description: "Output format: 'json' (default) or 'markdown'.",
+            },
+          },
+          required: ["projectDir"],
+        },
+      },
       {
         name: "get_policy_status",
         description:
@@ -681,6 +792,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
         },
       },
+      {
+        name: "get_diagnostics_status",
+        description:
+          "Validates the project's .pio-mcp/diagnostics.yaml and returns the workspace diagnostic matchers that run ahead of the built-ins, plus any invalid entries or regular expressions.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDir: {
+              type: "string",
+              description:
+                "Optional project directory whose .pio-mcp/diagnostics.yaml is validated.",
+            },
+          },
+        },
+      },
       {
         name: "system_info",
         description: "Gets sys diagnostic path output.",
@@ -698,6 +824,69 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             projectDir: { type: "string", description: "Path to the PlatformIO project directory. Agents SHOULD ALWAYS explicitly provide this to ensure operations execute in the correct workspace, unless explicitly instructed otherwise." },
             environment: { type: "string", description: "Specific environment to check" },
             background: { type: "boolean", description: "Run slow analysis in background" },
+            minSeverity: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+              description: "Only report defects at or above this severity (default: low).",
+            },
+            baselinePath: {
+              type: "string",
+              description:
+                "Baseline of known defects, relative to projectDir (default: .pio-mcp/check-baseline.json). Defects in the baseline are suppressed so only new ones are reported.",
+            },
+            updateBaseline: {
+              type: "boolean",
+              description: "If true, accept all current defects by rewriting the baseline file.",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "sarif"],
+              description:
+                "Output format: 'json' (default) returns the check result; 'sarif' returns a SARIF 2.1.0 log of new defects.",
+            },
+          },
+          required: ["projectDir"],
+        },
+      },
+      {
+        name: "firmware_size_report",
+        description:
+          "Breaks a built firmware down by ELF section, largest symbols, and per-object/per-library contributions from the linker map. Use it to decide what to drop when flash or RAM is tight.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDir: { type: "string", description: "Path to the PlatformIO project directory. Agents SHOULD ALWAYS explicitly provide this to ensure operations execute in the correct workspace, unless explicitly instructed otherwise." },
+            environment: { type: "string", description: "Environment whose build output to analyze (defaults to the most recent build)" },
+            top: { type: "number", description: "Number of symbols and object files to list (default: 20, max: 200)" },
+          },
+          required: ["projectDir"],
+        },
+      },
+      {
+        name: "firmware_size_trend",
+        description:
+          "Reports flash/RAM usage recorded for each successful build (with timestamp and git commit) per environment, flags build-to-build growth over a threshold, and checks the latest build against the budgets in .pio-mcp/size-budgets.yaml.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDir: { type: "string", description: "Path to the PlatformIO project directory. Agents SHOULD ALWAYS explicitly provide this to ensure operations execute in the correct workspace, unless explicitly instructed otherwise." },
+            environment: { type: "string", description: "Only report this environment (defaults to every environment with recorded builds)" },
+            limit: { type: "number", description: "Number of most recent builds to include per environment (default: 20, min: 2, max: 200)" },
+            thresholdPercent: { type: "number", description: "Build-to-build growth in percent that counts as a regression (default: the budget file's regressionThresholdPercent, else 5)" },
+          },
+          required: ["projectDir"],
+        },
+      },
+      {
+        name: "list_firmware_artifacts",
+        description:
+          "Lists recorded firmware builds newest first (artifact ID, environment, git commit, size, build time), whether the shared artifact store still holds their files, and the last known-good build per environment. Pass an ID as `artifactId` to `upload_firmware` to flash that exact build without rebuilding.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectDir: { type: "string", description: "Path to the PlatformIO project directory. Agents SHOULD ALWAYS explicitly provide this to ensure operations execute in the correct workspace, unless explicitly instructed otherwise." },
+            environment: { type: "string", description: "Only list this environment (defaults to every environment)" },
+            limit: { type: "number", description: "Number of most recent artifacts to list (default: 20, max: 200)" },
           },
           required: ["projectDir"],
         },
@@ -884,6 +1073,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "build_matrix": {
+        const params = BuildMatrixParamsSchema.parse(args);
+        const result = await buildMatrixCore({
+          projectDir: params.projectDir,
+          environments: params.environments,
+          maxParallel: params.maxParallel,
+          sessionId: params.sessionId,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
       case "clean_project": {
         const params = CleanProjectParamsSchema.parse(args);
 
@@ -939,6 +1141,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           verbose: params.verbose,
           background: params.background,
           startMonitorAfter: args.start_monitor,
+          artifactId: params.artifactId,
           sessionId: params.sessionId,
         });
 
@@ -1120,6 +1323,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "cancel_task": {
+        const params = CancelTaskParamsSchema.parse(args);
+        const result = await cancelTaskCore({
+          taskId: params.taskId,
+          projectDir: params.projectDir,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
       case "get_dashboard_url": {
         const params = GetDashboardUrlParamsSchema.parse(args);
         const result = await getDashboardStatusCore({
@@ -1165,6 +1379,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           params.environment,
           params.verbose,
           params.background,
+          params.updateWarningBudget,
         );
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -1173,7 +1388,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "agent_safe_pin_audit": {
         const params = AgentSafePinAuditParamsSchema.parse(args);
-        const result = await agentSafePinAudit(params.projectDir, params.boardId);
+        const findings = await agentSafePinAudit(
+          params.projectDir,
+          params.boardId,
+          params.environment,
+        );
+        const result =
+          params.format === "sarif" ? pinAuditToSarif(findings, params.projectDir) : findings;
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         };
@@ -1190,6 +1411,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           timeoutSeconds: params.timeoutSeconds,
           stabilityWindowSeconds: params.stabilityWindowSeconds,
           autoBuild: params.autoBuild,
+          artifactId: params.artifactId,
         });
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -1215,6 +1437,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "agent_generate_pinout": {
+        const params = AgentGeneratePinoutParamsSchema.parse(args);
+        const result = await agentGeneratePinout(
+          params.projectDir,
+          params.boardId,
+          params.environment,
+        );
+        const text =
+          params.format === "markdown"
+            ? renderPinoutMarkdown(result)
+            : JSON.stringify(result, null, 2);
+        return {
+          content: [{ type: "text", text }],
+        };
+      }
+
       case "get_policy_status": {
         const params = GetPolicyStatusParamsSchema.parse(args);
         const result = getPolicyStatus(params.projectDir);
@@ -1223,6 +1461,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "get_diagnostics_status": {
+        const params = GetDiagnosticsStatusParamsSchema.parse(args);
+        const result = getDiagnosticsStatus(params.projectDir);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
       case "system_info": {
         const result = await getSystemInfo();
         return {
@@ -1232,7 +1478,48 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "check_project": {
         const params = CheckProjectParamsSchema.parse(args);
-        const result = await checkProject(params.projectDir, params.environment, params.background);
+        const result = await checkProject(params.projectDir, params.environment, params.background, {
+          minSeverity: params.minSeverity,
+          baselinePath: params.baselinePath,
+          updateBaseline: params.updateBaseline,
+        });
+        const payload =
+          params.format === "sarif" && result.checkResults
+            ? checkDefectsToSarif(result.checkResults.defects, params.projectDir)
+            : result;
+        return {
+          content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+        };
+      }
+
+      case "firmware_size_report": {
+        const params = FirmwareSizeReportParamsSchema.parse(args);
+        const result = await firmwareSizeReport(params.projectDir, params.environment, params.top);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      case "firmware_size_trend": {
+        const params = FirmwareSizeTrendParamsSchema.parse(args);
+        const result = await firmwareSizeTrend(
+          params.projectDir,
+          params.environment,
+          params.limit,
+          params.thresholdPercent,
+        );
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      case "list_firmware_artifacts": {
+        const params = ListFirmwareArtifactsParamsSchema.parse(args);
+        const result = await listFirmwareArtifacts(
+          params.projectDir,
+          params.environment,
+          params.limit,
+        );
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         };
@@ -5,6 +5,8 @@
  * - agentValidateProject: Pre-flight project validation and readiness report.
  * - agentBuildDiagnose: Build execution with structured diagnostic classification.
  * - agentSafePinAudit: Heuristic GPIO safety audit for board-specific pin risks.
+ * - pinAuditToSarif: Converts pin audit findings to a SARIF 2.1.0 log.
+ * - agentGeneratePinout / renderPinoutMarkdown: Project pinout map as JSON or Markdown.
  * - agentFlashMonitorVerify: Flash + runtime serial verification workflow.
  * - agentGetLastReport: Retrieves the persisted last agent report.
  * - agentGenerateBoardReport: Builds and caches board intelligence metadata.
@@ -14,7 +16,10 @@ import fs from "node:fs";
 import path from "node:path";
 import { listBoardsCore } from "../core/boards.js";
 import { buildProjectCore } from "../core/build.js";
+import { attachSymbolicatedBacktrace } from "../core/diagnostics/backtrace.js";
 import { diagnoseBuildLog } from "../core/diagnostics/build-diagnostics.js";
+import { memoryOverflowActions } from "../core/diagnostics/memory-overflow.js";
+import { diagnoseSerialLog } from "../core/diagnostics/serial-diagnostics.js";
 import type { DiagnosticResult } from "../core/diagnostics/types.js";
 import { diagnoseUploadLog } from "../core/diagnostics/upload-diagnostics.js";
 import {
@@ -22,14 +27,59 @@ import {
   type RuntimeAssertionResult,
 } from "../core/runtime-assertions.js";
 import { listDevicesCore } from "../core/devices.js";
+import {
+  checkSizeBudgets,
+  describeSizeBudgetViolation,
+  loadSizeBudgets,
+  resolveSizeEnvironment,
+} from "../core/size-budget.js";
+import {
+  applyWarningBudget,
+  loadWarningBudget,
+  writeWarningBudget,
+} from "../core/warning-budget.js";
+import {
+  findPinConflicts,
+  scanPinUsages,
+  type PinConflict,
+  type PinScanSource,
+  type PinUsage,
+} from "../core/pin-scan/index.js";
 import { uploadFirmwareCore } from "../core/flash.js";
-import { getBoardProfile } from "../boards/index.js";
+import {
+  findLastKnownGoodArtifact,
+  getFirmwareArtifact,
+  markFirmwareArtifactVerified,
+  resolveCurrentArtifactId,
+} from "../core/firmware-history.js";
+import {
+  formatPinLabel,
+  resolveBoardProfile,
+  type BoardProfileResolution,
+} from "../boards/index.js";
+import {
+  buildCapabilityTable,
+  comparePins,
+  getAdcCapablePins,
+  getBootPins,
+} from "../boards/capabilities.js";
+import type { BoardPin, BoardProfile } from "../boards/types.js";
 import { findFirmwareArtifact } from "../utils/build-cache.js";
+import {
+  getEnvironmentOption,
+  listDefaultEnvironments,
+  listIniEnvironments,
+  parseBuildFlagDefines,
+  parsePlatformioIni,
+  type PlatformioIni,
+} from "../utils/platformio-ini.js";
+import { buildSarifLog, toSarifLevel, type SarifLog } from "../utils/sarif.js";
 import {
   readLastAgentReport,
   writeBoardReport,
   writeLastAgentReport,
 } from "../utils/artifacts.js";
+import { PlatformIOError } from "../utils/errors.js";
 import { validateProjectPath } from "../utils/validation.js";
 import { getBoardInfo } from "./boards.js";
 import { getProjectConfig } from "./projects.js";
@@ -39,8 +89,12 @@ import type {
   AgentFlashMonitorVerifyResult,
   AgentGetLastReportResult,
   AgentPinAuditResult,
+  AgentPinoutEntry,
+  AgentPinoutResult,
   AgentValidateProjectResult,
   LastAgentReport,
+  PinAuditFindingType,
+  PinAuditUse,
   PinAuditSeverity,
 } from "../types.js";
 
@@ -70,42 +124,12 @@ function severityRank(severity: PinAuditSeverity): number {
   return 1;
 }
 
-function parseDefaultEnvironments(iniText: string): string[] {
-  const defaultMatch = iniText.match(/^\s*default_envs\s*=\s*(.+)$/im);
-  if (!defaultMatch) return [];
-  return defaultMatch[1]
-    .split(",")
-    .map((item) => item.trim())
-    .filter((item) => item.length > 0);
-}
-
-function parseEnvironmentsFromIni(iniText: string): ParsedEnvironment[] {
-  const lines = iniText.split(/\r?\n/);
-  const environments: ParsedEnvironment[] = [];
-  let activeEnv: ParsedEnvironment | undefined;
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line || line.startsWith(";") || line.startsWith("#")) continue;
-
-    const sectionMatch = line.match(/^\[env:([^\]]+)\]$/i);
-    if (sectionMatch) {
-      activeEnv = { name: sectionMatch[1].trim() };
-      environments.push(activeEnv);
-      continue;
-    }
-
-    if (!activeEnv) continue;
-    const kvMatch = line.match(/^([a-zA-Z0-9_]+)\s*=\s*(.+)$/);
-    if (!kvMatch) continue;
-    const key = kvMatch[1].toLowerCase();
-    const value = kvMatch[2].trim();
-
-    if (key === "board") activeEnv.board = value;
-    if (key === "framework") activeEnv.framework = value;
-  }
-
-  return environments;
+function parseEnvironmentsFromIni(ini: PlatformioIni): ParsedEnvironment[] {
+  return listIniEnvironments(ini).map((name) => ({
+    name,
+    board: getEnvironmentOption(ini, name, "board"),
+    framework: getEnvironmentOption(ini, name, "framework"),
+  }));
 }
 
 function readProjectIniText(projectDir: string): string {
@@ -238,8 +262,9 @@ export async function agentValidateProject(
     }
   }
 
-  const parsedEnvironments = parseEnvironmentsFromIni(iniText);
-  const defaultFromIni = parseDefaultEnvironments(iniText);
+  const ini = parsePlatformioIni(iniText);
+  const parsedEnvironments = parseEnvironmentsFromIni(ini);
+  const defaultFromIni = listDefaultEnvironments(ini);
   const defaultEnvironment =
     defaultFromIni[0] ?? resolveEnvironment(parsedEnvironments);
   const boardIds = Array.from(
@@ -335,8 +360,12 @@ export async function agentValidateProject(
   return result;
 }
 
-function pickBuildDiagnostic(resultOutput: string | undefined, success: boolean): DiagnosticResult {
-  return diagnoseBuildLog(resultOutput ?? "", { success });
+function pickBuildDiagnostic(
+  resultOutput: string | undefined,
+  success: boolean,
+  projectDir: string,
+): DiagnosticResult {
+  return diagnoseBuildLog(resultOutput ?? "", { success, projectDir, allFindings: true });
 }
 
 /**
@@ -346,6 +375,7 @@ function pickBuildDiagnostic(resultOutput: string | undefined, success: boolean)
  * @param environment - Optional environment name.
  * @param verbose - Optional verbose build flag.
  * @param background - Optional background dispatch flag.
+ * @param updateWarningBudget - Accept the build's warnings as the workspace warning budget.
  * @returns Structured build + diagnostics result.
  */
 export async function agentBuildDiagnose(
@@ -353,6 +383,7 @@ export async function agentBuildDiagnose(
   environment?: string,
   verbose?: boolean,
   background?: boolean,
+  updateWarningBudget?: boolean,
 ): Promise<AgentBuildDiagnoseResult> {
   const validatedPath = validateProjectPath(projectDir);
   const buildResult = await buildProjectCore({
@@ -388,26 +419,104 @@ export async function agentBuildDiagnose(
     return runningResult;
   }
 
-  const success = Boolean(buildResult.success);
+  const buildSucceeded = Boolean(buildResult.success);
   const diagnostic =
-    buildResult.diagnostic ?? pickBuildDiagnostic(buildResult.output, success);
+    buildResult.diagnostic ?? pickBuildDiagnostic(buildResult.output, buildSucceeded, validatedPath);
   const resolvedEnvironment =
     buildResult.environment ?? environment ?? "default";
+  const baseNextSteps =
+    buildResult.nextSteps && buildResult.nextSteps.length > 0
+      ? buildResult.nextSteps
+      : Array.from(
+          new Set(
+            (diagnostic.findings && diagnostic.findings.length > 0
+              ? diagnostic.findings
+              : [diagnostic]
+            ).map((finding) => finding.recommendedAction),
+          ),
+        );
+  // Overflow steps name the bytes to cut per region, so they lead the list.
+  const overflowSteps = diagnostic.memoryOverflow
+    ? memoryOverflowActions(diagnostic.memoryOverflow)
+    : [];
+  const overflowAction = overflowSteps.join(" ");
+  // A build of several environments reports sizes per environment instead.
+  const sizeEnvironment = resolveSizeEnvironment(validatedPath, resolvedEnvironment);
+  const sizesByEnvironment = sizeEnvironment
+    ? {
+        [sizeEnvironment]: {
+          flashUsageBytes: buildResult.flashUsageBytes,
+          ramUsageBytes: buildResult.ramUsageBytes,
+        },
+      }
+    : (buildResult.environmentSizes ?? {});
+  const sizeBudgets = loadSizeBudgets(validatedPath);
+  const budgetChecks = buildSucceeded
+    ? await Promise.all(
+        Object.entries(sizesByEnvironment).map(([name, usage]) =>
+          checkSizeBudgets(validatedPath, name, usage, sizeBudgets),
+        ),
+      )
+    : [];
+  const budgetCheck = {
+    violations: budgetChecks.flatMap((check) => check.violations),
+    errors: Array.from(new Set(budgetChecks.flatMap((check) => check.errors))),
+  };
+  const warnings = budgetCheck.violations.map(describeSizeBudgetViolation).concat(budgetCheck.errors);
+
+  // A build that adds warnings beyond the workspace budget fails the diagnosis.
+  const buildWarnings = buildResult.structuredWarnings ?? [];
+  let warningBudget = buildSucceeded ? loadWarningBudget(validatedPath) : undefined;
+  let warningBudgetUpdated = false;
+  if (buildSucceeded && updateWarningBudget) {
+    warningBudget = writeWarningBudget(validatedPath, buildWarnings, {
+      incremental: buildResult.incremental,
+    });
+    warningBudgetUpdated = true;
+    if (buildResult.incremental) {
+      warnings.push(
+        "The warning budget was updated from an incremental build, so accepted warnings of files that were not recompiled were kept. Run clean_project before updating the budget to drop warnings that were fixed.",
+      );
+    }
+  }
+  const warningBudgetResult = warningBudget
+    ? {
+        ...applyWarningBudget(buildWarnings, warningBudget),
+        ...(warningBudgetUpdated ? { updated: true } : {}),
+      }
+    : undefined;
+  const success = buildSucceeded && !warningBudgetResult?.exceeded;
+  const warningBudgetSteps: string[] = [];
+  if (warningBudgetResult?.exceeded) {
+    const { newWarnings, maxNewWarnings } = warningBudgetResult;
+    const examples = newWarnings
+      .slice(0, 3)
+      .map((warning) => `${warning.file}:${warning.line} ${warning.message}${warning.flag ? ` [${warning.flag}]` : ""}`);
+    warningBudgetSteps.push(
+      `${newWarnings.length} new compiler warning(s) exceed the warning budget (${maxNewWarnings} allowed): ${examples.join("; ")}. Fix them, or call agent_build_diagnose with updateWarningBudget=true to accept them.`,
+    );
+  }
 
   const result: AgentBuildDiagnoseResult = {
     success,
     projectDir: validatedPath,
     environment: resolvedEnvironment,
     cacheHit: buildResult.cacheHit,
+    cacheMissReason: buildResult.cacheMissReason,
     diagnostic,
+    // The success hints of the build would contradict a failed warning budget.
     nextSteps:
-      buildResult.nextSteps && buildResult.nextSteps.length > 0
-        ? buildResult.nextSteps
-        : [diagnostic.recommendedAction],
+      warningBudgetSteps.length > 0
+        ? warningBudgetSteps
+        : overflowSteps.concat(baseNextSteps.filter((step) => step !== overflowAction)),
     ramUsageBytes: buildResult.ramUsageBytes,
     flashUsageBytes: buildResult.flashUsageBytes,
     firmwarePath: buildResult.firmwarePath,
     rawLogPath: buildResult.rawLogPath,
+    ...(budgetCheck.violations.length > 0 ? { sizeBudgetViolations: budgetCheck.violations } : {}),
+    ...(buildResult.warningSummary ? { warningSummary: buildResult.warningSummary } : {}),
+    ...(warningBudgetResult ? { warningBudget: warningBudgetResult } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
   };
 
   persistAgentReport(
@@ -416,113 +525,201 @@ export async function agentBuildDiagnose(
     success,
     success
       ? "Build completed with diagnostics and resource usage."
-      : `Build failed with ${diagnostic.errorType ?? "Unknown"} diagnostic classification.`,
+      : warningBudgetResult?.exceeded
+        ? `Build exceeded the warning budget with ${warningBudgetResult.newWarnings.length} new warning(s).`
+        : `Build failed with ${diagnostic.errorType ?? "Unknown"} diagnostic classification.`,
     result,
   );
 
   return result;
 }
 
-type PinUsage = {
-  pin: number;
-  operation: string;
-  line: string;
+type PinAuditContext = {
+  usesWifi: boolean;
 };
 
-function collectPinUsages(projectDir: string): PinUsage[] {
-  const srcFiles = listSourceFiles(projectDir)
-    .map((relPath) => path.join(projectDir, relPath))
-    .filter((absPath) => fs.existsSync(absPath));
+// A pin audit finding about one pin; only board_profile_error findings have none.
+type PinAuditPinFinding = AgentPinAuditResult & { pin: BoardPin };
 
-  const usages: PinUsage[] = [];
-  const macroMap = new Map<string, number>();
-  const defineRegex = /^\s*#define\s+([A-Za-z_][A-Za-z0-9_]*)\s+(\d{1,2})\b/gm;
-  const callRegex =
-    /\b(pinMode|digitalWrite|analogWrite|analogRead)\s*\(\s*([A-Za-z_][A-Za-z0-9_]*|\d{1,2})/g;
+const WIFI_USAGE_REGEX =
+  /#include\s*[<"](?:WiFi|WiFiMulti|esp_wifi)\.h[>"]|\bWiFi\.(?:begin|mode|softAP)\s*\(|\besp_wifi_(?:init|start)\s*\(/;
 
-  for (const absPath of srcFiles) {
-    let text = "";
+function detectWifiUsage(projectDir: string): boolean {
+  return listSourceFiles(projectDir).some((relPath) => {
     try {
-      text = fs.readFileSync(absPath, "utf8");
+      return WIFI_USAGE_REGEX.test(fs.readFileSync(path.join(projectDir, relPath), "utf8"));
     } catch {
-      continue;
+      return false;
     }
+  });
+}
 
-    defineRegex.lastIndex = 0;
-    for (const match of text.matchAll(defineRegex)) {
-      macroMap.set(match[1], Number.parseInt(match[2], 10));
-    }
-  }
+type PinAuditEnvironment = {
+  name?: string;
+  frameworks: string[];
+  buildFlagDefines: Map<string, string>;
+};
+
+function resolvePinAuditEnvironment(
+  projectDir: string,
+  boardId: string,
+  requestedEnvironment?: string,
+): PinAuditEnvironment {
+  const iniText = readProjectIniText(projectDir);
+  const ini = parsePlatformioIni(iniText);
+  const envNames = listIniEnvironments(ini);
+  const defaults = listDefaultEnvironments(ini).filter((name) => envNames.includes(name));
+  const matchesBoard = (name: string) => getEnvironmentOption(ini, name, "board") === boardId;
+
+  const requested = requestedEnvironment?.trim();
+  const envName =
+    (requested && envNames.includes(requested) ? requested : undefined) ??
+    defaults.find(matchesBoard) ??
+    envNames.find(matchesBoard) ??
+    defaults[0] ??
+    envNames[0];
+  if (!envName) return { frameworks: [], buildFlagDefines: new Map() };
+
+  const frameworks = (getEnvironmentOption(ini, envName, "framework") ?? "")
+    .split(/[,\s]+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  const buildFlags = getEnvironmentOption(ini, envName, "build_flags") ?? "";
+  return { name: envName, frameworks, buildFlagDefines: parseBuildFlagDefines(buildFlags) };
+}
 
-  for (const absPath of srcFiles) {
-    let text = "";
+function collectPinUsages(
+  projectDir: string,
+  boardId: string,
+  environment?: string,
+): { environment?: string; usages: PinUsage[] } {
+  const sources: PinScanSource[] = [];
+  for (const relPath of listSourceFiles(projectDir)) {
     try {
-      text = fs.readFileSync(absPath, "utf8");
+      sources.push({ relPath, text: fs.readFileSync(path.join(projectDir, relPath), "utf8") });
     } catch {
       continue;
     }
-
-    const lines = text.split(/\r?\n/);
-    for (const line of lines) {
-      callRegex.lastIndex = 0;
-      for (const match of line.matchAll(callRegex)) {
-        const operation = match[1];
-        const token = match[2];
-        const resolvedPin =
-          /^[0-9]+$/.test(token) ? Number.parseInt(token, 10) : macroMap.get(token);
-        if (resolvedPin === undefined || Number.isNaN(resolvedPin)) continue;
-        usages.push({
-          pin: resolvedPin,
-          operation,
-          line: line.trim(),
-        });
-      }
-    }
   }
 
-  return usages;
+  const { name, frameworks, buildFlagDefines } = resolvePinAuditEnvironment(
+    projectDir,
+    boardId,
+    environment,
+  );
+  return { environment: name, usages: scanPinUsages(sources, frameworks, buildFlagDefines) };
 }
 
-function evaluatePinUsageRisk(
-  pinUsage: PinUsage,
+// Many board IDs (um_tinys3, lolin32, featheresp32, ...) say nothing about the
+// chip, so the profile is matched on PlatformIO's MCU and platform for the board.
+// Without PlatformIO board data the board ID alone is used.
+async function resolvePinAuditProfile(
+  projectDir: string,
   boardId: string,
-): AgentPinAuditResult | null {
-  const profile = getBoardProfile({ boardId });
-  if (!profile) return null;
+): Promise<BoardProfileResolution> {
+  const boardInfo = await getBoardInfo(boardId).catch(() => undefined);
+  return resolveBoardProfile({
+    boardId: boardInfo?.id ?? boardId,
+    platform: boardInfo?.platform,
+    mcu: boardInfo?.mcu,
+    projectDir,
+  });
+}
 
+function evaluatePinUsageRisk(
+  pinUsage: PinUsage,
+  profile: BoardProfile,
+  context: PinAuditContext,
+): PinAuditPinFinding | null {
   const pin = pinUsage.pin;
-  const { dangerousPins, inputOnlyPins, flashSpiPins, saferAlternatives } =
-    profile.pinProfile;
+  const label = formatPinLabel(pin);
+  const family = profile.title;
+  const {
+    dangerousPins,
+    dangerousPinReason,
+    dangerousPinImpact,
+    inputOnlyPins,
+    flashSpiPins,
+    debugPins,
+    oscillatorPins,
+    usbPins,
+    capabilities,
+    saferAlternatives,
+  } = profile.pinProfile;
+  const adcPins = getAdcCapablePins(capabilities);
+  const dacPins = capabilities?.dac;
+  const adc1Pins = capabilities?.adc1 ?? [];
+  const { uart: defaultUart, i2c: defaultI2c, spi: defaultSpi } = capabilities ?? {};
 
   if (flashSpiPins.includes(pin)) {
     return {
       pin,
+      findingType: "board_rule",
       severity: "high",
-      reason: `GPIO${pin} is reserved for ESP32 flash/SPI lines and should not be used by application code.`,
+      reason: `${label} is reserved for flash/SPI lines on ${family} boards and should not be used by application code.`,
       recommendation: "Move this signal to a general-purpose GPIO not used by flash.",
       saferAlternatives,
     };
   }
 
-  if (dangerousPins.includes(pin)) {
+  if (debugPins?.includes(pin)) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "high",
+      reason: `${label} is muxed to the SWD/JTAG debug port on ${family} boards; reusing it disables debugging and can lock out the programmer.`,
+      recommendation:
+        "Keep debug pins free, or reassign this signal and recover with connect-under-reset if the probe is locked out.",
+      saferAlternatives,
+    };
+  }
+
+  if (oscillatorPins?.includes(pin)) {
     return {
       pin,
+      findingType: "board_rule",
       severity: "high",
-      reason: `GPIO${pin} is an ESP32 strapping/boot pin and may break boot or flash stability.`,
+      reason: `${label} is wired to an external HSE/LSE crystal on ${family} boards and may disturb the system or RTC clock.`,
       recommendation:
-        "Avoid strapping pins for user I/O. Reassign this signal to a safer GPIO.",
+        "Leave oscillator pins to the crystal unless the board has no crystal fitted. Reassign this signal to a safer pin.",
+      saferAlternatives,
+    };
+  }
+
+  if (usbPins?.includes(pin)) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "high",
+      reason: `${label} is wired to native USB D-/D+ on ${family} boards; reusing it breaks USB serial and USB flashing.`,
+      recommendation:
+        "Keep native USB pins free when the board is flashed or monitored over USB. Reassign this signal to a safer GPIO.",
+      saferAlternatives,
+    };
+  }
+
+  if (dangerousPins.includes(pin)) {
+    // A custom reason says nothing about boot, so only the profile can name the impact.
+    const impact = dangerousPinImpact ?? (dangerousPinReason ? undefined : "may break boot or flash stability");
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "high",
+      reason: `${label} is a ${dangerousPinReason ?? "strapping/boot pin"} on ${family} boards${impact ? ` and ${impact}` : ""}.`,
+      recommendation: dangerousPinReason
+        ? "Avoid board-reserved pins for user I/O. Reassign this signal to a safer GPIO."
+        : "Avoid strapping pins for user I/O. Reassign this signal to a safer GPIO.",
       saferAlternatives,
     };
   }
 
   if (inputOnlyPins.includes(pin)) {
-    const outputOperation =
-      pinUsage.operation === "digitalWrite" || pinUsage.operation === "analogWrite";
-    if (outputOperation) {
+    if (pinUsage.drivesOutput) {
       return {
         pin,
+        findingType: "board_rule",
         severity: "high",
-        reason: `GPIO${pin} is input-only on ESP32 but is used with ${pinUsage.operation}.`,
+        reason: `${label} is input-only on ${family} boards but is used with ${pinUsage.operation}.`,
         recommendation:
           "Use an output-capable pin for this signal or refactor to input-only behavior.",
         saferAlternatives,
@@ -531,47 +728,203 @@ function evaluatePinUsageRisk(
 
     return {
       pin,
+      findingType: "board_rule",
       severity: "medium",
-      reason: `GPIO${pin} is input-only on ESP32; verify this usage remains read-only.`,
+      reason: `${label} is input-only on ${family} boards; verify this usage remains read-only.`,
       recommendation:
         "Keep this pin for read-only operations, or move to a general-purpose GPIO if output is needed.",
       saferAlternatives,
     };
   }
 
+  if (dacPins && pinUsage.operation === "dacWrite" && !dacPins.includes(pin)) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "high",
+      reason:
+        dacPins.length === 0
+          ? `${family} boards have no DAC, but ${label} is used with dacWrite.`
+          : `${label} is not a DAC pin on ${family} boards; dacWrite only drives ${dacPins.map(formatPinLabel).join("/")}.`,
+      recommendation:
+        dacPins.length === 0
+          ? "Use PWM (analogWrite/LEDC) with an RC filter or an external DAC instead of dacWrite."
+          : "Move this analog output to a DAC-capable pin.",
+      saferAlternatives: dacPins.length > 0 ? dacPins : saferAlternatives,
+    };
+  }
+
+  if (
+    context.usesWifi &&
+    pinUsage.operation === "analogRead" &&
+    capabilities?.adc2?.includes(pin)
+  ) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "high",
+      reason: `${label} is an ADC2 channel on ${family} boards; ADC2 reads fail or return garbage while WiFi is active, and this project uses WiFi.`,
+      recommendation: "Move this analog signal to an ADC1 pin.",
+      saferAlternatives: adc1Pins.length > 0 ? adc1Pins : saferAlternatives,
+    };
+  }
+
+  if (adcPins && pinUsage.operation === "analogRead" && !adcPins.includes(pin)) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "medium",
+      reason: `${label} is not ADC-capable on ${family} boards; analog input is limited to ${adcPins.map(formatPinLabel).join("/")}.`,
+      recommendation: "Move this analog signal to an ADC-capable pin.",
+      saferAlternatives: adcPins,
+    };
+  }
+
+  if (defaultUart && (pin === defaultUart.tx || pin === defaultUart.rx)) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "info",
+      reason: `${label} is the default UART ${pin === defaultUart.tx ? "TX" : "RX"} pin on ${family} boards.`,
+      recommendation:
+        "Keep this pin free if the default hardware serial port is used, or remap the UART.",
+      saferAlternatives,
+    };
+  }
+
+  if (defaultI2c && (pin === defaultI2c.sda || pin === defaultI2c.scl)) {
+    return {
+      pin,
+      findingType: "board_rule",
+      severity: "info",
+      reason: `${label} is the default I2C ${pin === defaultI2c.sda ? "SDA" : "SCL"} pin on ${family} boards.`,
+      recommendation:
+        "Keep this pin free if the default Wire bus is used, or remap the I2C pins.",
+      saferAlternatives,
+    };
+  }
+
+  if (defaultSpi) {
+    const role = (["mosi", "miso", "sck", "cs"] as const).find(
+      (key) => defaultSpi[key] === pin,
+    );
+    if (role) {
+      return {
+        pin,
+        findingType: "board_rule",
+        severity: "info",
+        reason: `${label} is the default SPI ${role.toUpperCase()} pin on ${family} boards.`,
+        recommendation:
+          "Keep this pin free if the default SPI bus is used, or remap the SPI pins.",
+        saferAlternatives,
+      };
+    }
+  }
+
   return null;
 }
 
-/**
- * Performs a heuristic static pin audit against board profile rules.
- *
- * @param projectDir - Path to the PlatformIO project directory.
- * @param boardId - Target board ID for profile-based pin safety rules.
- * @returns Pin-risk findings discovered during static scan.
- */
-export async function agentSafePinAudit(
+function findingLocation(
+  usage: PinUsage,
+): Pick<AgentPinAuditResult, "file" | "line" | "column"> {
+  return { file: usage.file, line: usage.lineNumber, column: usage.column };
+}
+
+function toPinConflictFinding(conflict: PinConflict): PinAuditPinFinding {
+  const label = formatPinLabel(conflict.pin);
+  const uses = conflict.uses.map((usage) => ({
+    file: usage.file,
+    line: usage.lineNumber,
+    column: usage.column,
+    operation: usage.operation,
+    owner: usage.owner,
+  }));
+  const locations = uses.map((use) => `${use.operation} at ${use.file}:${use.line}`);
+  return {
+    pin: conflict.pin,
+    findingType: "pin_conflict",
+    severity: conflict.drivesConflict ? "high" : "medium",
+    reason: `${label} is claimed by more than one owner (${conflict.owners.join(", ")}): ${locations.join("; ")}.`,
+    recommendation:
+      "Give each peripheral its own pin, or remove the GPIO calls on pins handed to a peripheral driver.",
+    ...findingLocation(conflict.uses[0]),
+    uses,
+  };
+}
+
+function auditPinUsages(
   projectDir: string,
-  boardId: string,
-): Promise<AgentPinAuditResult[]> {
-  const validatedPath = validateProjectPath(projectDir);
-  const pinUsages = collectPinUsages(validatedPath);
-  const byPin = new Map<number, AgentPinAuditResult>();
+  { profile, profileErrors }: BoardProfileResolution,
+  pinUsages: PinUsage[],
+): AgentPinAuditResult[] {
+  const context: PinAuditContext = { usesWifi: detectWifiUsage(projectDir) };
+  const byPin = new Map<BoardPin, PinAuditPinFinding>();
 
   for (const usage of pinUsages) {
-    const finding = evaluatePinUsageRisk(usage, boardId);
-    if (!finding) continue;
+    if (!usage.resolved) {
+      if (!byPin.has(usage.pin)) {
+        byPin.set(usage.pin, {
+          pin: usage.pin,
+          findingType: "unresolved_symbol",
+          severity: "info",
+          reason: `Pin symbol '${usage.pin}' used with ${usage.operation} could not be resolved to a pin number; it was not checked against board rules.`,
+          recommendation:
+            "Define the pin with #define, const/constexpr, an enum or a -D build flag so the audit can resolve it.",
+          ...findingLocation(usage),
+        });
+      }
+      continue;
+    }
+
+    const risk = profile ? evaluatePinUsageRisk(usage, profile, context) : null;
+    if (!risk) continue;
 
+    const finding = { ...risk, ...findingLocation(usage) };
     const existing = byPin.get(usage.pin);
     if (!existing || severityRank(finding.severity) > severityRank(existing.severity)) {
       byPin.set(usage.pin, finding);
     }
   }
 
-  const findings = Array.from(byPin.values()).sort((a, b) => {
+  const conflictFindings = findPinConflicts(pinUsages).map(toPinConflictFinding);
+  const findings: AgentPinAuditResult[] = [...byPin.values(), ...conflictFindings].sort((a, b) => {
     const rankDiff = severityRank(b.severity) - severityRank(a.severity);
     if (rankDiff !== 0) return rankDiff;
-    return String(a.pin).localeCompare(String(b.pin));
+    return comparePins(a.pin, b.pin);
   });
+  for (const error of profileErrors) {
+    findings.push({
+      findingType: "board_profile_error",
+      severity: "info",
+      reason: `Board profile file could not be loaded: ${error}`,
+      recommendation:
+        "Fix the board profile file; profiles from an invalid file are ignored until it validates.",
+    });
+  }
+  return findings;
+}
+
+/**
+ * Performs a heuristic static pin audit against board profile rules and
+ * reports pins claimed by more than one peripheral or GPIO call.
+ *
+ * @param projectDir - Path to the PlatformIO project directory.
+ * @param boardId - Target board ID for profile-based pin safety rules.
+ * @param environment - Optional environment whose framework and build_flags are used.
+ * @returns Pin-risk findings discovered during static scan.
+ */
+export async function agentSafePinAudit(
+  projectDir: string,
+  boardId: string,
+  environment?: string,
+): Promise<AgentPinAuditResult[]> {
+  const validatedPath = validateProjectPath(projectDir);
+  const { usages } = collectPinUsages(validatedPath, boardId, environment);
+  const findings = auditPinUsages(
+    validatedPath,
+    await resolvePinAuditProfile(validatedPath, boardId),
+    usages,
+  );
 
   persistAgentReport(
     validatedPath,
@@ -586,6 +939,212 @@ export async function agentSafePinAudit(
   return findings;
 }
 
+const PIN_AUDIT_RULE_DESCRIPTIONS: Record<PinAuditFindingType, string> = {
+  board_rule: "GPIO use conflicts with a board-specific pin rule.",
+  unresolved_symbol: "Pin argument could not be resolved to a pin number.",
+  board_profile_error: "User board profile file failed to load.",
+  pin_conflict: "Pin is claimed by more than one peripheral or GPIO call.",
+};
+
+/**
+ * Converts pin audit findings to a SARIF 2.1.0 log for code-scanning UIs.
+ *
+ * @param findings - Findings returned by `agentSafePinAudit`.
+ * @param projectDir - Optional project root used to resolve relative file paths.
+ * @returns SARIF log with one result per finding.
+ */
+export function pinAuditToSarif(
+  findings: AgentPinAuditResult[],
+  projectDir?: string,
+): SarifLog {
+  return buildSarifLog(
+    "platformio-mcp pin audit",
+    findings.map((finding) => ({
+      ruleId: `pin-audit/${finding.findingType}`,
+      ruleDescription: PIN_AUDIT_RULE_DESCRIPTIONS[finding.findingType],
+      level: toSarifLevel(finding.severity),
+      message: `${finding.reason} ${finding.recommendation}`,
+      file: finding.file,
+      line: finding.line,
+      column: finding.column,
+      related: finding.uses?.map((use) => ({
+        file: use.file,
+        line: use.line,
+        column: use.column,
+        message: use.operation,
+      })),
+      properties: {
+        ...(finding.pin !== undefined ? { pin: finding.pin } : {}),
+        severity: finding.severity,
+        ...(finding.saferAlternatives ? { saferAlternatives: finding.saferAlternatives } : {}),
+      },
+    })),
+    projectDir,
+  );
+}
+
+function toPinAuditUse(usage: PinUsage): PinAuditUse {
+  return {
+    file: usage.file,
+    line: usage.lineNumber,
+    column: usage.column,
+    operation: usage.operation,
+    owner: usage.owner,
+  };
+}
+
+/**
+ * Generates a project pinout map: every pin the firmware touches, with its
+ * source names, direction, peripheral roles, locations, board capabilities
+ * and pin audit risks.
+ *
+ * @param projectDir - Path to the PlatformIO project directory.
+ * @param boardId - Optional board ID; inferred from `platformio.ini` when omitted.
+ * @param environment - Optional environment whose board, framework and build_flags are used.
+ * @returns Pinout map payload.
+ */
+export async function agentGeneratePinout(
+  projectDir: string,
+  boardId?: string,
+  environment?: string,
+): Promise<AgentPinoutResult> {
+  const validatedPath = validateProjectPath(projectDir);
+  const resolvedBoardId = boardId?.trim() || inferBoardIdForProject(validatedPath, environment);
+  if (!resolvedBoardId) {
+    throw new PlatformIOError(
+      "Could not determine the target board. Pass boardId or set `board` in a platformio.ini environment.",
+      "BOARD_NOT_SPECIFIED",
+      { projectDir: validatedPath, environment },
+    );
+  }
+
+  const { environment: resolvedEnvironment, usages } = collectPinUsages(
+    validatedPath,
+    resolvedBoardId,
+    environment,
+  );
+  const resolution = await resolvePinAuditProfile(validatedPath, resolvedBoardId);
+  const findings = auditPinUsages(validatedPath, resolution, usages);
+  const capabilityTags = new Map<BoardPin, string[]>(
+    buildCapabilityTable(resolution.profile?.pinProfile.capabilities).map((row) => [
+      row.pin,
+      row.capabilities,
+    ]),
+  );
+
+  const byPin = new Map<BoardPin, PinUsage[]>();
+  const unresolved = new Map<string, PinUsage[]>();
+  for (const usage of usages) {
+    if (usage.resolved) byPin.set(usage.pin, [...(byPin.get(usage.pin) ?? []), usage]);
+    else unresolved.set(String(usage.pin), [...(unresolved.get(String(usage.pin)) ?? []), usage]);
+  }
+
+  const pins = Array.from(byPin.keys())
+    .sort(comparePins)
+    .map((pin): AgentPinoutEntry => {
+      const pinUsages = byPin.get(pin) ?? [];
+      return {
+        pin,
+        label: formatPinLabel(pin),
+        symbols: Array.from(
+          new Set(pinUsages.flatMap((usage) => (usage.symbol ? [usage.symbol] : []))),
+        ),
+        direction: pinUsages.some((usage) => usage.drivesOutput) ? "output" : "input",
+        roles: Array.from(
+          new Set(
+            pinUsages.map((usage) =>
+              usage.owner ? `${usage.owner} ${(usage.role ?? "").toUpperCase()}`.trim() : "GPIO",
+            ),
+          ),
+        ),
+        uses: pinUsages.map(toPinAuditUse),
+        capabilities: capabilityTags.get(pin) ?? [],
+        risks: findings
+          .filter((finding) => finding.pin === pin)
+          .map(({ findingType, severity, reason }) => ({ findingType, severity, reason })),
+      };
+    });
+
+  const result: AgentPinoutResult = {
+    projectDir: validatedPath,
+    boardId: resolvedBoardId,
+    environment: resolvedEnvironment,
+    profileKey: resolution.profile?.key,
+    pins,
+    unresolved: Array.from(unresolved, ([symbol, symbolUsages]) => ({
+      symbol,
+      uses: symbolUsages.map(toPinAuditUse),
+    })),
+    generatedAt: new Date().toISOString(),
+  };
+
+  persistAgentReport(
+    validatedPath,
+    "agent_generate_pinout",
+    true,
+    `Generated pinout for ${pins.length} pins on '${resolvedBoardId}'.`,
+    result,
+  );
+  return result;
+}
+
+function markdownCell(values: string[]): string {
+  return values.length > 0 ? values.join("<br>").replace(/\|/g, "\\|") : "-";
+}
+
+/**
+ * Renders a pinout map as a Markdown document for design reviews.
+ *
+ * @param pinout - Pinout payload from `agentGeneratePinout`.
+ * @returns Markdown text with a pin table and unresolved symbols.
+ */
+export function renderPinoutMarkdown(pinout: AgentPinoutResult): string {
+  const lines = [
+    `# Pinout: ${pinout.boardId}`,
+    "",
+    [
+      pinout.environment ? `Environment: \`${pinout.environment}\`` : undefined,
+      pinout.profileKey ? `Board profile: \`${pinout.profileKey}\`` : "Board profile: none",
+      `Generated: ${pinout.generatedAt}`,
+    ]
+      .filter(Boolean)
+      .join(" | "),
+    "",
+    "| Pin | Names | Direction | Roles | Capabilities | Risks | Used at |",
+    "|---|---|---|---|---|---|---|",
+  ];
+
+  for (const entry of pinout.pins) {
+    lines.push(
+      `| ${[
+        entry.label,
+        markdownCell(entry.symbols),
+        entry.direction,
+        markdownCell(entry.roles),
+        markdownCell(entry.capabilities),
+        markdownCell(entry.risks.map((risk) => `**${risk.severity}**: ${risk.reason}`)),
+        markdownCell(entry.uses.map((use) => `${use.file}:${use.line} ${use.operation}`)),
+      ].join(" | ")} |`,
+    );
+  }
+  if (pinout.pins.length === 0) {
+    lines.push("| - | - | - | - | - | - | - |");
+  }
+
+  if (pinout.unresolved.length > 0) {
+    lines.push("", "## Unresolved pin symbols", "", "| Symbol | Used at |", "|---|---|");
+    for (const item of pinout.unresolved) {
+      lines.push(
+        `| ${markdownCell([item.symbol])} | ${markdownCell(
+          item.uses.map((use) => `${use.file}:${use.line} ${use.operation}`),
+        )} |`,
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
 function summarizeRuntimeOutcome(
   assertions: RuntimeAssertionResult,
 ): { status: AgentFlashMonitorVerifyResult["verificationStatus"]; action: string } {
@@ -597,6 +1156,13 @@ function summarizeRuntimeOutcome(
     };
   }
 
+  if (assertions.runtimeFailures.includes("BootLoop") && assertions.bootAnalysis.explanation) {
+    return {
+      status: "failed",
+      action: `Device is boot looping (${assertions.bootAnalysis.bootCount} boots, mostly ${assertions.bootAnalysis.likelyCause} resets). ${assertions.bootAnalysis.explanation}`,
+    };
+  }
+
   if (assertions.runtimeFailures.some((item) => item !== "NoSerialOutput")) {
     return {
       status: "failed",
@@ -684,7 +1250,8 @@ function inferBoardIdForProject(
 ): string | undefined {
   const iniText = readProjectIniText(projectDir);
   if (!iniText) return undefined;
-  const envs = parseEnvironmentsFromIni(iniText);
+  const ini = parsePlatformioIni(iniText);
+  const envs = parseEnvironmentsFromIni(ini);
 
   if (requestedEnvironment?.trim()) {
     const targeted = envs.find(
@@ -693,7 +1260,7 @@ function inferBoardIdForProject(
     if (targeted?.board) return targeted.board;
   }
 
-  const defaults = parseDefaultEnvironments(iniText);
+  const defaults = listDefaultEnvironments(ini);
 
   if (defaults.length > 0) {
     for (const defaultEnv of defaults) {
@@ -716,8 +1283,9 @@ function inferArtifactTargetEnvironments(
   const iniText = readProjectIniText(projectDir);
   if (!iniText) return [];
 
-  const envs = parseEnvironmentsFromIni(iniText);
-  const defaults = parseDefaultEnvironments(iniText);
+  const ini = parsePlatformioIni(iniText);
+  const envs = parseEnvironmentsFromIni(ini);
+  const defaults = listDefaultEnvironments(ini);
   if (defaults.length > 0) {
     return Array.from(new Set(defaults));
   }
@@ -743,6 +1311,8 @@ function hasResolvedFirmwareArtifacts(
 
 /**
  * Builds (if needed), flashes, monitors, and verifies runtime behavior.
+ * A passing run marks the flashed artifact as known-good; a runtime failure
+ * points at the last known-good artifact to roll back to.
  *
  * @param input - Flash + monitor verification options.
  * @returns Structured flash and runtime verification report.
@@ -756,6 +1326,7 @@ export async function agentFlashMonitorVerify(input: {
   timeoutSeconds?: number;
   stabilityWindowSeconds?: number;
   autoBuild?: boolean;
+  artifactId?: string;
 }): Promise<AgentFlashMonitorVerifyResult> {
   const validatedPath = validateProjectPath(input.projectDir);
   const timeoutSeconds = input.timeoutSeconds ?? 45;
@@ -763,7 +1334,8 @@ export async function agentFlashMonitorVerify(input: {
   const expectAll = input.expectAll ?? [];
   const rejectPatterns = input.rejectPatterns ?? [];
   const environment = input.environment ?? "default";
-  const shouldAutoBuild = input.autoBuild ?? true;
+  // A recorded artifact is flashed as is, so there is nothing to build.
+  const shouldAutoBuild = !input.artifactId && (input.autoBuild ?? true);
 
   if (shouldAutoBuild) {
     const targetEnvironments = inferArtifactTargetEnvironments(
@@ -809,7 +1381,13 @@ export async function agentFlashMonitorVerify(input: {
       if (!("status" in build) && !build.success) {
         const diagnostic =
           build.diagnostic ??
-          diagnoseBuildLog(build.output ?? "", { success: false, rawLogPath: build.rawLogPath });
+          diagnoseBuildLog(build.output ?? "", {
+            success: false,
+            rawLogPath: build.rawLogPath,
+            projectDir: validatedPath,
+            environment,
+            allFindings: true,
+          });
         const failedResult: AgentFlashMonitorVerifyResult = {
           success: false,
           projectDir: validatedPath,
@@ -836,12 +1414,14 @@ export async function agentFlashMonitorVerify(input: {
     }
   }
 
+  const flashedArtifactId = input.artifactId ?? resolveCurrentArtifactId(validatedPath);
   const uploadResult = await uploadFirmwareCore({
     projectDir: validatedPath,
     port: input.port,
     environment: input.environment,
     startMonitorAfter: true,
     verbose: true,
+    artifactId: input.artifactId,
   });
 
   if ("status" in uploadResult && uploadResult.status === "running") {
@@ -877,6 +1457,8 @@ export async function agentFlashMonitorVerify(input: {
       diagnoseUploadLog(uploadResult.output ?? "", {
         success: false,
         rawLogPath: uploadResult.rawLogPath,
+        projectDir: validatedPath,
+        allFindings: true,
       });
 
     let finalDiagnostic = baselineDiagnostic;
@@ -885,18 +1467,50 @@ export async function agentFlashMonitorVerify(input: {
       input.environment,
     );
     if (projectBoardId) {
-      const findings = await agentSafePinAudit(validatedPath, projectBoardId);
-      const riskyPin = findings.find((item) => item.severity === "high");
-      if (riskyPin) {
+      // Only pins sampled at reset can keep a board out of its bootloader;
+      // other board rules (USB, SWD, ADC2 with WiFi, ...) do not fail an upload.
+      const resolution = await resolvePinAuditProfile(validatedPath, projectBoardId);
+      const profile = resolution.profile;
+      const bootPins = profile ? getBootPins(profile.pinProfile) : [];
+      const findings = auditPinUsages(
+        validatedPath,
+        resolution,
+        collectPinUsages(validatedPath, projectBoardId, input.environment).usages,
+      );
+      const riskyPin = findings.find(
+        (item): item is PinAuditPinFinding =>
+          item.findingType === "board_rule" &&
+          item.severity === "high" &&
+          item.pin !== undefined &&
+          bootPins.includes(item.pin),
+      );
+      if (profile && riskyPin) {
+        const errorType =
+          profile.key === "esp32" || profile.parentKey === "esp32"
+            ? "Esp32StrappingPinRisk"
+            : "BootPinRisk";
+        const pinEvidence = `Pin audit flagged ${formatPinLabel(riskyPin.pin)} as high risk.`;
         finalDiagnostic = {
           ...baselineDiagnostic,
-          errorType: "Esp32StrappingPinRisk",
-          summary: "upload failed with potential ESP32 strapping pin risk.",
+          errorType,
+          summary: `upload failed with potential ${profile.title} strapping/boot pin risk.`,
           recommendedAction: riskyPin.recommendation,
           safeToAutoRetry: false,
-          evidence: baselineDiagnostic.evidence.concat(
-            `Pin audit flagged GPIO${riskyPin.pin} as high risk.`,
-          ),
+          evidence: baselineDiagnostic.evidence.concat(pinEvidence),
+          findings: baselineDiagnostic.findings && [
+            {
+              errorType,
+              severity: "critical",
+              summary: `Pin audit found a high-risk ${profile.title} strapping/boot pin in use.`,
+              evidence: [pinEvidence],
+              occurrences: 1,
+              recommendedAction: riskyPin.recommendation,
+              safeToAutoRetry: false,
+            },
+            ...baselineDiagnostic.findings.filter(
+              (finding) => finding.errorType !== errorType,
+            ),
+          ],
         };
       }
     }
@@ -942,6 +1556,19 @@ export async function agentFlashMonitorVerify(input: {
     secondsSinceLastOutput: monitorCollection.secondsSinceLastOutput,
   });
   const runtimeSummary = summarizeRuntimeOutcome(assertions);
+  // A panic replaces the (successful) upload diagnostic with the serial one,
+  // with the backtrace resolved against the firmware ELF.
+  const runtimeDiagnostic = assertions.runtimeFailures.includes("PanicTrace")
+    ? await attachSymbolicatedBacktrace(
+        diagnoseSerialLog(monitorCollection.output, {
+          projectDir: validatedPath,
+          rawLogPath: monitorLogPath,
+          allFindings: true,
+        }),
+        monitorCollection.output,
+        { projectDir: validatedPath, environment },
+      )
+    : undefined;
 
   const result: AgentFlashMonitorVerifyResult = {
     success: runtimeSummary.status === "passed",
@@ -954,12 +1581,29 @@ export async function agentFlashMonitorVerify(input: {
     unmatchedExpectations: assertions.unmatchedExpectations,
     rejectedPatterns: assertions.rejectedPatterns,
     detectedRuntimeErrors: assertions.runtimeFailures,
-    diagnostic: uploadDiagnostic,
+    ...(assertions.bootAnalysis.bootCount > 0 ? { bootAnalysis: assertions.bootAnalysis } : {}),
+    diagnostic: runtimeDiagnostic ?? uploadDiagnostic,
     recommendedNextAction: runtimeSummary.action,
     rawMonitorLogPath: monitorCollection.monitorSuccess ? monitorLogPath : undefined,
     monitorSnippet: monitorCollection.output.slice(-2000),
+    ...(flashedArtifactId ? { artifactId: flashedArtifactId } : {}),
   };
 
+  if (flashedArtifactId && result.verificationStatus === "passed") {
+    markFirmwareArtifactVerified(validatedPath, flashedArtifactId);
+  } else if (result.verificationStatus === "failed") {
+    const rollbackEnvironment = input.artifactId
+      ? getFirmwareArtifact(validatedPath, input.artifactId).environment
+      : resolveSizeEnvironment(validatedPath, input.environment);
+    const rollback = rollbackEnvironment
+      ? findLastKnownGoodArtifact(validatedPath, rollbackEnvironment, flashedArtifactId)
+      : undefined;
+    if (rollback) {
+      result.rollbackArtifactId = rollback.id;
+      result.recommendedNextAction += ` To restore the last known-good firmware, rerun with artifactId '${rollback.id}'${rollback.gitCommit ? ` (commit ${rollback.gitCommit})` : ""}.`;
+    }
+  }
+
   persistAgentReport(
     validatedPath,
     "agent_flash_monitor_verify",
@@ -1011,10 +1655,11 @@ export async function agentGenerateBoardReport(
 ): Promise<AgentBoardReport> {
   const validatedPath = validateProjectPath(projectDir);
   const boardInfo = await getBoardInfo(boardId);
-  const profile = getBoardProfile({
+  const { profile, profileErrors } = resolveBoardProfile({
     boardId: boardInfo.id,
     platform: boardInfo.platform,
     mcu: boardInfo.mcu,
+    projectDir: validatedPath,
   });
 
   const report: AgentBoardReport = {
@@ -1027,7 +1672,16 @@ export async function agentGenerateBoardReport(
     dangerousPins: profile?.pinProfile.dangerousPins ?? [],
     inputOnlyPins: profile?.pinProfile.inputOnlyPins ?? [],
     flashSpiPins: profile?.pinProfile.flashSpiPins ?? [],
+    debugPins: profile?.pinProfile.debugPins,
+    oscillatorPins: profile?.pinProfile.oscillatorPins,
+    usbPins: profile?.pinProfile.usbPins,
+    dedicatedPins: profile?.pinProfile.dedicatedPins,
+    capabilities: profile?.pinProfile.capabilities,
+    capabilityTable: buildCapabilityTable(profile?.pinProfile.capabilities),
     recommendedMonitorBaudRate: profile?.defaultMonitorBaudRate ?? 115200,
+    profileKey: profile?.key,
+    profileSource: profile ? (profile.source ?? "built-in") : undefined,
+    profileErrors: profileErrors.length > 0 ? profileErrors : undefined,
     generatedAt: new Date().toISOString(),
   };
 
@@ -3,15 +3,31 @@
  * Project build and compilation tools.
  *
  * Provides:
- * - buildProject: Compiles firmware binaries.
+ * - buildProject: Compiles firmware binaries and records their sizes and artifacts.
+ * - buildMatrix: Builds several environments with bounded parallelism and aggregates the results.
  * - cleanProject: Scrubs compilation artifacts.
  * - buildTarget: Compiles specific PIO lifecycle targets.
  * - listTargets: Discovers valid compilation targets.
+ * - firmwareSizeReport: Breaks a built firmware down by section, symbol, object and library.
+ * - firmwareSizeTrend: Reports recorded firmware sizes per environment, budget violations and regressions.
+ * - listFirmwareArtifacts: Lists recorded firmware builds available for upload and rollback.
  */
 
 import { platformioExecutor } from "../platformio.js";
 import { executeWithSpooling } from "../utils/spooler.js";
-import type { BuildResult, CleanResult } from "../types.js";
+import type {
+  BuildMatrixEntry,
+  BuildMatrixResult,
+  BuildResult,
+  CheckDefect,
+  CheckDefectSeverity,
+  FirmwareArtifactListResult,
+  CheckRunResults,
+  CleanResult,
+  FirmwareSizeReport,
+  SizeHistoryEntry,
+  SizeTrendResult,
+} from "../types.js";
 import {
   validateProjectPath,
   validateEnvironmentName,
@@ -20,6 +36,8 @@ import { BuildError, PlatformIOError } from "../utils/errors.js";
 import {
   parseStderrErrors,
   parseStructuredBuildErrors,
+  parseStructuredBuildWarnings,
+  summarizeBuildWarnings,
   deriveNextSteps,
 } from "../utils/errors.js";
 import { isBuildActive } from "../utils/process-manager.js";
@@ -27,6 +45,8 @@ import fs from "node:fs";
 
 import path from "node:path";
 import crypto from "node:crypto";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
 import { tailFileBounded } from "../utils/tail.js";
 import { SERVER_DATA_DIR, ensureGlobalDirs } from "../utils/paths.js";
 import { mcpContext } from "../utils/mcp-context.js";
@@ -34,13 +54,40 @@ import {
   lookupBuildCache,
   writeCache,
   findFirmwareArtifact,
+  findBuildOutput,
   invalidateBuildCache,
+  markBuildCacheCleaned,
+  clearCleanMarker,
 } from "../utils/build-cache.js";
+import { restoreStoredBuild, storeBuildArtifacts } from "../utils/artifact-store.js";
+import { findToolchainTool } from "../utils/toolchain.js";
+import { listIniEnvironments, parsePlatformioIni } from "../utils/platformio-ini.js";
+import { summarizeFirmwareSize } from "../core/firmware-size.js";
+import {
+  getSizeTrend,
+  parseBuildMemoryUsage,
+  parseEnvironmentMemoryUsage,
+  readGitCommit,
+  recordBuildSize,
+  resolveSizeEnvironment,
+} from "../core/size-budget.js";
+import { listFirmwareArtifacts as listRecordedArtifacts, recordFirmwareArtifact } from "../core/firmware-history.js";
 import { logDiagnostic as logDiag } from "../utils/logger.js";
 import { redactSecretsInText } from "../core/policy/redact.js";
 import { diagnoseBuildLog } from "../core/diagnostics/build-diagnostics.js";
 import { diagnoseUploadLog } from "../core/diagnostics/upload-diagnostics.js";
 import { diagnoseSerialLog } from "../core/diagnostics/serial-diagnostics.js";
+import { diagnoseTestLog } from "../core/diagnostics/test-diagnostics.js";
+import { parseUnityTestOutput } from "../core/diagnostics/test-results.js";
+import {
+  applyCheckBaseline,
+  filterDefectsBySeverity,
+  hasCheckReport,
+  loadCheckBaseline,
+  parseCheckOutput,
+  resolveCheckBaselinePath,
+  writeCheckBaseline,
+} from "../core/static-analysis.js";
 import type { DiagnosticResult } from "../core/diagnostics/types.js";
 /**
  * Builds a PlatformIO project.
@@ -48,6 +95,8 @@ import type { DiagnosticResult } from "../core/diagnostics/types.js";
  * @param projectDir - The target location of the PIO project.
  * @param environment - Optional specific platformio.ini environment target.
  * @param verbose - If true, returns the complete verbose build log in the result instead of truncating it.
+ * @param background - If true, dispatches the build and returns a task handle.
+ * @param options - `concurrent` lets matrix builds of other environments run alongside.
  * @returns Resulting build status and output log payloads.
  */
 export async function buildProject(
@@ -55,6 +104,7 @@ export async function buildProject(
   environment?: string,
   verbose?: boolean,
   background?: boolean,
+  options: { concurrent?: boolean } = {},
 ): Promise<BuildResult> {
   const rootCommandId = mcpContext.getStore()?.activityId || crypto.randomUUID();
   const validatedPath = validateProjectPath(projectDir);
@@ -72,33 +122,52 @@ export async function buildProject(
   // did not actually change disk content (e.g. saving the same file again, or
   // running an evaluation loop with k repeated trials). Each rebuild paid the
   // 30–120 s pio toolchain warmup with zero compilation work to do. Hashing
-  // src/include/lib/platformio.ini once is microseconds; on a hit we replay
-  // the prior result directly. Skipped when `background=true` because the
+  // src/include/lib/platformio.ini plus the installed platform, package and
+  // library manifests takes milliseconds; on a hit we replay the prior result
+  // directly, on a miss we report which input changed. Skipped when `background=true` because the
   // caller is asking explicitly for an asynchronous dispatch contract — we
   // honor it instead of confusingly returning a synchronous result. Also
   // skipped on `verbose=true`: callers asking for full verbose logs usually
   // want fresh ones from the compiler, not a cached tail.
   // ----------------------------------------------------------------------------
   const envName = environment || "default";
+  let cacheMissReason = verbose ? "Verbose builds bypass the cache so the log is fresh." : undefined;
   if (!background && !verbose) {
     const lookup = lookupBuildCache(validatedPath, envName);
-    if (lookup.hit) {
-      const cached = lookup.entry;
+    let cached = lookup.hit ? lookup.entry : undefined;
+    if (lookup.hit && lookup.source === "store") {
+      // Another branch or workspace built these exact inputs: put its
+      // firmware back where PlatformIO and the upload tools expect it.
+      const restored = restoreStoredBuild(validatedPath, lookup.inputsHash);
+      cached = restored ? { ...lookup.entry, firmwarePath: restored.firmwarePath } : undefined;
+      if (restored && cached) {
+        writeCache(validatedPath, cached);
+        recordFirmwareArtifact(validatedPath, restored.stored, readGitCommit(validatedPath));
+      }
+    }
+    if (lookup.hit && cached) {
       const tail = cached.finalOutputTail || "(cached build — output omitted)";
       const structuredErrors = parseStructuredBuildErrors(tail);
+      const structuredWarnings = parseStructuredBuildWarnings(tail, validatedPath);
       logDiag(
-        `[buildProject] Cache hit for ${validatedPath} (env=${envName}, hash=${cached.inputsHash.slice(0, 12)}…) — skipping pio run`,
+        `[buildProject] Cache hit (${lookup.source}) for ${validatedPath} (env=${envName}, hash=${cached.inputsHash.slice(0, 12)}…) — skipping pio run`,
         validatedPath,
       );
       return {
         success: true,
         cacheHit: true,
+        cacheSource: lookup.source,
+        incremental: true,
         environment: envName,
         output: undefined,
         errors: undefined,
         structuredErrors,
+        structuredWarnings,
+        warningSummary: summarizeBuildWarnings(structuredWarnings),
         nextSteps: deriveNextSteps([], true).concat([
-          "Build was served from MCP content-hash cache (no compilation work performed). Call `clean_project` or edit source files to force a rebuild.",
+          lookup.source === "store"
+            ? "Build was restored from the shared artifact store (these inputs were built before, possibly in another workspace or branch). Call `clean_project` or edit source files to force a rebuild."
+            : "Build was served from MCP content-hash cache (no compilation work performed). Call `clean_project` or edit source files to force a rebuild.",
         ]),
         ramUsageBytes: cached.ramUsageBytes,
         flashUsageBytes: cached.flashUsageBytes,
@@ -108,8 +177,15 @@ export async function buildProject(
         }),
       };
     }
+    cacheMissReason = lookup.hit
+      ? "The matching build in the shared artifact store could not be restored."
+      : lookup.reason;
   }
 
+  // Objects left by an earlier build mean only changed files are recompiled,
+  // so the log misses the warnings of every other file.
+  const incremental = hasCompiledSources(validatedPath, environment);
+
   try {
     const args: string[] = [];
 
@@ -129,7 +205,8 @@ export async function buildProject(
       projectDir: validatedPath,
       timeout: background ? 3600000 : 600000, // 1 hour for background, 10 mins for foreground
       background,
-      rootCommandId
+      rootCommandId,
+      concurrent: options.concurrent,
     });
 
     if ('status' in result) {
@@ -142,6 +219,9 @@ export async function buildProject(
     const safeOutput = redactSecretsInText(result.finalOutput);
     const legacyErrors = success ? undefined : parseStderrErrors(safeOutput);
     const structuredErrors = parseStructuredBuildErrors(safeOutput);
+    // Warnings are spread over the whole compile, far beyond the output tail.
+    const fullLog = redactSecretsInText(await readFullLog(result));
+    const structuredWarnings = parseStructuredBuildWarnings(fullLog, validatedPath);
     const nextSteps = deriveNextSteps(
       // Convert from internal StructuredBuildError to the JSON-friendly shape.
       structuredErrors,
@@ -150,18 +230,36 @@ export async function buildProject(
     const diagnostic = diagnoseBuildLog(safeOutput, {
       rawLogPath: result.fullLogPath,
       success: success,
+      projectDir: validatedPath,
+      environment: envName,
+      allFindings: true,
     });
 
     let ramUsageBytes: number | undefined;
     let flashUsageBytes: number | undefined;
+    let environmentSizes: BuildResult["environmentSizes"];
     let firmwarePath: string | undefined;
 
     if (success) {
-      const ramMatch = safeOutput.match(/RAM:.*?used\s+(\d+)\s+bytes/i);
-      if (ramMatch) ramUsageBytes = parseInt(ramMatch[1], 10);
-
-      const flashMatch = safeOutput.match(/Flash:.*?used\s+(\d+)\s+bytes/i);
-      if (flashMatch) flashUsageBytes = parseInt(flashMatch[1], 10);
+      // `pio run` without `-e` may build several environments; their sizes
+      // are only told apart by the `Processing <env>` section they follow.
+      const buildEnvironment = resolveSizeEnvironment(validatedPath, environment);
+      let sizeEntry: SizeHistoryEntry | undefined;
+      if (buildEnvironment) {
+        const usage = parseBuildMemoryUsage(fullLog);
+        ramUsageBytes = usage.ramUsageBytes;
+        flashUsageBytes = usage.flashUsageBytes;
+        sizeEntry = recordBuildSize(validatedPath, buildEnvironment, usage);
+      } else {
+        environmentSizes = {};
+        for (const [name, usage] of parseEnvironmentMemoryUsage(fullLog)) {
+          recordBuildSize(validatedPath, name, usage);
+          environmentSizes[name] = {
+            ramUsageBytes: usage.ramUsageBytes,
+            flashUsageBytes: usage.flashUsageBytes,
+          };
+        }
+      }
 
       firmwarePath = findFirmwareArtifact(validatedPath, envName);
 
@@ -175,7 +273,7 @@ export async function buildProject(
       // hit and miss branches of its discriminated union, so we can read it
       // unconditionally without an unsafe cast.
       const postBuildLookup = lookupBuildCache(validatedPath, envName);
-      writeCache(validatedPath, {
+      const cacheEntry = {
         inputsHash: postBuildLookup.inputsHash,
         environment: envName,
         builtAtMs: Date.now(),
@@ -183,7 +281,20 @@ export async function buildProject(
         ramUsageBytes,
         flashUsageBytes,
         finalOutputTail: tail,
-      });
+        inputs: postBuildLookup.inputs,
+      };
+      writeCache(validatedPath, cacheEntry);
+      clearCleanMarker(validatedPath);
+      // Keep the firmware in the shared store too, so returning to these
+      // inputs later (another branch, another workspace) skips the compile.
+      // A multi-environment build has no single firmware to label.
+      const stored = buildEnvironment
+        ? storeBuildArtifacts(validatedPath, buildEnvironment, cacheEntry)
+        : undefined;
+      if (stored) {
+        const gitCommit = sizeEntry ? sizeEntry.gitCommit : readGitCommit(validatedPath);
+        recordFirmwareArtifact(validatedPath, stored, gitCommit);
+      }
     } else {
       // A failed build invalidates any older cache entry to prevent a
       // confusing "fresh failure but stale success cached" state.
@@ -193,13 +304,18 @@ export async function buildProject(
     return {
       success,
       cacheHit: false,
+      cacheMissReason,
+      incremental,
       environment: envName,
       output: success && !verbose ? undefined : safeOutput,
       errors: legacyErrors,
       structuredErrors,
+      structuredWarnings,
+      warningSummary: summarizeBuildWarnings(structuredWarnings),
       nextSteps,
       ramUsageBytes,
       flashUsageBytes,
+      ...(environmentSizes ? { environmentSizes } : {}),
       firmwarePath,
       rawLogPath: result.fullLogPath,
       diagnostic,
@@ -218,18 +334,139 @@ export async function buildProject(
   }
 }
 
+export const DEFAULT_MATRIX_PARALLELISM = 2;
+
+function hasCompiledSources(projectDir: string, environment?: string): boolean {
+  const buildRoot = path.join(projectDir, ".pio", "build");
+  try {
+    const environments = environment ? [environment] : fs.readdirSync(buildRoot);
+    return environments.some((name) => fs.existsSync(path.join(buildRoot, name, "src")));
+  } catch {
+    return false;
+  }
+}
+
+async function buildMatrixEntry(
+  projectDir: string,
+  environment: string,
+  declared: string[],
+): Promise<BuildMatrixEntry> {
+  const startedAt = Date.now();
+  const empty = { environment, success: false, errorCount: 0, warningCount: 0, projectWarningCount: 0 };
+  if (!declared.includes(environment)) {
+    return { ...empty, durationMs: 0, error: `Environment '${environment}' is not defined in platformio.ini.` };
+  }
+
+  try {
+    const result = await buildProject(projectDir, environment, false, false, { concurrent: true });
+    const success = Boolean(result.success);
+    const error = success
+      ? undefined
+      : (result.structuredErrors?.[0]?.message ?? result.diagnostic?.summary ?? "Build failed.");
+    return {
+      environment,
+      success,
+      cacheHit: result.cacheHit,
+      durationMs: Date.now() - startedAt,
+      ramUsageBytes: result.ramUsageBytes,
+      flashUsageBytes: result.flashUsageBytes,
+      errorCount: result.structuredErrors?.length ?? 0,
+      warningCount: result.warningSummary?.total ?? 0,
+      projectWarningCount: result.warningSummary?.project ?? 0,
+      firmwarePath: result.firmwarePath,
+      rawLogPath: result.rawLogPath,
+      ...(error ? { error } : {}),
+    };
+  } catch (error: unknown) {
+    // One environment failing to start must not abort the rest of the matrix.
+    return { ...empty, durationMs: Date.now() - startedAt, error: (error as Error).message };
+  }
+}
+
+/**
+ * Builds several environments of a project, at most `maxParallel` at a
+ * time, and returns one row per environment. A failing environment does not
+ * stop the others.
+ *
+ * @param projectDir - The target location of the PIO project.
+ * @param environments - Environments to build; defaults to every `[env:*]` section.
+ * @param maxParallel - Number of builds run at the same time.
+ * @returns Aggregated per-environment results.
+ * @throws {BuildError} When the project declares no environments or another build is running.
+ */
+export async function buildMatrix(
+  projectDir: string,
+  environments?: string[],
+  maxParallel: number = DEFAULT_MATRIX_PARALLELISM,
+): Promise<BuildMatrixResult> {
+  const validatedPath = validateProjectPath(projectDir);
+  const invalid = environments?.find((environment) => !validateEnvironmentName(environment));
+  if (invalid) {
+    throw new BuildError(`Invalid environment name: ${invalid}`, { environment: invalid });
+  }
+
+  let declared: string[] = [];
+  try {
+    declared = listIniEnvironments(
+      parsePlatformioIni(fs.readFileSync(path.join(validatedPath, "platformio.ini"), "utf8")),
+    );
+  } catch {
+    // Reported below as a project without environments.
+  }
+  const targets = Array.from(new Set(environments ?? declared));
+  if (targets.length === 0) {
+    throw new BuildError("platformio.ini declares no [env:*] sections to build.", {
+      projectDir: validatedPath,
+    });
+  }
+  if (isBuildActive(validatedPath)) {
+    throw new BuildError("A build is already actively running for this project.", {
+      projectDir: validatedPath,
+    });
+  }
+
+  const startedAt = Date.now();
+  const rows: BuildMatrixEntry[] = new Array(targets.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      rows[index] = await buildMatrixEntry(validatedPath, targets[index], declared);
+    }
+  };
+  const parallel = Math.max(1, Math.min(maxParallel, targets.length));
+  await Promise.all(Array.from({ length: parallel }, worker));
+
+  const succeeded = rows.filter((row) => row.success).length;
+  return {
+    success: succeeded === rows.length,
+    projectDir: validatedPath,
+    maxParallel: parallel,
+    durationMs: Date.now() - startedAt,
+    succeeded,
+    failed: rows.length - succeeded,
+    environments: rows,
+  };
+}
+
 /**
  * Runs static analysis on a PlatformIO project.
  *
  * @param projectDir - The target location of the PIO project.
  * @param environment - Optional specific platformio.ini environment target.
  * @param background - If true, dispatches the execution to the background.
+ * @param options - Severity filter and baseline handling for the parsed defects.
  * @returns Resulting status payload.
  */
 export async function checkProject(
   projectDir: string,
   environment?: string,
   background?: boolean,
+  options: {
+    minSeverity?: CheckDefectSeverity;
+    baselinePath?: string;
+    updateBaseline?: boolean;
+  } = {},
 ): Promise<BuildResult> {
   const rootCommandId = mcpContext.getStore()?.activityId || crypto.randomUUID();
   const validatedPath = validateProjectPath(projectDir);
@@ -238,8 +475,11 @@ export async function checkProject(
     throw new BuildError(`Invalid environment name: ${environment}`, { environment });
   }
 
+  // Reject a bad baseline path before spending minutes on the analysis.
+  const baselinePath = resolveCheckBaselinePath(validatedPath, options.baselinePath);
+
   try {
-    const args: string[] = [];
+    const args: string[] = ["--json-output"];
     if (environment) {
       args.push("--environment", environment);
     }
@@ -259,12 +499,33 @@ export async function checkProject(
 
     const success = result.exitCode === 0;
     const errors = success ? undefined : parseStderrErrors(result.finalOutput);
+    const fullLog = await readFullLog(result);
+    const reportFound = hasCheckReport(fullLog);
+    const checkResults = summarizeCheckDefects(
+      baselinePath,
+      parseCheckOutput(fullLog, validatedPath),
+      { ...options, reportFound, exitedCleanly: success },
+    );
 
     return {
       success,
       environment: environment || "default",
       output: result.finalOutput,
       errors,
+      rawLogPath: result.fullLogPath,
+      checkResults,
+      nextSteps: checkResults.passed
+        ? ["No new static-analysis defects. Safe to merge from a static-analysis standpoint."]
+        : !reportFound || (!success && checkResults.defects.length === 0)
+          ? [
+              `pio check exited with code ${result.exitCode}${reportFound ? "" : " without a defect report"}. Read the full log at ${result.fullLogPath} before trusting the result.`,
+            ]
+          : checkResults.defects
+              .slice(0, 3)
+              .map(
+                (defect) =>
+                  `Fix ${defect.severity} ${defect.tool} defect at ${defect.file}:${defect.line}: ${defect.message}`,
+              ),
     };
   } catch (error) {
     if (error instanceof PlatformIOError) {
@@ -274,6 +535,51 @@ export async function checkProject(
   }
 }
 
+function summarizeCheckDefects(
+  baselinePath: string,
+  defects: CheckDefect[],
+  options: {
+    minSeverity?: CheckDefectSeverity;
+    updateBaseline?: boolean;
+    reportFound: boolean;
+    exitedCleanly: boolean;
+  },
+): CheckRunResults {
+  const minSeverity = options.minSeverity ?? "low";
+  // A run without a report has no defect list to trust, so it never replaces the baseline.
+  const baselineUpdated = Boolean(options.updateBaseline && options.reportFound);
+  if (baselineUpdated) {
+    writeCheckBaseline(baselinePath, defects);
+  }
+
+  const { newDefects, suppressed } = applyCheckBaseline(
+    filterDefectsBySeverity(defects, minSeverity),
+    loadCheckBaseline(baselinePath),
+  );
+  const count = (severity: CheckDefectSeverity) =>
+    newDefects.filter((defect) => defect.severity === severity).length;
+
+  return {
+    defects: newDefects,
+    suppressed: suppressed.length,
+    totals: { high: count("high"), medium: count("medium"), low: count("low") },
+    minSeverity,
+    ...(fs.existsSync(baselinePath) ? { baselinePath } : {}),
+    ...(baselineUpdated ? { baselineUpdated: true } : {}),
+    // An empty defect list only means something when the check ran to completion.
+    passed: options.reportFound && options.exitedCleanly && newDefects.length === 0,
+  };
+}
+
+/**
+ * Reads the whole spooled log. `finalOutput` only keeps the last 150 lines,
+ * which is not enough for reports printed earlier in the run.
+ */
+async function readFullLog(result: { finalOutput: string; fullLogPath: string }): Promise<string> {
+  const lines = await tailFileBounded(result.fullLogPath, 16 * 1024 * 1024).catch(() => [] as string[]);
+  return lines.length > 0 ? lines.join("\n") : result.finalOutput;
+}
+
 /**
  * Runs unit tests on a PlatformIO project.
  *
@@ -315,12 +621,31 @@ export async function runTests(
 
     const success = result.exitCode === 0;
     const errors = success ? undefined : parseStderrErrors(result.finalOutput);
+    // Long suites print far more than the 150-line output tail.
+    const fullLog = await readFullLog(result);
+    const testResults = parseUnityTestOutput(fullLog);
+    const diagnostic = diagnoseTestLog(redactSecretsInText(fullLog), {
+      rawLogPath: result.fullLogPath,
+      success,
+      projectDir: validatedPath,
+      allFindings: true,
+    });
+    const firstFailure = testResults.firstFailure;
 
     return {
       success,
       environment: environment || "default",
       output: result.finalOutput,
       errors,
+      rawLogPath: result.fullLogPath,
+      diagnostic,
+      testResults,
+      nextSteps: firstFailure
+        ? [
+            `Fix ${firstFailure.suite}/${firstFailure.name} at ${firstFailure.file}:${firstFailure.line}${firstFailure.message ? `: ${firstFailure.message}` : ""}.`,
+            diagnostic.recommendedAction,
+          ]
+        : [diagnostic.recommendedAction],
     };
   } catch (error) {
     if (error instanceof PlatformIOError) {
@@ -341,10 +666,12 @@ export async function cleanProject(projectDir: string, background?: boolean): Pr
   const rootCommandId = mcpContext.getStore()?.activityId || crypto.randomUUID();
   const validatedPath = validateProjectPath(projectDir);
 
-  // Any user-initiated clean must wipe our cache; otherwise the next
-  // `build_project` would short-circuit and return "success" without
-  // rebuilding artifacts the user just asked to delete.
-  invalidateBuildCache(validatedPath);
+  // Any user-initiated clean must wipe our cache and mark the project, so the
+  // next `build_project` compiles instead of returning "success" from the
+  // workspace cache or the shared artifact store. The store keeps its builds:
+  // the firmware history still points at them for flashing and rollback, and
+  // LRU eviction removes them in time.
+  markBuildCacheCleaned(validatedPath);
 
   try {
     const result = await executeWithSpooling(
@@ -524,6 +851,121 @@ export async function listTargets(
   }
 }
 
+/**
+ * Reports where flash and RAM go in a built firmware: per-section sizes and
+ * the largest symbols from the ELF, plus per-object and per-library
+ * contributions when the build wrote a linker map.
+ *
+ * @param projectDir - Path to the PlatformIO project directory.
+ * @param environment - Environment to analyze; defaults to the most recent build.
+ * @param top - Number of symbols and object files to list.
+ * @returns Size report for the environment's `firmware.elf`.
+ */
+export async function firmwareSizeReport(
+  projectDir: string,
+  environment?: string,
+  top?: number,
+): Promise<FirmwareSizeReport> {
+  const validatedPath = validateProjectPath(projectDir);
+  if (environment && !validateEnvironmentName(environment)) {
+    throw new BuildError(`Invalid environment name: ${environment}`, {
+      environment,
+    });
+  }
+
+  const elfPath = environment
+    ? path.join(validatedPath, ".pio", "build", environment, "firmware.elf")
+    : findBuildOutput(validatedPath, "firmware.elf");
+  if (!elfPath || !fs.existsSync(elfPath)) {
+    throw new PlatformIOError(
+      `No firmware.elf found for ${environment ? `environment '${environment}'` : "any environment"}. Run build_project first.`,
+      "FIRMWARE_NOT_FOUND",
+      { projectDir: validatedPath, environment },
+    );
+  }
+
+  const buildDir = path.dirname(elfPath);
+  const mapPath = path.join(buildDir, "firmware.map");
+  const mapText = fs.existsSync(mapPath) ? fs.readFileSync(mapPath, "utf8") : undefined;
+  const report = summarizeFirmwareSize(fs.readFileSync(elfPath), {
+    environment: path.basename(buildDir),
+    elfPath,
+    mapText,
+    ...(mapText !== undefined ? { mapPath } : {}),
+    projectDir: validatedPath,
+    top,
+  });
+
+  // C++ symbol names are demangled with the toolchain's c++filt when present;
+  // the report stays usable with mangled names otherwise.
+  const mangled = report.topSymbols.filter((symbol) => symbol.name.startsWith("_Z"));
+  const cxxfilt = mangled.length > 0 ? findToolchainTool(validatedPath, elfPath, "c++filt") : undefined;
+  if (cxxfilt) {
+    try {
+      const { stdout } = await promisify(execFile)(cxxfilt, mangled.map((symbol) => symbol.name), {
+        timeout: 15000,
+      });
+      const demangled = stdout.split(/\r?\n/);
+      mangled.forEach((symbol, index) => {
+        if (demangled[index] && demangled[index] !== symbol.name) symbol.demangled = demangled[index];
+      });
+    } catch (error: unknown) {
+      logDiag(`[firmwareSizeReport] c++filt failed: ${(error as Error).message}`, validatedPath);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Reports how firmware size developed over the recorded successful builds,
+ * with budget violations of the latest build and build-to-build growth above
+ * the regression threshold.
+ *
+ * @param projectDir - Path to the PlatformIO project directory.
+ * @param environment - Environment to report; defaults to all recorded ones.
+ * @param limit - Number of most recent builds per environment.
+ * @param thresholdPercent - Growth that counts as a regression.
+ * @returns Size trend per environment.
+ */
+export async function firmwareSizeTrend(
+  projectDir: string,
+  environment?: string,
+  limit?: number,
+  thresholdPercent?: number,
+): Promise<SizeTrendResult> {
+  const validatedPath = validateProjectPath(projectDir);
+  if (environment && !validateEnvironmentName(environment)) {
+    throw new BuildError(`Invalid environment name: ${environment}`, {
+      environment,
+    });
+  }
+  return getSizeTrend(validatedPath, { environment, limit, thresholdPercent });
+}
+
+/**
+ * Lists the recorded firmware builds of a project, newest first, with the
+ * last known-good build per environment.
+ *
+ * @param projectDir - Path to the PlatformIO project directory.
+ * @param environment - Environment to list; defaults to all.
+ * @param limit - Number of most recent artifacts.
+ * @returns Recorded artifacts and their availability.
+ */
+export async function listFirmwareArtifacts(
+  projectDir: string,
+  environment?: string,
+  limit?: number,
+): Promise<FirmwareArtifactListResult> {
+  const validatedPath = validateProjectPath(projectDir);
+  if (environment && !validateEnvironmentName(environment)) {
+    throw new BuildError(`Invalid environment name: ${environment}`, {
+      environment,
+    });
+  }
+  return listRecordedArtifacts(validatedPath, environment, limit);
+}
+
 import { getCommandHistory, findCommandAcrossWorkspaces } from "../utils/command-registry.js";
 
 /**
@@ -632,23 +1074,45 @@ export async function checkTaskStatus(taskId?: string, logPath?: string, project
     normalizedStatus === "failed" ||
     normalizedStatus === "terminated";
 
+  // A cancelled task stopped on request; its partial log is not a failure to diagnose.
+  if (normalizedStatus === "cancelled") {
+    return {
+      status: "success",
+      targetStatus: status,
+      taskId: resolvedTaskId,
+      logPaths,
+      output: safeOutput,
+      diagnostic,
+    };
+  }
+
   if (taskType === "upload") {
     diagnostic = diagnoseUploadLog(safeOutput, {
       taskId: resolvedTaskId,
       rawLogPath: effectiveLogPath,
       success: successByStatus && !failedByStatus,
+      projectDir,
+    });
+  } else if (taskType === "test") {
+    diagnostic = diagnoseTestLog(safeOutput, {
+      taskId: resolvedTaskId,
+      rawLogPath: effectiveLogPath,
+      success: successByStatus && !failedByStatus,
+      projectDir,
     });
   } else if (taskType === "monitor") {
     diagnostic = diagnoseSerialLog(safeOutput, {
       taskId: resolvedTaskId,
       rawLogPath: effectiveLogPath,
       success: successByStatus && !failedByStatus,
+      projectDir,
     });
   } else {
     diagnostic = diagnoseBuildLog(safeOutput, {
       taskId: resolvedTaskId,
       rawLogPath: effectiveLogPath,
       success: successByStatus && !failedByStatus,
+      projectDir,
     });
   }
 
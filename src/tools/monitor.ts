@@ -25,6 +25,12 @@ import { getWorkspaces, rewriteRegistry } from "../utils/workspace-registry.js";
 import { getActiveMonitorPids, isPidAlive, isBuildActive } from "../utils/process-manager.js";
 import { mcpContext } from "../utils/mcp-context.js";
 import { redactSecretsInText } from "../core/policy/redact.js";
+import {
+  attachSymbolicatedBacktrace,
+  parseBacktraceAddresses,
+} from "../core/diagnostics/backtrace.js";
+import { diagnoseSerialLog } from "../core/diagnostics/serial-diagnostics.js";
+import type { DiagnosticResult } from "../core/diagnostics/types.js";
 
 
 
@@ -387,7 +393,18 @@ export async function startMonitor(
   return { success: true, port: activePort, logFile };
 }
 
-import { getCommandHistory, findCommandAcrossWorkspaces } from "../utils/command-registry.js";
+import { getCommandHistory, findCommandAcrossWorkspaces, type CommandRecord } from "../utils/command-registry.js";
+
+// The environment a task ran for, from the `--environment` of its pio
+// commands. Tasks of several environments leave it unknown.
+function commandEnvironment(cmd: CommandRecord): string | undefined {
+  const environments = new Set(
+    cmd.tasks
+      .map((task) => /(?:--environment|-e)[=\s]+(\S+)/.exec(task.commandDesc ?? "")?.[1])
+      .filter((name): name is string => Boolean(name)),
+  );
+  return environments.size === 1 ? [...environments][0] : undefined;
+}
 
 /**
  * Tool for agents to scan historical offline device payloads.
@@ -401,6 +418,8 @@ export async function queryLogs(
   port?: string,
 ) {
   let targetPaths: string[] = [];
+  let resolvedProjectDir = projectDir;
+  let environment: string | undefined;
 
   if (taskId) {
     let history = getCommandHistory(projectDir);
@@ -412,10 +431,12 @@ export async function queryLogs(
       const crossResult = await findCommandAcrossWorkspaces(taskId);
       if (crossResult) {
         cmd = crossResult.command;
+        resolvedProjectDir = crossResult.projectDir;
       }
     }
 
     if (cmd) {
+      environment = commandEnvironment(cmd);
       targetPaths = cmd.tasks
         .flatMap(a => a.logPaths || [])
         .filter((f): f is string => Boolean(f && fs.existsSync(f)));
@@ -426,6 +447,7 @@ export async function queryLogs(
     }
   } else if (port && activeDaemons[port]) {
     targetPaths = [activeDaemons[port].logFile];
+    environment = activeDaemons[port].environment;
   } else {
     const targetDir = getLogDir("monitor", projectDir);
     const targetFile = path.join(targetDir, "latest-monitor.log");
@@ -445,6 +467,7 @@ export async function queryLogs(
   for (const p of targetPaths) {
     stitchedLines = stitchedLines.concat(await tailFileBounded(p));
   }
+  const fullText = stitchedLines.join("\n");
 
   if (searchPattern) {
     try {
@@ -462,5 +485,22 @@ export async function queryLogs(
     stitchedLines = stitchedLines.slice(-lines);
   }
 
-  return { success: true, content: redactSecretsInText(stitchedLines.join("\n")) };
+  // Panic backtraces are decoded against the firmware ELF of the task's
+  // environment so the agent sees source locations instead of raw PC
+  // addresses. Without a known environment only a single ELF is used.
+  let diagnostic: DiagnosticResult | undefined;
+  const safeText = redactSecretsInText(fullText);
+  if (resolvedProjectDir && parseBacktraceAddresses(safeText).length > 0) {
+    diagnostic = await attachSymbolicatedBacktrace(
+      diagnoseSerialLog(safeText, { projectDir: resolvedProjectDir, allFindings: true }),
+      safeText,
+      { projectDir: resolvedProjectDir, environment },
+    );
+  }
+
+  return {
+    success: true,
+    content: redactSecretsInText(stitchedLines.join("\n")),
+    ...(diagnostic ? { diagnostic } : {}),
+  };
 }
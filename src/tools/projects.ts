@@ -25,6 +25,7 @@ import {
   lookupBuildCache,
   findFirmwareArtifact,
 } from "../utils/build-cache.js";
+import { listIniEnvironments, parsePlatformioIni } from "../utils/platformio-ini.js";
 
 /**
  * Initializes a new PlatformIO project.
@@ -196,7 +197,6 @@ export async function getSystemInfo(): Promise<any> {
 // single deterministic call below. It is intentionally a *thin* reader —
 // no `pio` invocations, no daemons — so it's safe to call repeatedly.
 
-const PLATFORMIO_INI_ENV_RE = /^\s*\[env:([^\]\s]+)\]\s*$/gm;
 const MAX_SRC_FILES = 50;
 
 /**
@@ -230,76 +230,6 @@ function listSourceFiles(projectDir: string): string[] {
   return out;
 }
 
-/**
- * Minimal INI scanner that extracts environment names and `lib_deps` blocks.
- * We deliberately avoid spawning `pio project config` here because:
- *   (a) it adds 1–3s of latency per call (Python interpreter warmup);
- *   (b) it requires PIO to be installed/configured, which is the *thing*
- *       the agent might be debugging.
- * The trade-off is that we only extract a syntactic subset, not the
- * fully-resolved config. That's fine for an orientation tool.
- */
-function parsePlatformioIni(iniText: string): {
-  environments: string[];
-  libDeps: string[];
-} {
-  const environments: string[] = [];
-  let m: RegExpExecArray | null;
-  // Reset stateful regex
-  PLATFORMIO_INI_ENV_RE.lastIndex = 0;
-  while ((m = PLATFORMIO_INI_ENV_RE.exec(iniText)) !== null) {
-    environments.push(m[1]);
-  }
-
-  // Line-based lib_deps extraction. We avoid a single multiline regex here
-  // because the `m`-flag `$` anchor terminates the lazy capture after the
-  // first lib_deps value line, which previously truncated multi-entry
-  // blocks like:
-  //     lib_deps =
-  //         bblanchon/ArduinoJson@^6.21.0
-  //         adafruit/Adafruit GFX Library@^1.11.5
-  // The state machine below is small, allocation-free per line, and
-  // tolerates the INI continuation conventions PlatformIO actually uses
-  // (indented follow-on lines, blank lines, section headers as terminators).
-  const libDeps: string[] = [];
-  const lines = iniText.split(/\r?\n/);
-  let inLibDeps = false;
-  for (const rawLine of lines) {
-    const line = rawLine.replace(/[\t ]+$/, "");
-    const trimmed = line.trim();
-
-    // Section header always terminates a continuation block.
-    if (/^\s*\[[^\]]+\]\s*$/.test(line)) {
-      inLibDeps = false;
-      continue;
-    }
-
-    if (!inLibDeps) {
-      const start = /^\s*lib_deps\s*=\s*(.*)$/.exec(line);
-      if (start) {
-        inLibDeps = true;
-        // Inline value on the same line, e.g. `lib_deps = ArduinoJson`.
-        const inline = start[1].trim();
-        if (inline) libDeps.push(inline);
-      }
-      continue;
-    }
-
-    // Inside the lib_deps block.
-    if (!trimmed) continue;
-    if (trimmed.startsWith(";") || trimmed.startsWith("#")) continue;
-    // A new top-level key=value (non-indented) closes the block.
-    const isContinuation = /^[\t ]/.test(rawLine);
-    const looksLikeKey = /^[a-zA-Z0-9_]+\s*=/.test(trimmed);
-    if (!isContinuation && looksLikeKey) {
-      inLibDeps = false;
-      continue;
-    }
-    libDeps.push(trimmed);
-  }
-  return { environments, libDeps };
-}
-
 /**
  * Reads the most recent latest-build.log (if any) and returns its status
  * inference. Lightweight: only inspects the tail of the file so we don't
@@ -418,10 +348,17 @@ export async function getProjectContext(
   let libDeps: string[] | undefined;
   if (hasPlatformioIni) {
     try {
-      const text = fs.readFileSync(iniPath, "utf8");
-      const parsed = parsePlatformioIni(text);
-      environments = parsed.environments;
-      libDeps = parsed.libDeps;
+      // Read syntactically rather than through `pio project config`, which
+      // costs seconds of interpreter warmup and needs a working PlatformIO,
+      // the very thing the agent may be debugging.
+      const ini = parsePlatformioIni(fs.readFileSync(iniPath, "utf8"));
+      environments = listIniEnvironments(ini);
+      libDeps = Array.from(ini.values()).flatMap((section) =>
+        (section.get("lib_deps") ?? "")
+          .split("\n")
+          .map((dep) => dep.trim())
+          .filter(Boolean),
+      );
     } catch {
       // Treat as if file is unreadable — leave fields undefined.
     }
@@ -3,7 +3,7 @@
  * Firmware upload operations and sequencing tools.
  *
  * Provides:
- * - uploadFirmware: Targets serial devices and drops compiled hex/bin.
+ * - uploadFirmware: Targets serial devices and drops compiled hex/bin, or a recorded firmware artifact.
  * - uploadAndMonitor: Drops firmware and attaches realtime observer.
  * - buildAndUpload: Compiles and dispatches binaries.
  */
@@ -26,6 +26,7 @@ import { stopMonitor } from "./monitor.js";
 import { portSemaphoreManager } from "../utils/semaphore.js";
 import { redactSecretsInText } from "../core/policy/redact.js";
 import { diagnoseUploadLog } from "../core/diagnostics/upload-diagnostics.js";
+import { getFirmwareArtifact, stageFirmwareArtifact } from "../core/firmware-history.js";
 
 /**
  * Uploads a SPIFFS/LittleFS filesystem image to a target device.
@@ -127,6 +128,8 @@ export async function uploadFilesystem(
     const diagnostic = diagnoseUploadLog(safeOutput, {
       rawLogPath: uploadResult.fullLogPath,
       success: uploadSuccess,
+      projectDir: validatedPath,
+      allFindings: true,
     });
 
     return {
@@ -163,7 +166,10 @@ export async function uploadFilesystem(
  * @param environment - Optional specific environment target.
  * @param verbose - If true, captures complete output without truncation.
  * @param background - Executes asynchronously in the background.
+ * @param startMonitorAfter - Opens a serial monitor once the upload succeeds.
+ * @param artifactId - Recorded firmware build to flash instead of the current build output.
  * @returns The structured UploadResult containing success flag, port, and standard output/errors.
+ * @throws {PlatformIOError} When the artifact is unknown or no longer stored.
  */
 export async function uploadFirmware(
   projectDir: string,
@@ -172,6 +178,7 @@ export async function uploadFirmware(
   verbose?: boolean,
   background?: boolean,
   startMonitorAfter?: boolean,
+  artifactId?: string,
 ): Promise<UploadResult> {
   const rootCommandId = mcpContext.getStore()?.activityId || crypto.randomUUID();
   const validatedPath = validateProjectPath(projectDir);
@@ -186,6 +193,18 @@ export async function uploadFirmware(
     throw new UploadError(`Invalid serial port: ${port}`, { port });
   }
 
+  let uploadEnvironment = environment;
+  if (artifactId) {
+    const artifact = getFirmwareArtifact(validatedPath, artifactId);
+    if (environment && environment !== artifact.environment) {
+      throw new UploadError(
+        `Firmware artifact '${artifactId}' was built for environment '${artifact.environment}', not '${environment}'.`,
+        { artifactId, environment },
+      );
+    }
+    uploadEnvironment = artifact.environment;
+  }
+
   try {
     let activePort = port;
     let hwid: string | undefined;
@@ -205,12 +224,27 @@ export async function uploadFirmware(
       hwid = device?.hwid;
     }
 
-    const uploadArgs: string[] = ["run", "--target", "upload"];
-    if (environment) uploadArgs.push("--environment", environment);
+    // A staged artifact is flashed as is; `nobuild` keeps PlatformIO from
+    // recompiling it from the current sources.
+    const uploadArgs: string[] = artifactId
+      ? ["run", "--target", "nobuild", "--target", "upload"]
+      : ["run", "--target", "upload"];
+    if (uploadEnvironment) uploadArgs.push("--environment", uploadEnvironment);
 
     await stopMonitor(activePort, projectDir);
     portSemaphoreManager.claimPort(activePort, "Firmware Upload");
 
+    // The artifact replaces the current build output, so it is staged only
+    // once a device is known and its port is ours.
+    if (artifactId) {
+      try {
+        stageFirmwareArtifact(validatedPath, artifactId);
+      } catch (error) {
+        portSemaphoreManager.releasePort(activePort);
+        throw error;
+      }
+    }
+
     const uploadResult = await executeWithSpooling(
       "run",
       uploadArgs.slice(1),
@@ -226,7 +260,7 @@ export async function uploadFirmware(
           if (hwid) {
             const newPort = await waitForDeviceByHwid(hwid, 10000, (msg) => console.error(msg.trim()));
             if (newPort) {
-              await startMonitor(newPort, undefined, validatedPath, environment, rootCommandId);
+              await startMonitor(newPort, undefined, validatedPath, uploadEnvironment, rootCommandId);
               return;
             }
           }
@@ -238,7 +272,7 @@ export async function uploadFirmware(
             if (device) break;
           }
           if (device) {
-            await startMonitor(device.port, undefined, validatedPath, environment, rootCommandId);
+            await startMonitor(device.port, undefined, validatedPath, uploadEnvironment, rootCommandId);
           } else {
             console.error(`[Spooler Diagnostic] Auto-monitor failed: Device did not re-enumerate within 10 seconds.`);
           }
@@ -255,6 +289,8 @@ export async function uploadFirmware(
     const diagnostic = diagnoseUploadLog(safeOutput, {
       rawLogPath: uploadResult.fullLogPath,
       success: uploadSuccess,
+      projectDir: validatedPath,
+      allFindings: true,
     });
 
     return {
@@ -266,6 +302,7 @@ export async function uploadFirmware(
         : parseStderrErrors(safeOutput),
       rawLogPath: uploadResult.fullLogPath,
       diagnostic,
+      ...(artifactId ? { artifactId } : {}),
     };
   } catch (error) {
     if (error instanceof PlatformIOError) {
@@ -14,7 +14,12 @@
  */
 
 import { z } from "zod";
-import type { DiagnosticResult } from "./core/diagnostics/types.js";
+import type {
+  BoardCapabilityRow,
+  BoardPin,
+  BoardPinCapabilities,
+} from "./boards/types.js";
+import type { BootAnalysis, DiagnosticResult } from "./core/diagnostics/types.js";
 
 // ============================================================================
 // Command Result Types
@@ -148,6 +153,70 @@ export interface StructuredBuildErrorJSON {
   raw: string;
 }
 
+/**
+ * Where a compiler warning comes from: the project's own sources (`src/`,
+ * `include/`, `lib/`, `test/`) or dependencies, frameworks and SDKs.
+ */
+export type BuildWarningOrigin = "project" | "library";
+
+/**
+ * Single GCC/Clang warning lifted from a build log. See
+ * `parseStructuredBuildWarnings` in `utils/errors.ts` for the parser.
+ */
+export interface StructuredBuildWarning {
+  flag?: string; // Warning option from the trailing `[-W...]`; absent for unconditional warnings
+  file: string; // Source file, relative to the project when inside it
+  line: number; // 1-based line number
+  column?: number; // 1-based column, when reported
+  message: string; // Warning text without the location and flag
+  origin: BuildWarningOrigin; // Project code or library code
+  raw: string; // Verbatim log line
+}
+
+/**
+ * Warnings of one source file.
+ */
+export interface BuildWarningFileGroup {
+  file: string; // Source file
+  origin: BuildWarningOrigin; // Project code or library code
+  count: number; // Warnings in the file
+  flags: string[]; // Distinct warning options, sorted
+}
+
+/**
+ * Warnings of one warning option.
+ */
+export interface BuildWarningFlagGroup {
+  flag: string; // Warning option, or `(none)` for unconditional warnings
+  count: number; // Warnings with this option
+  project: number; // ... in project code
+  library: number; // ... in library code
+}
+
+/**
+ * Warning counts of a build, grouped by file and by flag.
+ */
+export interface BuildWarningSummary {
+  total: number; // All warnings
+  project: number; // Warnings in project code
+  library: number; // Warnings in library code
+  byFile: BuildWarningFileGroup[]; // Files, most warnings first
+  byFlag: BuildWarningFlagGroup[]; // Warning options, most warnings first
+}
+
+/**
+ * Comparison of a build's warnings with the workspace warning budget.
+ */
+export interface WarningBudgetResult {
+  source: string; // Budget file
+  scope: "project" | "all"; // Warnings the budget covers
+  maxNewWarnings: number; // New warnings tolerated before the budget fails
+  accepted: number; // Warnings matched by the budget
+  newWarnings: StructuredBuildWarning[]; // Warnings not in the budget
+  exceeded: boolean; // True when newWarnings outnumber maxNewWarnings
+  updated?: boolean; // True when this build's warnings were written as the new budget
+}
+
 /**
  * Outcome of a project build execution. Field order in serialized JSON is
  * not guaranteed by JS, but downstream tooling should treat `success`,
@@ -157,13 +226,19 @@ export interface StructuredBuildErrorJSON {
 export interface BuildResult {
   success?: boolean; // Indicates if the build completed without errors
   cacheHit?: boolean; // True when this result was served from the build cache without invoking pio
+  cacheSource?: "workspace" | "store"; // On a cache hit, whether the workspace cache or the shared artifact store served it
+  cacheMissReason?: string; // Why a fresh build could not be served from the cache
+  incremental?: boolean; // True when objects of an earlier build were reused, so warnings of unchanged files are not in the log
   environment?: string; // The environment identifier that was targeted
   output?: string; // Full stdout log from the compilation process
   errors?: string[]; // Legacy flat list of extracted error messages (kept for backwards-compat)
   structuredErrors?: StructuredBuildErrorJSON[]; // Categorized errors with file/line where extractable
+  structuredWarnings?: StructuredBuildWarning[]; // GCC/Clang warnings with flag, file and line
+  warningSummary?: BuildWarningSummary; // Warning counts by file and flag, project vs library code
   nextSteps?: string[]; // Actionable instructions for the agent based on success/failure
   ramUsageBytes?: number; // Total RAM usage in bytes as reported by PIO
   flashUsageBytes?: number; // Total Flash usage in bytes as reported by PIO
+  environmentSizes?: Record<string, { ramUsageBytes?: number; flashUsageBytes?: number }>; // Per-environment usage when one build covered several environments
   firmwarePath?: string; // Absolute path to the most recently built firmware artifact, when located
   status?: string; // e.g. "running" if background=true
   message?: string; // Descriptive feedback message
@@ -172,6 +247,267 @@ export interface BuildResult {
   logPaths?: string[]; // Array of associated trailing paths
   rawLogPath?: string; // Full path to the captured raw log when available
   diagnostic?: DiagnosticResult; // Structured diagnostic summary for agent-safe recovery flows
+  testResults?: TestRunResults; // Parsed Unity results (`run_tests` only)
+  checkResults?: CheckRunResults; // Parsed static-analysis defects (`check_project` only)
+}
+
+/**
+ * Outcome of a single Unity test case.
+ */
+export type TestCaseStatus = "passed" | "failed" | "skipped" | "errored";
+
+/**
+ * One Unity test case parsed from `pio test` output.
+ */
+export interface TestCaseResult {
+  name: string; // Test function name
+  suite: string; // Owning test suite (directory under test/)
+  environment?: string; // PlatformIO environment the suite ran in
+  file?: string; // Source file reported by Unity
+  line?: number; // 1-based line of the test or failing assertion
+  status: TestCaseStatus; // Case outcome
+  message?: string; // Assertion or ignore message
+  durationMs?: number; // Execution time when Unity reports it
+}
+
+/**
+ * One test suite run parsed from `pio test` output.
+ */
+export interface TestSuiteResult {
+  name: string; // Test suite name (directory under test/)
+  environment?: string; // PlatformIO environment the suite ran in
+  status: TestCaseStatus; // Suite outcome; `errored` when it failed to build, upload or report
+  durationMs?: number; // Wall time reported by PlatformIO
+  cases: TestCaseResult[]; // Test cases in output order
+}
+
+/**
+ * Structured `pio test` results returned by `run_tests`.
+ */
+export interface TestRunResults {
+  suites: TestSuiteResult[]; // Suites in output order
+  totals: { total: number; passed: number; failed: number; skipped: number; errored: number }; // Case counts
+  firstFailure?: TestCaseResult; // First failed case, the recommended place to start fixing
+}
+
+/**
+ * Static-analysis defect severity as reported by `pio check`.
+ */
+export type CheckDefectSeverity = "high" | "medium" | "low";
+
+/**
+ * One static-analysis defect parsed from `pio check` output.
+ */
+export interface CheckDefect {
+  tool: string; // Analyzer that reported the defect (cppcheck, clangtidy, pvs-studio)
+  environment?: string; // PlatformIO environment that was checked
+  severity: CheckDefectSeverity; // Normalized severity
+  category: string; // Analyzer category (error, warning, style, performance, ...)
+  file: string; // Project-relative source path, or absolute for files outside the project
+  line: number; // 1-based line (0 when the analyzer gives none)
+  column?: number; // 1-based column when reported
+  message: string; // Defect description
+  id?: string; // Analyzer rule ID (e.g. `arrayIndexOutOfBounds`)
+  cwe?: number; // CWE identifier when reported
+  fingerprint: string; // Line-independent key used for baseline matching
+}
+
+/**
+ * Structured `pio check` results returned by `check_project`.
+ */
+export interface CheckRunResults {
+  defects: CheckDefect[]; // New defects at or above `minSeverity`, not covered by the baseline
+  suppressed: number; // Defects at or above `minSeverity` matched by the baseline
+  totals: { high: number; medium: number; low: number }; // New defect counts by severity
+  minSeverity: CheckDefectSeverity; // Severity filter that was applied
+  baselinePath?: string; // Baseline file used or written
+  baselineUpdated?: boolean; // True when the baseline was rewritten from this run
+  passed: boolean; // True when the check exited with code 0, produced a report and found no new defects
+}
+
+/**
+ * Berkeley-style class of an allocated ELF section.
+ */
+export type FirmwareSectionKind = "text" | "rodata" | "data" | "bss";
+
+/**
+ * One allocated section of the firmware ELF.
+ */
+export interface FirmwareSectionSize {
+  name: string; // ELF section name
+  address: number; // Load address
+  size: number; // Size in bytes
+  kind: FirmwareSectionKind; // `text`/`rodata` occupy flash, `bss` RAM, `data` both
+}
+
+/**
+ * One sized function or object symbol from the ELF symbol table.
+ */
+export interface FirmwareSymbolSize {
+  name: string; // Symbol name as stored in the ELF (mangled for C++)
+  demangled?: string; // Demangled name when the toolchain's c++filt is installed
+  size: number; // Size in bytes
+  type: "function" | "object"; // ELF symbol type
+  section?: string; // Section the symbol lives in
+}
+
+/**
+ * Contribution of one object file, from the linker map.
+ */
+export interface FirmwareObjectSize {
+  object: string; // Object path relative to the build directory, or `libfoo.a(bar.o)`
+  library: string; // Owning library: archive name, library folder or `src`
+  bytes: number; // Bytes placed in allocated sections
+  sections: Record<string, number>; // Bytes per output section
+}
+
+/**
+ * Contribution of one library, from the linker map.
+ */
+export interface FirmwareLibrarySize {
+  library: string; // Archive name, library folder or `src` for project sources
+  bytes: number; // Bytes placed in allocated sections
+  objects: number; // Object files linked from the library
+}
+
+/**
+ * Size breakdown of a built firmware returned by `firmware_size_report`.
+ */
+export interface FirmwareSizeReport {
+  environment: string; // Environment whose build output was analyzed
+  elfPath: string; // Analyzed ELF file
+  mapPath?: string; // Linker map used for per-object and per-library sizes
+  totals: { flashBytes: number; ramBytes: number } & Record<FirmwareSectionKind, number>; // Byte totals
+  sections: FirmwareSectionSize[]; // Allocated sections, largest first
+  topSymbols: FirmwareSymbolSize[]; // Largest symbols
+  objects: FirmwareObjectSize[]; // Largest object files (empty without a map)
+  libraries: FirmwareLibrarySize[]; // Libraries, largest first (empty without a map)
+  notes: string[]; // Caveats such as a missing map file
+}
+
+/**
+ * Memory usage of one successful build, kept in the workspace size history.
+ */
+export interface SizeHistoryEntry {
+  environment: string; // Environment the sizes belong to
+  recordedAt: string; // ISO timestamp of the build
+  gitCommit?: string; // Short commit hash of the project at build time
+  flashUsageBytes?: number; // Flash used, from the PlatformIO size summary
+  ramUsageBytes?: number; // RAM used, from the PlatformIO size summary
+  flashMaxBytes?: number; // Flash available to the firmware, when reported
+  ramMaxBytes?: number; // RAM available to the firmware, when reported
+}
+
+/**
+ * Memory kind covered by size budgets and trends.
+ */
+export type SizeMetric = "flash" | "ram";
+
+/**
+ * A build whose usage exceeds the configured size budget.
+ */
+export interface SizeBudgetViolation {
+  environment: string; // Environment whose budget was exceeded
+  metric: SizeMetric; // Memory kind
+  usedBytes: number; // Bytes used by the build
+  budgetBytes: number; // Budget resolved to bytes
+  budget: string; // Budget as configured, e.g. `90%` or `250000`
+  overByBytes: number; // usedBytes - budgetBytes
+}
+
+/**
+ * Growth between two consecutive recorded builds above the regression threshold.
+ */
+export interface SizeRegression {
+  metric: SizeMetric; // Memory kind
+  fromBytes: number; // Usage of the earlier build
+  toBytes: number; // Usage of the later build
+  deltaBytes: number; // Growth in bytes
+  deltaPercent: number; // Growth relative to the earlier build
+  fromCommit?: string; // Commit of the earlier build
+  toCommit?: string; // Commit of the later build
+  recordedAt: string; // Timestamp of the later build
+}
+
+/**
+ * Size trend of one environment.
+ */
+export interface SizeTrendEnvironment {
+  environment: string; // Environment name
+  totalBuilds: number; // Builds recorded for the environment
+  entries: SizeHistoryEntry[]; // Most recent builds, oldest first
+  latest?: SizeHistoryEntry; // Most recent build
+  change: { flashBytes?: number; ramBytes?: number }; // Growth from the first to the last listed build
+  violations: SizeBudgetViolation[]; // Budget violations of the latest build
+  regressions: SizeRegression[]; // Build-to-build growth above the threshold
+}
+
+/**
+ * Outcome of `firmware_size_trend`.
+ */
+export interface SizeTrendResult {
+  projectDir: string; // Absolute project directory path
+  thresholdPercent: number; // Regression threshold applied
+  budgetSource?: string; // Budget file, when one exists
+  budgetErrors: string[]; // Invalid budget entries and unresolvable percentage budgets
+  environments: SizeTrendEnvironment[]; // One trend per environment with recorded builds
+}
+
+/**
+ * A successful build recorded in the workspace firmware registry. The files
+ * live in the shared artifact store.
+ */
+export interface FirmwareArtifact {
+  id: string; // Artifact ID: the first 12 hex digits of the build's cache key
+  environment: string; // Environment the firmware was built for
+  inputsHash: string; // Full cache key of the build
+  gitCommit?: string; // Short git commit of the project at build time
+  builtAt: string; // ISO timestamp of the build
+  flashUsageBytes?: number; // Flash usage reported by the build
+  ramUsageBytes?: number; // RAM usage reported by the build
+  files: string[]; // Absolute paths of the stored firmware files
+  verifiedAt?: string; // ISO timestamp of the last passing `agent_flash_monitor_verify` run
+  available?: boolean; // False once the artifact store evicted the files (set when listing)
+}
+
+/**
+ * Result of `list_firmware_artifacts`.
+ */
+export interface FirmwareArtifactListResult {
+  projectDir: string; // Absolute project directory path
+  artifacts: FirmwareArtifact[]; // Recorded builds, newest first
+  lastKnownGood: Record<string, string>; // Environment -> ID of its most recently verified, available artifact
+}
+
+/**
+ * One environment's row of a matrix build.
+ */
+export interface BuildMatrixEntry {
+  environment: string; // Environment name
+  success: boolean; // Build success status
+  cacheHit?: boolean; // True when the build came from the cache
+  durationMs: number; // Wall-clock build time
+  ramUsageBytes?: number; // Parsed RAM usage in bytes
+  flashUsageBytes?: number; // Parsed flash usage in bytes
+  errorCount: number; // Structured build errors
+  warningCount: number; // Compiler warnings
+  projectWarningCount: number; // Compiler warnings in project code
+  firmwarePath?: string; // Built firmware artifact
+  rawLogPath?: string; // Full build log
+  error?: string; // First error, or why the environment could not be built
+}
+
+/**
+ * Aggregated outcome of `build_matrix`.
+ */
+export interface BuildMatrixResult {
+  success: boolean; // True when every environment built
+  projectDir: string; // Absolute project directory path
+  maxParallel: number; // Builds run at the same time
+  durationMs: number; // Wall-clock time of the whole matrix
+  succeeded: number; // Environments that built
+  failed: number; // Environments that failed
+  environments: BuildMatrixEntry[]; // One row per environment, in request order
 }
 
 /**
@@ -220,6 +556,29 @@ export interface UploadResult {
   logPaths?: string[]; // Array of associated trailing paths
   rawLogPath?: string; // Full path to the captured raw log when available
   diagnostic?: DiagnosticResult; // Structured diagnostic summary for agent-safe recovery flows
+  artifactId?: string; // Registry artifact that was flashed, when uploading by artifact ID
+}
+
+/**
+ * One process stopped by `cancel_task`.
+ */
+export interface CancelledTask {
+  taskId: string; // Registry ID of the nested task
+  type: string; // Task classification (build, upload, test, monitor, debug)
+  pid?: number; // Root process of the killed tree
+  killed: boolean; // False when the process had already exited
+  logPaths: string[]; // Partial logs kept on disk
+}
+
+/**
+ * Outcome of a background task cancellation.
+ */
+export interface CancelTaskResult {
+  success: boolean; // Indicates the task was marked cancelled
+  taskId: string; // Command ID that was cancelled
+  projectDir?: string; // Workspace whose registry holds the task
+  cancelledTasks: CancelledTask[]; // Running tasks that were stopped
+  message: string; // Descriptive feedback message
 }
 
 
@@ -452,6 +811,30 @@ export const BuildProjectParamsSchema = z.object({
     .describe("If true, dispatches the long-running compilation to the background and returns immediately to prevent MCP timeouts. You must poll status subsequently."),
 });
 
+// Build matrix parameters
+export const BuildMatrixParamsSchema = z.object({
+  projectDir: z
+    .string()
+    .min(1)
+    .describe("Path to the PlatformIO project directory"),
+  environments: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("Environments to build (defaults to every [env:*] section in platformio.ini)"),
+  maxParallel: z
+    .number()
+    .int()
+    .min(1)
+    .max(8)
+    .optional()
+    .describe("Number of environments built at the same time (default: 2)."),
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Agent session ID for pipeline lock validation"),
+});
+
 // Clean project parameters
 export const CleanProjectParamsSchema = z.object({
   projectDir: z
@@ -482,6 +865,22 @@ export const CheckProjectParamsSchema = z.object({
     .boolean()
     .optional()
     .describe("If true, dispatches the static analysis to the background and returns immediately."),
+  minSeverity: z
+    .enum(["low", "medium", "high"])
+    .optional()
+    .describe("Only report defects at or above this severity (default: low)."),
+  baselinePath: z
+    .string()
+    .optional()
+    .describe("Baseline of known defects, relative to projectDir (default: .pio-mcp/check-baseline.json)."),
+  updateBaseline: z
+    .boolean()
+    .optional()
+    .describe("If true, accept all current defects by rewriting the baseline file."),
+  format: z
+    .enum(["json", "sarif"])
+    .optional()
+    .describe("Output format: 'json' (default) returns the check result; 'sarif' returns a SARIF 2.1.0 log of new defects."),
 });
 
 // Run tests parameters
@@ -504,6 +903,68 @@ export const RunTestsParamsSchema = z.object({
     .describe("If true, dispatches the test execution to the background and returns immediately."),
 });
 
+// Firmware size report parameters
+export const FirmwareSizeReportParamsSchema = z.object({
+  projectDir: z
+    .string()
+    .min(1)
+    .describe("Path to the PlatformIO project directory"),
+  environment: z
+    .string()
+    .optional()
+    .describe("Environment whose build output to analyze (defaults to the most recent build)"),
+  top: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe("Number of symbols and object files to list (default: 20)."),
+});
+
+// Firmware size trend parameters
+export const FirmwareSizeTrendParamsSchema = z.object({
+  projectDir: z
+    .string()
+    .min(1)
+    .describe("Path to the PlatformIO project directory"),
+  environment: z
+    .string()
+    .optional()
+    .describe("Only report this environment (defaults to every environment with recorded builds)"),
+  limit: z
+    .number()
+    .int()
+    .min(2)
+    .max(200)
+    .optional()
+    .describe("Number of most recent builds to include per environment (default: 20)."),
+  thresholdPercent: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Build-to-build growth that counts as a regression (default: the budget file's value, else 5)."),
+});
+
+// Firmware artifact registry parameters
+export const ListFirmwareArtifactsParamsSchema = z.object({
+  projectDir: z
+    .string()
+    .min(1)
+    .describe("Path to the PlatformIO project directory"),
+  environment: z
+    .string()
+    .optional()
+    .describe("Only list artifacts of this environment"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe("Number of most recent artifacts to list (default: 20)."),
+});
+
 // Upload firmware parameters
 export const UploadFirmwareParamsSchema = z.object({
   projectDir: z
@@ -536,6 +997,11 @@ export const UploadFirmwareParamsSchema = z.object({
     .boolean()
     .optional()
     .describe("If true, automatically starts the background serial monitor after a successful upload, handling OS-level port re-enumeration."),
+  artifactId: z
+    .string()
+    .regex(/^[0-9a-f]{12}$/, "artifactId is a 12-digit hex ID from list_firmware_artifacts")
+    .optional()
+    .describe("Flash this recorded build instead of building the current sources (see list_firmware_artifacts)."),
 });
 
 // Upload filesystem parameters
@@ -654,6 +1120,11 @@ export const CheckTaskStatusParamsSchema = z.object({
   projectDir: z.string().optional().describe("Optional project directory to scope the check."),
 });
 
+export const CancelTaskParamsSchema = z.object({
+  taskId: z.string().min(1).describe("Task ID returned by a background command."),
+  projectDir: z.string().optional().describe("Optional project directory whose registry holds the task (searched across workspaces if omitted)."),
+});
+
 /**
  * Zod schema for get_dashboard_url tool parameters.
  */
@@ -716,15 +1187,40 @@ export interface ProjectContext {
  */
 export type PinAuditSeverity = "info" | "medium" | "high";
 
+/**
+ * Pin audit finding categories.
+ */
+export type PinAuditFindingType =
+  | "board_rule"
+  | "unresolved_symbol"
+  | "board_profile_error"
+  | "pin_conflict";
+
+/**
+ * Source location of one pin use referenced by a pin audit finding.
+ */
+export interface PinAuditUse {
+  file: string; // Source path relative to the project directory
+  line: number; // 1-based line number
+  column: number; // 1-based column of the call or initializer
+  operation: string; // Call or initializer that uses the pin (e.g. `Serial2.begin (rx)`)
+  owner?: string; // Peripheral instance claiming the pin; absent for plain GPIO calls
+}
+
 /**
  * Per-pin safety finding emitted by `agent_safe_pin_audit`.
  */
 export interface AgentPinAuditResult {
-  pin: number | string; // Physical GPIO index or unresolved symbolic token
+  pin?: BoardPin; // GPIO index, port-style pin name, or unresolved symbolic token; absent for board_profile_error
+  findingType: PinAuditFindingType; // Category of the finding
   severity: PinAuditSeverity; // Severity of the detected pin risk
   reason: string; // Why this pin usage is risky for the selected board profile
   recommendation: string; // Recommended mitigation for the identified risk
-  saferAlternatives?: number[]; // Optional list of safer substitute GPIOs
+  saferAlternatives?: BoardPin[]; // Optional list of safer substitute GPIOs
+  file?: string; // Source file of the use that triggered the finding (project-relative)
+  line?: number; // 1-based line of that use
+  column?: number; // 1-based column of that use
+  uses?: PinAuditUse[]; // Conflicting uses, for `pin_conflict` findings
 }
 
 /**
@@ -751,12 +1247,17 @@ export interface AgentBuildDiagnoseResult {
   projectDir: string; // Absolute project directory path
   environment: string; // Targeted environment
   cacheHit?: boolean; // True when build came from cache
+  cacheMissReason?: string; // Why the build was not served from the cache
   diagnostic: DiagnosticResult; // Classified build diagnostic payload
   nextSteps: string[]; // Recommended next actions
   ramUsageBytes?: number; // Parsed RAM usage in bytes
   flashUsageBytes?: number; // Parsed flash usage in bytes
   firmwarePath?: string; // Resolved firmware artifact path
   rawLogPath?: string; // Optional path to full raw log
+  sizeBudgetViolations?: SizeBudgetViolation[]; // Flash/RAM budgets exceeded by this build
+  warningSummary?: BuildWarningSummary; // Compiler warning counts by file and flag
+  warningBudget?: WarningBudgetResult; // Comparison with the workspace warning budget, when one exists
+  warnings?: string[]; // Non-fatal findings such as size budget violations
 }
 
 /**
@@ -782,10 +1283,13 @@ export interface AgentFlashMonitorVerifyResult {
   unmatchedExpectations: string[]; // Expected runtime markers not observed
   rejectedPatterns: string[]; // Rejected runtime patterns that appeared
   detectedRuntimeErrors: string[]; // Built-in runtime failures detected
-  diagnostic?: DiagnosticResult; // Upload-stage diagnostic payload when relevant
+  bootAnalysis?: BootAnalysis; // Decoded ESP32 reset reasons, boot modes and time between boots
+  diagnostic?: DiagnosticResult; // Upload-stage diagnostic, or the monitor diagnostic with a symbolicated backtrace after a panic
   recommendedNextAction: string; // Single recommended next step
   rawMonitorLogPath?: string; // Path to monitor log consumed for verification
   monitorSnippet?: string; // Tail snippet used as runtime evidence
+  artifactId?: string; // Registry artifact that was flashed, when known
+  rollbackArtifactId?: string; // Last known-good artifact to roll back to after a runtime failure
 }
 
 /**
@@ -798,13 +1302,49 @@ export interface AgentBoardReport {
   mcu: string; // MCU model name
   flashBytes?: number; // Flash capacity in bytes when available
   ramBytes?: number; // RAM capacity in bytes when available
-  dangerousPins: number[]; // High-risk pins from board profile
-  inputOnlyPins: number[]; // Input-only pins from board profile
-  flashSpiPins: number[]; // Flash/SPI-reserved pins from board profile
+  dangerousPins: BoardPin[]; // High-risk pins from board profile
+  inputOnlyPins: BoardPin[]; // Input-only pins from board profile
+  flashSpiPins: BoardPin[]; // Flash/SPI-reserved pins from board profile
+  debugPins?: BoardPin[]; // SWD/JTAG debug pins from board profile
+  oscillatorPins?: BoardPin[]; // HSE/LSE crystal pins from board profile
+  usbPins?: BoardPin[]; // Native USB D-/D+ pins from board profile
+  dedicatedPins?: string[]; // Non-GPIO pads (QSPI/SWD/BOOT0) from board profile
+  capabilities?: BoardPinCapabilities; // Peripheral capability map from board profile
+  capabilityTable: BoardCapabilityRow[]; // Per-pin capability tags (ADC/DAC/touch/RTC/bus)
   recommendedMonitorBaudRate: number; // Suggested monitor baud rate
+  profileKey?: string; // Resolved board profile key
+  profileSource?: string; // "built-in" or the board-profiles file path
+  profileErrors?: string[]; // Line-annotated board-profiles load errors
   generatedAt: string; // Report generation timestamp
 }
 
+/**
+ * One pin row in the project pinout emitted by `agent_generate_pinout`.
+ */
+export interface AgentPinoutEntry {
+  pin: BoardPin; // GPIO index or port-style pin name
+  label: string; // Display name (`GPIO12`, `PA5`)
+  symbols: string[]; // Source names that resolve to this pin (`LED_PIN`, `STATUS_LED`)
+  direction: "input" | "output"; // Output when any use drives the pin
+  roles: string[]; // Peripheral roles (`Serial2 RX`, `Wire SDA`) or `GPIO`
+  uses: PinAuditUse[]; // Every source location touching the pin
+  capabilities: string[]; // Capability tags from the board profile (ADC1_CH4, TOUCH, ...)
+  risks: Array<Pick<AgentPinAuditResult, "findingType" | "severity" | "reason">>; // Pin audit findings for this pin
+}
+
+/**
+ * Project pinout map emitted by `agent_generate_pinout`.
+ */
+export interface AgentPinoutResult {
+  projectDir: string; // Absolute project directory path
+  boardId: string; // Board ID the pinout was resolved against
+  environment?: string; // Environment whose framework and build_flags were used
+  profileKey?: string; // Resolved board profile key
+  pins: AgentPinoutEntry[]; // Resolved pins, ordered by pin
+  unresolved: Array<{ symbol: string; uses: PinAuditUse[] }>; // Pin arguments that could not be resolved
+  generatedAt: string; // Generation timestamp
+}
+
 /**
  * Persisted summary of the latest agent workflow execution.
  */
@@ -819,6 +1359,7 @@ export interface LastAgentReport {
     | AgentBuildDiagnoseResult
     | AgentFlashMonitorVerifyResult
     | AgentBoardReport
+    | AgentPinoutResult
     | AgentPinAuditResult[]; // Structured workflow payload
 }
 
@@ -846,6 +1387,24 @@ export interface PolicyStatusResult {
   auditAllAgentActions: boolean; // Audit logging status
 }
 
+/**
+ * Diagnostic matcher status payload returned by `get_diagnostics_status`.
+ */
+export interface DiagnosticsStatusResult {
+  source: string; // Workspace diagnostics file path, or "built-in" when none exists
+  valid: boolean; // False when the workspace file has parse or validation errors
+  builtInMatcherCounts: { build: number; upload: number; monitor: number; test: number }; // Compiled-in matchers per stage
+  workspaceMatchers: Array<{
+    stage: string; // build, upload, monitor, test or any
+    errorType: string; // Diagnostic error type reported on match
+    pattern: string; // Regular expression source
+    flags: string; // Regular expression flags
+    severity: string; // Diagnostic severity reported on match
+    safeToAutoRetry: boolean; // Retry hint reported on match
+  }>; // Valid workspace matchers, in evaluation order (ahead of built-ins)
+  errors: string[]; // Line-annotated errors, including invalid regular expressions
+}
+
 /**
  * Zod schema for `agent_validate_project` tool parameters.
  */
@@ -876,6 +1435,10 @@ export const AgentBuildDiagnoseParamsSchema = z.object({
     .boolean()
     .optional()
     .describe("If true, dispatches build asynchronously."),
+  updateWarningBudget: z
+    .boolean()
+    .optional()
+    .describe("If true, accept the build's current compiler warnings as the workspace warning budget."),
 });
 
 /**
@@ -887,6 +1450,14 @@ export const AgentSafePinAuditParamsSchema = z.object({
     .min(1)
     .describe("Path to the PlatformIO project directory"),
   boardId: z.string().min(1).describe("Target PlatformIO board ID"),
+  environment: z
+    .string()
+    .optional()
+    .describe("Environment whose framework and build_flags are used (from platformio.ini)"),
+  format: z
+    .enum(["findings", "sarif"])
+    .optional()
+    .describe("Output format: findings array (default) or a SARIF 2.1.0 log"),
 });
 
 /**
@@ -931,6 +1502,11 @@ export const AgentFlashMonitorVerifyParamsSchema = z.object({
     .boolean()
     .optional()
     .describe("If true, build before flashing when no firmware artifact is detected."),
+  artifactId: z
+    .string()
+    .regex(/^[0-9a-f]{12}$/, "artifactId is a 12-digit hex ID from list_firmware_artifacts")
+    .optional()
+    .describe("Flash and verify this recorded build instead of the current one (for example a rollback)."),
 });
 
 /**
@@ -954,6 +1530,29 @@ export const AgentGenerateBoardReportParamsSchema = z.object({
   boardId: z.string().min(1).describe("Target PlatformIO board ID"),
 });
 
+/**
+ * Zod schema for `agent_generate_pinout` tool parameters.
+ */
+export const AgentGeneratePinoutParamsSchema = z.object({
+  projectDir: z
+    .string()
+    .min(1)
+    .describe("Path to the PlatformIO project directory"),
+  boardId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Target PlatformIO board ID; inferred from platformio.ini when omitted"),
+  environment: z
+    .string()
+    .optional()
+    .describe("Environment whose board, framework and build_flags are used (from platformio.ini)"),
+  format: z
+    .enum(["json", "markdown"])
+    .optional()
+    .describe("Output format: JSON pinout (default) or a Markdown table"),
+});
+
 /**
  * Zod schema for `get_policy_status` tool parameters.
  */
@@ -964,3 +1563,13 @@ export const GetPolicyStatusParamsSchema = z.object({
     .describe("Optional project directory to resolve local policy profile context."),
 });
 
+/**
+ * Zod schema for `get_diagnostics_status` tool parameters.
+ */
+export const GetDiagnosticsStatusParamsSchema = z.object({
+  projectDir: z
+    .string()
+    .optional()
+    .describe("Optional project directory whose .pio-mcp/diagnostics.yaml is validated."),
+});
+
@@ -0,0 +1,274 @@
+/**
+ * Shared Firmware Artifact Store
+ *
+ * Content-addressed store of built firmware under `SERVER_DATA_DIR/artifacts`,
+ * shared by every workspace. Each successful build is kept in a directory
+ * named after its cache key (see `computeProjectHash`), so switching back to
+ * a branch or configuration that was built before replays it instead of
+ * recompiling. Least recently used builds are evicted once the store exceeds
+ * its size cap.
+ *
+ * Provides:
+ * - ARTIFACT_STORE_DIR: Default store location.
+ * - resolveArtifactStoreMaxBytes: Size cap from `PIO_MCP_ARTIFACT_STORE_MAX_MB`.
+ * - storeBuildArtifacts: Copies a build's firmware into the store.
+ * - readStoredBuild: Looks up a stored build by cache key.
+ * - restoreStoredBuild: Copies a stored build back into `.pio/build/<env>/`.
+ * - evictArtifactStore: Removes least recently used builds over the size cap.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { BuildCacheEntry } from "./build-cache.js";
+import { SERVER_DATA_DIR } from "./paths.js";
+
+export const ARTIFACT_STORE_DIR = path.join(SERVER_DATA_DIR, "artifacts");
+
+/**
+ * Build outputs kept per stored build, when the platform produces them.
+ * ESP32 uploads flash the bootloader and partition table next to the firmware.
+ */
+export const STORED_BUILD_FILES = [
+  "firmware.bin",
+  "firmware.elf",
+  "firmware.hex",
+  "firmware.map",
+  "bootloader.bin",
+  "partitions.bin",
+] as const;
+
+export const DEFAULT_ARTIFACT_STORE_MAX_BYTES = 1024 * 1024 * 1024;
+
+const ENTRY_FILE = "entry.json";
+
+/**
+ * Metadata of one stored build, persisted as `<store>/<inputsHash>/entry.json`.
+ */
+export interface StoredBuild {
+  inputsHash: string; // Cache key the build is stored under
+  projectDir: string; // Workspace that last stored this build
+  environment: string; // Requested environment (or "default")
+  buildEnvironment: string; // `.pio/build/<dir>` the files were taken from
+  files: string[]; // Stored file names, see STORED_BUILD_FILES
+  firmwareFile?: string; // File that stands for the firmware, as in `findFirmwareArtifact`
+  sizeBytes: number; // Bytes used by the stored files
+  storedAtMs: number; // When the build was stored
+  lastUsedAtMs: number; // When the build was stored or last restored (LRU order)
+  entry: Omit<BuildCacheEntry, "schema" | "firmwarePath">; // Cache entry replayed on a hit
+}
+
+function isHash(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
+
+function readEntry(entryDir: string): StoredBuild | undefined {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(entryDir, ENTRY_FILE), "utf8")) as StoredBuild;
+    if (!parsed || !Array.isArray(parsed.files) || typeof parsed.lastUsedAtMs !== "number") return undefined;
+    return parsed;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeEntry(entryDir: string, stored: StoredBuild): void {
+  fs.writeFileSync(path.join(entryDir, ENTRY_FILE), JSON.stringify(stored, null, 2));
+}
+
+function removeDir(dir: string): void {
+  try {
+    fs.rmSync(dir, { recursive: true, force: true });
+  } catch {
+    /* removed by a concurrent eviction */
+  }
+}
+
+/**
+ * Resolves the store's size cap. `PIO_MCP_ARTIFACT_STORE_MAX_MB=0` disables
+ * the store.
+ *
+ * @returns Maximum store size in bytes.
+ */
+export function resolveArtifactStoreMaxBytes(): number {
+  const raw = process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB?.trim();
+  if (!raw) return DEFAULT_ARTIFACT_STORE_MAX_BYTES;
+  const megabytes = Number(raw);
+  return Number.isFinite(megabytes) && megabytes >= 0
+    ? Math.floor(megabytes * 1024 * 1024)
+    : DEFAULT_ARTIFACT_STORE_MAX_BYTES;
+}
+
+/**
+ * Copies a successful build's firmware files into the store and evicts
+ * older builds over the size cap. Best effort: any failure leaves the store
+ * without this build, which only costs a future recompile.
+ *
+ * @param projectDir - Project root the build ran in.
+ * @param buildEnvironment - `.pio/build/<dir>` holding the firmware.
+ * @param entry - Cache entry recorded for the build.
+ * @param storeDir - Store location.
+ * @returns The stored build, or `undefined` when nothing was stored.
+ */
+export function storeBuildArtifacts(
+  projectDir: string,
+  buildEnvironment: string,
+  entry: Omit<BuildCacheEntry, "schema">,
+  storeDir: string = ARTIFACT_STORE_DIR,
+): StoredBuild | undefined {
+  const maxBytes = resolveArtifactStoreMaxBytes();
+  if (maxBytes === 0 || !isHash(entry.inputsHash)) return undefined;
+
+  const buildDir = path.join(projectDir, ".pio", "build", buildEnvironment);
+  const files: string[] = STORED_BUILD_FILES.filter((file) => fs.existsSync(path.join(buildDir, file)));
+  if (files.length === 0) return undefined;
+
+  const entryDir = path.join(storeDir, entry.inputsHash);
+  // Staged next to the final directory so the rename is atomic and readers
+  // never see a half-copied build.
+  const stagingDir = path.join(storeDir, `.staging-${entry.inputsHash.slice(0, 12)}-${crypto.randomBytes(4).toString("hex")}`);
+  try {
+    fs.mkdirSync(stagingDir, { recursive: true });
+    let sizeBytes = 0;
+    for (const file of files) {
+      fs.copyFileSync(path.join(buildDir, file), path.join(stagingDir, file));
+      sizeBytes += fs.statSync(path.join(stagingDir, file)).size;
+    }
+    if (sizeBytes > maxBytes) {
+      removeDir(stagingDir);
+      return undefined;
+    }
+
+    const { firmwarePath, ...replayed } = entry;
+    const now = Date.now();
+    const stored: StoredBuild = {
+      inputsHash: entry.inputsHash,
+      projectDir,
+      environment: entry.environment,
+      buildEnvironment,
+      files,
+      ...(firmwarePath && files.includes(path.basename(firmwarePath))
+        ? { firmwareFile: path.basename(firmwarePath) }
+        : {}),
+      sizeBytes,
+      storedAtMs: now,
+      lastUsedAtMs: now,
+      entry: replayed,
+    };
+    writeEntry(stagingDir, stored);
+
+    removeDir(entryDir);
+    fs.renameSync(stagingDir, entryDir);
+    evictArtifactStore(maxBytes, entry.inputsHash, storeDir);
+    return stored;
+  } catch {
+    removeDir(stagingDir);
+    return undefined;
+  }
+}
+
+/**
+ * Looks up a stored build whose files are all still present. Always a miss
+ * while the store is disabled.
+ *
+ * @param inputsHash - Cache key of the build.
+ * @param storeDir - Store location.
+ * @returns The stored build, or `undefined` on a miss.
+ */
+export function readStoredBuild(
+  inputsHash: string,
+  storeDir: string = ARTIFACT_STORE_DIR,
+): StoredBuild | undefined {
+  if (resolveArtifactStoreMaxBytes() === 0 || !isHash(inputsHash)) return undefined;
+  const entryDir = path.join(storeDir, inputsHash);
+  const stored = readEntry(entryDir);
+  if (!stored || stored.inputsHash !== inputsHash) return undefined;
+  return stored.files.every((file) => fs.existsSync(path.join(entryDir, file))) ? stored : undefined;
+}
+
+/**
+ * Copies a stored build into `.pio/build/<env>/` of a project and marks it
+ * as recently used.
+ *
+ * @param projectDir - Project root to restore into.
+ * @param inputsHash - Cache key of the build.
+ * @param storeDir - Store location.
+ * @returns The restored firmware path (may be undefined when the build had
+ *   no firmware file), or `null` when the build is not in the store.
+ */
+export function restoreStoredBuild(
+  projectDir: string,
+  inputsHash: string,
+  storeDir: string = ARTIFACT_STORE_DIR,
+): { firmwarePath?: string; stored: StoredBuild } | null {
+  const stored = readStoredBuild(inputsHash, storeDir);
+  if (!stored) return null;
+  const entryDir = path.join(storeDir, inputsHash);
+  const buildDir = path.join(projectDir, ".pio", "build", stored.buildEnvironment);
+  try {
+    fs.mkdirSync(buildDir, { recursive: true });
+    for (const file of stored.files) {
+      fs.copyFileSync(path.join(entryDir, file), path.join(buildDir, file));
+    }
+    stored.lastUsedAtMs = Date.now();
+    writeEntry(entryDir, stored);
+  } catch {
+    return null;
+  }
+  return {
+    firmwarePath: stored.firmwareFile ? path.join(buildDir, stored.firmwareFile) : undefined,
+    stored,
+  };
+}
+
+/**
+ * Removes least recently used builds until the store fits `maxBytes`.
+ * Unreadable entries and abandoned staging directories are removed too.
+ *
+ * @param maxBytes - Size cap in bytes.
+ * @param keep - Cache key that must survive (the build just stored).
+ * @param storeDir - Store location.
+ * @returns Cache keys of the evicted builds.
+ */
+export function evictArtifactStore(
+  maxBytes: number,
+  keep?: string,
+  storeDir: string = ARTIFACT_STORE_DIR,
+): string[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(storeDir);
+  } catch {
+    return [];
+  }
+
+  const entries: StoredBuild[] = [];
+  for (const name of names) {
+    const dir = path.join(storeDir, name);
+    if (name.startsWith(".staging-")) {
+      // Only a crashed writer leaves one behind for long.
+      try {
+        if (Date.now() - fs.statSync(dir).mtimeMs > 60 * 60 * 1000) removeDir(dir);
+      } catch {
+        /* already gone */
+      }
+      continue;
+    }
+    if (!isHash(name)) continue;
+    const stored = readEntry(dir);
+    if (stored) entries.push(stored);
+    else removeDir(dir);
+  }
+
+  let total = entries.reduce((sum, stored) => sum + stored.sizeBytes, 0);
+  const evicted: string[] = [];
+  entries.sort((a, b) => a.lastUsedAtMs - b.lastUsedAtMs);
+  for (const stored of entries) {
+    if (total <= maxBytes) break;
+    if (stored.inputsHash === keep) continue;
+    removeDir(path.join(storeDir, stored.inputsHash));
+    total -= stored.sizeBytes;
+    evicted.push(stored.inputsHash);
+  }
+  return evicted;
+}
@@ -6,15 +6,23 @@
  * - readLastAgentReport: Loads the latest agent workflow report.
  * - writeBoardReport: Persists board intelligence report output.
  * - readBoardReport: Loads the cached board intelligence report.
+ * - readSizeHistory: Loads the recorded firmware sizes of successful builds.
+ * - appendSizeHistoryEntry: Records a successful build's firmware sizes.
+ * - readFirmwareHistory: Loads the firmware artifact registry.
+ * - writeFirmwareHistory: Persists the firmware artifact registry.
  */
 
 import fs from "node:fs";
 import path from "node:path";
-import type { AgentBoardReport, LastAgentReport } from "../types.js";
+import type { AgentBoardReport, FirmwareArtifact, LastAgentReport, SizeHistoryEntry } from "../types.js";
 
 const WORKSPACE_DIR = ".pio-mcp-workspace";
 const LAST_AGENT_REPORT_FILE = "lastAgentReport.json";
 const BOARD_REPORT_FILE = "boardReport.json";
+const SIZE_HISTORY_FILE = "sizeHistory.json";
+const FIRMWARE_HISTORY_FILE = "firmwareHistory.json";
+// Oldest entries beyond this count are dropped, per environment.
+const SIZE_HISTORY_LIMIT = 200;
 
 /**
  * Resolves the workspace artifact directory.
@@ -46,6 +54,26 @@ export function getBoardReportPath(projectDir: string): string {
   return path.join(getWorkspaceArtifactsDir(projectDir), BOARD_REPORT_FILE);
 }
 
+/**
+ * Resolves the file path of the firmware size history.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Absolute file path for `sizeHistory.json`.
+ */
+export function getSizeHistoryPath(projectDir: string): string {
+  return path.join(getWorkspaceArtifactsDir(projectDir), SIZE_HISTORY_FILE);
+}
+
+/**
+ * Resolves the file path of the firmware artifact registry.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Absolute file path for `firmwareHistory.json`.
+ */
+export function getFirmwareHistoryPath(projectDir: string): string {
+  return path.join(getWorkspaceArtifactsDir(projectDir), FIRMWARE_HISTORY_FILE);
+}
+
 function ensureArtifactsDir(projectDir: string): void {
   const dir = getWorkspaceArtifactsDir(projectDir);
   if (!fs.existsSync(dir)) {
@@ -114,3 +142,60 @@ export function writeBoardReport(
 export function readBoardReport(projectDir: string): AgentBoardReport | null {
   return readJsonFile<AgentBoardReport>(getBoardReportPath(projectDir));
 }
+
+/**
+ * Reads the recorded firmware sizes, oldest first.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Recorded entries; empty when nothing was recorded yet.
+ */
+export function readSizeHistory(projectDir: string): SizeHistoryEntry[] {
+  const entries = readJsonFile<SizeHistoryEntry[]>(getSizeHistoryPath(projectDir));
+  return Array.isArray(entries) ? entries : [];
+}
+
+/**
+ * Appends a build's firmware sizes to the history, keeping at most the
+ * latest 200 entries per environment.
+ *
+ * @param projectDir - Project root directory.
+ * @param entry - Sizes of the build.
+ */
+export function appendSizeHistoryEntry(
+  projectDir: string,
+  entry: SizeHistoryEntry,
+): void {
+  const entries = [...readSizeHistory(projectDir), entry];
+  const sameEnvironment = entries.filter((item) => item.environment === entry.environment);
+  const dropped = new Set(sameEnvironment.slice(0, Math.max(0, sameEnvironment.length - SIZE_HISTORY_LIMIT)));
+  ensureArtifactsDir(projectDir);
+  writeJsonFile(
+    getSizeHistoryPath(projectDir),
+    entries.filter((item) => !dropped.has(item)),
+  );
+}
+
+/**
+ * Reads the firmware artifact registry, oldest first.
+ *
+ * @param projectDir - Project root directory.
+ * @returns Recorded artifacts; empty when nothing was recorded yet.
+ */
+export function readFirmwareHistory(projectDir: string): FirmwareArtifact[] {
+  const artifacts = readJsonFile<FirmwareArtifact[]>(getFirmwareHistoryPath(projectDir));
+  return Array.isArray(artifacts) ? artifacts : [];
+}
+
+/**
+ * Persists the firmware artifact registry.
+ *
+ * @param projectDir - Project root directory.
+ * @param artifacts - Recorded artifacts, oldest first.
+ */
+export function writeFirmwareHistory(
+  projectDir: string,
+  artifacts: FirmwareArtifact[],
+): void {
+  ensureArtifactsDir(projectDir);
+  writeJsonFile(getFirmwareHistoryPath(projectDir), artifacts);
+}
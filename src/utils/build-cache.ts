@@ -10,15 +10,26 @@
  *   1. Hash a deterministic projection of inputs that *should* invalidate a
  *      cached build: every regular file under `src/`, `include/`, `lib/`, plus
  *      `platformio.ini`. Each file contributes `path|size|sha256(content)`.
- *   2. Combine with the requested `environment` (or "default") and a schema
- *      version tag so changes to this module bust prior caches.
- *   3. Persist the cache as `<projectDir>/.pio/.mcp-build-cache.json` — the
+ *   2. Add what the build resolves outside the project tree: the installed
+ *      version of each targeted platform, of the toolchain/framework packages
+ *      that platform declares, of every library under `.pio/libdeps/<env>/`,
+ *      and digests of the `PLATFORMIO_*` build variables and `${sysenv.*}`
+ *      references. Upgrading espressif32 or a library must not replay a build
+ *      made with the old one.
+ *   3. Combine with the requested `environment` (or "default") and a schema
+ *      version tag so changes to this module bust prior caches. The inputs are
+ *      stored with the entry so a miss can say what changed.
+ *   4. Persist the cache as `<projectDir>/.pio/.mcp-build-cache.json` — the
  *      `.pio/` directory is already gitignored by PlatformIO convention.
- *   4. On a hit, verify the recorded firmware artifact (if any) still exists
+ *   5. On a hit, verify the recorded firmware artifact (if any) still exists
  *      on disk; otherwise treat as miss so we don't lie to upload tools.
+ *   6. When the workspace entry misses, fall back to the shared artifact
+ *      store (see artifact-store.ts), which keeps recent builds of every
+ *      workspace by the same key — except right after `clean_project`, whose
+ *      marker makes the next build compile even if the store has its inputs.
  *
- * Intentionally simple: no LRU, no multi-entry cache, no mtime fast path
- * before hash. Content-only hashing is robust against editor "touch" without
+ * The workspace cache is intentionally simple: a single entry, no mtime fast
+ * path before hash; older states live in the artifact store and its LRU. Content-only hashing is robust against editor "touch" without
  * change and against partial rebuilds. The miss cost (one full `pio run`) is
  * the same as today, so the worst case is unchanged.
  */
@@ -26,9 +37,35 @@
 import fs from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
+import {
+  getEnvironmentOption,
+  listDefaultEnvironments,
+  listIniEnvironments,
+  parsePlatformioIni,
+} from "./platformio-ini.js";
+import type { PlatformioIni } from "./platformio-ini.js";
+import { resolvePackagesDir, resolvePlatformsDir } from "./toolchain.js";
+import { ARTIFACT_STORE_DIR, readStoredBuild } from "./artifact-store.js";
 
 /** Bump when this module's hash/structure semantics change. */
-const CACHE_SCHEMA = "v1";
+const CACHE_SCHEMA = "v2";
+
+/**
+ * Everything folded into the cache key, kept per component so a miss can be
+ * explained. Versions read as `"unknown"` when a manifest has none.
+ */
+export interface BuildCacheInputs {
+  /** Hash of `platformio.ini` and every file under `src/`, `include/`, `lib/`. */
+  sources: string;
+  /** Installed platform directory -> version, for the targeted environments. */
+  platforms: Record<string, string>;
+  /** Installed package directory -> version, for packages those platforms declare. */
+  packages: Record<string, string>;
+  /** `<env>/<library dir>` under the libdeps directory -> version. */
+  libraries: Record<string, string>;
+  /** Build-relevant environment variable -> value digest (`"unset"` when absent). */
+  envVars: Record<string, string>;
+}
 
 /** Persisted shape on disk. Keep additive — old fields must remain readable. */
 export interface BuildCacheEntry {
@@ -47,6 +84,8 @@ export interface BuildCacheEntry {
   flashUsageBytes?: number;
   /** Tail of build log we replay on cache hits. */
   finalOutputTail?: string;
+  /** Components of `inputsHash`, compared on a miss to explain it. */
+  inputs?: BuildCacheInputs;
 }
 
 /** Hashable file entry contributing to the project input fingerprint. */
@@ -62,6 +101,26 @@ const TRACKED_DIRS = ["src", "include", "lib"] as const;
 /** Files at the project root that participate in the cache key. */
 const TRACKED_FILES = ["platformio.ini"] as const;
 
+/** Environment variables PlatformIO reads when configuring a build. */
+const BUILD_ENV_VARS = [
+  "PLATFORMIO_BUILD_FLAGS",
+  "PLATFORMIO_BUILD_UNFLAGS",
+  "PLATFORMIO_BUILD_SRC_FLAGS",
+  "PLATFORMIO_SRC_BUILD_FLAGS",
+  "PLATFORMIO_BUILD_SRC_FILTER",
+  "PLATFORMIO_SRC_FILTER",
+  "PLATFORMIO_EXTRA_SCRIPTS",
+  "PLATFORMIO_DEFAULT_ENVS",
+  "PLATFORMIO_BUILD_DIR",
+  "PLATFORMIO_LIBDEPS_DIR",
+  "PLATFORMIO_CORE_DIR",
+  "PLATFORMIO_PLATFORMS_DIR",
+  "PLATFORMIO_PACKAGES_DIR",
+] as const;
+
+/** Most changes listed in a miss reason before the rest are counted. */
+const MAX_MISS_DETAILS = 5;
+
 /**
  * Hashes a single file's bytes with SHA-256, returning hex.
  * Files we can't read (permissions, races) are skipped — caller treats this
@@ -105,21 +164,8 @@ function walkAndHash(rootDir: string, relPrefix: string): HashedFile[] {
   return out;
 }
 
-/**
- * Computes the content fingerprint for a project directory. Pure function over
- * disk state — same project → same hash, regardless of mtime drift.
- *
- * @param projectDir - Absolute path to the PlatformIO project root.
- * @param environment - Environment name (or "default"); included in the hash.
- * @returns Lowercase hex SHA-256 digest. Empty projects still produce a
- *   stable digest so first-build wiring is deterministic.
- */
-export function computeProjectHash(
-  projectDir: string,
-  environment: string,
-): string {
-  const components: string[] = [`schema:${CACHE_SCHEMA}`, `env:${environment}`];
-
+function hashSources(projectDir: string): string {
+  const components: string[] = [];
   for (const file of TRACKED_FILES) {
     const abs = path.join(projectDir, file);
     const h = hashFile(abs);
@@ -138,10 +184,178 @@ export function computeProjectHash(
     components.push(`${f.rel}|${f.size}|${f.sha256}`);
   }
 
-  return crypto
-    .createHash("sha256")
-    .update(components.join("\n"))
-    .digest("hex");
+  return crypto.createHash("sha256").update(components.join("\n")).digest("hex");
+}
+
+function readJson(file: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function listDirs(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Version of an installed package or library. PlatformIO's own `.piopm`
+ * record wins; `library.properties` covers Arduino libraries in `lib_deps`.
+ */
+function readInstalledVersion(dir: string, manifest: string): string {
+  for (const file of [".piopm", manifest]) {
+    const version = readJson(path.join(dir, file))?.version;
+    if (typeof version === "string" && version) return version;
+  }
+  try {
+    const properties = fs.readFileSync(path.join(dir, "library.properties"), "utf8");
+    const match = /^version\s*=\s*(.+)$/m.exec(properties);
+    if (match) return match[1].trim();
+  } catch {
+    /* no Arduino manifest */
+  }
+  return "unknown";
+}
+
+/**
+ * Platform name of a `platform` option: `espressif32`, `espressif32@6.5.0`,
+ * `platformio/espressif32@^6.5.0` and a `platform-espressif32.git` URL all
+ * name `espressif32`.
+ */
+function platformNameOfSpec(spec: string): string {
+  const last = spec.trim().split(/[\\/]/).filter(Boolean).pop() ?? spec;
+  return last
+    .replace(/#.*$/, "")
+    .replace(/@.*$/, "")
+    .trim()
+    .replace(/\.git$/, "")
+    .replace(/^platform-/, "");
+}
+
+/** Environments a build of `environment` compiles (`default` follows `default_envs`). */
+function targetEnvironments(ini: PlatformioIni, environment: string): string[] {
+  if (environment !== "default") return [environment];
+  const override = process.env.PLATFORMIO_DEFAULT_ENVS;
+  const defaults = override ? override.split(/[\s,]+/).filter(Boolean) : listDefaultEnvironments(ini);
+  return defaults.length > 0 ? defaults : listIniEnvironments(ini);
+}
+
+function resolveLibdepsDir(projectDir: string, ini: PlatformioIni): string {
+  const configured = process.env.PLATFORMIO_LIBDEPS_DIR ?? ini.get("platformio")?.get("libdeps_dir");
+  return configured ? path.resolve(projectDir, configured) : path.join(projectDir, ".pio", "libdeps");
+}
+
+function digestEnvVar(name: string): string {
+  const value = process.env[name];
+  return value === undefined
+    ? "unset"
+    : crypto.createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Collects the cache key components for a project. Reads only manifests on
+ * disk, never invokes `pio`, so the lookup stays cheap. Platforms, packages
+ * and libraries that are not installed yet are simply absent; the build that
+ * installs them records them.
+ *
+ * @param projectDir - Absolute path to the PlatformIO project root.
+ * @param environment - Environment name (or "default").
+ * @returns Per-component inputs of the cache key.
+ */
+export function collectBuildInputs(projectDir: string, environment: string): BuildCacheInputs {
+  const inputs: BuildCacheInputs = {
+    sources: hashSources(projectDir),
+    platforms: {},
+    packages: {},
+    libraries: {},
+    envVars: {},
+  };
+
+  let iniText = "";
+  try {
+    iniText = fs.readFileSync(path.join(projectDir, "platformio.ini"), "utf8");
+  } catch {
+    /* hashed as missing above */
+  }
+  const ini = parsePlatformioIni(iniText);
+  const environments = targetEnvironments(ini, environment);
+
+  const platformNames = new Set<string>();
+  for (const env of environments) {
+    const spec = getEnvironmentOption(ini, env, "platform");
+    if (spec) platformNames.add(platformNameOfSpec(spec));
+  }
+
+  const platformsDir = resolvePlatformsDir(projectDir);
+  const packageNames = new Set<string>();
+  for (const dir of listDirs(platformsDir)) {
+    const manifest = readJson(path.join(platformsDir, dir, "platform.json"));
+    const name = typeof manifest?.name === "string" ? manifest.name : dir.replace(/@.*$/, "");
+    if (!platformNames.has(name)) continue;
+    inputs.platforms[dir] = readInstalledVersion(path.join(platformsDir, dir), "platform.json");
+    const declared = manifest?.packages;
+    if (declared && typeof declared === "object") {
+      for (const pkg of Object.keys(declared)) packageNames.add(pkg);
+    }
+  }
+
+  const packagesDir = resolvePackagesDir(projectDir);
+  for (const dir of listDirs(packagesDir)) {
+    if (!packageNames.has(dir.replace(/@.*$/, ""))) continue;
+    inputs.packages[dir] = readInstalledVersion(path.join(packagesDir, dir), "package.json");
+  }
+
+  const libdepsDir = resolveLibdepsDir(projectDir, ini);
+  for (const env of environments) {
+    for (const dir of listDirs(path.join(libdepsDir, env))) {
+      inputs.libraries[`${env}/${dir}`] = readInstalledVersion(path.join(libdepsDir, env, dir), "library.json");
+    }
+  }
+
+  const sysenvRefs = Array.from(iniText.matchAll(/\$\{sysenv\.([A-Za-z_][A-Za-z0-9_]*)\}/g), (m) => m[1]);
+  for (const name of Array.from(new Set([...BUILD_ENV_VARS, ...sysenvRefs])).sort()) {
+    inputs.envVars[name] = digestEnvVar(name);
+  }
+
+  return inputs;
+}
+
+function hashInputs(environment: string, inputs: BuildCacheInputs): string {
+  const components: string[] = [`schema:${CACHE_SCHEMA}`, `env:${environment}`, `sources:${inputs.sources}`];
+  for (const kind of ["platforms", "packages", "libraries", "envVars"] as const) {
+    for (const [name, value] of Object.entries(inputs[kind]).sort(([a], [b]) => a.localeCompare(b))) {
+      components.push(`${kind}:${name}|${value}`);
+    }
+  }
+  return crypto.createHash("sha256").update(components.join("\n")).digest("hex");
+}
+
+/**
+ * Computes the cache key for a project directory: its content plus the
+ * installed platform, package and library versions and build variables.
+ * Pure function over disk and environment state — same inputs → same hash,
+ * regardless of mtime drift.
+ *
+ * @param projectDir - Absolute path to the PlatformIO project root.
+ * @param environment - Environment name (or "default"); included in the hash.
+ * @returns Lowercase hex SHA-256 digest. Empty projects still produce a
+ *   stable digest so first-build wiring is deterministic.
+ */
+export function computeProjectHash(
+  projectDir: string,
+  environment: string,
+): string {
+  return hashInputs(environment, collectBuildInputs(projectDir, environment));
 }
 
 /**
@@ -188,28 +402,121 @@ export function writeCache(
   }
 }
 
+const INPUT_LABELS = {
+  platforms: "Platform",
+  packages: "Package",
+  libraries: "Library",
+} as const;
+
+function describeInputChanges(before: BuildCacheInputs, after: BuildCacheInputs): string[] {
+  const changes: string[] = [];
+  if (before.sources !== after.sources) changes.push("Project sources or platformio.ini changed.");
+  for (const kind of ["platforms", "packages", "libraries"] as const) {
+    const names = new Set([...Object.keys(before[kind]), ...Object.keys(after[kind])]);
+    for (const name of Array.from(names).sort()) {
+      const from = before[kind][name];
+      const to = after[kind][name];
+      if (from === to) continue;
+      const label = `${INPUT_LABELS[kind]} ${name}`;
+      if (from === undefined) changes.push(`${label} ${to} was installed.`);
+      else if (to === undefined) changes.push(`${label} ${from} was removed.`);
+      else changes.push(`${label} changed from ${from} to ${to}.`);
+    }
+  }
+  const envVars = new Set([...Object.keys(before.envVars), ...Object.keys(after.envVars)]);
+  for (const name of Array.from(envVars).sort()) {
+    if ((before.envVars[name] ?? "unset") !== (after.envVars[name] ?? "unset")) {
+      changes.push(`Environment variable ${name} changed.`);
+    }
+  }
+  return changes;
+}
+
+function explainMiss(
+  projectDir: string,
+  entry: BuildCacheEntry | null,
+  environment: string,
+  inputs: BuildCacheInputs,
+): string {
+  if (!entry) {
+    return fs.existsSync(cacheFilePath(projectDir))
+      ? "The cached build was recorded by an older cache format."
+      : "No cached build is recorded for this project.";
+  }
+  if (entry.environment !== environment) {
+    return `The cached build is for environment '${entry.environment}', not '${environment}'.`;
+  }
+  if (!entry.inputs) return "Build inputs changed since the cached build.";
+  const changes = describeInputChanges(entry.inputs, inputs);
+  if (changes.length === 0) return "Build inputs changed since the cached build.";
+  const shown = changes.slice(0, MAX_MISS_DETAILS);
+  if (changes.length > shown.length) shown.push(`(${changes.length - shown.length} more changes)`);
+  return shown.join(" ");
+}
+
 /**
  * Looks up a cache entry for the project + environment and reports whether
- * it's a usable hit. A hit requires the inputs hash, environment match, *and*
- * (when recorded) the firmware artifact still existing on disk.
+ * it's a usable hit. A workspace hit requires the inputs hash, environment
+ * match, *and* (when recorded) the firmware artifact still existing on disk.
+ * Otherwise a build with the same key in the shared artifact store is a hit
+ * with `source: "store"`, unless the project was cleaned since its last build; its `firmwarePath` points into the store until the
+ * caller restores it with `restoreStoredBuild`.
  *
- * @returns `{ hit: true, entry }` if usable, otherwise `{ hit: false }`.
+ * @returns `{ hit: true, entry, source }` if usable, otherwise
+ *   `{ hit: false, reason }` with a one-line explanation of the miss. Both
+ *   carry the current inputs so callers can store them with a new entry.
  */
 export function lookupBuildCache(
   projectDir: string,
   environment: string,
-): { hit: true; entry: BuildCacheEntry; inputsHash: string } | { hit: false; inputsHash: string } {
-  const inputsHash = computeProjectHash(projectDir, environment);
+):
+  | {
+      hit: true;
+      entry: BuildCacheEntry;
+      inputsHash: string;
+      inputs: BuildCacheInputs;
+      source: "workspace" | "store";
+    }
+  | { hit: false; inputsHash: string; inputs: BuildCacheInputs; reason: string } {
+  const inputs = collectBuildInputs(projectDir, environment);
+  const inputsHash = hashInputs(environment, inputs);
   const entry = readCache(projectDir);
-  if (!entry) return { hit: false, inputsHash };
-  if (entry.environment !== environment) return { hit: false, inputsHash };
-  if (entry.inputsHash !== inputsHash) return { hit: false, inputsHash };
-  if (entry.firmwarePath && !fs.existsSync(entry.firmwarePath)) {
+  let reason: string;
+  if (!entry || entry.environment !== environment || entry.inputsHash !== inputsHash) {
+    reason = explainMiss(projectDir, entry, environment, inputs);
+  } else if (entry.firmwarePath && !fs.existsSync(entry.firmwarePath)) {
     // Firmware was deleted (e.g. by clean_project) — treat as miss so the
     // upload tools can't pick up a stale "successful" cache.
-    return { hit: false, inputsHash };
+    reason = `The cached firmware ${entry.firmwarePath} no longer exists.`;
+  } else {
+    return { hit: true, entry, inputsHash, inputs, source: "workspace" };
+  }
+
+  if (fs.existsSync(cleanMarkerPath(projectDir))) {
+    return {
+      hit: false,
+      inputsHash,
+      inputs,
+      reason: "clean_project ran since the last build, so this build compiles instead of restoring from the artifact store.",
+    };
   }
-  return { hit: true, entry, inputsHash };
+  const stored = readStoredBuild(inputsHash);
+  if (stored) {
+    return {
+      hit: true,
+      entry: {
+        schema: CACHE_SCHEMA,
+        ...stored.entry,
+        firmwarePath: stored.firmwareFile
+          ? path.join(ARTIFACT_STORE_DIR, inputsHash, stored.firmwareFile)
+          : undefined,
+      },
+      inputsHash,
+      inputs,
+      source: "store",
+    };
+  }
+  return { hit: false, inputsHash, inputs, reason };
 }
 
 /**
@@ -241,6 +548,50 @@ export function findFirmwareArtifact(
   return best?.path;
 }
 
+/**
+ * Locates a named build output (for example `firmware.elf` or
+ * `firmware.map`). With an explicit environment only
+ * `.pio/build/<environment>/` is searched, so another environment's build
+ * is never mistaken for it; otherwise the most recently modified copy
+ * across all environments.
+ */
+export function findBuildOutput(
+  projectDir: string,
+  fileName: string,
+  environment?: string,
+): string | undefined {
+  const buildRoot = path.join(projectDir, ".pio", "build");
+  if (environment && environment !== "default") {
+    const p = path.join(buildRoot, environment, fileName);
+    return fs.existsSync(p) ? p : undefined;
+  }
+  return listBuildOutputs(projectDir, fileName)[0];
+}
+
+/**
+ * Lists every environment's copy of a named build output, most recently
+ * modified first.
+ */
+export function listBuildOutputs(projectDir: string, fileName: string): string[] {
+  const buildRoot = path.join(projectDir, ".pio", "build");
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(buildRoot);
+  } catch {
+    return [];
+  }
+  const found: Array<{ path: string; mtimeMs: number }> = [];
+  for (const entry of entries) {
+    const p = path.join(buildRoot, entry, fileName);
+    try {
+      found.push({ path: p, mtimeMs: fs.statSync(p).mtimeMs });
+    } catch {
+      /* skip */
+    }
+  }
+  return found.sort((a, b) => b.mtimeMs - a.mtimeMs).map((item) => item.path);
+}
+
 /**
  * Invalidates the cache by removing the persisted entry. Safe to call when
  * no cache exists. Intended for `clean_project` and for explicit overrides.
@@ -252,3 +603,39 @@ export function invalidateBuildCache(projectDir: string): void {
     /* not present is fine */
   }
 }
+
+/**
+ * Returns the path of the marker `clean_project` leaves so the next build
+ * compiles instead of restoring from the shared artifact store.
+ */
+export function cleanMarkerPath(projectDir: string): string {
+  return path.join(projectDir, ".pio", ".mcp-build-clean");
+}
+
+/**
+ * Invalidates the cache and marks the project as cleaned: until a build
+ * clears the mark with `clearCleanMarker`, lookups skip the shared artifact
+ * store. The store keeps its builds so recorded firmware stays flashable.
+ */
+export function markBuildCacheCleaned(projectDir: string): void {
+  invalidateBuildCache(projectDir);
+  try {
+    const file = cleanMarkerPath(projectDir);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${new Date().toISOString()}\n`);
+  } catch {
+    // Best effort; without the marker the next build may replay a stored one.
+  }
+}
+
+/**
+ * Removes the marker left by `markBuildCacheCleaned`. Safe to call when the
+ * project was not cleaned.
+ */
+export function clearCleanMarker(projectDir: string): void {
+  try {
+    fs.unlinkSync(cleanMarkerPath(projectDir));
+  } catch {
+    /* not present is fine */
+  }
+}
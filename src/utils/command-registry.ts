@@ -5,6 +5,7 @@
  * Provides:
  * - registerCommand: Records a new command execution to the registry.
  * - updateCommandStatus: Modifies the status or exit details of an existing command.
+ * - updateTaskStatus: Modifies a nested task and rolls its status up to the command.
  * - getCommandHistory: Retrieves the list of historically executing commands.
  */
 
@@ -33,7 +34,7 @@ function getRegistryFilePath(projectDir?: string): string {
 export interface TaskRecord {
   taskId: string; // Internal trace ID
   type: "build" | "monitor" | "upload" | "test" | "debug"; // Classification of the executing process
-  status: "inactive" | "running" | "success" | "error" | "terminated"; // Real-time execution phase
+  status: "inactive" | "running" | "success" | "error" | "terminated" | "cancelled"; // Real-time execution phase
   logPaths?: string[]; // Optional array of mapped log file paths
   port?: string; // Target hardware interface mapping
   pid?: number; // Monitored system daemon integer
@@ -46,7 +47,7 @@ export interface CommandRecord {
   id: string; // The root invocation ID
   commandDesc: string; // E.g., 'pio run -t upload'
   timestamp: number; // Unix epoch of initiation
-  status: "running" | "success" | "error" | "terminated"; // Overall process status
+  status: "running" | "success" | "error" | "terminated" | "cancelled"; // Overall process status
   tasks: TaskRecord[]; // Log outputs and child executions
   mcpRequest?: any; // The exact parameters sent to the MCP tool
   mcpResponse?: any; // The exact response payload returned to the agent
@@ -132,7 +133,8 @@ export async function updateCommandStatus(id: string, updates: Partial<CommandRe
 }
 
 /**
- * Updates a specific nested task's status.
+ * Updates a specific nested task's status. A cancelled task keeps its status,
+ * so the exit of the killed process does not report it as an error.
  */
 export async function updateTaskStatus(commandId: string, taskId: string, updates: Partial<TaskRecord>, projectDir?: string): Promise<void> {
   const file = getRegistryFilePath(projectDir);
@@ -151,12 +153,16 @@ export async function updateTaskStatus(commandId: string, taskId: string, update
         const cmd = history[cmdIndex];
         const artIndex = cmd.tasks?.findIndex((art) => art.taskId === taskId) ?? -1;
         if (artIndex !== -1) {
-          cmd.tasks[artIndex] = { ...cmd.tasks[artIndex], ...updates };
+          const current = cmd.tasks[artIndex];
+          cmd.tasks[artIndex] = current.status === "cancelled"
+            ? { ...current, ...updates, status: "cancelled", error: current.error }
+            : { ...current, ...updates };
 
           // Automatically roll up statuses (if all tasks are success, parent is success)
           const allSuccess = cmd.tasks.every(a => a.status === 'success');
           const anyError = cmd.tasks.some(a => a.status === 'error');
           const anyRunning = cmd.tasks.some(a => a.status === 'running');
+          const anyCancelled = cmd.tasks.some(a => a.status === 'cancelled');
           
           if (anyError) {
             cmd.status = 'error';
@@ -166,6 +172,7 @@ export async function updateTaskStatus(commandId: string, taskId: string, update
             }
           }
           else if (anyRunning) cmd.status = 'running';
+          else if (anyCancelled) cmd.status = 'cancelled';
           else if (allSuccess) cmd.status = 'success';
           else cmd.status = 'terminated';
 
@@ -13,9 +13,20 @@
  * - CommandTimeoutError: Process timeout error.
  * - formatPlatformIOError: Standardizes error messages.
  * - parseStderrErrors: Extracts error codes from output.
+ * - parseStructuredBuildWarnings: Extracts GCC/Clang warnings with flag and location.
+ * - summarizeBuildWarnings: Groups warnings by file and flag.
  * - isPlatformIONotFoundError: Validates environment issues.
  */
 
+import path from "node:path";
+import type {
+  BuildWarningFileGroup,
+  BuildWarningFlagGroup,
+  BuildWarningOrigin,
+  BuildWarningSummary,
+  StructuredBuildWarning,
+} from "../types.js";
+
 /**
  * Base error class for PlatformIO-related errors
  */
@@ -372,6 +383,99 @@ export function parseStructuredBuildErrors(log: string): StructuredBuildError[]
   });
 }
 
+// `src/main.cpp:12:7: warning: unused variable 'x' [-Wunused-variable]`
+const WARNING_LINE_REGEX =
+  /^(.+?):(\d+)(?::(\d+))?:\s*warning:\s*(.+?)(?:\s+\[(-W[^\]\s]+)\])?$/;
+
+function classifyWarningFile(
+  file: string,
+  projectDir?: string,
+): { file: string; origin: BuildWarningOrigin } {
+  let normalized = file.replace(/\\/g, "/");
+  if (path.isAbsolute(file) || /^[A-Za-z]:\//.test(normalized)) {
+    const relative = projectDir ? path.relative(projectDir, file).replace(/\\/g, "/") : "";
+    if (!projectDir || relative.startsWith("..") || path.isAbsolute(relative)) {
+      return { file: normalized, origin: "library" };
+    }
+    normalized = relative;
+  }
+  normalized = normalized.replace(/^\.\//, "");
+  // `.pio/libdeps` holds registry dependencies; everything else in the
+  // project tree (src/, include/, lib/, test/) is the project's own code.
+  return { file: normalized, origin: normalized.startsWith(".pio/") ? "library" : "project" };
+}
+
+/**
+ * Extracts compiler warnings from a build log. A warning from a header that
+ * several translation units include is reported once.
+ *
+ * @param log - Combined stdout+stderr from `pio run`.
+ * @param projectDir - Project root used to relativize paths and tell project
+ *   code from library code.
+ * @returns Warnings in log order.
+ */
+export function parseStructuredBuildWarnings(
+  log: string,
+  projectDir?: string,
+): StructuredBuildWarning[] {
+  if (!log) return [];
+  const seen = new Set<string>();
+  const out: StructuredBuildWarning[] = [];
+  for (const line of log.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const m = WARNING_LINE_REGEX.exec(trimmed);
+    if (!m) continue;
+    const { file, origin } = classifyWarningFile(m[1], projectDir);
+    const key = [file, m[2], m[3], m[5], m[4]].join("|");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({
+      ...(m[5] ? { flag: m[5] } : {}),
+      file,
+      line: Number(m[2]),
+      ...(m[3] ? { column: Number(m[3]) } : {}),
+      message: m[4],
+      origin,
+      raw: trimmed,
+    });
+  }
+  return out;
+}
+
+/**
+ * Counts warnings per file and per flag, split into project and library code.
+ *
+ * @param warnings - Warnings from {@link parseStructuredBuildWarnings}.
+ * @returns Summary with the noisiest files and flags first.
+ */
+export function summarizeBuildWarnings(warnings: StructuredBuildWarning[]): BuildWarningSummary {
+  const files = new Map<string, BuildWarningFileGroup>();
+  const flags = new Map<string, BuildWarningFlagGroup>();
+  for (const warning of warnings) {
+    const file = files.get(warning.file) ?? { file: warning.file, origin: warning.origin, count: 0, flags: [] };
+    file.count += 1;
+    if (warning.flag && !file.flags.includes(warning.flag)) file.flags = [...file.flags, warning.flag].sort();
+    files.set(warning.file, file);
+
+    const flagName = warning.flag ?? "(none)";
+    const flag = flags.get(flagName) ?? { flag: flagName, count: 0, project: 0, library: 0 };
+    flag.count += 1;
+    flag[warning.origin] += 1;
+    flags.set(flagName, flag);
+  }
+
+  const byCount = <T extends { count: number }>(key: (item: T) => string) => (a: T, b: T) =>
+    b.count - a.count || key(a).localeCompare(key(b));
+  const project = warnings.filter((warning) => warning.origin === "project").length;
+  return {
+    total: warnings.length,
+    project,
+    library: warnings.length - project,
+    byFile: Array.from(files.values()).sort(byCount((group) => group.file)),
+    byFlag: Array.from(flags.values()).sort(byCount((group) => group.flag)),
+  };
+}
+
 /**
  * Translates structured build errors into actionable next-step instructions
  * the agent can act on without re-reading the log. EmbedBench traces showed
@@ -0,0 +1,169 @@
+/**
+ * platformio.ini Reader
+ *
+ * Provides:
+ * - PlatformioIni: Parsed `platformio.ini` sections and options.
+ * - parsePlatformioIni: Parses sections, multi-line values and comments.
+ * - getEnvironmentOption: Resolves an env option through `[env]`, `extends` and `${...}` references.
+ * - listIniEnvironments: Lists `[env:NAME]` sections in file order.
+ * - listDefaultEnvironments: Lists `default_envs` of the `[platformio]` section.
+ * - parseBuildFlagDefines: Extracts `-D` macro definitions from build flags.
+ */
+
+/**
+ * Parsed `platformio.ini`: section name -> option name -> raw value.
+ */
+export type PlatformioIni = Map<string, Map<string, string>>;
+
+const MAX_INTERPOLATION_DEPTH = 8;
+
+/**
+ * Parses `platformio.ini` text. Indented lines continue the previous option,
+ * `;`/`#` lines are comments, and ` ;` starts an inline comment.
+ *
+ * @param iniText - Raw `platformio.ini` contents.
+ * @returns Section/option map.
+ */
+export function parsePlatformioIni(iniText: string): PlatformioIni {
+  const sections: PlatformioIni = new Map();
+  let current: Map<string, string> | undefined;
+  let lastKey: string | undefined;
+
+  for (const rawLine of iniText.split(/\r?\n/)) {
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith(";") || trimmed.startsWith("#")) continue;
+
+    const sectionMatch = /^\[([^\]]+)\]$/.exec(trimmed);
+    if (sectionMatch) {
+      const name = sectionMatch[1].trim();
+      current = sections.get(name) ?? new Map<string, string>();
+      sections.set(name, current);
+      lastKey = undefined;
+      continue;
+    }
+    if (!current) continue;
+
+    const value = trimmed.replace(/\s+;.*$/, "");
+    if (/^\s/.test(rawLine) && lastKey) {
+      const previous = current.get(lastKey) ?? "";
+      current.set(lastKey, previous ? `${previous}\n${value}` : value);
+      continue;
+    }
+
+    const kvMatch = /^([A-Za-z0-9_.-]+)\s*=\s*(.*)$/.exec(value);
+    if (!kvMatch) continue;
+    lastKey = kvMatch[1].toLowerCase();
+    current.set(lastKey, kvMatch[2].trim());
+  }
+
+  return sections;
+}
+
+/**
+ * Lists `[env:NAME]` environments in file order.
+ *
+ * @param ini - Parsed `platformio.ini`.
+ * @returns Environment names.
+ */
+export function listIniEnvironments(ini: PlatformioIni): string[] {
+  return Array.from(ini.keys())
+    .filter((name) => name.startsWith("env:"))
+    .map((name) => name.slice(4).trim());
+}
+
+/**
+ * Lists the environments named by `default_envs` in the `[platformio]`
+ * section. Names may be separated by commas or newlines.
+ *
+ * @param ini - Parsed `platformio.ini`.
+ * @returns Default environment names, empty when unset.
+ */
+export function listDefaultEnvironments(ini: PlatformioIni): string[] {
+  return (ini.get("platformio")?.get("default_envs") ?? "").split(/[\s,]+/).filter(Boolean);
+}
+
+function interpolate(ini: PlatformioIni, value: string, envSection: string, depth: number): string {
+  if (depth >= MAX_INTERPOLATION_DEPTH) return value;
+  return value.replace(/\$\{([^}.]+)\.([^}]+)\}/g, (match, section: string, key: string) => {
+    if (section === "sysenv") return process.env[key] ?? "";
+    const sectionName = section === "this" ? envSection : section;
+    const resolved =
+      sectionName.startsWith("env:") || sectionName === "env"
+        ? lookupEnvOption(ini, sectionName, key.toLowerCase(), depth + 1)
+        : ini.get(sectionName)?.get(key.toLowerCase());
+    return resolved === undefined ? match : interpolate(ini, resolved, envSection, depth + 1);
+  });
+}
+
+function lookupEnvOption(
+  ini: PlatformioIni,
+  sectionName: string,
+  key: string,
+  depth: number,
+): string | undefined {
+  if (depth >= MAX_INTERPOLATION_DEPTH) return undefined;
+  const section = ini.get(sectionName);
+  const own = section?.get(key);
+  if (own !== undefined) return own;
+
+  const extendsValue = section?.get("extends");
+  if (extendsValue) {
+    for (const parent of extendsValue.split(",").map((item) => item.trim()).filter(Boolean)) {
+      const inherited = lookupEnvOption(ini, parent, key, depth + 1);
+      if (inherited !== undefined) return inherited;
+    }
+  }
+
+  return sectionName === "env" ? undefined : ini.get("env")?.get(key);
+}
+
+/**
+ * Resolves an environment option the way PlatformIO does: the env section,
+ * then `extends` parents, then the shared `[env]` section, with `${section.key}`
+ * references expanded.
+ *
+ * @param ini - Parsed `platformio.ini`.
+ * @param envName - Environment name without the `env:` prefix.
+ * @param key - Option name.
+ * @returns Resolved value, or undefined when unset.
+ */
+export function getEnvironmentOption(
+  ini: PlatformioIni,
+  envName: string,
+  key: string,
+): string | undefined {
+  const sectionName = `env:${envName}`;
+  const raw = lookupEnvOption(ini, sectionName, key.toLowerCase(), 0);
+  return raw === undefined ? undefined : interpolate(ini, raw, sectionName, 0);
+}
+
+function tokenizeFlags(flags: string): string[] {
+  const tokens: string[] = [];
+  const tokenRegex = /'([^']*)'|"((?:[^"\\]|\\.)*)"|(\S+)/g;
+  for (const match of flags.matchAll(tokenRegex)) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * Extracts `-DNAME`, `-DNAME=VALUE` and `-D NAME=VALUE` definitions.
+ *
+ * @param flags - Raw `build_flags` value.
+ * @returns Macro name -> replacement text (`1` when no value is given).
+ */
+export function parseBuildFlagDefines(flags: string): Map<string, string> {
+  const defines = new Map<string, string>();
+  const tokens = tokenizeFlags(flags);
+  for (let i = 0; i < tokens.length; i += 1) {
+    let token = tokens[i];
+    if (token === "-D" && i + 1 < tokens.length) {
+      i += 1;
+      token = `-D${tokens[i]}`;
+    }
+    const match = /^-D([A-Za-z_][A-Za-z0-9_]*)(?:=(.*))?$/.exec(token);
+    if (!match) continue;
+    defines.set(match[1], match[2] === undefined ? "1" : match[2].replace(/^\\?"|\\?"$/g, ""));
+  }
+  return defines;
+}
@@ -6,6 +6,7 @@
  * - registerPioMonitorPid: Records a PID to the workspace for crash resumption.
  * - unregisterPioMonitorPid: Removes a PID from the file tracker.
  * - killPioMonitorByPort: Safely terminates a tracked PID using tree-kill.
+ * - killProcessTree: Terminates a PID and all of its children.
  */
 
 import fs from "node:fs";
@@ -195,6 +196,26 @@ export function killPioMonitorByPort(port: string, projectDir?: string): Promise
   });
 }
 
+/**
+ * Kills a process together with the compilers, uploaders and Python helpers
+ * PlatformIO spawned under it.
+ *
+ * @param pid - Root process of the tree.
+ * @param projectDir - Workspace used for diagnostic logging.
+ * @returns True when the tree was killed, false when it could not be signalled
+ *   (usually because it already exited).
+ */
+export function killProcessTree(pid: number, projectDir?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    treeKill(pid, "SIGKILL", (err) => {
+      if (err) {
+        logDiag(`[ProcessManager Diagnostic] Failed to tree-kill PID ${pid}: ${err.message}`, projectDir);
+      }
+      resolve(!err);
+    });
+  });
+}
+
 /**
  * OS-level check to verify if a PID is actively running PlatformIO/Python.
  */
@@ -278,7 +299,7 @@ export async function registerBuildPid(pid: number, projectDir?: string): Promis
   }
 }
 
-export async function unregisterBuildPid(projectDir?: string): Promise<void> {
+export async function unregisterBuildPid(projectDir?: string, pid?: number): Promise<void> {
   const pidsFile = getPidsFilePath(projectDir, BUILD_PIDS_FILE);
   if (!fs.existsSync(pidsFile)) return;
 
@@ -288,6 +309,8 @@ export async function unregisterBuildPid(projectDir?: string): Promise<void> {
       const pids: Record<string, any> = JSON.parse(fs.readFileSync(pidsFile, "utf8"));
       let changed = false;
       for (const key of Object.keys(pids)) {
+        // Concurrent matrix builds only drop their own entry.
+        if (pid !== undefined && key !== pid.toString()) continue;
         if (pids[key]?.type === "build" || key === "build") {
           delete pids[key];
           changed = true;
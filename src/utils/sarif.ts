@@ -0,0 +1,177 @@
+/**
+ * SARIF 2.1.0 Output
+ *
+ * Provides:
+ * - SarifLog / SarifResult / SarifLocation: Minimal SARIF 2.1.0 shapes emitted by the server.
+ * - SarifFindingInput: Tool-agnostic finding fed to the SARIF builder.
+ * - toSarifLevel: Maps finding severities to SARIF levels.
+ * - buildSarifLog: Builds a single-run SARIF log with rules derived from findings.
+ */
+
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+export const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json";
+export const SARIF_TOOL_INFORMATION_URI = "https://github.com/jl-codes/platformio-mcp";
+
+/**
+ * SARIF result level.
+ */
+export type SarifLevel = "error" | "warning" | "note" | "none";
+
+/**
+ * Source location inside the analyzed project.
+ */
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId?: string }; // Project-relative path under `%SRCROOT%`, or a `file://` URI outside the project
+    region?: { startLine: number; startColumn?: number }; // 1-based position
+  };
+  message?: { text: string }; // Optional per-location note (used for related locations)
+}
+
+/**
+ * One SARIF result.
+ */
+export interface SarifResult {
+  ruleId: string; // Rule identifier; matches a `tool.driver.rules` entry
+  level: SarifLevel; // Result severity
+  message: { text: string }; // Human-readable finding text
+  locations: SarifLocation[]; // Primary location (empty for project-wide results)
+  relatedLocations?: SarifLocation[]; // Additional locations involved in the result
+  properties?: Record<string, unknown>; // Tool-specific extras
+}
+
+/**
+ * SARIF 2.1.0 log with a single run.
+ */
+export interface SarifLog {
+  $schema: string; // SARIF JSON schema URI
+  version: "2.1.0"; // SARIF format version
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string; // Analysis tool name
+        informationUri: string; // Tool homepage
+        rules: Array<{ id: string; shortDescription: { text: string } }>; // Rules referenced by results
+      };
+    };
+    originalUriBaseIds?: Record<string, { uri: string }>; // Resolves `%SRCROOT%`
+    results: SarifResult[]; // Findings
+  }>;
+}
+
+/**
+ * Tool-agnostic finding accepted by `buildSarifLog`.
+ */
+export interface SarifFindingInput {
+  ruleId: string; // Rule identifier
+  ruleDescription: string; // Short description recorded once per rule
+  level: SarifLevel; // Result severity
+  message: string; // Finding text
+  file?: string; // Project-relative source path, or an absolute path outside the project
+  line?: number; // 1-based line
+  column?: number; // 1-based column
+  related?: Array<{ file: string; line: number; column?: number; message?: string }>; // Related locations
+  properties?: Record<string, unknown>; // Tool-specific extras
+}
+
+/**
+ * Maps a finding severity onto a SARIF level.
+ *
+ * @param severity - Severity label (`high`/`medium`/`low`/`info`, or compiler-style names).
+ * @returns SARIF level.
+ */
+export function toSarifLevel(severity: string): SarifLevel {
+  switch (severity.toLowerCase()) {
+    case "high":
+    case "error":
+      return "error";
+    case "medium":
+    case "warning":
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+// `%SRCROOT%` only prefixes relative paths; files outside the project (for
+// example framework headers) get an absolute `file://` URI instead.
+function toArtifactLocation(file: string): { uri: string; uriBaseId?: string } {
+  const normalized = file.replace(/\\/g, "/");
+  if (/^[A-Za-z]:\//.test(normalized)) return { uri: encodeURI(`file:///${normalized}`) };
+  if (path.isAbsolute(normalized)) return { uri: pathToFileURL(normalized).href };
+  return { uri: normalized, uriBaseId: "%SRCROOT%" };
+}
+
+function toSarifLocation(
+  file: string,
+  line?: number,
+  column?: number,
+  message?: string,
+): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: toArtifactLocation(file),
+      ...(line ? { region: { startLine: line, ...(column ? { startColumn: column } : {}) } } : {}),
+    },
+    ...(message ? { message: { text: message } } : {}),
+  };
+}
+
+function toFileUri(dir: string): string {
+  const href = pathToFileURL(path.resolve(dir)).href;
+  return href.endsWith("/") ? href : `${href}/`;
+}
+
+/**
+ * Builds a SARIF 2.1.0 log for one analysis run.
+ *
+ * @param toolName - Driver name shown by code-scanning UIs.
+ * @param findings - Findings to convert.
+ * @param projectDir - Optional project root used to resolve `%SRCROOT%`.
+ * @returns SARIF log object.
+ */
+export function buildSarifLog(
+  toolName: string,
+  findings: SarifFindingInput[],
+  projectDir?: string,
+): SarifLog {
+  const rules = new Map<string, string>();
+  for (const finding of findings) {
+    if (!rules.has(finding.ruleId)) rules.set(finding.ruleId, finding.ruleDescription);
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: toolName,
+            informationUri: SARIF_TOOL_INFORMATION_URI,
+            rules: Array.from(rules, ([id, text]) => ({ id, shortDescription: { text } })),
+          },
+        },
+        ...(projectDir ? { originalUriBaseIds: { "%SRCROOT%": { uri: toFileUri(projectDir) } } } : {}),
+        results: findings.map((finding) => ({
+          ruleId: finding.ruleId,
+          level: finding.level,
+          message: { text: finding.message },
+          locations: finding.file
+            ? [toSarifLocation(finding.file, finding.line, finding.column)]
+            : [],
+          ...(finding.related && finding.related.length > 0
+            ? {
+                relatedLocations: finding.related.map((item) =>
+                  toSarifLocation(item.file, item.line, item.column, item.message),
+                ),
+              }
+            : {}),
+          ...(finding.properties ? { properties: finding.properties } : {}),
+        })),
+      },
+    ],
+  };
+}
@@ -180,12 +180,13 @@ function ensureLatestLogPointer(logFile: string, latestLog: string): { mirrorLat
 export async function executeWithSpooling(
   command: string,
   args: string[],
-  options: { cwd: string; projectDir?: string; timeout?: number; background?: boolean; activePort?: string; onSuccess?: () => Promise<void>; rootCommandId?: string; artifactType?: "build" | "upload" | "monitor" | "test" | "debug" }
+  options: { cwd: string; projectDir?: string; timeout?: number; background?: boolean; activePort?: string; onSuccess?: () => Promise<void>; rootCommandId?: string; artifactType?: "build" | "upload" | "monitor" | "test" | "debug"; concurrent?: boolean }
 ): Promise<SpoolingResult> {
   const projectArea = options.projectDir ?? options.cwd;
 
-  // 1. Crash resilience tracking
-  if (isBuildActive(projectArea)) {
+  // 1. Crash resilience tracking. Matrix builds run side by side on purpose
+  // and check for a foreign build once, before they start.
+  if (!options.concurrent && isBuildActive(projectArea)) {
     throw new Error("A build is already actively running for this project.");
   }
 
@@ -284,7 +285,7 @@ export async function executeWithSpooling(
         exitCode: code,
         ...(errorMessage ? { error: errorMessage } : {})
       }, targetProjectArea).catch(() => {});
-      await unregisterBuildPid(targetProjectArea);
+      await unregisterBuildPid(targetProjectArea, options.concurrent ? proc.pid : undefined);
       if (options.activePort) portSemaphoreManager.releasePort(options.activePort);
       try { fs.closeSync(outFd); } catch {}
       if (watcher) {
@@ -337,7 +338,7 @@ export async function executeWithSpooling(
   }, projectArea).catch(() => {});
 
   // Cleanup
-  await unregisterBuildPid(projectArea);
+  await unregisterBuildPid(projectArea, options.concurrent ? proc.pid : undefined);
   if (options.activePort) portSemaphoreManager.releasePort(options.activePort);
   try {
     fs.closeSync(outFd);
@@ -0,0 +1,150 @@
+/**
+ * Structured Config File Parsing
+ *
+ * Provides:
+ * - StructuredConfigError: Parse failure carrying the offending line number.
+ * - StructuredConfigDocument: Parsed value plus a path-to-line index.
+ * - parseStructuredConfig: Parses JSON or YAML with line tracking.
+ * - loadStructuredConfigFile: Reads and parses a `.json`/`.yaml`/`.yml` file.
+ * - formatConfigIssue: Renders a `file:line: message` string with source context.
+ * - describeZodIssues: Maps Zod validation issues back to source lines.
+ */
+
+import fs from "node:fs";
+import { LineCounter, isMap, isScalar, isSeq, parseDocument, type Document } from "yaml";
+import type { ZodError } from "zod";
+
+type ConfigPath = Array<string | number>;
+
+/**
+ * Thrown when a config file cannot be parsed.
+ */
+export class StructuredConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(message);
+    this.name = "StructuredConfigError";
+  }
+}
+
+/**
+ * Parsed config value with source line lookup by value path.
+ */
+export interface StructuredConfigDocument {
+  data: unknown; // Parsed JSON-compatible value
+  lineOf: (valuePath: ConfigPath) => number | undefined; // 1-based line of the nearest recorded path
+}
+
+// Mapping entries report the line of their key, sequence items their own line.
+function lineOfPath(doc: Document, lineCounter: LineCounter, valuePath: ConfigPath): number | undefined {
+  let node: unknown = doc.contents;
+  if (valuePath.length > 0) {
+    const parent = valuePath.length === 1 ? doc.contents : doc.getIn(valuePath.slice(0, -1), true);
+    const last = valuePath[valuePath.length - 1];
+    if (isMap(parent)) {
+      node = parent.items.find((pair) => (isScalar(pair.key) ? pair.key.value : pair.key) === last)?.key;
+    } else if (isSeq(parent) && typeof last === "number") {
+      node = parent.items[last];
+    } else {
+      node = undefined;
+    }
+  }
+  const range = (node as { range?: [number, number, number] } | undefined)?.range;
+  return range ? lineCounter.linePos(range[0]).line : undefined;
+}
+
+/**
+ * Parses a JSON or YAML config while recording source lines. JSON files go
+ * through the same YAML 1.2 parser, of which JSON is a subset.
+ *
+ * @param text - Raw file contents.
+ * @returns Parsed document with line lookup.
+ * @throws StructuredConfigError on syntax errors.
+ */
+export function parseStructuredConfig(text: string): StructuredConfigDocument {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+  const [error] = doc.errors;
+  if (error) {
+    // An unclosed `[` or quote is reported at the end of input; point at the
+    // last line with content instead.
+    const lines = text.split(/\r?\n/);
+    let line = lineCounter.linePos(error.pos[0]).line;
+    while (line > 1 && !lines[line - 1]?.trim()) line -= 1;
+    throw new StructuredConfigError(error.message, line);
+  }
+  return {
+    data: doc.toJS() as unknown,
+    lineOf: (valuePath) => {
+      for (let depth = valuePath.length; depth >= 0; depth -= 1) {
+        const line = lineOfPath(doc, lineCounter, valuePath.slice(0, depth));
+        if (line !== undefined) return line;
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Reads and parses a `.json`, `.yaml` or `.yml` config file.
+ *
+ * @param filePath - Absolute path to a `.json`, `.yaml` or `.yml` file.
+ * @returns File text and parsed document.
+ * @throws StructuredConfigError on syntax errors.
+ */
+export function loadStructuredConfigFile(
+  filePath: string,
+): { text: string; document: StructuredConfigDocument } {
+  const text = fs.readFileSync(filePath, "utf8");
+  return { text, document: parseStructuredConfig(text) };
+}
+
+/**
+ * Formats a config problem as `file:line: message` followed by the source line.
+ *
+ * @param filePath - Config file path.
+ * @param text - Config file contents.
+ * @param line - 1-based line number, when known.
+ * @param message - Problem description.
+ * @returns Single-line issue string with trimmed source context.
+ */
+export function formatConfigIssue(
+  filePath: string,
+  text: string,
+  line: number | undefined,
+  message: string,
+): string {
+  if (line === undefined) return `${filePath}: ${message}`;
+  const source = text.split(/\r?\n/)[line - 1]?.trim() ?? "";
+  return source
+    ? `${filePath}:${line}: ${message} (near: ${source})`
+    : `${filePath}:${line}: ${message}`;
+}
+
+/**
+ * Converts Zod validation issues into line-annotated messages.
+ *
+ * @param error - Zod validation error.
+ * @param document - Parsed document used for line lookup.
+ * @param filePath - Config file path.
+ * @param text - Config file contents.
+ * @returns One formatted message per issue.
+ */
+export function describeZodIssues(
+  error: ZodError,
+  document: StructuredConfigDocument,
+  filePath: string,
+  text: string,
+): string[] {
+  return error.issues.map((issue) => {
+    const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return formatConfigIssue(
+      filePath,
+      text,
+      document.lineOf(issue.path),
+      `${where}${issue.message}`,
+    );
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Toolchain Binary Lookup
+ *
+ * Provides:
+ * - resolvePackagesDir: Resolves the PlatformIO packages directory for a project.
+ * - resolvePlatformsDir: Resolves the PlatformIO platforms directory for a project.
+ * - readElfMachine: Reads the `e_machine` field of an ELF file.
+ * - findToolchainTool: Finds a GNU binutils tool (addr2line, c++filt, ...) matching an ELF's architecture and chip.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { getEnvironmentOption, parsePlatformioIni } from "./platformio-ini.js";
+
+// ELF e_machine -> toolchain name fragment.
+const ELF_MACHINE_TOOLCHAINS: Record<number, string> = {
+  40: "arm-none-eabi",
+  83: "avr",
+  94: "xtensa",
+  243: "riscv",
+};
+
+// Chip names in per-chip toolchains, e.g. `xtensa-esp32s3-elf-addr2line`.
+const TOOLCHAIN_CHIP_REGEX = /-(esp32[a-z0-9]*)-/;
+
+function expandHome(value: string): string {
+  return value.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+function resolveCoreSubdir(
+  projectDir: string,
+  envVar: string,
+  iniKey: string,
+  subdir: string,
+): string {
+  const override = process.env[envVar];
+  if (override) return override;
+
+  let coreDir = process.env.PLATFORMIO_CORE_DIR;
+  try {
+    const ini = parsePlatformioIni(fs.readFileSync(path.join(projectDir, "platformio.ini"), "utf8"));
+    const section = ini.get("platformio");
+    const dir = section?.get(iniKey);
+    if (dir) return path.resolve(projectDir, expandHome(dir));
+    const iniCoreDir = section?.get("core_dir");
+    if (iniCoreDir) coreDir = path.resolve(projectDir, expandHome(iniCoreDir));
+  } catch {
+    /* no platformio.ini: fall back to the default core dir */
+  }
+  return path.join(coreDir ?? path.join(os.homedir(), ".platformio"), subdir);
+}
+
+/**
+ * Resolves the PlatformIO packages directory: `PLATFORMIO_PACKAGES_DIR`,
+ * then `packages_dir`/`core_dir` from `[platformio]` in `platformio.ini`,
+ * then `PLATFORMIO_CORE_DIR`, then `~/.platformio`.
+ *
+ * @param projectDir - Project root containing `platformio.ini`.
+ * @returns Absolute packages directory (may not exist).
+ */
+export function resolvePackagesDir(projectDir: string): string {
+  return resolveCoreSubdir(projectDir, "PLATFORMIO_PACKAGES_DIR", "packages_dir", "packages");
+}
+
+/**
+ * Resolves the PlatformIO platforms directory, with the same precedence as
+ * {@link resolvePackagesDir} (`PLATFORMIO_PLATFORMS_DIR`, `platforms_dir`).
+ *
+ * @param projectDir - Project root containing `platformio.ini`.
+ * @returns Absolute platforms directory (may not exist).
+ */
+export function resolvePlatformsDir(projectDir: string): string {
+  return resolveCoreSubdir(projectDir, "PLATFORMIO_PLATFORMS_DIR", "platforms_dir", "platforms");
+}
+
+/**
+ * Reads the target architecture of an ELF file.
+ *
+ * @param elfPath - Path to the ELF file.
+ * @returns `e_machine` value, or `undefined` when the file is not an ELF.
+ */
+export function readElfMachine(elfPath: string): number | undefined {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(elfPath, "r");
+    const header = Buffer.alloc(20);
+    fs.readSync(fd, header, 0, header.length, 0);
+    if (header.readUInt32BE(0) !== 0x7f454c46) return undefined;
+    return header[5] === 2 ? header.readUInt16BE(18) : header.readUInt16LE(18);
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+function readBoardMcu(boardFile: string): string | undefined {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(boardFile, "utf8"));
+    return typeof manifest?.build?.mcu === "string" ? manifest.build.mcu : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// MCU of the environment an ELF was built for (`.pio/build/<env>/`): its
+// `board_build.mcu`, or the board manifest from the project's `boards/` or
+// an installed platform.
+function resolveElfMcu(projectDir: string, elfPath: string): string | undefined {
+  const environment = path.basename(path.dirname(elfPath));
+  let mcu: string | undefined;
+  let board: string | undefined;
+  try {
+    const ini = parsePlatformioIni(fs.readFileSync(path.join(projectDir, "platformio.ini"), "utf8"));
+    mcu = getEnvironmentOption(ini, environment, "board_build.mcu");
+    board = getEnvironmentOption(ini, environment, "board");
+  } catch {
+    return undefined;
+  }
+  if (mcu || !board) return mcu?.toLowerCase();
+
+  const platformsDir = resolvePlatformsDir(projectDir);
+  let platforms: string[] = [];
+  try {
+    platforms = fs.readdirSync(platformsDir);
+  } catch {
+    /* no platforms installed */
+  }
+  const boardFiles = [
+    path.join(projectDir, "boards", `${board}.json`),
+    ...platforms.map((platform) => path.join(platformsDir, platform, "boards", `${board}.json`)),
+  ];
+  for (const boardFile of boardFiles) {
+    const boardMcu = readBoardMcu(boardFile);
+    if (boardMcu) return boardMcu.toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * Finds a binutils tool in the installed `toolchain-*` packages. When several
+ * toolchains are installed, the one matching the ELF's architecture wins.
+ * Xtensa toolchains are built per chip, so among those the one named after
+ * the environment's MCU is used, and another chip's toolchain never is. A
+ * toolchain for another architecture is never used either.
+ *
+ * @param projectDir - Project root, used to resolve the packages directory.
+ * @param elfPath - Firmware ELF under `.pio/build/<env>/` whose architecture and environment select the toolchain.
+ * @param tool - Tool suffix, e.g. `addr2line` or `c++filt`.
+ * @returns Absolute path to the tool, or `undefined` when no suitable one is installed.
+ */
+export function findToolchainTool(
+  projectDir: string,
+  elfPath: string,
+  tool: string,
+): string | undefined {
+  const packagesDir = resolvePackagesDir(projectDir);
+  let packages: string[] = [];
+  try {
+    packages = fs.readdirSync(packagesDir).filter((name) => name.startsWith("toolchain-")).sort();
+  } catch {
+    return undefined;
+  }
+
+  const suffixes = [`-${tool}`, `-${tool}.exe`];
+  const candidates: string[] = [];
+  for (const pkg of packages) {
+    const binDir = path.join(packagesDir, pkg, "bin");
+    try {
+      for (const file of fs.readdirSync(binDir)) {
+        if (suffixes.some((suffix) => file.endsWith(suffix))) candidates.push(path.join(binDir, file));
+      }
+    } catch {
+      /* toolchain without bin/ */
+    }
+  }
+
+  const machine = readElfMachine(elfPath);
+  const hint = machine === undefined ? undefined : ELF_MACHINE_TOOLCHAINS[machine];
+  const matching = hint ? candidates.filter((candidate) => path.basename(candidate).includes(hint)) : [];
+  const mcu = matching.length > 0 ? resolveElfMcu(projectDir, elfPath) : undefined;
+  if (mcu) {
+    const chipOf = (candidate: string) => TOOLCHAIN_CHIP_REGEX.exec(path.basename(candidate))?.[1];
+    return (
+      matching.find((candidate) => chipOf(candidate) === mcu) ??
+      matching.find((candidate) => chipOf(candidate) === undefined)
+    );
+  }
+  // Another architecture's addr2line decodes garbage; any installed toolchain
+  // is only tried when the ELF's architecture is not known.
+  return hint ? matching[0] : candidates[0];
+}
@@ -38,6 +38,8 @@ vi.mock("../src/core/flash.js", () => ({
 
 vi.mock("../src/utils/build-cache.js", () => ({
   findFirmwareArtifact: vi.fn(() => undefined),
+  readCache: vi.fn(() => null),
+  invalidateBuildCache: vi.fn(),
 }));
 
 import {
@@ -160,6 +162,35 @@ describe("agent workflow integration", () => {
     ).toBe(true);
   });
 
+  it("reads environments with the shared platformio.ini rules for [env], extends and comments", async () => {
+    const projectDir = createTempProject();
+    writeProjectFiles(
+      projectDir,
+      [
+        "[platformio]",
+        "default_envs = release ; shipped build",
+        "",
+        "[env]",
+        "framework = arduino",
+        "",
+        "[env:debug]",
+        "platform = espressif32",
+        "board = esp32dev",
+        "",
+        "[env:release]",
+        "extends = env:debug",
+      ].join("\n"),
+      "void setup() {}\nvoid loop() {}\n",
+    );
+
+    const result = await agentValidateProject(projectDir);
+
+    expect(result.environments).toEqual(["debug", "release"]);
+    expect(result.defaultEnvironment).toBe("release");
+    expect(result.boardIds).toEqual(["esp32dev"]);
+    expect(result.missingConfigEntries).toEqual([]);
+  });
+
   it("returns diagnostic-rich build success details", async () => {
     const projectDir = createTempProject();
     mockedBuildProjectCore.mockResolvedValue({
@@ -189,6 +220,112 @@ describe("agent workflow integration", () => {
     expect(result.nextSteps).toContain("Upload to target device.");
   });
 
+  it("fails the diagnosis when new warnings exceed the warning budget", async () => {
+    const projectDir = createTempProject();
+    const known = {
+      flag: "-Wunused-variable",
+      file: "src/main.cpp",
+      line: 12,
+      message: "unused variable 'count'",
+      origin: "project" as const,
+      raw: "src/main.cpp:12: warning: unused variable 'count' [-Wunused-variable]",
+    };
+    const library = { ...known, file: ".pio/libdeps/esp32dev/Lib/lib.cpp", origin: "library" as const };
+    mockedBuildProjectCore.mockResolvedValue({
+      success: true,
+      environment: "esp32dev",
+      structuredWarnings: [known, library],
+      nextSteps: ["Upload to target device."],
+    });
+
+    const accepted = await agentBuildDiagnose(projectDir, "esp32dev", false, false, true);
+    expect(accepted.success).toBe(true);
+    expect(accepted.warningBudget).toMatchObject({ scope: "project", accepted: 1, exceeded: false, updated: true });
+    expect(fs.existsSync(path.join(projectDir, ".pio-mcp", "warning-budget.json"))).toBe(true);
+
+    // Line moves keep the accepted warning matched; the new one fails the budget.
+    const added = { ...known, line: 20, message: "unused variable 'total'" };
+    mockedBuildProjectCore.mockResolvedValue({
+      success: true,
+      environment: "esp32dev",
+      structuredWarnings: [{ ...known, line: 14 }, added, library],
+      nextSteps: ["Upload to target device."],
+    });
+
+    const result = await agentBuildDiagnose(projectDir, "esp32dev", false, false);
+    expect(result.success).toBe(false);
+    expect(result.warningBudget).toMatchObject({ accepted: 1, exceeded: true, newWarnings: [added] });
+    expect(result.nextSteps[0]).toContain("src/main.cpp:20 unused variable 'total' [-Wunused-variable]");
+    expect(readLastAgentReport(projectDir)?.summary).toBe(
+      "Build exceeded the warning budget with 1 new warning(s).",
+    );
+  });
+
+  it("keeps accepted warnings of files an incremental build did not recompile", async () => {
+    const projectDir = createTempProject();
+    const main = {
+      flag: "-Wunused-variable",
+      file: "src/main.cpp",
+      line: 12,
+      message: "unused variable 'count'",
+      origin: "project" as const,
+      raw: "src/main.cpp:12: warning: unused variable 'count' [-Wunused-variable]",
+    };
+    const sensor = { ...main, file: "src/sensor.cpp", message: "unused variable 'raw'" };
+    mockedBuildProjectCore.mockResolvedValue({
+      success: true,
+      environment: "esp32dev",
+      structuredWarnings: [main, sensor],
+    });
+    await agentBuildDiagnose(projectDir, "esp32dev", false, false, true);
+
+    // Only main.cpp was recompiled: sensor.cpp's warning is absent from the log.
+    mockedBuildProjectCore.mockResolvedValue({
+      success: true,
+      environment: "esp32dev",
+      incremental: true,
+      structuredWarnings: [main],
+    });
+    const incremental = await agentBuildDiagnose(projectDir, "esp32dev", false, false, true);
+    expect(incremental.warnings?.[0]).toContain("incremental build");
+
+    mockedBuildProjectCore.mockResolvedValue({
+      success: true,
+      environment: "esp32dev",
+      incremental: true,
+      structuredWarnings: [main, sensor],
+    });
+    const result = await agentBuildDiagnose(projectDir, "esp32dev", false, false);
+    expect(result.warningBudget).toMatchObject({ accepted: 2, exceeded: false, newWarnings: [] });
+  });
+
+  it("surfaces size budget violations as warnings", async () => {
+    const projectDir = createTempProject();
+    fs.mkdirSync(path.join(projectDir, ".pio-mcp"));
+    fs.writeFileSync(
+      path.join(projectDir, ".pio-mcp", "size-budgets.yaml"),
+      "budgets:\n  - environment: esp32dev\n    flash: 4000\n",
+      "utf8",
+    );
+    mockedBuildProjectCore.mockResolvedValue({
+      success: true,
+      environment: "esp32dev",
+      ramUsageBytes: 1024,
+      flashUsageBytes: 4096,
+      nextSteps: ["Upload to target device."],
+    });
+
+    const result = await agentBuildDiagnose(projectDir, "esp32dev", false, false);
+
+    expect(result.success).toBe(true);
+    expect(result.sizeBudgetViolations).toEqual([
+      expect.objectContaining({ metric: "flash", budgetBytes: 4000, overByBytes: 96 }),
+    ]);
+    expect(result.warnings).toEqual([
+      "Flash usage of esp32dev is 4096 bytes, over its budget of 4000 bytes by 96 bytes.",
+    ]);
+  });
+
   it("classifies upload failure with ESP32 pin-risk overlay", async () => {
     const projectDir = createTempProject();
     writeProjectFiles(
@@ -235,6 +372,37 @@ describe("agent workflow integration", () => {
     expect(result.recommendedNextAction.toLowerCase()).toContain("avoid strapping pins");
   });
 
+  it("names the profile's boot pin on upload failure and ignores non-boot board rules", async () => {
+    const uploadFailure = {
+      success: false,
+      output: "Error: libusb_open() failed with LIBUSB_ERROR_ACCESS",
+    };
+    mockedBuildProjectCore.mockResolvedValue({ success: true, output: "Build success" });
+    mockedUploadFirmwareCore.mockResolvedValue(uploadFailure);
+
+    const stm32Dir = createTempProject();
+    writeProjectFiles(
+      stm32Dir,
+      ["[env:nucleo]", "platform = ststm32", "board = nucleo_f401re", "framework = arduino"].join("\n"),
+      ["#include <Arduino.h>", "void setup() { pinMode(PB2, OUTPUT); }", "void loop() {}"].join("\n"),
+    );
+    const stm32 = await agentFlashMonitorVerify({ projectDir: stm32Dir, environment: "nucleo", timeoutSeconds: 1, autoBuild: true });
+    expect(stm32.diagnostic?.errorType).toBe("BootPinRisk");
+    expect(stm32.diagnostic?.summary).toBe("upload failed with potential STM32F2/F4 strapping/boot pin risk.");
+
+    // GPIO23 is the Pico's SMPS mode pin: a high-risk rule, but not one that blocks flashing.
+    const picoDir = createTempProject();
+    writeProjectFiles(
+      picoDir,
+      ["[env:pico]", "platform = raspberrypi", "board = pico", "framework = arduino"].join("\n"),
+      ["#include <Arduino.h>", "void setup() { pinMode(23, OUTPUT); }", "void loop() {}"].join("\n"),
+    );
+    const pico = await agentFlashMonitorVerify({ projectDir: picoDir, environment: "pico", timeoutSeconds: 1, autoBuild: true });
+    expect(pico.verificationStatus).toBe("flash_failed");
+    expect(pico.diagnostic?.errorType).not.toBe("BootPinRisk");
+    expect(pico.diagnostic?.errorType).not.toBe("Esp32StrappingPinRisk");
+  });
+
   it("skips pre-build when default environment firmware artifact already exists", async () => {
     const projectDir = createTempProject();
     writeProjectFiles(
@@ -237,5 +237,19 @@ describe("Portal API Security & Telemetry Tailing", () => {
       expect(result.success).toBeDefined();
       expect(hardwareLockManager.getLockStatus().isLocked).toBe(false);
     });
+
+    it("should answer the firmware size report with 404 before the project is built", async () => {
+      const missing = await request(server)
+        .get("/api/projects/size")
+        .set("Authorization", `Bearer ${authToken}`);
+      expect(missing.status).toBe(400);
+
+      const notBuilt = await request(server)
+        .get("/api/projects/size")
+        .query({ projectDir: mockProjectDir, environment: "esp32dev" })
+        .set("Authorization", `Bearer ${authToken}`);
+      expect(notBuilt.status).toBe(404);
+      expect(notBuilt.body.error).toMatch(/No firmware\.elf/);
+    });
   });
 });
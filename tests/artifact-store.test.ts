@@ -0,0 +1,146 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ARTIFACT_STORE_DIR,
+  evictArtifactStore,
+  readStoredBuild,
+  restoreStoredBuild,
+  storeBuildArtifacts,
+} from "../src/utils/artifact-store.js";
+import { clearCleanMarker, lookupBuildCache, markBuildCacheCleaned } from "../src/utils/build-cache.js";
+
+const createdDirs: string[] = [];
+const originalMaxMb = process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB;
+
+function tempDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  createdDirs.push(dir);
+  return dir;
+}
+
+function createProject(): string {
+  const projectDir = tempDir("pio-store-project-");
+  fs.writeFileSync(path.join(projectDir, "platformio.ini"), "[env:dev]\nplatform = native\n");
+  fs.mkdirSync(path.join(projectDir, "src"));
+  fs.writeFileSync(path.join(projectDir, "src", "main.cpp"), "int main(){return 0;}\n");
+  return projectDir;
+}
+
+function writeFirmware(projectDir: string, contents: string, bytes = 0): void {
+  const buildDir = path.join(projectDir, ".pio", "build", "dev");
+  fs.mkdirSync(buildDir, { recursive: true });
+  fs.writeFileSync(path.join(buildDir, "firmware.bin"), contents.padEnd(bytes, "\0"));
+  fs.writeFileSync(path.join(buildDir, "firmware.elf"), `ELF ${contents}`);
+}
+
+function entryFor(projectDir: string, hash: string) {
+  return {
+    inputsHash: hash,
+    environment: "dev",
+    builtAtMs: Date.now(),
+    firmwarePath: path.join(projectDir, ".pio", "build", "dev", "firmware.bin"),
+    flashUsageBytes: 4096,
+    finalOutputTail: "[SUCCESS]\n",
+  };
+}
+
+describe("Shared artifact store", () => {
+  beforeEach(() => {
+    delete process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (originalMaxMb === undefined) delete process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB;
+    else process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB = originalMaxMb;
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("stores firmware by cache key and restores it into another workspace", () => {
+    const storeDir = tempDir("pio-store-");
+    const builder = createProject();
+    writeFirmware(builder, "build-a");
+    const hash = "a".repeat(64);
+
+    const stored = storeBuildArtifacts(builder, "dev", entryFor(builder, hash), storeDir);
+    expect(stored).toMatchObject({ files: ["firmware.bin", "firmware.elf"], firmwareFile: "firmware.bin" });
+    expect(readStoredBuild(hash, storeDir)?.entry.flashUsageBytes).toBe(4096);
+    expect(readStoredBuild("b".repeat(64), storeDir)).toBeUndefined();
+
+    const other = createProject();
+    const restored = restoreStoredBuild(other, hash, storeDir);
+    expect(restored?.firmwarePath).toBe(path.join(other, ".pio", "build", "dev", "firmware.bin"));
+    expect(fs.readFileSync(restored!.firmwarePath!, "utf8")).toBe("build-a");
+    expect(fs.existsSync(path.join(other, ".pio", "build", "dev", "firmware.elf"))).toBe(true);
+
+    // A store with a missing file is a miss rather than a half restore.
+    fs.rmSync(path.join(storeDir, hash, "firmware.elf"));
+    expect(restoreStoredBuild(other, hash, storeDir)).toBeNull();
+  });
+
+  it("evicts the least recently used builds over the size cap", () => {
+    const storeDir = tempDir("pio-store-");
+    const projectDir = createProject();
+    const now = vi.spyOn(Date, "now");
+    const [first, second, third] = ["1", "2", "3"].map((digit) => digit.repeat(64));
+
+    // Each build is ~400 KiB, so three of them exceed a 1 MiB cap.
+    process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB = "1";
+    now.mockReturnValue(1000);
+    writeFirmware(projectDir, "first", 400 * 1024);
+    storeBuildArtifacts(projectDir, "dev", entryFor(projectDir, first), storeDir);
+    now.mockReturnValue(2000);
+    writeFirmware(projectDir, "second", 400 * 1024);
+    storeBuildArtifacts(projectDir, "dev", entryFor(projectDir, second), storeDir);
+    now.mockReturnValue(3000);
+    restoreStoredBuild(projectDir, first, storeDir);
+
+    now.mockReturnValue(4000);
+    writeFirmware(projectDir, "third", 400 * 1024);
+    storeBuildArtifacts(projectDir, "dev", entryFor(projectDir, third), storeDir);
+
+    expect(readStoredBuild(first, storeDir)).toBeDefined();
+    expect(readStoredBuild(second, storeDir)).toBeUndefined();
+    expect(readStoredBuild(third, storeDir)).toBeDefined();
+    expect(evictArtifactStore(0, third, storeDir)).toEqual([first]);
+
+    // A build larger than the whole cap is never stored.
+    process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB = "0.1";
+    expect(storeBuildArtifacts(projectDir, "dev", entryFor(projectDir, "4".repeat(64)), storeDir)).toBeUndefined();
+  });
+
+  it("serves an earlier project state from the store except right after a clean", () => {
+    const projectDir = createProject();
+    writeFirmware(projectDir, "state-a");
+    const stateA = lookupBuildCache(projectDir, "dev");
+    expect(stateA.hit).toBe(false);
+    storeBuildArtifacts(projectDir, "dev", { ...entryFor(projectDir, stateA.inputsHash), inputs: stateA.inputs });
+
+    // Switching to another state and back: the workspace entry no longer
+    // matches, but the store still has state A.
+    fs.writeFileSync(path.join(projectDir, "src", "main.cpp"), "int main(){return 1;}\n");
+    expect(lookupBuildCache(projectDir, "dev").hit).toBe(false);
+    fs.writeFileSync(path.join(projectDir, "src", "main.cpp"), "int main(){return 0;}\n");
+    const back = lookupBuildCache(projectDir, "dev");
+    expect(back.hit).toBe(true);
+    if (back.hit) {
+      expect(back.source).toBe("store");
+      expect(back.entry.flashUsageBytes).toBe(4096);
+    }
+
+    // The first build after clean_project compiles; the store keeps state A.
+    markBuildCacheCleaned(projectDir);
+    const cleaned = lookupBuildCache(projectDir, "dev");
+    expect(cleaned.hit).toBe(false);
+    if (!cleaned.hit) expect(cleaned.reason).toMatch(/clean_project/);
+    expect(readStoredBuild(stateA.inputsHash)).toBeDefined();
+    clearCleanMarker(projectDir);
+    expect(lookupBuildCache(projectDir, "dev").hit).toBe(true);
+
+    fs.rmSync(path.join(ARTIFACT_STORE_DIR, stateA.inputsHash), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { getBoardProfile } from "../src/boards/index.js";
+
+describe("getBoardProfile", () => {
+  it("keeps classic ESP32 boards on the baseline profile", () => {
+    expect(getBoardProfile({ boardId: "esp32dev" })?.key).toBe("esp32");
+    expect(
+      getBoardProfile({ boardId: "esp32dev", platform: "espressif32", mcu: "ESP32" })?.key,
+    ).toBe("esp32");
+  });
+
+  it("prefers variant profiles over the ESP32 baseline", () => {
+    expect(getBoardProfile({ boardId: "esp32-s3-devkitc-1" })?.key).toBe("esp32s3");
+    expect(getBoardProfile({ boardId: "esp32-c3-devkitm-1" })?.key).toBe("esp32c3");
+    expect(getBoardProfile({ boardId: "lolin_s2_mini" })?.key).toBe("esp32s2");
+  });
+
+  it("keeps the variant when the platform is known but the MCU is not", () => {
+    expect(getBoardProfile({ boardId: "esp32-s3-devkitc-1", platform: "espressif32" })?.key).toBe("esp32s3");
+    expect(getBoardProfile({ boardId: "esp32-c3-devkitm-1", platform: "espressif32" })?.key).toBe("esp32c3");
+    expect(getBoardProfile({ boardId: "esp32dev", platform: "espressif32" })?.key).toBe("esp32");
+  });
+
+  it("resolves variants from MCU metadata when the board ID is ambiguous", () => {
+    const profile = getBoardProfile({
+      boardId: "um_feathers3",
+      platform: "espressif32",
+      mcu: "ESP32S3",
+    });
+    expect(profile?.key).toBe("esp32s3");
+
+    const c6 = getBoardProfile({
+      boardId: "esp32dev",
+      platform: "espressif32",
+      mcu: "esp32c6",
+    });
+    expect(c6?.key).toBe("esp32c6");
+  });
+
+  it("falls back to the family baseline on a platform-only match", () => {
+    const profile = getBoardProfile({
+      boardId: "unknown_board",
+      platform: "espressif32",
+      mcu: "ESP32H2",
+    });
+    expect(profile?.key).toBe("esp32");
+  });
+
+  it("resolves RP2040 and STM32 families", () => {
+    expect(getBoardProfile({ boardId: "pico" })?.key).toBe("rp2040");
+    // ESP32-PICO boards share the prefix but not the chip.
+    expect(getBoardProfile({ boardId: "pico32" })?.key).not.toBe("rp2040");
+    expect(getBoardProfile({ boardId: "pico32", platform: "espressif32", mcu: "ESP32" })?.key).toBe("esp32");
+    expect(getBoardProfile({ boardId: "bluepill_f103c8" })?.key).toBe("stm32f1");
+    expect(getBoardProfile({ boardId: "uno", platform: "atmelavr" })).toBeUndefined();
+  });
+
+  it("scopes STM32 BOOT1 and PD0/PD1 oscillator pins to the series that have them", () => {
+    const f1 = getBoardProfile({ boardId: "bluepill_f103c8", platform: "ststm32", mcu: "STM32F103C8T6" });
+    expect(f1?.key).toBe("stm32f1");
+    expect(f1?.pinProfile.bootPins).toEqual(["PB2"]);
+    expect(f1?.pinProfile.oscillatorPins).toContain("PD0");
+
+    const f4 = getBoardProfile({ boardId: "nucleo_f401re", platform: "ststm32", mcu: "STM32F401RET6" });
+    expect(f4?.key).toBe("stm32f4");
+    expect(f4?.pinProfile.bootPins).toEqual(["PB2"]);
+    expect(f4?.pinProfile.oscillatorPins).not.toContain("PD0");
+
+    const g0 = getBoardProfile({ boardId: "nucleo_g071rb", platform: "ststm32", mcu: "STM32G071RBT6" });
+    expect(g0?.key).toBe("stm32");
+    expect(g0?.pinProfile.dangerousPins).toEqual([]);
+    expect(g0?.pinProfile.oscillatorPins).not.toContain("PD0");
+  });
+});
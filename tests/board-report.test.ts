@@ -41,6 +41,12 @@ describe("agent_generate_board_report", () => {
     expect(report.platform).toBe("espressif32");
     expect(report.dangerousPins).toContain(12);
     expect(report.recommendedMonitorBaudRate).toBe(115200);
+    expect(report.capabilityTable.find((row) => row.pin === 25)?.capabilities).toEqual(
+      expect.arrayContaining(["ADC2_CH8", "DAC1", "RTC"]),
+    );
+    expect(report.capabilityTable.find((row) => row.pin === 21)?.capabilities).toContain(
+      "I2C_SDA",
+    );
 
     const persisted = readBoardReport(projectDir);
     expect(persisted).not.toBeNull();
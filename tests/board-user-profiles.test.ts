@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { resolveBoardProfile } from "../src/boards/index.js";
+import { agentSafePinAudit, pinAuditToSarif } from "../src/tools/agent.js";
+
+const createdDirs: string[] = [];
+
+function makeTempProject(profileFile: string, profileText: string): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-board-profiles-"));
+  createdDirs.push(projectDir);
+  fs.mkdirSync(path.join(projectDir, ".pio-mcp"), { recursive: true });
+  fs.mkdirSync(path.join(projectDir, "src"), { recursive: true });
+  fs.writeFileSync(
+    path.join(projectDir, ".pio-mcp", profileFile),
+    profileText,
+    "utf8",
+  );
+  return projectDir;
+}
+
+const customYaml = `
+# Custom carrier board built on an ESP32-S3 module
+profiles:
+  - key: acme_carrier
+    title: ACME Carrier
+    boardIdPattern: "^acme_"
+    mcuPattern: esp32s3
+    pinProfile:
+      dangerousPins: [0, 21]
+      dangerousPinReason: motor driver enable line
+      saferAlternatives: [4, 5]
+      capabilities:
+        i2c: { sda: 8, scl: 9 }
+`;
+
+describe("user-defined board profiles", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("gives workspace YAML profiles priority over built-ins", () => {
+    const projectDir = makeTempProject("board-profiles.yaml", customYaml);
+
+    const { profile, profileErrors } = resolveBoardProfile({
+      boardId: "acme_s3_carrier",
+      platform: "espressif32",
+      mcu: "ESP32S3",
+      projectDir,
+    });
+
+    expect(profileErrors).toEqual([]);
+    expect(profile?.key).toBe("acme_carrier");
+    expect(profile?.pinProfile.dangerousPins).toEqual([0, 21]);
+    expect(profile?.pinProfile.capabilities?.i2c).toEqual({ sda: 8, scl: 9 });
+    expect(profile?.source).toContain("board-profiles.yaml");
+
+    const builtIn = resolveBoardProfile({ boardId: "esp32dev", projectDir });
+    expect(builtIn.profile?.key).toBe("esp32");
+  });
+
+  it("applies user profiles in the pin audit", async () => {
+    const projectDir = makeTempProject("board-profiles.yaml", customYaml);
+    fs.writeFileSync(
+      path.join(projectDir, "src", "main.cpp"),
+      "void setup() { digitalWrite(21, HIGH); }\n",
+      "utf8",
+    );
+
+    const findings = await agentSafePinAudit(projectDir, "acme_s3_carrier");
+    expect(findings[0]?.pin).toBe(21);
+    expect(findings[0]?.reason).toBe("GPIO21 is a motor driver enable line on ACME Carrier boards.");
+  });
+
+  it("reports validation errors with line context", () => {
+    const projectDir = makeTempProject(
+      "board-profiles.json",
+      [
+        "[",
+        "  {",
+        '    "key": "broken",',
+        '    "title": "Broken",',
+        '    "boardIdPattern": "^broken(",',
+        '    "pinProfile": { "dangerousPins": [true] }',
+        "  }",
+        "]",
+      ].join("\n"),
+    );
+
+    const { profile, profileErrors } = resolveBoardProfile({
+      boardId: "broken_board",
+      projectDir,
+    });
+
+    expect(profile).toBeUndefined();
+    expect(profileErrors.some((e) => /board-profiles\.json:5: 0\.boardIdPattern: Invalid regular expression/.test(e))).toBe(true);
+    expect(profileErrors.some((e) => /:6: 0\.pinProfile\.dangerousPins\.0:/.test(e))).toBe(true);
+  });
+
+  it("reports YAML syntax errors with the offending line", () => {
+    const projectDir = makeTempProject(
+      "board-profiles.yml",
+      "profiles:\n  - key: x\n    title: [unterminated\n",
+    );
+
+    const { profileErrors } = resolveBoardProfile({ boardId: "x", projectDir });
+    expect(profileErrors).toHaveLength(1);
+    expect(profileErrors[0]).toMatch(/board-profiles\.yml:3: Flow sequence .* \(near: title: \[unterminated\)/);
+  });
+
+  it("reports profile load errors in the pin audit without a pin", async () => {
+    const projectDir = makeTempProject("board-profiles.yml", "profiles:\n  - key: x\n    title: [unterminated\n");
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    const error = findings.find((finding) => finding.findingType === "board_profile_error");
+    expect(error).toBeDefined();
+    expect(error).not.toHaveProperty("pin");
+    expect(error?.reason).toContain("board-profiles.yml:3");
+
+    const sarif = pinAuditToSarif(findings, projectDir);
+    expect(sarif.runs[0].results[0].properties).not.toHaveProperty("pin");
+  });
+});
@@ -6,6 +6,8 @@
  *   2. Cache miss → hit → invalidate roundtrip.
  *   3. Hash change when any source file mutates.
  *   4. findFirmwareArtifact() handles missing .pio/build gracefully.
+ *   5. Installed platform/package/library versions and build variables are
+ *      part of the key, and misses explain which of them changed.
  */
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import fs from "node:fs";
@@ -18,6 +20,7 @@ import {
   invalidateBuildCache,
   findFirmwareArtifact,
   readCache,
+  collectBuildInputs,
 } from "../src/utils/build-cache.js";
 
 let tmp: string;
@@ -137,3 +140,124 @@ describe("build-cache", () => {
     expect(after.hit).toBe(false);
   });
 });
+
+describe("build-cache toolchain inputs", () => {
+  const originalEnv = {
+    PLATFORMIO_PLATFORMS_DIR: process.env.PLATFORMIO_PLATFORMS_DIR,
+    PLATFORMIO_PACKAGES_DIR: process.env.PLATFORMIO_PACKAGES_DIR,
+    PLATFORMIO_BUILD_FLAGS: process.env.PLATFORMIO_BUILD_FLAGS,
+    WIFI_SSID: process.env.WIFI_SSID,
+  };
+
+  function writeJson(file: string, value: unknown) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(value));
+  }
+
+  beforeEach(() => {
+    process.env.PLATFORMIO_PLATFORMS_DIR = path.join(tmp, "core", "platforms");
+    process.env.PLATFORMIO_PACKAGES_DIR = path.join(tmp, "core", "packages");
+    delete process.env.PLATFORMIO_BUILD_FLAGS;
+    fs.writeFileSync(
+      path.join(tmp, "platformio.ini"),
+      "[env:dev]\nplatform = platformio/native@^1.2.1\nbuild_flags = -DSSID=${sysenv.WIFI_SSID}\n",
+    );
+    writeJson(path.join(tmp, "core", "platforms", "native", "platform.json"), {
+      name: "native",
+      version: "1.2.1",
+      packages: { "tool-scons": { type: "tool" } },
+    });
+    writeJson(path.join(tmp, "core", "platforms", "espressif32", "platform.json"), {
+      name: "espressif32",
+      version: "6.5.0",
+    });
+    writeJson(path.join(tmp, "core", "packages", "tool-scons", "package.json"), { version: "4.40600.0" });
+    writeJson(path.join(tmp, "core", "packages", "toolchain-xtensa-esp32", "package.json"), { version: "8.4.0" });
+    writeJson(path.join(tmp, ".pio", "libdeps", "dev", "ArduinoJson", ".piopm"), {
+      type: "library",
+      name: "ArduinoJson",
+      version: "6.21.3",
+    });
+    fs.mkdirSync(path.join(tmp, ".pio", "libdeps", "dev", "Bounce2"), { recursive: true });
+    fs.writeFileSync(path.join(tmp, ".pio", "libdeps", "dev", "Bounce2", "library.properties"), "name=Bounce2\nversion=2.71\n");
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it("collects only the versions the environment builds with", () => {
+    process.env.WIFI_SSID = "office";
+    const inputs = collectBuildInputs(tmp, "dev");
+    expect(inputs.platforms).toEqual({ native: "1.2.1" });
+    expect(inputs.packages).toEqual({ "tool-scons": "4.40600.0" });
+    expect(inputs.libraries).toEqual({ "dev/ArduinoJson": "6.21.3", "dev/Bounce2": "2.71" });
+    expect(inputs.envVars.PLATFORMIO_BUILD_FLAGS).toBe("unset");
+    // Values are digested so secrets passed through sysenv never reach the cache file.
+    expect(inputs.envVars.WIFI_SSID).toMatch(/^[0-9a-f]{16}$/);
+    expect(JSON.stringify(inputs)).not.toContain("office");
+  });
+
+  it("misses after platform, package or library upgrades and says why", () => {
+    const cold = lookupBuildCache(tmp, "dev");
+    expect(cold.hit).toBe(false);
+    if (!cold.hit) expect(cold.reason).toBe("No cached build is recorded for this project.");
+
+    writeCache(tmp, {
+      inputsHash: cold.inputsHash,
+      environment: "dev",
+      builtAtMs: Date.now(),
+      finalOutputTail: "ok",
+      inputs: cold.inputs,
+    });
+    expect(lookupBuildCache(tmp, "dev").hit).toBe(true);
+
+    writeJson(path.join(tmp, ".pio", "libdeps", "dev", "ArduinoJson", ".piopm"), {
+      type: "library",
+      name: "ArduinoJson",
+      version: "7.0.4",
+    });
+    writeJson(path.join(tmp, "core", "packages", "tool-scons", "package.json"), { version: "4.40700.0" });
+    const upgraded = lookupBuildCache(tmp, "dev");
+    expect(upgraded.hit).toBe(false);
+    if (!upgraded.hit) {
+      expect(upgraded.reason).toBe(
+        "Package tool-scons changed from 4.40600.0 to 4.40700.0. Library dev/ArduinoJson changed from 6.21.3 to 7.0.4.",
+      );
+    }
+
+    writeJson(path.join(tmp, "core", "platforms", "native", "platform.json"), { name: "native", version: "1.2.2" });
+    const platform = lookupBuildCache(tmp, "dev");
+    if (!platform.hit) expect(platform.reason).toContain("Platform native changed from 1.2.1 to 1.2.2.");
+    expect(platform.hit).toBe(false);
+
+    const otherEnv = lookupBuildCache(tmp, "release");
+    if (!otherEnv.hit) expect(otherEnv.reason).toBe("The cached build is for environment 'dev', not 'release'.");
+  });
+
+  it("misses when a build variable changes", () => {
+    process.env.WIFI_SSID = "office";
+    const miss = lookupBuildCache(tmp, "dev");
+    writeCache(tmp, {
+      inputsHash: miss.inputsHash,
+      environment: "dev",
+      builtAtMs: Date.now(),
+      finalOutputTail: "ok",
+      inputs: miss.inputs,
+    });
+    expect(lookupBuildCache(tmp, "dev").hit).toBe(true);
+
+    process.env.WIFI_SSID = "lab";
+    process.env.PLATFORMIO_BUILD_FLAGS = "-DDEBUG";
+    const after = lookupBuildCache(tmp, "dev");
+    expect(after.hit).toBe(false);
+    if (!after.hit) {
+      expect(after.reason).toBe(
+        "Environment variable PLATFORMIO_BUILD_FLAGS changed. Environment variable WIFI_SSID changed.",
+      );
+    }
+  });
+});
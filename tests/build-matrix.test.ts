@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildMatrix } from "../src/tools/build.js";
+
+const spawnState = vi.hoisted(() => ({ active: 0, peak: 0, nextPid: 20000 }));
+
+vi.mock("../src/platformio.js", () => ({
+  platformioExecutor: {
+    spawn: vi.fn().mockImplementation((_command: string, args: string[], options: any) => {
+      const environment = args[args.indexOf("--environment") + 1];
+      const failed = environment === "broken";
+      const output = failed
+        ? "Compiling .pio/build/broken/src/main.cpp.o\nsrc/main.cpp:3:1: error: 'foo' was not declared in this scope\n[FAILED]\n"
+        : [
+            "src/main.cpp:7:9: warning: unused variable 'x' [-Wunused-variable]",
+            "RAM:   [=         ]  10.0% (used 2048 bytes from 20480 bytes)",
+            "Flash: [==        ]  20.0% (used 4096 bytes from 20480 bytes)",
+            "[SUCCESS]",
+            "",
+          ].join("\n");
+      if (options.stdio && typeof options.stdio[1] === "number") {
+        fs.writeSync(options.stdio[1], output);
+      }
+      spawnState.active += 1;
+      spawnState.peak = Math.max(spawnState.peak, spawnState.active);
+      return {
+        pid: spawnState.nextPid++,
+        on: vi.fn().mockImplementation((event: string, callback: (code: number) => void) => {
+          if (event === "close") {
+            setTimeout(() => {
+              spawnState.active -= 1;
+              callback(failed ? 1 : 0);
+            }, 20);
+          }
+        }),
+      };
+    }),
+    execute: vi.fn(),
+  },
+}));
+
+const createdDirs: string[] = [];
+
+function createProject(): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-matrix-"));
+  createdDirs.push(projectDir);
+  fs.writeFileSync(
+    path.join(projectDir, "platformio.ini"),
+    "[env:esp32dev]\nboard = esp32dev\n\n[env:uno]\nboard = uno\n\n[env:broken]\nboard = uno\n\n[env:nano]\nboard = nanoatmega328\n",
+    "utf8",
+  );
+  fs.mkdirSync(path.join(projectDir, "src"));
+  fs.writeFileSync(path.join(projectDir, "src", "main.cpp"), "void setup() {}\nvoid loop() {}\n", "utf8");
+  return projectDir;
+}
+
+describe("Build matrix", () => {
+  afterEach(() => {
+    spawnState.active = 0;
+    spawnState.peak = 0;
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("builds every environment with bounded parallelism and aggregates the rows", async () => {
+    const projectDir = createProject();
+    const result = await buildMatrix(projectDir, undefined, 2);
+
+    expect(spawnState.peak).toBe(2);
+    expect(result.maxParallel).toBe(2);
+    expect(result.environments.map((row) => [row.environment, row.success])).toEqual([
+      ["esp32dev", true],
+      ["uno", true],
+      ["broken", false],
+      ["nano", true],
+    ]);
+    expect(result).toMatchObject({ success: false, succeeded: 3, failed: 1 });
+
+    const [esp32, , broken] = result.environments;
+    expect(esp32).toMatchObject({
+      ramUsageBytes: 2048,
+      flashUsageBytes: 4096,
+      errorCount: 0,
+      warningCount: 1,
+      projectWarningCount: 1,
+    });
+    expect(esp32.rawLogPath).toBeDefined();
+    expect(broken.errorCount).toBe(1);
+    expect(broken.error).toContain("'foo' was not declared");
+  });
+
+  it("reports unknown environments as failed rows without aborting the others", async () => {
+    const projectDir = createProject();
+    const result = await buildMatrix(projectDir, ["uno", "missing", "uno"], 4);
+
+    expect(result.maxParallel).toBe(2);
+    expect(result.environments).toHaveLength(2);
+    expect(result.environments[0].success).toBe(true);
+    expect(result.environments[1]).toMatchObject({
+      environment: "missing",
+      success: false,
+      error: "Environment 'missing' is not defined in platformio.ini.",
+    });
+
+    await expect(buildMatrix(projectDir, ["bad env"])).rejects.toMatchObject({ code: "BUILD_FAILED" });
+  });
+});
@@ -61,6 +61,39 @@ describe("CLI agent workflow smoke tests", () => {
     expect(payload.some((entry) => entry.severity === "high")).toBe(true);
   });
 
+  it("emits SARIF from agent-safe-pin-audit --format sarif", async () => {
+    const payload = (await runCli(
+      [
+        "agent-safe-pin-audit",
+        "--project-dir",
+        tempProjectDir,
+        "--board",
+        "esp32dev",
+        "--format",
+        "sarif",
+      ],
+      repoRoot,
+    )) as {
+      version: string;
+      runs: Array<{
+        results: Array<{
+          level: string;
+          locations: Array<{
+            physicalLocation: {
+              artifactLocation: { uri: string };
+              region?: { startLine: number };
+            };
+          }>;
+        }>;
+      }>;
+    };
+
+    expect(payload.version).toBe("2.1.0");
+    const result = payload.runs[0].results.find((item) => item.level === "error");
+    expect(result?.locations[0].physicalLocation.artifactLocation.uri).toBe("src/main.cpp");
+    expect(result?.locations[0].physicalLocation.region?.startLine).toBe(3);
+  });
+
   it("retrieves agent-last-report from CLI", async () => {
     const payload = (await runCli(
       [
@@ -0,0 +1,219 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  attachSymbolicatedBacktrace,
+  parseAddr2lineOutput,
+  parseBacktraceAddresses,
+} from "../src/core/diagnostics/backtrace.js";
+import { diagnoseSerialLog } from "../src/core/diagnostics/serial-diagnostics.js";
+import { queryLogs } from "../src/tools/monitor.js";
+import { registerCommand } from "../src/utils/command-registry.js";
+import { findToolchainTool } from "../src/utils/toolchain.js";
+
+const PANIC_LOG = [
+  "Guru Meditation Error: Core  1 panic'ed (LoadProhibited). Exception was unhandled.",
+  "Backtrace: 0x400d1234:0x3ffb1f20 0x400d5678:0x3ffb1f40 0x00000000:0x00000000 |<-CORRUPTED",
+  "Rebooting...",
+].join("\n");
+
+const createdDirs: string[] = [];
+const originalPackagesDir = process.env.PLATFORMIO_PACKAGES_DIR;
+
+function makeTempDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  createdDirs.push(dir);
+  return dir;
+}
+
+// Minimal little-endian ELF32 header; e_machine defaults to EM_XTENSA (94).
+function writeFakeElf(projectDir: string, environment: string, machine = 94): string {
+  const elfPath = path.join(projectDir, ".pio", "build", environment, "firmware.elf");
+  fs.mkdirSync(path.dirname(elfPath), { recursive: true });
+  const header = Buffer.alloc(52);
+  header.write("\x7fELF", 0, "latin1");
+  header[4] = 1;
+  header[5] = 1;
+  header.writeUInt16LE(machine, 18);
+  fs.writeFileSync(elfPath, header);
+  return elfPath;
+}
+
+describe("Panic backtrace symbolication", () => {
+  afterEach(() => {
+    if (originalPackagesDir === undefined) delete process.env.PLATFORMIO_PACKAGES_DIR;
+    else process.env.PLATFORMIO_PACKAGES_DIR = originalPackagesDir;
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("extracts Xtensa PCs and RISC-V registers", () => {
+    expect(parseBacktraceAddresses(PANIC_LOG)).toEqual(["0x400d1234", "0x400d5678"]);
+    expect(
+      parseBacktraceAddresses("MEPC    : 0x42000abc  RA      : 0x42000DEF  SP      : 0x3fc8f000"),
+    ).toEqual(["0x42000abc", "0x42000def"]);
+    expect(parseBacktraceAddresses("Hello world")).toEqual([]);
+    // A boot loop prints one panic per boot; only the latest is decoded.
+    expect(
+      parseBacktraceAddresses(
+        `${PANIC_LOG}\nBacktrace: 0x400d9999:0x3ffb1f20 0x400daaaa:0x3ffb1f40\nRebooting...`,
+      ),
+    ).toEqual(["0x400d9999", "0x400daaaa"]);
+    expect(
+      parseBacktraceAddresses(
+        "MEPC    : 0x42000abc  RA      : 0x42000def\nMEPC    : 0x42000111  RA      : 0x42000222",
+      ),
+    ).toEqual(["0x42000111", "0x42000222"]);
+  });
+
+  it("parses addr2line frames, inlining and unknown symbols", () => {
+    const frames = parseAddr2lineOutput(
+      [
+        "0x400d1234: readSensor() at /work/proj/src/sensor.cpp:42 (discriminator 1)",
+        " (inlined by) loop() at /work/proj/src/main.cpp:17",
+        "0x400d5678: ?? ??:0",
+      ].join("\n"),
+      "/work/proj",
+    );
+
+    expect(frames).toEqual([
+      {
+        address: "0x400d1234",
+        function: "readSensor()",
+        file: "src/sensor.cpp",
+        line: 42,
+        inlinedBy: ["loop() at /work/proj/src/main.cpp:17"],
+      },
+      { address: "0x400d5678" },
+    ]);
+  });
+
+  it.skipIf(process.platform === "win32")(
+    "decodes frames with the matching toolchain addr2line and adds them to the evidence",
+    async () => {
+      const projectDir = makeTempDir("pio-backtrace-project-");
+      const elfPath = writeFakeElf(projectDir, "esp32dev");
+      const packagesDir = makeTempDir("pio-backtrace-packages-");
+      const binDir = path.join(packagesDir, "toolchain-xtensa-esp32", "bin");
+      fs.mkdirSync(binDir, { recursive: true });
+      const addr2line = path.join(binDir, "xtensa-esp32-elf-addr2line");
+      fs.writeFileSync(
+        addr2line,
+        [
+          "#!/bin/sh",
+          `echo "0x400d1234: readSensor() at ${projectDir}/src/sensor.cpp:42"`,
+          `echo "0x400d5678: loop() at ${projectDir}/src/main.cpp:17"`,
+          "",
+        ].join("\n"),
+        { mode: 0o755 },
+      );
+      process.env.PLATFORMIO_PACKAGES_DIR = packagesDir;
+
+      const diagnostic = await attachSymbolicatedBacktrace(
+        diagnoseSerialLog(PANIC_LOG, { projectDir }),
+        PANIC_LOG,
+        { projectDir, environment: "esp32dev" },
+      );
+
+      expect(diagnostic.errorType).toBe("PanicTrace");
+      expect(diagnostic.backtrace).toMatchObject({ elfPath, addr2linePath: addr2line });
+      expect(diagnostic.backtrace?.frames.map((frame) => frame.file)).toEqual([
+        "src/sensor.cpp",
+        "src/main.cpp",
+      ]);
+      expect(diagnostic.evidence).toContain("#0 0x400d1234 readSensor() at src/sensor.cpp:42");
+    },
+  );
+
+  it("picks the Xtensa toolchain of the environment's chip", () => {
+    const projectDir = makeTempDir("pio-backtrace-chip-");
+    fs.writeFileSync(
+      path.join(projectDir, "platformio.ini"),
+      "[env:s3]\nplatform = espressif32\nboard = tinys3\n\n[env:s2]\nplatform = espressif32\nboard = esp32dev\nboard_build.mcu = esp32s2\n",
+    );
+    fs.mkdirSync(path.join(projectDir, "boards"));
+    fs.writeFileSync(path.join(projectDir, "boards", "tinys3.json"), JSON.stringify({ build: { mcu: "esp32s3" } }));
+    const packagesDir = makeTempDir("pio-backtrace-packages-");
+    const addr2line = (chip: string) => {
+      const binDir = path.join(packagesDir, `toolchain-xtensa-${chip}`, "bin");
+      fs.mkdirSync(binDir, { recursive: true });
+      fs.writeFileSync(path.join(binDir, `xtensa-${chip}-elf-addr2line`), "");
+      return path.join(binDir, `xtensa-${chip}-elf-addr2line`);
+    };
+    addr2line("esp32");
+    const s3Tool = addr2line("esp32s3");
+    process.env.PLATFORMIO_PACKAGES_DIR = packagesDir;
+
+    expect(findToolchainTool(projectDir, writeFakeElf(projectDir, "s3"), "addr2line")).toBe(s3Tool);
+    // No ESP32-S2 toolchain is installed; another chip's is not a substitute.
+    expect(findToolchainTool(projectDir, writeFakeElf(projectDir, "s2"), "addr2line")).toBeUndefined();
+  });
+
+  it("does not use another architecture's toolchain", () => {
+    const projectDir = makeTempDir("pio-backtrace-arch-");
+    const packagesDir = makeTempDir("pio-backtrace-packages-");
+    const binDir = path.join(packagesDir, "toolchain-xtensa-esp32", "bin");
+    fs.mkdirSync(binDir, { recursive: true });
+    const xtensaTool = path.join(binDir, "xtensa-esp32-elf-addr2line");
+    fs.writeFileSync(xtensaTool, "");
+    process.env.PLATFORMIO_PACKAGES_DIR = packagesDir;
+
+    // EM_ARM (40): only an arm-none-eabi toolchain can decode it.
+    expect(findToolchainTool(projectDir, writeFakeElf(projectDir, "nucleo", 40), "addr2line")).toBeUndefined();
+    // EM_NONE (0) is an unknown architecture, so any installed toolchain is tried.
+    expect(findToolchainTool(projectDir, writeFakeElf(projectDir, "other", 0), "addr2line")).toBe(xtensaTool);
+  });
+
+  it("keeps raw addresses and explains why when no ELF is available", async () => {
+    const projectDir = makeTempDir("pio-backtrace-empty-");
+
+    const diagnostic = await attachSymbolicatedBacktrace(
+      diagnoseSerialLog(PANIC_LOG, { projectDir }),
+      PANIC_LOG,
+      { projectDir },
+    );
+
+    expect(diagnostic.backtrace?.frames).toEqual([
+      { address: "0x400d1234" },
+      { address: "0x400d5678" },
+    ]);
+    expect(diagnostic.backtrace?.error).toMatch(/No firmware\.elf/);
+    expect(diagnostic.evidence.at(-1)).toMatch(/^Backtrace not symbolicated/);
+  });
+
+  it("decodes query_logs backtraces against the task's environment only", async () => {
+    const projectDir = makeTempDir("pio-backtrace-multi-");
+    writeFakeElf(projectDir, "esp32dev");
+    const s3Elf = writeFakeElf(projectDir, "esp32s3");
+    process.env.PLATFORMIO_PACKAGES_DIR = makeTempDir("pio-backtrace-packages-");
+    const logFile = path.join(projectDir, "monitor.log");
+    fs.writeFileSync(logFile, PANIC_LOG);
+    await registerCommand(
+      {
+        id: "cmd-monitor",
+        commandDesc: "PIO Serial Monitor: /dev/ttyACM0",
+        timestamp: Date.now(),
+        status: "running",
+        tasks: [
+          {
+            taskId: "task-monitor",
+            type: "monitor",
+            status: "running",
+            commandDesc: "pio device monitor --port /dev/ttyACM0 --environment esp32s3",
+            logPaths: [logFile],
+          },
+        ],
+      },
+      projectDir,
+    );
+
+    const byTask = await queryLogs(100, undefined, "cmd-monitor", undefined, projectDir);
+    expect(byTask.diagnostic?.backtrace).toMatchObject({ elfPath: s3Elf });
+
+    const byPath = await queryLogs(100, undefined, undefined, logFile, projectDir);
+    expect(byPath.diagnostic?.backtrace?.elfPath).toBeUndefined();
+    expect(byPath.diagnostic?.backtrace?.error).toMatch(/^Several environments have a firmware\.elf \((esp32dev, esp32s3|esp32s3, esp32dev)\)/);
+  });
+});
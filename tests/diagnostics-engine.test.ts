@@ -37,6 +37,39 @@ describe("Diagnostics Engine", () => {
     expect(result.severity).toBe("critical");
   });
 
+  it("returns ranked, deduplicated findings in multi-finding mode", () => {
+    const log = [
+      "src/main.cpp:1:10: fatal error: Sensor.h: No such file or directory",
+      "main.cpp:(.text+0x1c): undefined reference to `sensor_init'",
+      "main.cpp:(.text+0x1c): undefined reference to `sensor_init'",
+      "region `dram0_0_seg' overflowed by 24 bytes",
+      "collect2: error: ld returned 1 exit status",
+    ].join("\n");
+
+    const result = diagnoseBuildLog(log, { allFindings: true });
+
+    expect(result.errorType).toBe("MemoryOverflow");
+    expect(result.summary).toBe("build failed with MemoryOverflow and 2 other findings.");
+    expect(result.findings?.map((finding) => finding.errorType)).toEqual([
+      "MemoryOverflow",
+      "MissingHeader",
+      "LinkerError",
+    ]);
+    expect(result.findings?.[2]).toMatchObject({
+      occurrences: 3,
+      firstLine: 2,
+      evidence: [
+        "main.cpp:(.text+0x1c): undefined reference to `sensor_init'",
+        "collect2: error: ld returned 1 exit status",
+      ],
+    });
+    expect(diagnoseBuildLog(log).findings).toBeUndefined();
+    expect(diagnoseBuildLog("unrecognised failure", { allFindings: true })).toMatchObject({
+      errorType: "Unknown",
+      findings: [],
+    });
+  });
+
   it("returns Unknown for unmatched failures", () => {
     const result = diagnoseBuildLog("something failed but unknown shape");
     expect(result.success).toBe(false);
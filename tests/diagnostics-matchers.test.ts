@@ -78,6 +78,23 @@ describe("Extended Diagnostic Matchers", () => {
     expect(result.errorType).toBe("BootLoop");
   });
 
+  it("explains BootLoop failures with the decoded reset cause", () => {
+    const result = diagnoseSerialLog(
+      [
+        "rst:0x1 (POWERON_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)",
+        "Brownout detector was triggered",
+        "rst:0xc (SW_CPU_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)",
+      ].join("\n"),
+    );
+    expect(result.errorType).toBe("Brownout");
+    expect(result.bootAnalysis?.likelyCause).toBe("brownout");
+
+    const loop = diagnoseSerialLog(readFixture("boot-loop.log"));
+    expect(loop.summary).toContain("2 boots, most resets caused by software");
+    expect(loop.evidence[1]).toBe("Boot 2 (line 3): SW_CPU_RESET -> software, boot SPI_FAST_FLASH_BOOT");
+    expect(loop.recommendedAction).toContain("esp_restart()");
+  });
+
   it("matches NoSerialOutput runtime failures", () => {
     const result = diagnoseSerialLog("");
     expect(result.errorType).toBe("NoSerialOutput");
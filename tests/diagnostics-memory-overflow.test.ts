@@ -0,0 +1,135 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { diagnoseBuildLog } from "../src/core/diagnostics/build-diagnostics.js";
+import { analyzeMemoryOverflow, parseLinkerMap } from "../src/core/diagnostics/memory-overflow.js";
+
+const FIXTURE_DIR = path.join(process.cwd(), "tests", "__fixtures__", "logs");
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, name), "utf8");
+}
+
+const createdDirs: string[] = [];
+
+describe("Memory overflow diagnostics", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("parses map regions, output sections and split input lines", () => {
+    const map = parseLinkerMap(readFixture("dram-overflow.map"));
+
+    expect(map.regions.map((region) => region.name)).toEqual([
+      "iram0_0_seg",
+      "dram0_0_seg",
+      "drom0_0_seg",
+    ]);
+    expect(map.outputSections.get(".dram0.bss")).toBe(0x3ffb1200);
+    expect(map.inputs).toContainEqual(
+      expect.objectContaining({
+        object: ".pio/build/esp32dev/src/display.cpp.o",
+        section: ".dram0.bss",
+        bytes: 0x25800,
+      }),
+    );
+    expect(map.inputs.some((input) => input.object === "")).toBe(false);
+  });
+
+  it("reports bytes to cut and the largest objects from the linker map", () => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-overflow-"));
+    createdDirs.push(projectDir);
+    const buildDir = path.join(projectDir, ".pio", "build", "esp32dev");
+    fs.mkdirSync(buildDir, { recursive: true });
+    fs.copyFileSync(path.join(FIXTURE_DIR, "dram-overflow.map"), path.join(buildDir, "firmware.map"));
+
+    const result = diagnoseBuildLog(readFixture("dram-overflow.log"), {
+      projectDir,
+      environment: "esp32dev",
+      allFindings: true,
+    });
+
+    expect(result.errorType).toBe("MemoryOverflow");
+    expect(result.memoryOverflow?.regions).toEqual([
+      { region: "dram0_0_seg", overflowBytes: 52344, sections: [".dram0.bss"], source: "linker" },
+    ]);
+    expect(result.memoryOverflow?.mapPath).toBe(path.join(buildDir, "firmware.map"));
+    expect(result.memoryOverflow?.topContributors.slice(0, 4)).toEqual([
+      { object: "src/display.cpp.o", section: ".dram0.bss", region: "dram0_0_seg", bytes: 153600 },
+      { object: "src/audio.cpp.o", section: ".dram0.bss", region: "dram0_0_seg", bytes: 32768 },
+      { object: "libwifi.a(wifi_init.o)", section: ".dram0.bss", region: "dram0_0_seg", bytes: 20480 },
+      { object: "src/main.cpp.o", section: ".dram0.bss", region: "dram0_0_seg", bytes: 17920 },
+    ]);
+    expect(
+      result.memoryOverflow?.topContributors.some((contributor) => contributor.section === ".flash.text"),
+    ).toBe(false);
+    expect(result.recommendedAction).toBe(
+      "Cut at least 52344 bytes from dram0_0_seg; largest contributors: src/display.cpp.o .dram0.bss (153600 bytes), src/audio.cpp.o .dram0.bss (32768 bytes), libwifi.a(wifi_init.o) .dram0.bss (20480 bytes).",
+    );
+    expect(result.findings?.[0].recommendedAction).toBe(result.recommendedAction);
+    expect(result.evidence).toContain("dram0_0_seg overflowed by 52344 bytes (sections .dram0.bss)");
+  });
+
+  it("does not use another environment's linker map", () => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-overflow-"));
+    createdDirs.push(projectDir);
+    const otherDir = path.join(projectDir, ".pio", "build", "esp32-debug");
+    fs.mkdirSync(otherDir, { recursive: true });
+    fs.copyFileSync(path.join(FIXTURE_DIR, "dram-overflow.map"), path.join(otherDir, "firmware.map"));
+
+    const result = diagnoseBuildLog(readFixture("dram-overflow.log"), {
+      projectDir,
+      environment: "esp32dev",
+    });
+
+    expect(result.memoryOverflow?.mapPath).toBeUndefined();
+    expect(result.memoryOverflow?.topContributors).toEqual([]);
+    expect(result.memoryOverflow?.mapNote).toBe(
+      "No firmware.map found in .pio/build/esp32dev/; contributors were not ranked.",
+    );
+    expect(result.evidence).toContain(result.memoryOverflow?.mapNote);
+  });
+
+  it("falls back to the PlatformIO size check when there is no map", () => {
+    const result = diagnoseBuildLog(
+      "Error: The program size (34120 bytes) is greater than maximum allowed (32256 bytes)\n*** [checkprogsize] Explicit exit, status 1",
+      { projectDir: os.tmpdir() },
+    );
+
+    expect(result.errorType).toBe("MemoryOverflow");
+    expect(result.memoryOverflow).toMatchObject({
+      regions: [{ region: "flash", overflowBytes: 1864, source: "size_check" }],
+      totalOverflowBytes: 1864,
+      topContributors: [],
+    });
+    expect(result.recommendedAction).toMatch(/^Cut at least 1864 bytes from flash\. Add `-Wl,-Map/);
+  });
+
+  it("ranks AVR flash contributors placed at address 0 for the size check", () => {
+    const mapText = readFixture("avr-size-check.map");
+    const sizeCheck = analyzeMemoryOverflow(
+      "Error: The program size (34144 bytes) is greater than maximum allowed (32256 bytes)\n*** [checkprogsize] Explicit exit, status 1",
+      { mapText },
+    );
+
+    expect(sizeCheck?.topContributors).toEqual([
+      { object: "src/display.cpp.o", section: ".text", region: "flash", bytes: 24320 },
+      { object: "src/main.cpp.o", section: ".text", region: "flash", bytes: 6144 },
+      { object: "libFrameworkArduino.a(HardwareSerial.cpp.o)", section: ".text", region: "flash", bytes: 3544 },
+      { object: expect.stringMatching(/\/crtatmega328p\.o$/), section: ".text", region: "flash", bytes: 104 },
+      { object: "src/main.cpp.o", section: ".data", region: "flash", bytes: 32 },
+    ]);
+
+    // Debug sections share address 0 with AVR's text region but take no flash.
+    const linker = analyzeMemoryOverflow("avr/bin/ld: region `text' overflowed by 1888 bytes", { mapText });
+    expect(linker?.topContributors.map((contributor) => contributor.section)).toEqual([
+      ".text",
+      ".text",
+      ".text",
+      ".text",
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { diagnoseBuildLog } from "../src/core/diagnostics/build-diagnostics.js";
+import { diagnoseUploadLog } from "../src/core/diagnostics/upload-diagnostics.js";
+import { getDiagnosticsStatus } from "../src/core/diagnostics/status.js";
+
+const createdDirs: string[] = [];
+
+function makeProject(diagnosticsYaml: string): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-diag-workspace-"));
+  createdDirs.push(projectDir);
+  fs.mkdirSync(path.join(projectDir, ".pio-mcp"), { recursive: true });
+  fs.writeFileSync(path.join(projectDir, ".pio-mcp", "diagnostics.yaml"), diagnosticsYaml, "utf8");
+  return projectDir;
+}
+
+describe("Workspace diagnostic matchers", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("runs workspace matchers ahead of the built-ins for their stage", () => {
+    const projectDir = makeProject(
+      [
+        "matchers:",
+        "  - stage: build",
+        '    pattern: "undefined reference to `vendor_hal_"',
+        "    errorType: MissingLibrary",
+        "    recommendedAction: Add the vendor HAL to lib_deps (see docs/vendor-hal.md).",
+        "  - stage: upload",
+        "    pattern: jig relay timeout",
+        "    errorType: DeviceDisconnected",
+        "    severity: warning",
+        "    recommendedAction: Power-cycle the flashing jig.",
+        "    safeToAutoRetry: true",
+        "",
+      ].join("\n"),
+    );
+    const log = "main.cpp:(.text+0x1c): undefined reference to `vendor_hal_init'";
+
+    const withWorkspace = diagnoseBuildLog(log, { projectDir });
+    expect(withWorkspace.errorType).toBe("MissingLibrary");
+    expect(withWorkspace.recommendedAction).toContain("vendor HAL");
+    expect(diagnoseBuildLog(log).errorType).toBe("LinkerError");
+
+    const upload = diagnoseUploadLog("ERROR: Jig relay timeout after 3s", { projectDir });
+    expect(upload).toMatchObject({
+      errorType: "DeviceDisconnected",
+      severity: "warning",
+      safeToAutoRetry: true,
+    });
+    expect(diagnoseBuildLog("ERROR: Jig relay timeout", { projectDir }).errorType).toBe("Unknown");
+  });
+
+  it("skips invalid entries and reports them with line numbers", () => {
+    const projectDir = makeProject(
+      [
+        "matchers:",
+        "  - pattern: brownout on rail",
+        "    errorType: Brownout",
+        "    recommendedAction: Check the 3V3 regulator.",
+        "  - pattern: \"([unclosed\"",
+        "    errorType: PanicTrace",
+        "    recommendedAction: n/a",
+        "  - pattern: anything",
+        "    errorType: NotAType",
+        "    recommendedAction: n/a",
+        "",
+      ].join("\n"),
+    );
+
+    const status = getDiagnosticsStatus(projectDir);
+
+    expect(status.valid).toBe(false);
+    expect(status.source).toContain(path.join(".pio-mcp", "diagnostics.yaml"));
+    expect(status.workspaceMatchers).toEqual([
+      expect.objectContaining({ stage: "any", errorType: "Brownout", pattern: "brownout on rail" }),
+    ]);
+    expect(status.errors).toHaveLength(2);
+    expect(status.errors[0]).toMatch(/diagnostics\.yaml:5: matchers\.1\.pattern: Invalid regular expression/);
+    expect(status.errors[1]).toMatch(/diagnostics\.yaml:9: matchers\.2\.errorType:/);
+    expect(diagnoseBuildLog("Brownout on rail detected", { projectDir }).errorType).toBe("Brownout");
+  });
+
+  it("reports built-in status when the workspace has no diagnostics file", () => {
+    const status = getDiagnosticsStatus(os.tmpdir());
+
+    expect(status.source).toBe("built-in");
+    expect(status.valid).toBe(true);
+    expect(status.builtInMatcherCounts.build).toBeGreaterThan(0);
+    expect(status.workspaceMatchers).toEqual([]);
+  });
+});
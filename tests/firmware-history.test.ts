@@ -0,0 +1,144 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  findLastKnownGoodArtifact,
+  listFirmwareArtifacts,
+  markFirmwareArtifactVerified,
+  recordFirmwareArtifact,
+  resolveCurrentArtifactId,
+  stageFirmwareArtifact,
+} from "../src/core/firmware-history.js";
+import { ARTIFACT_STORE_DIR, storeBuildArtifacts } from "../src/utils/artifact-store.js";
+import { cleanMarkerPath, readCache, writeCache } from "../src/utils/build-cache.js";
+import { cleanProject } from "../src/tools/build.js";
+
+// `pio run -t clean` deletes the build directory and nothing else.
+vi.mock("../src/utils/spooler.js", () => ({
+  executeWithSpooling: vi.fn(async (_command: string, _args: string[], options: { cwd: string }) => {
+    fs.rmSync(path.join(options.cwd, ".pio", "build"), { recursive: true, force: true });
+    return { exitCode: 0, finalOutput: "", fullLogPath: "" };
+  }),
+}));
+
+const createdDirs: string[] = [];
+const storedHashes: string[] = [];
+const originalMaxMb = process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB;
+
+function createProject(): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-history-"));
+  createdDirs.push(projectDir);
+  fs.writeFileSync(path.join(projectDir, "platformio.ini"), "[env:dev]\nplatform = native\n");
+  return projectDir;
+}
+
+function storeBuild(projectDir: string, digit: string, contents: string) {
+  const buildDir = path.join(projectDir, ".pio", "build", "dev");
+  fs.mkdirSync(buildDir, { recursive: true });
+  fs.writeFileSync(path.join(buildDir, "firmware.bin"), contents);
+  const entry = {
+    inputsHash: digit.repeat(64),
+    environment: "dev",
+    builtAtMs: Date.now(),
+    firmwarePath: path.join(buildDir, "firmware.bin"),
+    flashUsageBytes: contents.length,
+    finalOutputTail: "[SUCCESS]\n",
+  };
+  const stored = storeBuildArtifacts(projectDir, "dev", entry);
+  if (!stored) throw new Error("build was not stored");
+  storedHashes.push(entry.inputsHash);
+  return { entry, stored };
+}
+
+describe("Firmware artifact history", () => {
+  beforeEach(() => {
+    delete process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB;
+  });
+
+  afterEach(() => {
+    if (originalMaxMb === undefined) delete process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB;
+    else process.env.PIO_MCP_ARTIFACT_STORE_MAX_MB = originalMaxMb;
+    for (const hash of storedHashes.splice(0)) {
+      fs.rmSync(path.join(ARTIFACT_STORE_DIR, hash), { recursive: true, force: true });
+    }
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("records builds once per cache key and lists them newest first", () => {
+    const projectDir = createProject();
+    const first = storeBuild(projectDir, "c", "first");
+    recordFirmwareArtifact(projectDir, first.stored, "abc1234");
+    const second = storeBuild(projectDir, "d", "second-build");
+    recordFirmwareArtifact(projectDir, second.stored);
+    // Rebuilding the first state moves it to the top instead of duplicating it.
+    recordFirmwareArtifact(projectDir, first.stored, "abc1234");
+
+    const listing = listFirmwareArtifacts(projectDir);
+    expect(listing.artifacts.map((item) => item.id)).toEqual(["cccccccccccc", "dddddddddddd"]);
+    expect(listing.artifacts[0]).toMatchObject({
+      environment: "dev",
+      gitCommit: "abc1234",
+      flashUsageBytes: 5,
+      available: true,
+    });
+    expect(listing.lastKnownGood).toEqual({});
+    expect(listFirmwareArtifacts(projectDir, "other").artifacts).toEqual([]);
+
+    writeCache(projectDir, second.entry);
+    expect(resolveCurrentArtifactId(projectDir)).toBe("dddddddddddd");
+
+    fs.rmSync(path.join(ARTIFACT_STORE_DIR, "c".repeat(64)), { recursive: true, force: true });
+    expect(listFirmwareArtifacts(projectDir, "dev", 1).artifacts).toMatchObject([
+      { id: "cccccccccccc", available: false },
+    ]);
+    expect(() => stageFirmwareArtifact(projectDir, "cccccccccccc")).toThrow(
+      expect.objectContaining({ code: "ARTIFACT_UNAVAILABLE" }),
+    );
+    expect(() => stageFirmwareArtifact(projectDir, "eeeeeeeeeeee")).toThrow(
+      expect.objectContaining({ code: "ARTIFACT_NOT_FOUND" }),
+    );
+  });
+
+  it("finds the last known-good build and stages it for upload", () => {
+    const projectDir = createProject();
+    const good = storeBuild(projectDir, "a", "known-good");
+    recordFirmwareArtifact(projectDir, good.stored, "1111111");
+    markFirmwareArtifactVerified(projectDir, "aaaaaaaaaaaa");
+    const bad = storeBuild(projectDir, "b", "broken");
+    recordFirmwareArtifact(projectDir, bad.stored, "2222222");
+    writeCache(projectDir, bad.entry);
+
+    expect(listFirmwareArtifacts(projectDir).lastKnownGood).toEqual({ dev: "aaaaaaaaaaaa" });
+    const rollback = findLastKnownGoodArtifact(projectDir, "dev", "bbbbbbbbbbbb");
+    expect(rollback).toMatchObject({ id: "aaaaaaaaaaaa", gitCommit: "1111111" });
+    expect(findLastKnownGoodArtifact(projectDir, "dev", "aaaaaaaaaaaa")).toBeUndefined();
+
+    stageFirmwareArtifact(projectDir, rollback!.id);
+    const firmware = path.join(projectDir, ".pio", "build", "dev", "firmware.bin");
+    expect(fs.readFileSync(firmware, "utf8")).toBe("known-good");
+    // The build directory no longer matches the sources, so a later build recompiles.
+    expect(readCache(projectDir)).toBeNull();
+  });
+
+  it("keeps recorded builds flashable after clean_project", async () => {
+    const projectDir = createProject();
+    const good = storeBuild(projectDir, "a", "known-good");
+    recordFirmwareArtifact(projectDir, good.stored, "1111111");
+    markFirmwareArtifactVerified(projectDir, "aaaaaaaaaaaa");
+    writeCache(projectDir, good.entry);
+
+    await cleanProject(projectDir);
+    expect(readCache(projectDir)).toBeNull();
+    // The next build compiles instead of replaying the stored build.
+    expect(fs.existsSync(cleanMarkerPath(projectDir))).toBe(true);
+    expect(listFirmwareArtifacts(projectDir).artifacts).toMatchObject([{ id: "aaaaaaaaaaaa", available: true }]);
+    expect(findLastKnownGoodArtifact(projectDir, "dev")).toMatchObject({ id: "aaaaaaaaaaaa" });
+
+    stageFirmwareArtifact(projectDir, "aaaaaaaaaaaa");
+    const firmware = path.join(projectDir, ".pio", "build", "dev", "firmware.bin");
+    expect(fs.readFileSync(firmware, "utf8")).toBe("known-good");
+  });
+});
@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { libraryOfObject, summarizeFirmwareSize } from "../src/core/firmware-size.js";
+import { firmwareSizeReport } from "../src/tools/build.js";
+
+type FakeSection = { name: string; type: number; flags: number; address: number; size: number };
+type FakeSymbol = { name: string; value: number; size: number; type: number; section: string };
+
+const SECTIONS: FakeSection[] = [
+  { name: ".text", type: 1, flags: 0x6, address: 0x400d0000, size: 0x3000 },
+  { name: ".rodata", type: 1, flags: 0x2, address: 0x3f400000, size: 0x800 },
+  { name: ".data", type: 1, flags: 0x3, address: 0x3ffb0000, size: 0x200 },
+  { name: ".bss", type: 8, flags: 0x3, address: 0x3ffb0200, size: 0x1000 },
+  { name: ".debug_info", type: 1, flags: 0, address: 0, size: 0x9000 },
+];
+
+const SYMBOLS: FakeSymbol[] = [
+  { name: "_Z10drawScreenv", value: 0x400d0000, size: 0x1800, type: 2, section: ".text" },
+  // Alias of drawScreen, e.g. from __attribute__((alias)); listed once.
+  { name: "drawScreen", value: 0x400d0000, size: 0x1800, type: 2, section: ".text" },
+  { name: "loop", value: 0x400d1800, size: 0x200, type: 2, section: ".text" },
+  { name: "frameBuffer", value: 0x3ffb0200, size: 0xc00, type: 1, section: ".bss" },
+  { name: "font_table", value: 0x3f400000, size: 0x600, type: 1, section: ".rodata" },
+  { name: "empty_marker", value: 0x3ffb0000, size: 0, type: 1, section: ".data" },
+];
+
+// Little-endian ELF32 with the given sections plus .symtab/.strtab/.shstrtab.
+function buildElf(sections: FakeSection[], symbols: FakeSymbol[]): Buffer {
+  const names = ["", ...sections.map((section) => section.name), ".symtab", ".strtab", ".shstrtab"];
+  const shstrtab = Buffer.from(`${names.join("\0")}\0`, "latin1");
+  const nameOffset = (name: string) => shstrtab.indexOf(Buffer.from(`\0${name}\0`, "latin1")) + 1;
+  const strtab = Buffer.from(`\0${symbols.map((symbol) => symbol.name).join("\0")}\0`, "latin1");
+  const symtab = Buffer.alloc(16 * (symbols.length + 1));
+  symbols.forEach((symbol, index) => {
+    const base = 16 * (index + 1);
+    symtab.writeUInt32LE(strtab.indexOf(Buffer.from(`\0${symbol.name}\0`, "latin1")) + 1, base);
+    symtab.writeUInt32LE(symbol.value, base + 4);
+    symtab.writeUInt32LE(symbol.size, base + 8);
+    symtab[base + 12] = (1 << 4) | symbol.type;
+    symtab.writeUInt16LE(sections.findIndex((section) => section.name === symbol.section) + 1, base + 14);
+  });
+
+  const symtabOffset = 52;
+  const strtabOffset = symtabOffset + symtab.length;
+  const shstrtabOffset = strtabOffset + strtab.length;
+  const shoff = shstrtabOffset + shstrtab.length;
+  const shnum = sections.length + 4;
+  const header = Buffer.alloc(52);
+  header.writeUInt32BE(0x7f454c46, 0);
+  header[4] = 1;
+  header[5] = 1;
+  header.writeUInt16LE(94, 18);
+  header.writeUInt32LE(shoff, 0x20);
+  header.writeUInt16LE(40, 0x2e);
+  header.writeUInt16LE(shnum, 0x30);
+  header.writeUInt16LE(shnum - 1, 0x32);
+
+  const sectionHeaders = Buffer.alloc(40 * shnum);
+  const writeHeader = (index: number, fields: number[]) =>
+    fields.forEach((value, field) => sectionHeaders.writeUInt32LE(value, index * 40 + field * 4));
+  sections.forEach((section, index) =>
+    writeHeader(index + 1, [nameOffset(section.name), section.type, section.flags, section.address, 0, section.size]),
+  );
+  const symtabIndex = sections.length + 1;
+  writeHeader(symtabIndex, [nameOffset(".symtab"), 2, 0, 0, symtabOffset, symtab.length, symtabIndex + 1, 1, 4, 16]);
+  writeHeader(symtabIndex + 1, [nameOffset(".strtab"), 3, 0, 0, strtabOffset, strtab.length]);
+  writeHeader(symtabIndex + 2, [nameOffset(".shstrtab"), 3, 0, 0, shstrtabOffset, shstrtab.length]);
+
+  return Buffer.concat([header, symtab, strtab, shstrtab, sectionHeaders]);
+}
+
+const MAP_TEXT = [
+  "Memory Configuration",
+  "",
+  "Name             Origin             Length             Attributes",
+  "*default*        0x00000000         0xffffffff",
+  "",
+  "Linker script and memory map",
+  "",
+  ".text           0x400d0000     0x3000",
+  " .text._Z10drawScreenv",
+  "                0x400d0000     0x1800 .pio/build/esp32dev/lib4e3/Adafruit GFX Library/Adafruit_GFX.cpp.o",
+  " .text.loop     0x400d1800      0x200 .pio/build/esp32dev/src/main.cpp.o",
+  " .text          0x400d1a00     0x1600 /home/dev/.platformio/packages/framework-arduinoespressif32/lib/libwifi.a(wifi_init.o)",
+  "",
+  ".data           0x3ffb0000      0x200",
+  " .data          0x3ffb0000      0x200 .pio/build/esp32dev/src/main.cpp.o",
+  "",
+  ".bss            0x3ffb0200     0x1000",
+  " .bss.frameBuffer",
+  "                0x3ffb0200      0xc00 .pio/build/esp32dev/lib4e3/Adafruit GFX Library/Adafruit_GFX.cpp.o",
+  " COMMON         0x3ffb0e00      0x400 .pio/build/esp32dev/src/main.cpp.o",
+  "",
+  ".debug_info     0x00000000     0x9000",
+  " .debug_info    0x00000000     0x9000 .pio/build/esp32dev/src/main.cpp.o",
+].join("\n");
+
+const createdDirs: string[] = [];
+
+describe("Firmware size report", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports allocated sections and the largest symbols from the ELF", () => {
+    const report = summarizeFirmwareSize(buildElf(SECTIONS, SYMBOLS), {
+      environment: "esp32dev",
+      elfPath: "/tmp/firmware.elf",
+      top: 3,
+    });
+
+    expect(report.sections.map((section) => [section.name, section.kind])).toEqual([
+      [".text", "text"],
+      [".bss", "bss"],
+      [".rodata", "rodata"],
+      [".data", "data"],
+    ]);
+    expect(report.totals).toEqual({
+      flashBytes: 0x3000 + 0x800 + 0x200,
+      ramBytes: 0x200 + 0x1000,
+      text: 0x3000,
+      rodata: 0x800,
+      data: 0x200,
+      bss: 0x1000,
+    });
+    expect(report.topSymbols).toEqual([
+      { name: "_Z10drawScreenv", size: 0x1800, type: "function", section: ".text" },
+      { name: "frameBuffer", size: 0xc00, type: "object", section: ".bss" },
+      { name: "font_table", size: 0x600, type: "object", section: ".rodata" },
+    ]);
+    expect(report.objects).toEqual([]);
+    expect(report.notes[0]).toMatch(/No linker map found/);
+  });
+
+  it("attributes map contributions to objects and libraries", () => {
+    const report = summarizeFirmwareSize(buildElf(SECTIONS, SYMBOLS), {
+      environment: "esp32dev",
+      elfPath: "/tmp/firmware.elf",
+      mapText: MAP_TEXT,
+    });
+
+    expect(report.libraries).toEqual([
+      { library: "Adafruit GFX Library", bytes: 0x1800 + 0xc00, objects: 1 },
+      { library: "libwifi.a", bytes: 0x1600, objects: 1 },
+      { library: "src", bytes: 0x200 + 0x200 + 0x400, objects: 1 },
+    ]);
+    expect(report.objects[2]).toEqual({
+      object: "src/main.cpp.o",
+      library: "src",
+      bytes: 0x800,
+      sections: { ".text": 0x200, ".data": 0x200, ".bss": 0x400 },
+    });
+    expect(libraryOfObject("FrameworkArduino/main.cpp.o")).toBe("FrameworkArduino");
+  });
+
+  it("reads the environment's ELF and map and fails clearly before a build", async () => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-size-"));
+    createdDirs.push(projectDir);
+
+    await expect(firmwareSizeReport(projectDir, "esp32dev")).rejects.toMatchObject({
+      code: "FIRMWARE_NOT_FOUND",
+    });
+
+    const buildDir = path.join(projectDir, ".pio", "build", "esp32dev");
+    fs.mkdirSync(buildDir, { recursive: true });
+    fs.writeFileSync(path.join(buildDir, "firmware.elf"), buildElf(SECTIONS, SYMBOLS));
+    fs.writeFileSync(path.join(buildDir, "firmware.map"), MAP_TEXT);
+
+    const report = await firmwareSizeReport(projectDir);
+    expect(report.environment).toBe("esp32dev");
+    expect(report.mapPath).toBe(path.join(buildDir, "firmware.map"));
+    expect(report.libraries[0].library).toBe("Adafruit GFX Library");
+    expect(report.notes).toEqual([]);
+  });
+});
@@ -1,8 +1,20 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { afterEach, describe, expect, it } from "vitest";
-import { agentSafePinAudit } from "../src/tools/agent.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { agentSafePinAudit, pinAuditToSarif } from "../src/tools/agent.js";
+
+// PlatformIO board data for IDs that do not name their chip.
+vi.mock("../src/tools/boards.js", () => ({
+  getBoardInfo: vi.fn(async (boardId: string) => {
+    const boards: Record<string, { platform: string; mcu: string }> = {
+      um_tinys3: { platform: "espressif32", mcu: "ESP32S3" },
+      lolin32: { platform: "espressif32", mcu: "ESP32" },
+    };
+    if (!boards[boardId]) throw new Error(`Unknown board ID '${boardId}'`);
+    return { id: boardId, name: boardId, frameworks: ["arduino"], ...boards[boardId] };
+  }),
+}));
 
 const createdDirs: string[] = [];
 
@@ -39,7 +51,24 @@ describe("agent_safe_pin_audit", () => {
     expect(pin12).toBeDefined();
     expect(pin12?.severity).toBe("high");
     expect(pin12?.reason).toContain("strapping");
+    expect(pin12?.reason).toContain("may break boot or flash stability");
     expect(pin12?.saferAlternatives).toContain(25);
+    expect(pin12).toMatchObject({ file: "src/main.cpp", line: 5, column: 9 });
+  });
+
+  it("orders findings of equal severity by pin number", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      void setup() {
+        pinMode(15, OUTPUT);
+        pinMode(4, OUTPUT);
+        pinMode(2, OUTPUT);
+      }
+      void loop() {}
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    expect(findings.map((item) => item.pin)).toEqual([2, 4, 15]);
   });
 
   it("flags input-only output writes on ESP32 pins", async () => {
@@ -56,4 +85,297 @@ describe("agent_safe_pin_audit", () => {
     expect(pin34).toBeDefined();
     expect(pin34?.severity).toBe("high");
   });
+
+  it("applies RP2040 rules for Pico boards", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      #define SENSOR_PIN 5
+      void setup() {
+        pinMode(23, OUTPUT);
+        digitalWrite(0, HIGH);
+      }
+      void loop() {
+        analogRead(SENSOR_PIN);
+        analogRead(26);
+      }
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "pico");
+
+    const pin23 = findings.find((item) => item.pin === 23);
+    expect(pin23?.severity).toBe("high");
+    expect(pin23?.reason).toContain("RP2040");
+    expect(pin23?.reason).not.toContain("ESP32");
+    expect(pin23?.reason).toContain("may disturb the regulator mode or the VBUS/VSYS readings");
+    expect(pin23?.reason).not.toContain("boot or flash");
+
+    const pin5 = findings.find((item) => item.pin === 5);
+    expect(pin5?.severity).toBe("medium");
+    expect(pin5?.saferAlternatives).toEqual([26, 27, 28, 29]);
+
+    expect(findings.find((item) => item.pin === 0)?.severity).toBe("info");
+    expect(findings.find((item) => item.pin === 26)).toBeUndefined();
+  });
+
+  it("resolves port-style pin names on STM32 boards", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      #define LED_PIN PA5
+      #define SWCLK_PIN PA_14
+      void setup() {
+        pinMode(LED_PIN, OUTPUT);
+        pinMode(SWCLK_PIN, OUTPUT);
+        digitalWrite(PC14, HIGH);
+      }
+      void loop() {}
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "nucleo_f401re");
+
+    const swclk = findings.find((item) => item.pin === "PA14");
+    expect(swclk?.severity).toBe("high");
+    expect(swclk?.reason).toContain("SWD");
+    expect(swclk?.reason).toContain("STM32");
+
+    const lse = findings.find((item) => item.pin === "PC14");
+    expect(lse?.severity).toBe("high");
+    expect(lse?.reason).toContain("crystal");
+
+    expect(findings.find((item) => item.pin === "PA5")).toBeUndefined();
+  });
+
+  it("uses ESP32-S3 strapping and USB pins instead of classic ESP32 rules", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      void setup() {
+        pinMode(12, OUTPUT);
+        pinMode(46, OUTPUT);
+        pinMode(19, OUTPUT);
+      }
+      void loop() {}
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32-s3-devkitc-1");
+
+    expect(findings.find((item) => item.pin === 12)?.severity).not.toBe("high");
+    expect(findings.find((item) => item.pin === 46)?.reason).toContain("ESP32-S3");
+    expect(findings.find((item) => item.pin === 19)?.reason).toContain("USB");
+  });
+
+  it("matches boards whose ID does not name the chip by their MCU", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      void setup() {
+        pinMode(46, OUTPUT);
+        pinMode(12, OUTPUT);
+      }
+      void loop() {}
+    `);
+
+    const tinys3 = await agentSafePinAudit(projectDir, "um_tinys3");
+    expect(tinys3.find((item) => item.pin === 46)?.reason).toContain("ESP32-S3");
+
+    const lolin32 = await agentSafePinAudit(projectDir, "lolin32");
+    expect(lolin32.find((item) => item.pin === 12)?.severity).toBe("high");
+  });
+
+  it("flags ADC2 reads with WiFi and dacWrite on non-DAC pins", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      #include <WiFi.h>
+      void setup() {
+        WiFi.begin("ssid", "pass");
+      }
+      void loop() {
+        analogRead(13);
+        analogRead(33);
+        dacWrite(27, 128);
+        dacWrite(25, 128);
+      }
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+
+    const adc2 = findings.find((item) => item.pin === 13);
+    expect(adc2?.severity).toBe("high");
+    expect(adc2?.reason).toContain("ADC2");
+    expect(adc2?.saferAlternatives).toContain(32);
+
+    expect(findings.find((item) => item.pin === 27)?.reason).toContain("not a DAC pin");
+    expect(findings.find((item) => item.pin === 33)).toBeUndefined();
+    expect(findings.find((item) => item.pin === 25)).toBeUndefined();
+  });
+
+  it("does not flag ADC2 reads when the project does not use WiFi", async () => {
+    const projectDir = makeTempProject(`
+      void loop() { analogRead(13); }
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    expect(findings.find((item) => item.pin === 13)).toBeUndefined();
+  });
+
+  it("audits ESP-IDF driver calls against the board profile", async () => {
+    const projectDir = makeTempProject(`
+      #include "driver/gpio.h"
+      void app_main(void) {
+        gpio_set_direction(GPIO_NUM_35, GPIO_MODE_OUTPUT);
+        gpio_set_level(GPIO_NUM_35, 1);
+      }
+    `);
+    fs.writeFileSync(
+      path.join(projectDir, "platformio.ini"),
+      "[env:esp32dev]\nplatform = espressif32\nboard = esp32dev\nframework = espidf\n",
+      "utf8",
+    );
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    const pin35 = findings.find((item) => item.pin === 35);
+    expect(pin35?.severity).toBe("high");
+    expect(pin35?.reason).toContain("input-only");
+  });
+
+  it("resolves pins from the selected environment's build_flags", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      void setup() {
+        pinMode(STATUS_LED, OUTPUT);
+        digitalWrite(STATUS_LED, HIGH);
+      }
+      void loop() {}
+    `);
+    fs.writeFileSync(
+      path.join(projectDir, "platformio.ini"),
+      [
+        "[env]",
+        "framework = arduino",
+        "",
+        "[env:devkit]",
+        "platform = espressif32",
+        "board = esp32dev",
+        "build_flags = -DSTATUS_LED=25",
+        "",
+        "[env:prototype]",
+        "extends = env:devkit",
+        "build_flags =",
+        "  -D STATUS_LED=12",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+
+    const devkit = await agentSafePinAudit(projectDir, "esp32dev");
+    expect(devkit.find((item) => item.pin === 12)).toBeUndefined();
+
+    const prototype = await agentSafePinAudit(projectDir, "esp32dev", "prototype");
+    expect(prototype.find((item) => item.pin === 12)?.severity).toBe("high");
+  });
+
+  it("reports unresolved pin symbols as info findings", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      #include "board_pins.h"
+      void setup() {
+        digitalWrite(EXTERNAL_PIN, HIGH);
+      }
+      void loop() {}
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    const unresolved = findings.find((item) => item.pin === "EXTERNAL_PIN");
+    expect(unresolved?.severity).toBe("info");
+    expect(unresolved?.reason).toContain("could not be resolved");
+  });
+
+  it("reports pins claimed by more than one owner with each use location", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      #define GPS_RX 16
+      void setup() {
+        Serial2.begin(9600, SERIAL_8N1, GPS_RX, 17);
+        pinMode(GPS_RX, OUTPUT);
+        digitalWrite(GPS_RX, HIGH);
+      }
+      void loop() {}
+    `);
+    fs.writeFileSync(
+      path.join(projectDir, "src", "display.cpp"),
+      "#include <SD.h>\nvoid initStorage() { SD.begin(5); }\n",
+      "utf8",
+    );
+    fs.writeFileSync(
+      path.join(projectDir, "src", "radio.c"),
+      [
+        '#include "driver/spi_master.h"',
+        "spi_device_interface_config_t radio_cfg = {",
+        "  .spics_io_num = 5,",
+        "};",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    const conflicts = findings.filter((item) => item.findingType === "pin_conflict");
+
+    const rx = conflicts.find((item) => item.pin === 16);
+    expect(rx?.severity).toBe("high");
+    expect(rx?.uses).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ file: "src/main.cpp", line: 5, owner: "Serial2" }),
+        expect.objectContaining({ file: "src/main.cpp", line: 7, operation: "digitalWrite" }),
+      ]),
+    );
+
+    const cs = conflicts.find((item) => item.pin === 5);
+    expect(cs?.uses?.map((use) => `${use.file}:${use.line}`)).toEqual([
+      "src/display.cpp:2",
+      "src/radio.c:3",
+    ]);
+    expect(conflicts.find((item) => item.pin === 17)).toBeUndefined();
+  });
+
+  it("does not report manual chip-select toggling as a conflict", async () => {
+    const projectDir = makeTempProject(`
+      #include <SPI.h>
+      const int TFT_CS = 15;
+      void setup() {
+        SPI.begin(14, 12, 13, TFT_CS);
+        pinMode(TFT_CS, OUTPUT);
+        digitalWrite(TFT_CS, LOW);
+      }
+      void loop() {}
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    expect(findings.filter((item) => item.findingType === "pin_conflict")).toEqual([]);
+  });
+
+  it("exports findings as SARIF 2.1.0 with conflict uses as related locations", async () => {
+    const projectDir = makeTempProject(`
+      #include <Arduino.h>
+      void setup() {
+        Wire.begin(21, 22);
+        digitalWrite(21, HIGH);
+      }
+      void loop() {}
+    `);
+
+    const findings = await agentSafePinAudit(projectDir, "esp32dev");
+    const sarif = pinAuditToSarif(findings, projectDir);
+    const run = sarif.runs[0];
+    const conflict = run.results.find((item) => item.ruleId === "pin-audit/pin_conflict");
+
+    expect(sarif.version).toBe("2.1.0");
+    expect(run.originalUriBaseIds?.["%SRCROOT%"].uri).toMatch(/^file:\/\/.*\/$/);
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toContain("pin-audit/pin_conflict");
+    expect(conflict?.level).toBe("error");
+    expect(conflict?.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "src/main.cpp", uriBaseId: "%SRCROOT%" },
+      region: { startLine: 4, startColumn: 9 },
+    });
+    expect(conflict?.relatedLocations?.map((item) => item.physicalLocation.region?.startLine)).toEqual([
+      4, 5,
+    ]);
+  });
 });
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { scanPinUsages } from "../src/core/pin-scan/index.js";
+
+function scan(text: string, frameworks: string[] = []) {
+  return scanPinUsages([{ relPath: "src/main.c", text }], frameworks);
+}
+
+describe("pin usage scanners", () => {
+  it("recognizes ESP-IDF GPIO driver calls and GPIO_NUM_x constants", () => {
+    const usages = scan(`
+      #define BLINK_GPIO GPIO_NUM_5
+      void app_main(void) {
+        gpio_reset_pin(BLINK_GPIO);
+        gpio_set_direction(BLINK_GPIO, GPIO_MODE_OUTPUT);
+        gpio_set_level(GPIO_NUM_34, 1);
+        gpio_get_level(GPIO_NUM_35);
+      }
+    `, ["espidf"]);
+
+    expect(usages).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ pin: 5, operation: "gpio_set_direction", drivesOutput: true }),
+        expect.objectContaining({ pin: 34, operation: "gpio_set_level", drivesOutput: true }),
+        expect.objectContaining({ pin: 35, operation: "gpio_get_level", drivesOutput: false }),
+      ]),
+    );
+  });
+
+  it("expands gpio_config pin_bit_mask and ledc_channel_config gpio_num", () => {
+    const usages = scan(`
+      #define GPIO_OUTPUT_IO_0 18
+      #define GPIO_OUTPUT_PIN_SEL ((1ULL<<GPIO_OUTPUT_IO_0) | (1ULL<<GPIO_NUM_19))
+      void setup_io(void) {
+        gpio_config_t io_conf = {};
+        io_conf.mode = GPIO_MODE_OUTPUT;
+        io_conf.pin_bit_mask = GPIO_OUTPUT_PIN_SEL;
+        gpio_config(&io_conf);
+        io_conf.pin_bit_mask = BIT64(4);
+        io_conf.mode = GPIO_MODE_INPUT;
+        gpio_config(&io_conf);
+
+        ledc_channel_config_t ledc_channel = {
+          .speed_mode = LEDC_LOW_SPEED_MODE,
+          .gpio_num = 21,
+        };
+        ledc_channel_config(&ledc_channel);
+      }
+    `, ["espidf"]);
+
+    const byPin = (pin: number) => usages.filter((item) => item.pin === pin);
+    expect(byPin(18)[0]).toMatchObject({ operation: "gpio_config", drivesOutput: true });
+    expect(byPin(19)[0]).toMatchObject({ operation: "gpio_config", drivesOutput: true });
+    expect(byPin(4)[0]).toMatchObject({ operation: "gpio_config", drivesOutput: false });
+    expect(byPin(21)[0]).toMatchObject({ operation: "ledc_channel_config", drivesOutput: true });
+  });
+
+  it("recognizes Wire.begin and SPI.begin pin arguments", () => {
+    const usages = scan(`
+      #define I2C_SDA 33
+      void setup() {
+        Wire.begin(I2C_SDA, 32);
+        Wire.begin(0x08);
+        SPI.begin(14, 12, 13, 15);
+      }
+    `, ["arduino"]);
+
+    expect(usages.map((item) => [item.pin, item.operation])).toEqual(
+      expect.arrayContaining([
+        [33, "Wire.begin (sda)"],
+        [32, "Wire.begin (scl)"],
+        [14, "SPI.begin (sck)"],
+        [12, "SPI.begin (miso)"],
+        [13, "SPI.begin (mosi)"],
+        [15, "SPI.begin (ss)"],
+      ]),
+    );
+    expect(usages.find((item) => item.pin === 8)).toBeUndefined();
+  });
+
+  it("ignores commented-out calls and non-SPI begin calls", () => {
+    const source = [
+      "SPIClass sensorBus(HSPI);",
+      "/* pinMode(12, OUTPUT);",
+      "   gpio_set_level(GPIO_NUM_4, 1); */",
+      "void setup() {",
+      "  // digitalWrite(13, HIGH);",
+      '  SPIFFS.begin(true, "/spiffs", 10);',
+      "  sensorBus.begin(18, 19, 23, 5); // http://example.com",
+      "}",
+    ].join("\n");
+    const usages = scan(source, ["arduino"]);
+
+    expect(usages.map((item) => [item.pin, item.operation])).toEqual([
+      [18, "sensorBus.begin (sck)"],
+      [19, "sensorBus.begin (miso)"],
+      [23, "sensorBus.begin (mosi)"],
+      [5, "sensorBus.begin (ss)"],
+    ]);
+    expect(usages[0]).toMatchObject({ lineNumber: 7, column: 3, line: "sensorBus.begin(18, 19, 23, 5); // http://example.com" });
+  });
+
+  it("only runs scanners registered for the project framework", () => {
+    const text = "void f() { digitalWrite(5, HIGH); gpio_set_level(GPIO_NUM_4, 1); }";
+    const pins = (frameworks: string[]) => scan(text, frameworks).map((item) => item.pin).sort();
+
+    expect(pins(["espidf"])).toEqual([4]);
+    expect(pins(["arduino"])).toEqual([4, 5]);
+    expect(pins([])).toEqual([4, 5]);
+  });
+
+  it("resolves const, constexpr and enum pin constants", () => {
+    const usages = scan(`
+      static const int LED_PIN = 12;
+      constexpr uint8_t BUTTON_PIN{ 34 };
+      const gpio_num_t RELAY = GPIO_NUM_27;
+      enum Pins { SENSOR_PIN = 32, ALARM_PIN };
+      enum class Bus : uint8_t { Cs = 5 };
+      void setup() {
+        pinMode(LED_PIN, OUTPUT);
+        pinMode(BUTTON_PIN, INPUT);
+        digitalWrite(RELAY, HIGH);
+        analogRead(SENSOR_PIN);
+        digitalWrite(ALARM_PIN, LOW);
+        digitalWrite(static_cast<int>(Bus::Cs), LOW);
+      }
+    `);
+
+    expect(usages.every((item) => item.resolved)).toBe(true);
+    expect(usages.map((item) => item.pin)).toEqual([12, 34, 27, 32, 33, 5]);
+  });
+
+  it("resolves build_flags defines and reports unresolved symbols", () => {
+    const text = "void setup() { digitalWrite(STATUS_LED, HIGH); pinMode(LED_BUILTIN, OUTPUT); }";
+    const usages = scanPinUsages(
+      [{ relPath: "src/main.cpp", text }],
+      ["arduino"],
+      new Map([["STATUS_LED", "GPIO_NUM_2"]]),
+    );
+
+    expect(usages[0]).toMatchObject({ pin: 2, resolved: true });
+    expect(usages[1]).toMatchObject({ pin: "LED_BUILTIN", resolved: false });
+  });
+
+  it("lets build_flags defines win over #ifndef defaults", () => {
+    const text = [
+      "#ifndef LED_PIN",
+      "#define LED_PIN 2",
+      "#endif",
+      "#if !defined(BUTTON_PIN)",
+      "#define BUTTON_PIN 0",
+      "#else",
+      "#define HAS_BUTTON_OVERRIDE 1",
+      "#endif",
+      "void setup() { pinMode(LED_PIN, OUTPUT); pinMode(BUTTON_PIN, INPUT); }",
+    ].join("\n");
+
+    const overridden = scanPinUsages(
+      [{ relPath: "src/main.cpp", text }],
+      ["arduino"],
+      new Map([["LED_PIN", "27"]]),
+    );
+    expect(overridden.map((item) => item.pin)).toEqual([27, 0]);
+
+    const defaults = scanPinUsages([{ relPath: "src/main.cpp", text }], ["arduino"]);
+    expect(defaults.map((item) => item.pin)).toEqual([2, 0]);
+  });
+
+  it("records the owning peripheral for UART pins and skips unassigned ones", () => {
+    const usages = scan(`
+      void setup() {
+        Serial1.begin(115200, SERIAL_8N1, 4, -1);
+        uart_set_pin(UART_NUM_2, 17, 16, UART_PIN_NO_CHANGE, UART_PIN_NO_CHANGE);
+      }
+    `);
+
+    expect(usages.map(({ pin, owner, role, lineNumber }) => ({ pin, owner, role, lineNumber }))).toEqual([
+      { pin: 4, owner: "Serial1", role: "rx", lineNumber: 3 },
+      { pin: 17, owner: "UART_NUM_2", role: "tx", lineNumber: 4 },
+      { pin: 16, owner: "UART_NUM_2", role: "rx", lineNumber: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { agentGeneratePinout, renderPinoutMarkdown } from "../src/tools/agent.js";
+
+const createdDirs: string[] = [];
+
+function makeTempProject(files: Record<string, string>): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-pinout-"));
+  createdDirs.push(projectDir);
+  for (const [relPath, contents] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(projectDir, relPath)), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, relPath), contents, "utf8");
+  }
+  return projectDir;
+}
+
+describe("agent_generate_pinout", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("maps every touched pin with names, roles, locations, capabilities and risks", async () => {
+    const projectDir = makeTempProject({
+      "platformio.ini": "[env:devkit]\nplatform = espressif32\nboard = esp32dev\nframework = arduino\n",
+      "src/main.cpp": [
+        "#include <Arduino.h>",
+        "constexpr int LED_PIN = 12;",
+        "void setup() {",
+        "  pinMode(LED_PIN, OUTPUT);",
+        "  Wire.begin(21, 22);",
+        "  analogRead(34);",
+        "  digitalWrite(BOARD_LED, HIGH);",
+        "}",
+      ].join("\n"),
+    });
+
+    const pinout = await agentGeneratePinout(projectDir);
+
+    expect(pinout.boardId).toBe("esp32dev");
+    expect(pinout.environment).toBe("devkit");
+    expect(pinout.pins.map((entry) => entry.pin)).toEqual([12, 21, 22, 34]);
+
+    const led = pinout.pins.find((entry) => entry.pin === 12);
+    expect(led).toMatchObject({
+      label: "GPIO12",
+      symbols: ["LED_PIN"],
+      direction: "output",
+      roles: ["GPIO"],
+      uses: [{ file: "src/main.cpp", line: 4, column: 3, operation: "pinMode" }],
+    });
+    expect(led?.capabilities).toContain("ADC2_CH5");
+    expect(led?.risks[0]).toMatchObject({ findingType: "board_rule", severity: "high" });
+
+    expect(pinout.pins.find((entry) => entry.pin === 21)?.roles).toEqual(["Wire SDA"]);
+    expect(pinout.pins.find((entry) => entry.pin === 34)?.direction).toBe("input");
+    expect(pinout.unresolved).toEqual([
+      {
+        symbol: "BOARD_LED",
+        uses: [{ file: "src/main.cpp", line: 7, column: 3, operation: "digitalWrite" }],
+      },
+    ]);
+  });
+
+  it("renders the pinout as a Markdown table", async () => {
+    const projectDir = makeTempProject({
+      "src/main.cpp": "void setup() { Serial2.begin(9600, SERIAL_8N1, 16, 17); }\n",
+    });
+
+    const markdown = renderPinoutMarkdown(await agentGeneratePinout(projectDir, "esp32dev"));
+
+    expect(markdown).toContain("# Pinout: esp32dev");
+    expect(markdown).toContain("| Pin | Names | Direction | Roles | Capabilities | Risks | Used at |");
+    expect(markdown).toMatch(/\| GPIO16 \| - \| input \| Serial2 RX \|/);
+    expect(markdown).toContain("src/main.cpp:1 Serial2.begin (tx)");
+  });
+
+  it("fails when no board can be determined", async () => {
+    const projectDir = makeTempProject({ "src/main.cpp": "void setup() {}\n" });
+
+    await expect(agentGeneratePinout(projectDir)).rejects.toThrow("Could not determine the target board");
+  });
+});
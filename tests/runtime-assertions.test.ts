@@ -45,4 +45,83 @@ describe("Runtime Assertions Engine", () => {
     expect(result.matchedExpectations).toEqual([]);
     expect(result.unmatchedExpectations).toEqual(["BOOT_OK"]);
   });
+
+  it("decodes ESP32 boot banners into reset reasons and timing", () => {
+    const result = evaluateRuntimeAssertions({
+      serialOutput: [
+        "12:00:00.000 > rst:0x1 (POWERON_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)",
+        "12:00:00.120 > I (31) boot: ESP-IDF v5.1 2nd stage bootloader",
+        "12:00:02.480 > E (2350) task_wdt: Task watchdog got triggered.",
+        "12:00:02.500 > rst:0xc (SW_CPU_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)",
+        "12:00:04.900 > rst:0x7 (TG0WDT_SYS_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)",
+      ].join("\n"),
+      stabilityWindowSeconds: 3,
+      secondsSinceLastOutput: 1,
+    });
+
+    expect(result.runtimeFailures).toEqual(expect.arrayContaining(["BootLoop", "WatchdogReset"]));
+    expect(result.bootAnalysis).toMatchObject({
+      bootCount: 3,
+      bootLoop: true,
+      likelyCause: "watchdog",
+      resetCauses: { power_on: 1, watchdog: 2 },
+      meanMsBetweenBoots: 2450,
+    });
+    expect(result.bootAnalysis.boots[1]).toEqual({
+      index: 1,
+      line: 4,
+      resetCode: 12,
+      resetReason: "SW_CPU_RESET",
+      resetCause: "watchdog",
+      bootCode: 0x13,
+      bootMode: "SPI_FAST_FLASH_BOOT",
+      msSincePreviousBoot: 2500,
+      timingSource: "host",
+    });
+  });
+
+  it("falls back to device log timestamps and ignores deep-sleep wake-ups", () => {
+    const sleeping = evaluateRuntimeAssertions({
+      serialOutput: "rst:0x5 (DEEPSLEEP_RESET),boot:0x13\nI (812) app: sleeping\nrst:0x5 (DEEPSLEEP_RESET),boot:0x13\n",
+    });
+    expect(sleeping.bootAnalysis.bootLoop).toBe(false);
+    expect(sleeping.runtimeFailures).not.toContain("BootLoop");
+    expect(sleeping.bootAnalysis.boots[1]).toMatchObject({
+      resetCause: "deep_sleep",
+      msSincePreviousBoot: 812,
+      timingSource: "device_log",
+    });
+  });
+
+  it("treats ESP32-S3 DSLEEP wake-ups as deep sleep", () => {
+    const s3Banner = (reset: string) =>
+      [
+        "ESP-ROM:esp32s3-20210327",
+        "Build:Mar 27 2021",
+        `rst:${reset},boot:0x8 (SPI_FAST_FLASH_BOOT)`,
+        "SPIWP:0xee",
+        "mode:DIO, clock div:1",
+        "entry 0x403c98d0",
+        "I (420) app: going to deep sleep",
+      ].join("\n");
+
+    const named = evaluateRuntimeAssertions({
+      serialOutput: [s3Banner("0x1 (POWERON)"), s3Banner("0x5 (DSLEEP)")].join("\n"),
+    });
+    expect(named.bootAnalysis.bootLoop).toBe(false);
+    expect(named.runtimeFailures).not.toContain("BootLoop");
+    expect(named.bootAnalysis.boots.map((boot) => boot.resetCause)).toEqual(["power_on", "deep_sleep"]);
+
+    // Captures that keep only the codes are named after the S3 ROM, not the classic ESP32 one.
+    const codesOnly = evaluateRuntimeAssertions({
+      serialOutput: [s3Banner("0x1"), s3Banner("0x5"), s3Banner("0x15")].join("\n"),
+    });
+    expect(codesOnly.bootAnalysis.boots.map((boot) => boot.resetReason)).toEqual([
+      "POWERON",
+      "DSLEEP",
+      "USB_UART_CHIP_RESET",
+    ]);
+    expect(codesOnly.bootAnalysis.boots[2].resetCause).toBe("external");
+    expect(codesOnly.bootAnalysis.likelyCause).toBe("external");
+  });
 });
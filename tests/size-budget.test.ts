@@ -0,0 +1,189 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  checkSizeBudgets,
+  describeSizeBudgetViolation,
+  getSizeTrend,
+  loadSizeBudgets,
+  parseBuildMemoryUsage,
+  parseEnvironmentMemoryUsage,
+  recordBuildSize,
+  resolveSizeEnvironment,
+} from "../src/core/size-budget.js";
+import { readSizeHistory, writeBoardReport } from "../src/utils/artifacts.js";
+
+const createdDirs: string[] = [];
+
+function createProject(ini: string, budgets?: string): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-size-budget-"));
+  createdDirs.push(projectDir);
+  fs.writeFileSync(path.join(projectDir, "platformio.ini"), ini, "utf8");
+  if (budgets !== undefined) {
+    fs.mkdirSync(path.join(projectDir, ".pio-mcp"));
+    fs.writeFileSync(path.join(projectDir, ".pio-mcp", "size-budgets.yaml"), budgets, "utf8");
+  }
+  return projectDir;
+}
+
+const INI = "[platformio]\ndefault_envs = esp32dev\n\n[env:esp32dev]\nboard = esp32dev\n\n[env:uno]\nboard = uno\n";
+
+describe("Firmware size history and budgets", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("records build sizes per environment and flags growth over the threshold", async () => {
+    const projectDir = createProject(INI);
+    const usage = parseBuildMemoryUsage(
+      [
+        "RAM:   [=         ]  12.1% (used 39720 bytes from 327680 bytes)",
+        "Flash: [===       ]  25.3% (used 331457 bytes from 1310720 bytes)",
+      ].join("\n"),
+    );
+    expect(usage).toEqual({
+      ramUsageBytes: 39720,
+      ramMaxBytes: 327680,
+      flashUsageBytes: 331457,
+      flashMaxBytes: 1310720,
+    });
+
+    const environment = resolveSizeEnvironment(projectDir, "default");
+    expect(environment).toBe("esp32dev");
+    recordBuildSize(projectDir, environment, usage);
+    recordBuildSize(projectDir, environment, { ...usage, flashUsageBytes: 340000 });
+    recordBuildSize(projectDir, environment, { ...usage, flashUsageBytes: 400000, ramUsageBytes: 39800 });
+    recordBuildSize(projectDir, "uno", { flashUsageBytes: 924, ramUsageBytes: 9 });
+    expect(recordBuildSize(projectDir, "uno", {})).toBeUndefined();
+    expect(readSizeHistory(projectDir)).toHaveLength(4);
+
+    const trend = await getSizeTrend(projectDir, { environment: "esp32dev" });
+    expect(trend.thresholdPercent).toBe(5);
+    expect(trend.environments).toHaveLength(1);
+    const [esp32] = trend.environments;
+    expect(esp32.totalBuilds).toBe(3);
+    expect(esp32.change).toEqual({ flashBytes: 400000 - 331457, ramBytes: 80 });
+    expect(esp32.regressions).toEqual([
+      expect.objectContaining({
+        metric: "flash",
+        fromBytes: 340000,
+        toBytes: 400000,
+        deltaBytes: 60000,
+        deltaPercent: 17.65,
+      }),
+    ]);
+    expect(esp32.violations).toEqual([]);
+
+    const strict = await getSizeTrend(projectDir, { thresholdPercent: 1, limit: 2 });
+    expect(strict.environments.map((item) => item.environment)).toEqual(["esp32dev", "uno"]);
+    expect(strict.environments[0].entries).toHaveLength(2);
+    expect(strict.environments[0].regressions).toHaveLength(1);
+  });
+
+  it("attributes sizes only to environments that were actually built", () => {
+    expect(resolveSizeEnvironment(createProject(INI))).toBe("esp32dev");
+    expect(resolveSizeEnvironment(createProject(INI.replace("esp32dev\n\n", "esp32dev, uno\n\n")))).toBeUndefined();
+    expect(resolveSizeEnvironment(createProject("[env:esp32dev]\nboard = esp32dev\n\n[env:uno]\nboard = uno\n"))).toBeUndefined();
+    expect(resolveSizeEnvironment(createProject("[env:uno]\nboard = uno\n"))).toBe("uno");
+
+    const usage = parseEnvironmentMemoryUsage(
+      [
+        "Processing esp32dev (platform: espressif32; board: esp32dev; framework: arduino)",
+        "RAM:   [=         ]  12.1% (used 39720 bytes from 327680 bytes)",
+        "Flash: [===       ]  25.3% (used 331457 bytes from 1310720 bytes)",
+        "Processing native (platform: native)",
+        "Processing uno (platform: atmelavr; board: uno; framework: arduino)",
+        "RAM:   [          ]   0.4% (used 9 bytes from 2048 bytes)",
+        "Flash: [          ]   2.9% (used 924 bytes from 32256 bytes)",
+      ].join("\n"),
+    );
+    expect(Array.from(usage.keys())).toEqual(["esp32dev", "uno"]);
+    expect(usage.get("uno")).toEqual({
+      ramUsageBytes: 9,
+      ramMaxBytes: 2048,
+      flashUsageBytes: 924,
+      flashMaxBytes: 32256,
+    });
+  });
+
+  it("resolves absolute and percentage budgets with environment overrides", async () => {
+    const projectDir = createProject(
+      INI,
+      [
+        "regressionThresholdPercent: 10",
+        "budgets:",
+        "  - flash: 90%",
+        "    ram: 2000",
+        "  - environment: esp32dev",
+        "    ram: 50%",
+      ].join("\n"),
+    );
+    const budgets = loadSizeBudgets(projectDir);
+    expect(budgets.errors).toEqual([]);
+    expect(budgets.regressionThresholdPercent).toBe(10);
+
+    const esp32 = await checkSizeBudgets(projectDir, "esp32dev", {
+      flashUsageBytes: 1200000,
+      flashMaxBytes: 1310720,
+      ramUsageBytes: 170000,
+      ramMaxBytes: 327680,
+    });
+    expect(esp32.violations).toEqual([
+      {
+        environment: "esp32dev",
+        metric: "flash",
+        usedBytes: 1200000,
+        budgetBytes: 1179648,
+        budget: "90%",
+        overByBytes: 20352,
+      },
+      {
+        environment: "esp32dev",
+        metric: "ram",
+        usedBytes: 170000,
+        budgetBytes: 163840,
+        budget: "50%",
+        overByBytes: 6160,
+      },
+    ]);
+    expect(describeSizeBudgetViolation(esp32.violations[0])).toBe(
+      "Flash usage of esp32dev is 1200000 bytes, over its 90% budget (1179648 bytes) by 20352 bytes.",
+    );
+
+    // Without a size summary the capacity comes from the cached board report.
+    writeBoardReport(projectDir, {
+      boardId: "uno",
+      platform: "atmelavr",
+      frameworks: ["arduino"],
+      mcu: "ATMEGA328P",
+      flashBytes: 32256,
+      ramBytes: 2048,
+      dangerousPins: [],
+      inputOnlyPins: [],
+      flashSpiPins: [],
+      capabilityTable: [],
+      recommendedMonitorBaudRate: 9600,
+      generatedAt: new Date().toISOString(),
+    });
+    const uno = await checkSizeBudgets(projectDir, "uno", { flashUsageBytes: 30000, ramUsageBytes: 2010 });
+    expect(uno.errors).toEqual([]);
+    expect(uno.violations.map((violation) => [violation.metric, violation.budgetBytes])).toEqual([
+      ["flash", 29030],
+      ["ram", 2000],
+    ]);
+  });
+
+  it("reports invalid budget files without failing", async () => {
+    const projectDir = createProject(INI, "budgets:\n  - flash: lots\n");
+    const budgets = loadSizeBudgets(projectDir);
+    expect(budgets.budgets).toEqual([]);
+    expect(budgets.errors[0]).toMatch(/size-budgets\.yaml:2/);
+
+    const check = await checkSizeBudgets(projectDir, "esp32dev", { flashUsageBytes: 1 });
+    expect(check.violations).toEqual([]);
+    expect(check.errors).toEqual(budgets.errors);
+  });
+});
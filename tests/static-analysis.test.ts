@@ -0,0 +1,156 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  applyCheckBaseline,
+  checkDefectsToSarif,
+  filterDefectsBySeverity,
+  hasCheckReport,
+  loadCheckBaseline,
+  parseCheckOutput,
+  resolveCheckBaselinePath,
+  writeCheckBaseline,
+} from "../src/core/static-analysis.js";
+
+const createdDirs: string[] = [];
+
+function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-check-"));
+  createdDirs.push(dir);
+  return dir;
+}
+
+const TEXT_OUTPUT = [
+  "Checking esp32dev > cppcheck (platform: espressif32; board: esp32dev; framework: arduino)",
+  "--------------------------------------------------------------------------------",
+  "src/main.cpp:12: [medium:warning] Variable 'x' is assigned a value that is never used. [unreadVariable]",
+  "src/main.cpp:20: [high:error] Array 'buf[4]' accessed at index 4, which is out of bounds. [arrayIndexOutOfBounds]",
+  "src/util.cpp:7: [low:style] The scope of the variable 'i' can be reduced. [variableScope]",
+  "",
+  "Component    HIGH    MEDIUM    LOW",
+  "-----------  ------  --------  -----",
+  "src          1       1         1",
+].join("\n");
+
+describe("Static analysis results", () => {
+  afterEach(() => {
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("parses pio check JSON output with columns and CWE ids", () => {
+    const projectDir = "/work/firmware";
+    const json = JSON.stringify([
+      {
+        env: "esp32dev",
+        tool: "cppcheck",
+        duration: 2.4,
+        succeeded: true,
+        defects: [
+          {
+            severity: "high",
+            category: "error",
+            message: "Array 'buf[4]' accessed at index 4, which is out of bounds.",
+            file: "/work/firmware/src/main.cpp",
+            line: 20,
+            column: 7,
+            callstack: null,
+            id: "arrayIndexOutOfBounds",
+            cwe: 788,
+          },
+        ],
+      },
+    ]);
+
+    const defects = parseCheckOutput(`Tool Manager: tool-cppcheck is already installed\n${json}\n`, projectDir);
+
+    expect(defects).toEqual([
+      {
+        tool: "cppcheck",
+        environment: "esp32dev",
+        severity: "high",
+        category: "error",
+        file: "src/main.cpp",
+        line: 20,
+        column: 7,
+        message: "Array 'buf[4]' accessed at index 4, which is out of bounds.",
+        id: "arrayIndexOutOfBounds",
+        cwe: 788,
+        fingerprint:
+          "cppcheck|arrayIndexOutOfBounds|src/main.cpp|Array 'buf[4]' accessed at index 4, which is out of bounds.",
+      },
+    ]);
+  });
+
+  it("falls back to text defect lines and filters by severity", () => {
+    const defects = parseCheckOutput(TEXT_OUTPUT);
+
+    expect(defects.map((defect) => [defect.tool, defect.severity, defect.id, defect.line])).toEqual([
+      ["cppcheck", "medium", "unreadVariable", 12],
+      ["cppcheck", "high", "arrayIndexOutOfBounds", 20],
+      ["cppcheck", "low", "variableScope", 7],
+    ]);
+    expect(filterDefectsBySeverity(defects, "medium").map((defect) => defect.id)).toEqual([
+      "unreadVariable",
+      "arrayIndexOutOfBounds",
+    ]);
+    expect(hasCheckReport(TEXT_OUTPUT)).toBe(true);
+    // A crashed run prints no report; an empty defect list must not read as clean.
+    expect(parseCheckOutput("Error: Unknown development platform 'espressif33'")).toEqual([]);
+    expect(hasCheckReport("Error: Unknown development platform 'espressif33'")).toBe(false);
+  });
+
+  it("suppresses baselined defects and reports only new ones after lines move", () => {
+    const projectDir = makeTempDir();
+    const baselinePath = resolveCheckBaselinePath(projectDir);
+    writeCheckBaseline(baselinePath, parseCheckOutput(TEXT_OUTPUT));
+
+    expect(baselinePath).toBe(path.join(projectDir, ".pio-mcp", "check-baseline.json"));
+
+    const shifted = parseCheckOutput(
+      TEXT_OUTPUT.replace("src/main.cpp:20:", "src/main.cpp:25:").concat(
+        "\nsrc/main.cpp:40: [high:error] Null pointer dereference: p [nullPointer]",
+      ),
+    );
+    const { newDefects, suppressed } = applyCheckBaseline(shifted, loadCheckBaseline(baselinePath));
+
+    expect(suppressed).toHaveLength(3);
+    expect(newDefects.map((defect) => defect.id)).toEqual(["nullPointer"]);
+    expect(() => resolveCheckBaselinePath(projectDir, "../outside.json")).toThrow(
+      "inside the project directory",
+    );
+  });
+
+  it("exports defects as SARIF", () => {
+    const sarif = checkDefectsToSarif(parseCheckOutput(TEXT_OUTPUT).slice(1, 2), "/work/firmware");
+
+    expect(sarif.runs[0].tool.driver.rules[0].id).toBe("cppcheck/arrayIndexOutOfBounds");
+    expect(sarif.runs[0].results[0]).toMatchObject({
+      ruleId: "cppcheck/arrayIndexOutOfBounds",
+      level: "error",
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/main.cpp", uriBaseId: "%SRCROOT%" },
+            region: { startLine: 20 },
+          },
+        },
+      ],
+      properties: { severity: "high", category: "error" },
+    });
+
+    const [outside] = parseCheckOutput(
+      "/home/dev/.platformio/packages/framework-arduinoespressif32/cores/esp32/Print.h:12: [low:style] Unused function [unusedFunction]",
+      "/work/firmware",
+    );
+    expect(outside.file).toBe("/home/dev/.platformio/packages/framework-arduinoespressif32/cores/esp32/Print.h");
+    expect(checkDefectsToSarif([outside], "/work/firmware").runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: {
+        uri: "file:///home/dev/.platformio/packages/framework-arduinoespressif32/cores/esp32/Print.h",
+      },
+      region: { startLine: 12 },
+    });
+  });
+});
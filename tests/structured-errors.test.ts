@@ -9,6 +9,8 @@
 import { describe, it, expect } from "vitest";
 import {
   parseStructuredBuildErrors,
+  parseStructuredBuildWarnings,
+  summarizeBuildWarnings,
   deriveNextSteps,
 } from "../src/utils/errors.js";
 
@@ -86,3 +88,51 @@ describe("deriveNextSteps", () => {
     expect(steps.join("\n")).toMatch(/environment|platformio\.ini/i);
   });
 });
+
+describe("parseStructuredBuildWarnings", () => {
+  const log = [
+    "Compiling .pio/build/esp32dev/src/main.cpp.o",
+    "src/main.cpp:12:7: warning: unused variable 'count' [-Wunused-variable]",
+    "   12 |   int count = 0;",
+    "In file included from src/main.cpp:3:",
+    "include/config.h:5:9: warning: \"LED_PIN\" redefined",
+    "src/sensor.cpp:40:3: warning: this statement may fall through [-Wimplicit-fallthrough=]",
+    "/projects/demo/src/sensor.cpp:52:10: warning: comparison of integer expressions of different signedness [-Wsign-compare]",
+    ".pio/libdeps/esp32dev/Adafruit GFX Library/Adafruit_GFX.cpp:88:5: warning: unused variable 'tmp' [-Wunused-variable]",
+    "/home/dev/.platformio/packages/framework-arduinoespressif32/cores/esp32/esp32-hal-uart.c:120:1: warning: control reaches end of non-void function [-Wreturn-type]",
+    "Compiling .pio/build/esp32dev/src/other.cpp.o",
+    "include/config.h:5:9: warning: \"LED_PIN\" redefined",
+    "xtensa-esp32-elf/bin/ld: warning: section .rodata overlaps",
+  ].join("\n");
+
+  it("extracts flag, location and origin once per warning", () => {
+    const warnings = parseStructuredBuildWarnings(log, "/projects/demo");
+    expect(warnings).toHaveLength(6);
+    expect(warnings[0]).toEqual({
+      flag: "-Wunused-variable",
+      file: "src/main.cpp",
+      line: 12,
+      column: 7,
+      message: "unused variable 'count'",
+      origin: "project",
+      raw: "src/main.cpp:12:7: warning: unused variable 'count' [-Wunused-variable]",
+    });
+    expect(warnings[1]).toMatchObject({ file: "include/config.h", message: '"LED_PIN" redefined' });
+    expect(warnings[1].flag).toBeUndefined();
+    expect(warnings[3]).toMatchObject({ file: "src/sensor.cpp", origin: "project", flag: "-Wsign-compare" });
+    expect(warnings.slice(4).map((warning) => warning.origin)).toEqual(["library", "library"]);
+  });
+
+  it("groups warnings by file and flag", () => {
+    const summary = summarizeBuildWarnings(parseStructuredBuildWarnings(log, "/projects/demo"));
+    expect(summary).toMatchObject({ total: 6, project: 4, library: 2 });
+    expect(summary.byFile[0]).toEqual({
+      file: "src/sensor.cpp",
+      origin: "project",
+      count: 2,
+      flags: ["-Wimplicit-fallthrough=", "-Wsign-compare"],
+    });
+    expect(summary.byFlag[0]).toEqual({ flag: "-Wunused-variable", count: 2, project: 1, library: 1 });
+    expect(summary.byFlag.find((group) => group.flag === "(none)")?.count).toBe(1);
+  });
+});
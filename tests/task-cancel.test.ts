@@ -0,0 +1,130 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { cancelTaskCore } from "../src/core/tasks.js";
+import { checkTaskStatus } from "../src/tools/build.js";
+import { getCommandHistory, registerCommand, updateTaskStatus } from "../src/utils/command-registry.js";
+
+const createdDirs: string[] = [];
+const spawnedPids: number[] = [];
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  // An orphaned child is killed but may stay a zombie until init reaps it.
+  try {
+    return fs.readFileSync(`/proc/${pid}/stat`, "utf8").split(" ")[2] !== "Z";
+  } catch {
+    return true;
+  }
+}
+
+async function waitForExit(pid: number): Promise<boolean> {
+  for (let i = 0; i < 50 && isAlive(pid); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return !isAlive(pid);
+}
+
+describe("Task cancellation", () => {
+  afterEach(() => {
+    for (const pid of spawnedPids.splice(0)) {
+      try {
+        process.kill(pid, "SIGKILL");
+      } catch {
+        /* already gone */
+      }
+    }
+    for (const dir of createdDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("kills the process tree, marks the task cancelled and keeps the partial log", async () => {
+    const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "pio-cancel-"));
+    createdDirs.push(projectDir);
+    const logFile = path.join(projectDir, "build.log");
+    fs.writeFileSync(logFile, "Compiling .pio/build/dev/src/main.cpp.o\n");
+
+    // A parent that spawns a long-running child, like `pio run` spawning the compiler.
+    const childPidFile = path.join(projectDir, "child.pid");
+    const parent = spawn(
+      process.execPath,
+      [
+        "-e",
+        "const child = require('node:child_process').spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });" +
+          "require('node:fs').writeFileSync(process.argv[1], String(child.pid)); setInterval(() => {}, 1000);",
+        childPidFile,
+      ],
+      { stdio: "ignore" },
+    );
+    spawnedPids.push(parent.pid!);
+    const exited = new Promise<void>((resolve) => parent.on("exit", () => resolve()));
+    for (let i = 0; i < 100 && !fs.existsSync(childPidFile); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const childPid = Number(fs.readFileSync(childPidFile, "utf8"));
+    spawnedPids.push(childPid);
+
+    await registerCommand(
+      {
+        id: "cmd-cancel",
+        commandDesc: "PIO Task: run --environment dev",
+        timestamp: Date.now(),
+        status: "running",
+        tasks: [
+          {
+            taskId: "task-build",
+            type: "build",
+            status: "running",
+            pid: parent.pid,
+            logPaths: [logFile],
+            commandDesc: "pio run --environment dev",
+          },
+        ],
+      },
+      projectDir,
+    );
+
+    const result = await cancelTaskCore({ taskId: "cmd-cancel", projectDir });
+    expect(result).toMatchObject({
+      success: true,
+      taskId: "cmd-cancel",
+      cancelledTasks: [{ taskId: "task-build", type: "build", pid: parent.pid, killed: true, logPaths: [logFile] }],
+    });
+    await exited;
+    expect(await waitForExit(childPid)).toBe(true);
+
+    // The spooler's exit handler reports the killed process afterwards.
+    await updateTaskStatus("cmd-cancel", "task-build", { status: "error", exitCode: 137 }, projectDir);
+    const [command] = getCommandHistory(projectDir);
+    expect(command.status).toBe("cancelled");
+    expect(command.tasks[0]).toMatchObject({ status: "cancelled", exitCode: 137 });
+
+    const log = fs.readFileSync(logFile, "utf8");
+    expect(log).toContain("Compiling .pio/build/dev/src/main.cpp.o");
+    expect(log).toContain("[Cancelled] Task cancelled on request");
+
+    // Polling a cancelled task reports the cancellation instead of diagnosing a build failure.
+    const polled = await checkTaskStatus("cmd-cancel", undefined, projectDir);
+    expect(polled).toMatchObject({ status: "success", targetStatus: "cancelled", taskId: "cmd-cancel" });
+    expect(polled.diagnostic).toBeUndefined();
+    expect(polled.output).toContain("[Cancelled] Task cancelled on request");
+
+    const auditFile = path.join(projectDir, ".pio-mcp-workspace", "audit", "events.jsonl");
+    const events = fs.readFileSync(auditFile, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(events).toMatchObject([{ action: "cancel_task", status: "completed", taskId: "cmd-cancel" }]);
+
+    await expect(cancelTaskCore({ taskId: "cmd-cancel", projectDir })).rejects.toMatchObject({
+      code: "TASK_NOT_RUNNING",
+    });
+    await expect(cancelTaskCore({ taskId: "missing", projectDir })).rejects.toMatchObject({
+      code: "TASK_NOT_FOUND",
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseUnityTestOutput } from "../src/core/diagnostics/test-results.js";
+import { diagnoseTestLog } from "../src/core/diagnostics/test-diagnostics.js";
+
+const FIXTURE_DIR = path.join(process.cwd(), "tests", "__fixtures__", "logs");
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, name), "utf8");
+}
+
+describe("Unity test results", () => {
+  it("parses suites and cases from pio test output", () => {
+    const results = parseUnityTestOutput(readFixture("unity-test.log"));
+
+    expect(results.suites.map((suite) => [suite.environment, suite.name, suite.status])).toEqual([
+      ["native", "test_calculator", "failed"],
+      ["uno", "test_led", "errored"],
+    ]);
+    expect(results.suites[0].durationMs).toBe(1530);
+    expect(results.suites[0].cases).toEqual([
+      {
+        name: "test_addition",
+        suite: "test_calculator",
+        environment: "native",
+        file: "test/test_calculator/test_main.cpp",
+        line: 18,
+        status: "passed",
+      },
+      {
+        name: "test_subtraction",
+        suite: "test_calculator",
+        environment: "native",
+        file: "test/test_calculator/test_main.cpp",
+        line: 23,
+        status: "failed",
+        message: "Expected 12 Was 11",
+      },
+      {
+        name: "test_division",
+        suite: "test_calculator",
+        environment: "native",
+        file: "test/test_calculator/test_main.cpp",
+        line: 30,
+        status: "skipped",
+        message: "Not implemented yet",
+      },
+    ]);
+    expect(results.totals).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1, errored: 0 });
+    expect(results.firstFailure?.name).toBe("test_subtraction");
+  });
+
+  it("parses raw Unity lines with execution times", () => {
+    const results = parseUnityTestOutput(
+      [
+        "test/test_main.c:12:test_blink:PASS (3 ms)",
+        "test/test_main.c:20:test_timer:FAIL: Expected TRUE Was FALSE (15 ms)",
+        "-----------------------",
+        "2 Tests 1 Failures 0 Ignored",
+      ].join("\n"),
+    );
+
+    expect(results.suites).toHaveLength(1);
+    expect(results.suites[0]).toMatchObject({ name: "default", status: "failed" });
+    expect(results.suites[0].cases[0]).toMatchObject({ name: "test_blink", durationMs: 3 });
+    expect(results.firstFailure).toMatchObject({
+      name: "test_timer",
+      line: 20,
+      message: "Expected TRUE Was FALSE",
+      durationMs: 15,
+    });
+  });
+
+  it("classifies assertion, upload and timeout failures", () => {
+    const diagnostic = diagnoseTestLog(readFixture("unity-test.log"), { allFindings: true });
+
+    expect(diagnostic.stage).toBe("test");
+    expect(diagnostic.findings?.map((finding) => finding.errorType)).toEqual([
+      "TestUploadFailed",
+      "TestAssertionFailed",
+    ]);
+    expect(diagnostic.findings?.[1].evidence[0]).toContain("test_subtraction: Expected 12 Was 11");
+    const silentDevice = [
+      "Testing...",
+      "If you don't see any output for the first 10 secs, please reset board (press reset button)",
+      "",
+      "------------------------ esp32dev:test_wifi [ERRORED] Took 612.40 seconds ------------------------",
+    ].join("\n");
+    expect(diagnoseTestLog(silentDevice).errorType).toBe("TestTimeout");
+    // The timeout pattern spans two lines; its evidence is the lines it covers.
+    const timeout = diagnoseTestLog(silentDevice, { allFindings: true });
+    expect(timeout.evidence).toEqual([
+      "If you don't see any output for the first 10 secs, please reset board (press reset button)",
+      "------------------------ esp32dev:test_wifi [ERRORED] Took 612.40 seconds ------------------------",
+    ]);
+    expect(timeout.findings?.[0]).toMatchObject({ errorType: "TestTimeout", occurrences: 2, firstLine: 2 });
+    // Test names and assertion messages mentioning timeouts are not runner timeouts.
+    expect(
+      diagnoseTestLog("test/test_wifi/test_main.cpp:12: test_connect_timeout: connection timed out\t[FAILED]")
+        .errorType,
+    ).toBe("TestAssertionFailed");
+    expect(diagnoseTestLog("test/main.cpp:4:10: fatal error: Foo.h: No such file or directory").errorType).toBe(
+      "MissingHeader",
+    );
+  });
+});
@@ -59,7 +59,7 @@ const { Panel } = Collapse;
 export interface TaskRecord {
   taskId: string; // Unique identifier for the task
   type: "build" | "monitor" | "upload" | "check" | "test" | "debug"; // Classification of the task
-  status: "inactive" | "running" | "success" | "error" | "terminated"; // Current execution status
+  status: "inactive" | "running" | "success" | "error" | "terminated" | "cancelled"; // Current execution status
   logPaths?: string[]; // Array of associated log file paths on disk
   port?: string; // Optional target hardware port for upload/monitor
   pid?: number; // OS process ID of the running task
@@ -73,7 +73,7 @@ export interface CommandRecord {
   id: string; // Unique UUID for the execution
   commandDesc: string; // Plain-text description
   timestamp: number; // Epoch timestamp of initiation
-  status: "running" | "success" | "error" | "terminated"; // Master status reflecting its children
+  status: "running" | "success" | "error" | "terminated" | "cancelled"; // Master status reflecting its children
   tasks: TaskRecord[]; // Array of spawned sub-tasks
   mcpRequest?: any; // Raw JSON payload sent to the MCP Server
   mcpResponse?: any; // Raw JSON payload returned by the MCP Server